@@ -0,0 +1,43 @@
+/**
+ * Claim window migration for eligibility-engine service.
+ *
+ * Records when a claim was submitted and the TOC claim deadline
+ * (journey date + toc_rulepacks.max_claim_days) on each evaluation,
+ * so out-of-window rejections can be explained later.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Forward migration - adds claim window columns to eligibility_evaluations.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.addColumns(
+    { schema: 'eligibility_engine', name: 'eligibility_evaluations' },
+    {
+      claim_submitted_at: {
+        type: 'timestamptz',
+        notNull: false,
+      },
+      claim_deadline: {
+        type: 'date',
+        notNull: false,
+      },
+    }
+  );
+};
+
+/**
+ * Rollback migration - drops claim window columns.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropColumns(
+    { schema: 'eligibility_engine', name: 'eligibility_evaluations' },
+    ['claim_submitted_at', 'claim_deadline']
+  );
+};
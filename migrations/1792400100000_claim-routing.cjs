@@ -0,0 +1,58 @@
+/**
+ * Claim routing migration for eligibility-engine service.
+ *
+ * Adds the rulepack fields needed to tell a passenger where and how to
+ * claim (postal channel, claim portal reference), and stores the routing
+ * block returned with each eligible evaluation.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Forward migration - adds claim routing columns.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.addColumns(
+    { schema: 'eligibility_engine', name: 'toc_rulepacks' },
+    {
+      allows_postal_claims: {
+        type: 'boolean',
+        notNull: true,
+        default: true,
+      },
+      claim_portal_url: {
+        type: 'varchar(255)',
+        notNull: false,
+      },
+    }
+  );
+
+  pgm.addColumns(
+    { schema: 'eligibility_engine', name: 'eligibility_evaluations' },
+    {
+      claim_routing: {
+        type: 'jsonb',
+        notNull: false,
+      },
+    }
+  );
+};
+
+/**
+ * Rollback migration - drops claim routing columns.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropColumns(
+    { schema: 'eligibility_engine', name: 'eligibility_evaluations' },
+    ['claim_routing']
+  );
+  pgm.dropColumns(
+    { schema: 'eligibility_engine', name: 'toc_rulepacks' },
+    ['allows_postal_claims', 'claim_portal_url']
+  );
+};
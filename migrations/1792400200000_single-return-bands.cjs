@@ -0,0 +1,85 @@
+/**
+ * Single/return compensation bands migration for eligibility-engine service.
+ *
+ * Delay Repay pays a different share of the fare for singles and returns in
+ * some bands (60-119 minutes: 100% of a single, 50% of a return). Bands now
+ * carry both percentages; compensation_percentage is kept as the legacy
+ * value and matches return_percentage.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Forward migration - adds and seeds single/return percentages.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.addColumns(
+    { schema: 'eligibility_engine', name: 'compensation_bands' },
+    {
+      single_percentage: {
+        type: 'numeric(5,2)',
+        notNull: false,
+      },
+      return_percentage: {
+        type: 'numeric(5,2)',
+        notNull: false,
+      },
+    }
+  );
+
+  // Existing values are the return-ticket percentages; singles differ in the 60-119 band
+  pgm.sql(`
+    UPDATE eligibility_engine.compensation_bands
+    SET return_percentage = compensation_percentage,
+        single_percentage = CASE
+          WHEN delay_threshold_minutes = 60 THEN 100.00
+          ELSE compensation_percentage
+        END;
+  `);
+
+  pgm.alterColumn(
+    { schema: 'eligibility_engine', name: 'compensation_bands' },
+    'single_percentage',
+    { notNull: true }
+  );
+  pgm.alterColumn(
+    { schema: 'eligibility_engine', name: 'compensation_bands' },
+    'return_percentage',
+    { notNull: true }
+  );
+
+  pgm.addColumns(
+    { schema: 'eligibility_engine', name: 'eligibility_evaluations' },
+    {
+      ticket_format: {
+        type: 'varchar(10)',
+        notNull: false,
+        check: "ticket_format IN ('single', 'return')",
+      },
+      delayed_leg: {
+        type: 'varchar(10)',
+        notNull: false,
+        check: "delayed_leg IN ('outbound', 'return')",
+      },
+    }
+  );
+};
+
+/**
+ * Rollback migration - drops single/return columns.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropColumns(
+    { schema: 'eligibility_engine', name: 'eligibility_evaluations' },
+    ['ticket_format', 'delayed_leg']
+  );
+  pgm.dropColumns(
+    { schema: 'eligibility_engine', name: 'compensation_bands' },
+    ['single_percentage', 'return_percentage']
+  );
+};
@@ -0,0 +1,99 @@
+/**
+ * Effective-dated rules migration for eligibility-engine service.
+ *
+ * toc_rulepacks and compensation_bands gain an effective_from/effective_to
+ * validity period (effective_to is exclusive, NULL means open-ended) so a
+ * TOC changing scheme or a band changing percentage only affects journeys
+ * on or after the change. Several versions of a rulepack or band can now
+ * exist, so the one-row-per-key unique constraints become one row per key
+ * and effective_from.
+ *
+ * eligibility_evaluations.rule_version records which rulepack and band
+ * versions a decision was made under.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const tocRulepacks = { schema: 'eligibility_engine', name: 'toc_rulepacks' };
+const compensationBands = { schema: 'eligibility_engine', name: 'compensation_bands' };
+
+/**
+ * Forward migration - adds validity periods and versioned unique keys.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  for (const table of [tocRulepacks, compensationBands]) {
+    pgm.addColumns(table, {
+      effective_from: {
+        type: 'date',
+        notNull: false,
+      },
+      effective_to: {
+        type: 'date',
+        notNull: false,
+      },
+    });
+
+    // Existing rows have always applied
+    pgm.sql(`UPDATE eligibility_engine.${table.name} SET effective_from = DATE '1970-01-01';`);
+
+    pgm.alterColumn(table, 'effective_from', { notNull: true });
+
+    pgm.addConstraint(table, `chk_${table.name}_effective_period`, {
+      check: 'effective_to IS NULL OR effective_to > effective_from',
+    });
+  }
+
+  // One rulepack version per TOC per effective_from
+  pgm.dropConstraint(tocRulepacks, 'toc_rulepacks_toc_code_key');
+  pgm.addConstraint(tocRulepacks, 'uq_toc_rulepacks_toc_code_effective_from', {
+    unique: ['toc_code', 'effective_from'],
+  });
+
+  // One band version per scheme threshold per effective_from
+  pgm.dropConstraint(compensationBands, 'uq_compensation_bands_scheme_threshold');
+  pgm.addConstraint(compensationBands, 'uq_compensation_bands_scheme_threshold_effective_from', {
+    unique: ['scheme_type', 'delay_threshold_minutes', 'effective_from'],
+  });
+
+  pgm.addColumns(
+    { schema: 'eligibility_engine', name: 'eligibility_evaluations' },
+    {
+      rule_version: {
+        type: 'jsonb',
+        notNull: false,
+      },
+    }
+  );
+};
+
+/**
+ * Rollback migration - drops validity periods.
+ * Fails if a TOC or band has more than one version; remove the extra
+ * versions before rolling back.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropColumns(
+    { schema: 'eligibility_engine', name: 'eligibility_evaluations' },
+    ['rule_version']
+  );
+
+  pgm.dropConstraint(compensationBands, 'uq_compensation_bands_scheme_threshold_effective_from');
+  pgm.addConstraint(compensationBands, 'uq_compensation_bands_scheme_threshold', {
+    unique: ['scheme_type', 'delay_threshold_minutes'],
+  });
+
+  pgm.dropConstraint(tocRulepacks, 'uq_toc_rulepacks_toc_code_effective_from');
+  pgm.addConstraint(tocRulepacks, 'toc_rulepacks_toc_code_key', {
+    unique: ['toc_code'],
+  });
+
+  for (const table of [tocRulepacks, compensationBands]) {
+    pgm.dropConstraint(table, `chk_${table.name}_effective_period`);
+    pgm.dropColumns(table, ['effective_from', 'effective_to']);
+  }
+};
@@ -0,0 +1,142 @@
+/**
+ * Scheme catalogue migration for eligibility-engine service.
+ *
+ * Compensation schemes were hard-coded as DR15/DR30 in CHECK constraints and
+ * in code. The schemes table now defines each scheme (name and minimum
+ * threshold); its bands are the compensation_bands rows for that scheme.
+ * Adding a scheme is a data change.
+ *
+ * compensation_bands rows with a toc_code are per-TOC overrides layered on
+ * top of the scheme's bands: an override replaces the scheme band at the
+ * same threshold or adds a new one (e.g. a 2-minute band).
+ *
+ * eligibility_evaluations.scheme keeps its value as a historic record and
+ * is not tied to the catalogue.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const schemes = { schema: 'eligibility_engine', name: 'schemes' };
+const tocRulepacks = { schema: 'eligibility_engine', name: 'toc_rulepacks' };
+const compensationBands = { schema: 'eligibility_engine', name: 'compensation_bands' };
+const evaluations = { schema: 'eligibility_engine', name: 'eligibility_evaluations' };
+
+/**
+ * Forward migration - creates the scheme catalogue and TOC band overrides.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.createTable(schemes, {
+    scheme_code: {
+      type: 'varchar(10)',
+      primaryKey: true,
+    },
+    scheme_name: {
+      type: 'varchar(100)',
+      notNull: true,
+    },
+    min_threshold_minutes: {
+      type: 'integer',
+      notNull: true,
+      check: 'min_threshold_minutes >= 0',
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('CURRENT_TIMESTAMP'),
+    },
+    updated_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('CURRENT_TIMESTAMP'),
+    },
+  });
+
+  pgm.sql(`
+    CREATE TRIGGER schemes_updated_at
+    BEFORE UPDATE ON eligibility_engine.schemes
+    FOR EACH ROW
+    EXECUTE FUNCTION eligibility_engine.update_updated_at_column();
+  `);
+
+  pgm.sql(`
+    INSERT INTO eligibility_engine.schemes (scheme_code, scheme_name, min_threshold_minutes)
+    VALUES
+      ('DR15', 'Delay Repay 15', 15),
+      ('DR30', 'Delay Repay 30', 30);
+  `);
+
+  // Scheme codes are now validated against the catalogue
+  pgm.dropConstraint(tocRulepacks, 'toc_rulepacks_scheme_check');
+  pgm.addConstraint(tocRulepacks, 'fk_toc_rulepacks_scheme', {
+    foreignKeys: {
+      columns: 'scheme',
+      references: { schema: 'eligibility_engine', name: 'schemes' },
+    },
+  });
+
+  pgm.dropConstraint(compensationBands, 'compensation_bands_scheme_type_check');
+  pgm.addConstraint(compensationBands, 'fk_compensation_bands_scheme', {
+    foreignKeys: {
+      columns: 'scheme_type',
+      references: { schema: 'eligibility_engine', name: 'schemes' },
+    },
+  });
+
+  pgm.dropConstraint(evaluations, 'eligibility_evaluations_scheme_check');
+
+  // Per-TOC band overrides
+  pgm.addColumns(compensationBands, {
+    toc_code: {
+      type: 'varchar(10)',
+      notNull: false,
+    },
+  });
+
+  pgm.dropConstraint(compensationBands, 'uq_compensation_bands_scheme_threshold_effective_from');
+  pgm.sql(`
+    CREATE UNIQUE INDEX uq_compensation_bands_version
+    ON eligibility_engine.compensation_bands
+      (scheme_type, COALESCE(toc_code, ''), delay_threshold_minutes, effective_from);
+  `);
+
+  pgm.createIndex(compensationBands, 'toc_code', {
+    name: 'idx_compensation_bands_toc_code',
+    where: 'toc_code IS NOT NULL',
+  });
+};
+
+/**
+ * Rollback migration - drops the scheme catalogue and TOC band overrides.
+ * Fails if any rulepack or band uses a scheme other than DR15/DR30.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.sql('DELETE FROM eligibility_engine.compensation_bands WHERE toc_code IS NOT NULL;');
+
+  pgm.dropIndex(compensationBands, 'toc_code', { name: 'idx_compensation_bands_toc_code' });
+  pgm.sql('DROP INDEX eligibility_engine.uq_compensation_bands_version;');
+  pgm.dropColumns(compensationBands, ['toc_code']);
+  pgm.addConstraint(compensationBands, 'uq_compensation_bands_scheme_threshold_effective_from', {
+    unique: ['scheme_type', 'delay_threshold_minutes', 'effective_from'],
+  });
+
+  pgm.addConstraint(evaluations, 'eligibility_evaluations_scheme_check', {
+    check: "scheme IN ('DR15', 'DR30')",
+  });
+
+  pgm.dropConstraint(compensationBands, 'fk_compensation_bands_scheme');
+  pgm.addConstraint(compensationBands, 'compensation_bands_scheme_type_check', {
+    check: "scheme_type IN ('DR15', 'DR30')",
+  });
+
+  pgm.dropConstraint(tocRulepacks, 'fk_toc_rulepacks_scheme');
+  pgm.addConstraint(tocRulepacks, 'toc_rulepacks_scheme_check', {
+    check: "scheme IN ('DR15', 'DR30')",
+  });
+
+  pgm.dropTable(schemes);
+};
@@ -0,0 +1,89 @@
+/**
+ * Evaluation versions migration for eligibility-engine service.
+ *
+ * A journey can now be re-evaluated (passenger appeal, corrected fare).
+ * Each re-evaluation inserts a new version and marks the previous one
+ * superseded, so eligibility_evaluations.journey_id is no longer unique:
+ * exactly one version per journey is current (superseded_at IS NULL).
+ *
+ * evaluation_request keeps the inputs each version was evaluated from so a
+ * re-evaluation can start from them and apply corrections.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const evaluations = { schema: 'eligibility_engine', name: 'eligibility_evaluations' };
+
+/**
+ * Forward migration - adds versioning to eligibility_evaluations.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.addColumns(evaluations, {
+    version: {
+      type: 'integer',
+      notNull: true,
+      default: 1,
+    },
+    evaluation_request: {
+      type: 'jsonb',
+      notNull: false,
+    },
+    supersedes_evaluation_id: {
+      type: 'uuid',
+      notNull: false,
+    },
+    superseded_by: {
+      type: 'uuid',
+      notNull: false,
+    },
+    superseded_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+    reevaluation_reason: {
+      type: 'text',
+      notNull: false,
+    },
+  });
+
+  pgm.dropConstraint(evaluations, 'eligibility_evaluations_journey_id_key');
+
+  pgm.addConstraint(evaluations, 'uq_eligibility_evaluations_journey_version', {
+    unique: ['journey_id', 'version'],
+  });
+
+  // One current version per journey
+  pgm.createIndex(evaluations, 'journey_id', {
+    name: 'uq_eligibility_evaluations_current',
+    unique: true,
+    where: 'superseded_at IS NULL',
+  });
+};
+
+/**
+ * Rollback migration - removes versioning.
+ * Superseded versions are deleted so journey_id can be unique again.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.sql('DELETE FROM eligibility_engine.eligibility_evaluations WHERE superseded_at IS NOT NULL;');
+
+  pgm.dropIndex(evaluations, 'journey_id', { name: 'uq_eligibility_evaluations_current' });
+  pgm.dropConstraint(evaluations, 'uq_eligibility_evaluations_journey_version');
+  pgm.addConstraint(evaluations, 'eligibility_evaluations_journey_id_key', {
+    unique: ['journey_id'],
+  });
+
+  pgm.dropColumns(evaluations, [
+    'version',
+    'evaluation_request',
+    'supersedes_evaluation_id',
+    'superseded_by',
+    'superseded_at',
+    'reevaluation_reason',
+  ]);
+};
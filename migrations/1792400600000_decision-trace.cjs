@@ -0,0 +1,36 @@
+/**
+ * Decision trace migration for eligibility-engine service.
+ *
+ * Stores the ordered steps each evaluation ran through (TOC lookup, delay,
+ * claim window, band choice, special rules, compensation) so support can
+ * explain a disputed result via GET /eligibility/:journey_id/explain.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const evaluations = { schema: 'eligibility_engine', name: 'eligibility_evaluations' };
+
+/**
+ * Forward migration - adds decision_trace to eligibility_evaluations.
+ * Existing evaluations keep a NULL trace.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.addColumns(evaluations, {
+    decision_trace: {
+      type: 'jsonb',
+      notNull: false,
+    },
+  });
+};
+
+/**
+ * Rollback migration - removes decision_trace.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropColumns(evaluations, ['decision_trace']);
+};
@@ -0,0 +1,54 @@
+/**
+ * Station distances migration for eligibility-engine service.
+ *
+ * Distance in miles between pairs of stations (CRS codes), used to split a
+ * through fare across multi-TOC segments by mileage when the caller does not
+ * know each operator's share. Each pair is stored once; lookups match it in
+ * either direction.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const stationDistances = { schema: 'eligibility_engine', name: 'station_distances' };
+
+/**
+ * Forward migration - creates station_distances.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.createTable(stationDistances, {
+    from_crs: {
+      type: 'char(3)',
+      notNull: true,
+    },
+    to_crs: {
+      type: 'char(3)',
+      notNull: true,
+    },
+    miles: {
+      type: 'numeric(7,2)',
+      notNull: true,
+      check: 'miles > 0',
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('CURRENT_TIMESTAMP'),
+    },
+  });
+
+  pgm.addConstraint(stationDistances, 'pk_station_distances', {
+    primaryKey: ['from_crs', 'to_crs'],
+  });
+};
+
+/**
+ * Rollback migration - drops station_distances.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropTable(stationDistances);
+};
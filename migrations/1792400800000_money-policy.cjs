@@ -0,0 +1,61 @@
+/**
+ * Money policy migration for eligibility-engine service.
+ *
+ * Each scheme sets how compensation is rounded to whole pence (floor,
+ * half_up, half_even) and the smallest payout it will make. A TOC rulepack
+ * can override either; NULL means the scheme's policy applies. Existing
+ * schemes keep rounding down with no minimum.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const schemes = { schema: 'eligibility_engine', name: 'schemes' };
+const tocRulepacks = { schema: 'eligibility_engine', name: 'toc_rulepacks' };
+
+const ROUNDING_MODE_CHECK = "rounding_mode IN ('floor', 'half_up', 'half_even')";
+
+/**
+ * Forward migration - adds rounding mode and minimum payout to schemes and rulepacks.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.addColumns(schemes, {
+    rounding_mode: {
+      type: 'varchar(10)',
+      notNull: true,
+      default: 'floor',
+      check: ROUNDING_MODE_CHECK,
+    },
+    minimum_payout_pence: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      check: 'minimum_payout_pence >= 0',
+    },
+  });
+
+  pgm.addColumns(tocRulepacks, {
+    rounding_mode: {
+      type: 'varchar(10)',
+      notNull: false,
+      check: ROUNDING_MODE_CHECK,
+    },
+    minimum_payout_pence: {
+      type: 'integer',
+      notNull: false,
+      check: 'minimum_payout_pence >= 0',
+    },
+  });
+};
+
+/**
+ * Rollback migration - removes the money policy columns.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropColumns(tocRulepacks, ['rounding_mode', 'minimum_payout_pence']);
+  pgm.dropColumns(schemes, ['rounding_mode', 'minimum_payout_pence']);
+};
@@ -0,0 +1,46 @@
+/**
+ * Season ticket divisors migration for eligibility-engine service.
+ *
+ * Season tickets are paid on a per-journey value: the season price divided
+ * by the journeys the ticket covers. season_ticket_divisors sets those
+ * journey counts for a scheme, e.g. {"weekly": 10, "monthly": 40,
+ * "annual": 464, "flexi_journeys_per_day": 2}; a TOC rulepack can override
+ * them. NULL (the default) uses the service's standard divisors.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const schemes = { schema: 'eligibility_engine', name: 'schemes' };
+const tocRulepacks = { schema: 'eligibility_engine', name: 'toc_rulepacks' };
+
+/**
+ * Forward migration - adds season_ticket_divisors to schemes and rulepacks.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.addColumns(schemes, {
+    season_ticket_divisors: {
+      type: 'jsonb',
+      notNull: false,
+    },
+  });
+
+  pgm.addColumns(tocRulepacks, {
+    season_ticket_divisors: {
+      type: 'jsonb',
+      notNull: false,
+    },
+  });
+};
+
+/**
+ * Rollback migration - removes season_ticket_divisors.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropColumns(tocRulepacks, ['season_ticket_divisors']);
+  pgm.dropColumns(schemes, ['season_ticket_divisors']);
+};
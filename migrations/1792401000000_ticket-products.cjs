@@ -0,0 +1,80 @@
+/**
+ * Ticket products migration for eligibility-engine service.
+ *
+ * Valuation rules for Rover, Ranger and other multi-day or unlimited-travel
+ * products. Delay Repay on these pays a percentage of one day's or one
+ * journey's value rather than the whole fare; some products are excluded from
+ * Delay Repay altogether, with the reason recorded here. Rules are
+ * effective-dated like the other reference tables.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const ticketProducts = { schema: 'eligibility_engine', name: 'ticket_products' };
+
+/**
+ * Forward migration - creates ticket_products.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.createTable(ticketProducts, {
+    product_code: {
+      type: 'varchar(20)',
+      notNull: true,
+    },
+    product_name: {
+      type: 'varchar(100)',
+      notNull: true,
+    },
+    valuation_basis: {
+      type: 'varchar(20)',
+      notNull: true,
+      check: "valuation_basis IN ('per_day', 'per_journey', 'excluded')",
+    },
+    travel_days: {
+      type: 'int',
+      check: 'travel_days > 0',
+    },
+    journeys_per_day: {
+      type: 'int',
+      check: 'journeys_per_day > 0',
+    },
+    exclusion_reason: {
+      type: 'text',
+    },
+    effective_from: {
+      type: 'date',
+      notNull: true,
+    },
+    effective_to: {
+      type: 'date',
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('CURRENT_TIMESTAMP'),
+    },
+  });
+
+  pgm.addConstraint(ticketProducts, 'pk_ticket_products', {
+    primaryKey: ['product_code', 'effective_from'],
+  });
+
+  // Valued products need their divisor; excluded products need none
+  pgm.addConstraint(ticketProducts, 'chk_ticket_products_divisor', {
+    check: `valuation_basis = 'excluded'
+      OR (valuation_basis = 'per_day' AND travel_days IS NOT NULL)
+      OR (valuation_basis = 'per_journey' AND travel_days IS NOT NULL AND journeys_per_day IS NOT NULL)`,
+  });
+};
+
+/**
+ * Rollback migration - drops ticket_products.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropTable(ticketProducts);
+};
@@ -0,0 +1,45 @@
+/**
+ * Fare component policy migration for eligibility-engine service.
+ *
+ * An itemised fare is paid only on its compensable components.
+ * fare_component_policy says which component types count for a scheme, e.g.
+ * {"reservation": "compensable", "plusbus": "excluded"}; a TOC rulepack can
+ * override it. NULL (the default) compensates the rail fare only.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const schemes = { schema: 'eligibility_engine', name: 'schemes' };
+const tocRulepacks = { schema: 'eligibility_engine', name: 'toc_rulepacks' };
+
+/**
+ * Forward migration - adds fare_component_policy to schemes and rulepacks.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.addColumns(schemes, {
+    fare_component_policy: {
+      type: 'jsonb',
+      notNull: false,
+    },
+  });
+
+  pgm.addColumns(tocRulepacks, {
+    fare_component_policy: {
+      type: 'jsonb',
+      notNull: false,
+    },
+  });
+};
+
+/**
+ * Rollback migration - removes fare_component_policy.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropColumns(tocRulepacks, ['fare_component_policy']);
+  pgm.dropColumns(schemes, ['fare_component_policy']);
+};
@@ -0,0 +1,45 @@
+/**
+ * Outbox relay migration for eligibility-engine service.
+ *
+ * The outbox relay claims unpublished rows, publishes them and stamps
+ * published_at. attempts counts publish attempts (including the successful
+ * one); a failed attempt records last_error and holds the row back until
+ * next_attempt_at, together with every later row for the same aggregate.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const outbox = { schema: 'eligibility_engine', name: 'outbox' };
+
+/**
+ * Forward migration - adds relay bookkeeping to outbox.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.addColumns(outbox, {
+    attempts: {
+      type: 'int',
+      notNull: true,
+      default: 0,
+    },
+    next_attempt_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+    last_error: {
+      type: 'text',
+      notNull: false,
+    },
+  });
+};
+
+/**
+ * Rollback migration - removes relay bookkeeping from outbox.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropColumns(outbox, ['attempts', 'next_attempt_at', 'last_error']);
+};
@@ -0,0 +1,101 @@
+/**
+ * Dead letters migration for eligibility-engine service.
+ *
+ * Consumed events that could not be handled: messages that fail validation
+ * and events whose handler still failed after its retries. The message is
+ * kept exactly as it arrived, with where it came from, the last error and
+ * how many attempts were made, so an operator can replay it once the data
+ * or rules are fixed. A message is dead-lettered once per topic, partition
+ * and offset; a redelivered duplicate adds to the existing row.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const deadLetters = { schema: 'eligibility_engine', name: 'dead_letters' };
+
+/**
+ * Forward migration - creates dead_letters.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.createTable(deadLetters, {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    topic: {
+      type: 'varchar(255)',
+      notNull: true,
+    },
+    partition: {
+      type: 'int',
+      notNull: true,
+    },
+    message_offset: {
+      type: 'varchar(30)',
+      notNull: true,
+    },
+    message_key: {
+      type: 'text',
+    },
+    event_id: {
+      type: 'varchar(255)',
+    },
+    event_type: {
+      type: 'varchar(100)',
+    },
+    journey_id: {
+      type: 'varchar(255)',
+    },
+    payload: {
+      type: 'text',
+      notNull: true,
+    },
+    error: {
+      type: 'text',
+      notNull: true,
+    },
+    attempts: {
+      type: 'int',
+      notNull: true,
+      check: 'attempts > 0',
+    },
+    status: {
+      type: 'varchar(20)',
+      notNull: true,
+      default: 'pending',
+      check: "status IN ('pending', 'replayed')",
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('CURRENT_TIMESTAMP'),
+    },
+    last_failed_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('CURRENT_TIMESTAMP'),
+    },
+    replayed_at: {
+      type: 'timestamptz',
+    },
+  });
+
+  pgm.addConstraint(deadLetters, 'uq_dead_letters_message', {
+    unique: ['topic', 'partition', 'message_offset'],
+  });
+
+  pgm.createIndex(deadLetters, ['status', 'created_at'], { name: 'idx_dead_letters_status' });
+};
+
+/**
+ * Rollback migration - drops dead_letters.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropTable(deadLetters);
+};
@@ -0,0 +1,65 @@
+/**
+ * Processed events migration for eligibility-engine service.
+ *
+ * Inbox of consumed events, keyed by event_id. The JourneyDelayConfirmed
+ * handler writes a row in the same transaction as the evaluation it
+ * produced, so a redelivered event is recognised as a duplicate even if it
+ * arrives after the evaluation committed but before the offset did. outcome
+ * records what the event did: a journey's first evaluation, or a new
+ * evaluation version for a journey already evaluated.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const processedEvents = { schema: 'eligibility_engine', name: 'processed_events' };
+
+/**
+ * Forward migration - creates processed_events.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.createTable(processedEvents, {
+    event_id: {
+      type: 'varchar(255)',
+      primaryKey: true,
+    },
+    event_type: {
+      type: 'varchar(100)',
+      notNull: true,
+    },
+    journey_id: {
+      type: 'uuid',
+      notNull: true,
+    },
+    outcome: {
+      type: 'varchar(20)',
+      notNull: true,
+      check: "outcome IN ('evaluated', 'reevaluated')",
+    },
+    evaluation_id: {
+      type: 'uuid',
+      notNull: true,
+    },
+    correlation_id: {
+      type: 'varchar(255)',
+    },
+    processed_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('CURRENT_TIMESTAMP'),
+    },
+  });
+
+  pgm.createIndex(processedEvents, ['journey_id', 'processed_at'], { name: 'idx_processed_events_journey' });
+};
+
+/**
+ * Rollback migration - drops processed_events.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropTable(processedEvents);
+};
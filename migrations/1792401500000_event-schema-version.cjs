@@ -0,0 +1,37 @@
+/**
+ * Event schema version migration for eligibility-engine service.
+ *
+ * Records the payload schema version each outbox event was validated
+ * against when it was written, so the relay publishes it as schema_version
+ * in the envelope. Rows written before versioning are version 1.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const outbox = { schema: 'eligibility_engine', name: 'outbox' };
+
+/**
+ * Forward migration - adds schema_version to outbox.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.addColumns(outbox, {
+    schema_version: {
+      type: 'int',
+      notNull: true,
+      default: 1,
+      check: 'schema_version > 0',
+    },
+  });
+};
+
+/**
+ * Rollback migration - removes schema_version from outbox.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.dropColumns(outbox, ['schema_version']);
+};
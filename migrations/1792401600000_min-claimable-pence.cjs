@@ -0,0 +1,33 @@
+/**
+ * Min claimable pence migration for eligibility-engine service.
+ *
+ * Renames minimum_payout_pence to min_claimable_pence on schemes and
+ * rulepacks. The column refuses payouts below it, unlike the minimum_payout
+ * special rule, which raises them; the old name read as the special rule.
+ *
+ * @type {import('node-pg-migrate').MigrationBuilder}
+ */
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const schemes = { schema: 'eligibility_engine', name: 'schemes' };
+const tocRulepacks = { schema: 'eligibility_engine', name: 'toc_rulepacks' };
+
+/**
+ * Forward migration - renames minimum_payout_pence to min_claimable_pence.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = (pgm) => {
+  pgm.renameColumn(schemes, 'minimum_payout_pence', 'min_claimable_pence');
+  pgm.renameColumn(tocRulepacks, 'minimum_payout_pence', 'min_claimable_pence');
+};
+
+/**
+ * Rollback migration - restores the minimum_payout_pence name.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = (pgm) => {
+  pgm.renameColumn(tocRulepacks, 'min_claimable_pence', 'minimum_payout_pence');
+  pgm.renameColumn(schemes, 'min_claimable_pence', 'minimum_payout_pence');
+};
@@ -5,9 +5,15 @@
  *
  * Covers:
  * - AC-4: Retrieve evaluation by journey_id
+ * - GET /eligibility/:journey_id/explain
  * - AC-5: Health check endpoint
  * - POST /eligibility/evaluate
+ * - POST /eligibility/evaluate/batch
+ * - POST /eligibility/simulate
+ * - POST /eligibility/:journey_id/reevaluate
  * - POST /eligibility/restriction/validate
+ * - GET /admin/dead-letters (admin token)
+ * - POST /admin/dead-letters/:id/replay (admin token)
  *
  * TD Remediation:
  * - TD-ELIGIBILITY-003: Uses @railrepay/winston-logger instead of console.*
@@ -15,10 +21,45 @@
  */
 
 import express, { Express, Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'node:crypto';
 import { Client } from 'pg';
 import { v4 as uuidv4, validate as uuidValidate } from 'uuid';
 import { RestrictionValidator } from './services/restriction-validator.js';
-import { getLogger, createChildLogger } from './lib/logger.js';
+import { APPORTIONMENT_STRATEGIES } from './services/apportionment-strategies.js';
+import { InvalidSeasonTicketError } from './services/season-ticket-valuer.js';
+import { UnknownTicketProductError } from './services/ticket-product-valuer.js';
+import { FARE_COMPONENT_TYPES, InvalidFareComponentsError } from './services/fare-component-splitter.js';
+import {
+  ConcurrentReevaluationError,
+  EligibilityService,
+  EvaluationNotFoundError,
+  EvaluationRequest,
+  EvaluationResult,
+  InactiveTocError,
+  InvalidJourneySegmentsError,
+  ReevaluationRequest,
+  Simulation,
+  SimulationRequest,
+  UnknownTocError,
+} from './services/eligibility-service.js';
+import { PostgresTocRepository } from './repositories/postgres-toc-repository.js';
+import { PostgresCompensationBandRepository } from './repositories/postgres-compensation-band-repository.js';
+import { PostgresEvaluationRepository } from './repositories/postgres-evaluation-repository.js';
+import { PostgresSeatedFareRepository } from './repositories/postgres-seated-fare-repository.js';
+import { PostgresStationDistanceRepository } from './repositories/postgres-station-distance-repository.js';
+import { PostgresTicketProductRepository } from './repositories/postgres-ticket-product-repository.js';
+import { PostgresOutboxRepository } from './repositories/postgres-outbox-repository.js';
+import { PostgresProcessedEventRepository } from './repositories/postgres-processed-event-repository.js';
+import {
+  DEAD_LETTER_STATUSES,
+  DeadLetter,
+  DeadLetterStatus,
+  PostgresDeadLetterRepository,
+} from './repositories/postgres-dead-letter-repository.js';
+import { JourneyDelayConfirmedHandler } from './handlers/journey-delay-confirmed.handler.js';
+import { parseJourneyDelayConfirmed } from './messaging/journey-delay-consumer.js';
+import { eligibilitySupersededEvent } from './messaging/eligibility-events.js';
+import { getLogger, createChildLogger, type Logger } from './lib/logger.js';
 import {
   initMetrics,
   getMetricsMiddleware,
@@ -31,6 +72,14 @@ import {
 // Type Definitions
 // ============================================
 
+// Set on every request by the correlation ID middleware
+declare module 'express-serve-static-core' {
+  interface Request {
+    correlationId?: string;
+    logger?: Logger;
+  }
+}
+
 export interface AppConfig {
   database: {
     host: string;
@@ -39,32 +88,270 @@ export interface AppConfig {
     user: string;
     password: string;
   };
+  adminToken?: string; // Bearer token for /admin; admin routes refuse every request without one
+}
+
+type EvaluateRequestBody = EvaluationRequest;
+
+type ReevaluateRequestBody = ReevaluationRequest;
+
+type SimulateRequestBody = SimulationRequest;
+
+interface BatchEvaluateRequestBody {
+  journeys: EvaluateRequestBody[];
 }
 
-interface EvaluateRequestBody {
-  journey_id: string;
-  toc_code: string;
-  scheduled_departure?: string;
-  actual_arrival?: string;
-  scheduled_arrival?: string;
-  delay_minutes?: number;
-  ticket_fare_pence: number;
-  ticket_class?: string;
-  ticket_type?: string;
-  ticket_restrictions?: string[];
-  is_sleeper?: boolean;
-  journey_segments?: Array<{
-    toc_code: string;
-    fare_portion_pence: number;
-  }>;
+type BatchItemStatus = 'evaluated' | 'existing' | 'invalid' | 'failed';
+
+interface BatchItemResult {
+  index: number;
+  journey_id: string | null;
+  status: BatchItemStatus;
+  result?: ReturnType<typeof toEvaluationResponse>;
+  errors?: string[];
 }
 
+// Keeps a single batch well inside the request timeout
+const MAX_BATCH_SIZE = 500;
+
+const DEFAULT_DEAD_LETTER_LIMIT = 50;
+const MAX_DEAD_LETTER_LIMIT = 500;
+
 interface RestrictionValidateBody {
   restriction_codes: string[];
   journey_date: string;
   departure_time: string;
 }
 
+// ============================================
+// Response Mapping
+// ============================================
+
+/**
+ * Map an evaluation to the public API response shape
+ */
+function toEvaluationResponse(result: EvaluationResult) {
+  return {
+    journey_id: result.journey_id,
+    eligible: result.eligible,
+    scheme: result.scheme,
+    delay_minutes: result.delay_minutes,
+    compensation_percentage: result.compensation_percentage,
+    compensation_pence: result.compensation_pence,
+    ticket_fare_pence: result.ticket_fare_pence,
+    ticket_format: result.ticket_format,
+    delayed_leg: result.delayed_leg,
+    reasons: result.reasons,
+    applied_rules: result.applied_rules,
+    claim_deadline: result.claim_deadline,
+    claim_routing: result.claim_routing,
+    rule_version: result.rule_version,
+    fare_breakdown: result.fare_breakdown,
+    evaluation_id: result.evaluation_id,
+    version: result.version,
+    supersedes_evaluation_id: result.supersedes_evaluation_id,
+    reevaluation_reason: result.reevaluation_reason,
+    superseded_by: result.superseded_by,
+    superseded_at: result.superseded_at,
+    evaluation_timestamp: result.evaluation_timestamp,
+  };
+}
+
+/**
+ * Map a simulation to the API response shape
+ * Nothing is stored, so there is no evaluation id or version.
+ */
+function toSimulationResponse(simulation: Simulation, journeyId?: string) {
+  return {
+    ...toEvaluationResponse(simulation.outcome),
+    journey_id: journeyId ?? null,
+    evaluation_id: undefined,
+    version: undefined,
+    simulated: true,
+    decision_trace: simulation.outcome.decision_trace,
+    band_table: simulation.band_table,
+  };
+}
+
+/**
+ * Map a dead letter to the admin API response shape
+ * The stored message is returned as JSON when it parses, else as text.
+ */
+function toDeadLetterResponse(letter: DeadLetter) {
+  let payload: unknown = letter.payload;
+  try {
+    payload = JSON.parse(letter.payload);
+  } catch {
+    // Not JSON - return the message as it arrived
+  }
+
+  return {
+    id: letter.id,
+    status: letter.status,
+    event_id: letter.event_id,
+    event_type: letter.event_type,
+    journey_id: letter.journey_id,
+    topic: letter.topic,
+    partition: letter.partition,
+    offset: letter.message_offset,
+    key: letter.message_key,
+    error: letter.error,
+    attempts: letter.attempts,
+    payload,
+    created_at: letter.created_at,
+    last_failed_at: letter.last_failed_at,
+    replayed_at: letter.replayed_at,
+  };
+}
+
+// ============================================
+// Input Validation
+// ============================================
+
+/**
+ * Required fields and formats for an evaluation request
+ */
+function validateEvaluateRequest(body: EvaluateRequestBody): string[] {
+  const validationErrors: string[] = [];
+
+  if (!body.journey_id) {
+    validationErrors.push('journey_id is required');
+  }
+  if (!body.toc_code) {
+    validationErrors.push('toc_code is required');
+  }
+  if (body.delay_minutes === undefined && (!body.scheduled_arrival || !body.actual_arrival)) {
+    validationErrors.push('delay_minutes or (scheduled_arrival and actual_arrival) is required');
+  }
+  if (body.ticket_fare_pence === undefined || body.ticket_fare_pence === null) {
+    validationErrors.push('ticket_fare_pence is required');
+  }
+  validationErrors.push(...validateInputFormats(body));
+
+  return validationErrors;
+}
+
+/**
+ * Errors for inputs the pipeline cannot evaluate
+ * (unknown or inactive TOC, inconsistent journey segments, incomplete season ticket,
+ * unknown ticket product, fare components not matching the fare)
+ */
+function isInvalidInputError(error: unknown): error is Error {
+  return error instanceof UnknownTocError
+    || error instanceof InactiveTocError
+    || error instanceof InvalidJourneySegmentsError
+    || error instanceof InvalidSeasonTicketError
+    || error instanceof UnknownTicketProductError
+    || error instanceof InvalidFareComponentsError;
+}
+
+/**
+ * Format checks shared by evaluation inputs and re-evaluation corrections
+ */
+function validateInputFormats(inputs: Partial<EvaluationRequest>): string[] {
+  const validationErrors: string[] = [];
+
+  if (inputs.toc_code && inputs.toc_code.length > 5) {
+    validationErrors.push('toc_code must be 5 characters or less');
+  }
+  if (inputs.ticket_format !== undefined && !['single', 'return'].includes(inputs.ticket_format)) {
+    validationErrors.push("ticket_format must be 'single' or 'return'");
+  }
+  if (inputs.delayed_leg !== undefined && !['outbound', 'return'].includes(inputs.delayed_leg)) {
+    validationErrors.push("delayed_leg must be 'outbound' or 'return'");
+  }
+  if (
+    inputs.ticket_restrictions !== undefined
+    && (!Array.isArray(inputs.ticket_restrictions) || !inputs.ticket_restrictions.every((c) => typeof c === 'string'))
+  ) {
+    validationErrors.push('ticket_restrictions must be an array of restriction codes');
+  }
+  if (inputs.journey_segments !== undefined && (
+    !Array.isArray(inputs.journey_segments)
+    || !inputs.journey_segments.every((s) => typeof s?.toc_code === 'string'
+      && (s.fare_portion_pence === undefined || (Number.isInteger(s.fare_portion_pence) && s.fare_portion_pence >= 0)))
+  )) {
+    validationErrors.push('journey_segments must be an array of { toc_code, fare_portion_pence? }');
+  } else {
+    for (const [index, segment] of (inputs.journey_segments ?? []).entries()) {
+      for (const field of ['scheduled_departure', 'scheduled_arrival', 'actual_arrival'] as const) {
+        const value = segment[field];
+        if (value !== undefined && isNaN(Date.parse(value))) {
+          validationErrors.push(`journey_segments[${index}].${field} must be an ISO 8601 timestamp`);
+        }
+      }
+      if (segment.weight !== undefined && !(typeof segment.weight === 'number' && segment.weight >= 0)) {
+        validationErrors.push(`journey_segments[${index}].weight must be a non-negative number`);
+      }
+    }
+  }
+  if (
+    inputs.apportionment_strategy !== undefined
+    && !APPORTIONMENT_STRATEGIES.includes(inputs.apportionment_strategy)
+  ) {
+    validationErrors.push(`apportionment_strategy must be one of ${APPORTIONMENT_STRATEGIES.join(', ')}`);
+  }
+  if (inputs.season_ticket !== undefined) {
+    if (typeof inputs.season_ticket !== 'object' || inputs.season_ticket === null) {
+      validationErrors.push('season_ticket must be an object');
+    } else {
+      for (const field of ['travel_days', 'journeys'] as const) {
+        const value = inputs.season_ticket[field];
+        if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+          validationErrors.push(`season_ticket.${field} must be a positive integer`);
+        }
+      }
+    }
+  }
+  if (inputs.fare_components !== undefined && (
+    !Array.isArray(inputs.fare_components)
+    || inputs.fare_components.length === 0
+    || !inputs.fare_components.every((c) => FARE_COMPONENT_TYPES.includes(c?.component_type)
+      && Number.isInteger(c.amount_pence) && c.amount_pence >= 0)
+  )) {
+    validationErrors.push(
+      `fare_components must be a non-empty array of { component_type (${FARE_COMPONENT_TYPES.join(', ')}), amount_pence }`
+    );
+  }
+  if (
+    inputs.ticket_product_code !== undefined
+    && (typeof inputs.ticket_product_code !== 'string' || inputs.ticket_product_code.length === 0)
+  ) {
+    validationErrors.push('ticket_product_code must be a non-empty string');
+  }
+  for (const field of ['scheduled_departure', 'scheduled_arrival', 'actual_arrival', 'claim_submitted_at'] as const) {
+    const value = inputs[field];
+    if (value !== undefined && isNaN(Date.parse(value))) {
+      validationErrors.push(`${field} must be an ISO 8601 timestamp`);
+    }
+  }
+
+  return validationErrors;
+}
+
+// ============================================
+// Admin Authentication
+// ============================================
+
+/**
+ * Refuse requests without the admin token as a bearer token
+ */
+function requireAdminToken(adminToken: string | undefined) {
+  const expected = Buffer.from(`Bearer ${adminToken}`);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const presented = Buffer.from(req.get('Authorization') ?? '');
+    if (!adminToken || presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+      res.set('WWW-Authenticate', 'Bearer');
+      return res.status(401).json({
+        error: 'Unauthorized',
+        details: 'A valid admin bearer token is required',
+      });
+    }
+    next();
+  };
+}
+
 // ============================================
 // Application Factory
 // ============================================
@@ -101,10 +388,10 @@ export function createApp(config: AppConfig): Express {
   app.use((req: Request, res: Response, next: NextFunction) => {
     const correlationId = req.get('X-Correlation-ID') || uuidv4();
     res.set('X-Correlation-ID', correlationId);
-    (req as any).correlationId = correlationId;
+    req.correlationId = correlationId;
 
     // Create child logger with correlation ID for this request
-    (req as any).logger = createChildLogger(correlationId);
+    req.logger = createChildLogger(correlationId);
 
     next();
   });
@@ -120,12 +407,12 @@ export function createApp(config: AppConfig): Express {
       // Record HTTP metrics
       httpRequestsTotal.inc({
         method: req.method,
-        path: req.route?.path || req.path,
+        path: req.route ? req.baseUrl + req.route.path : req.path,
         status: res.statusCode.toString(),
       });
 
       httpRequestDuration.observe(
-        { method: req.method, path: req.route?.path || req.path },
+        { method: req.method, path: req.route ? req.baseUrl + req.route.path : req.path },
         durationSeconds
       );
     });
@@ -197,11 +484,12 @@ export function createApp(config: AppConfig): Express {
 
   // ============================================
   // AC-4: Retrieve Evaluation by journey_id
+  // Returns the current version; ?include=history adds every version
   // ============================================
 
   app.get('/eligibility/:journey_id', async (req: Request, res: Response) => {
     const { journey_id } = req.params;
-    const reqLogger = (req as any).logger || logger;
+    const reqLogger = req.logger || logger;
 
     // Validate UUID format
     if (!uuidValidate(journey_id)) {
@@ -216,37 +504,24 @@ export function createApp(config: AppConfig): Express {
     try {
       await client.connect();
 
-      const result = await client.query(
-        `SELECT
-          journey_id, eligible, scheme, delay_minutes,
-          compensation_percentage, compensation_pence, ticket_fare_pence,
-          reasons, applied_rules, created_at
-         FROM eligibility_engine.eligibility_evaluations
-         WHERE journey_id = $1`,
-        [journey_id]
-      );
+      const evaluationRepository = new PostgresEvaluationRepository(client);
+      const evaluation = await evaluationRepository.findByJourneyId(journey_id);
+      const history = evaluation && req.query.include === 'history'
+        ? await evaluationRepository.findHistoryByJourneyId(journey_id)
+        : null;
 
       await client.end();
 
-      if (result.rows.length === 0) {
+      if (!evaluation) {
         return res.status(404).json({
           error: 'Evaluation not found',
           journey_id,
         });
       }
 
-      const row = result.rows[0];
       return res.status(200).json({
-        journey_id: row.journey_id,
-        eligible: row.eligible,
-        scheme: row.scheme,
-        delay_minutes: row.delay_minutes,
-        compensation_percentage: parseFloat(row.compensation_percentage),
-        compensation_pence: row.compensation_pence,
-        ticket_fare_pence: row.ticket_fare_pence,
-        reasons: row.reasons,
-        applied_rules: row.applied_rules,
-        evaluation_timestamp: row.created_at,
+        ...toEvaluationResponse(evaluation),
+        ...(history ? { history: history.map(toEvaluationResponse) } : {}),
       });
     } catch (error) {
       reqLogger.error('Failed to retrieve evaluation', {
@@ -263,33 +538,79 @@ export function createApp(config: AppConfig): Express {
     }
   });
 
+  // ============================================
+  // GET /eligibility/:journey_id/explain
+  // How the current version was decided: inputs, rule versions and trace
+  // ============================================
+
+  app.get('/eligibility/:journey_id/explain', async (req: Request, res: Response) => {
+    const { journey_id } = req.params;
+    const reqLogger = req.logger || logger;
+
+    if (!uuidValidate(journey_id)) {
+      return res.status(400).json({
+        error: 'Invalid journey_id format',
+        journey_id,
+      });
+    }
+
+    const client = new Client(config.database);
+
+    try {
+      await client.connect();
+
+      const evaluationRepository = new PostgresEvaluationRepository(client);
+      const evaluation = await evaluationRepository.findByJourneyId(journey_id);
+
+      await client.end();
+
+      if (!evaluation) {
+        return res.status(404).json({
+          error: 'Evaluation not found',
+          journey_id,
+        });
+      }
+
+      return res.status(200).json({
+        journey_id: evaluation.journey_id,
+        evaluation_id: evaluation.evaluation_id,
+        version: evaluation.version,
+        evaluation_timestamp: evaluation.evaluation_timestamp,
+        eligible: evaluation.eligible,
+        compensation_pence: evaluation.compensation_pence,
+        reasons: evaluation.reasons,
+        applied_rules: evaluation.applied_rules,
+        inputs: evaluation.evaluation_request ?? null,
+        rule_version: evaluation.rule_version ?? null,
+        // Evaluations made before traces were recorded have none
+        decision_trace: evaluation.decision_trace ?? [],
+      });
+    } catch (error) {
+      reqLogger.error('Failed to explain evaluation', {
+        component: 'eligibility-api',
+        journey_id,
+        error: (error as Error).message,
+      });
+      try {
+        await client.end();
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+      throw error;
+    }
+  });
+
   // ============================================
   // POST /eligibility/evaluate
   // ============================================
 
   app.post('/eligibility/evaluate', async (req: Request, res: Response) => {
     const body: EvaluateRequestBody = req.body;
-    const reqLogger = (req as any).logger || logger;
+    const reqLogger = req.logger || logger;
     const startTime = process.hrtime();
 
     // Validate required fields
-    const validationErrors: string[] = [];
-
-    if (!body.journey_id) {
-      validationErrors.push('journey_id is required');
-    }
-    if (!body.toc_code) {
-      validationErrors.push('toc_code is required');
-    }
-    if (body.toc_code && body.toc_code.length > 5) {
-      validationErrors.push('toc_code must be 5 characters or less');
-    }
-    if (body.delay_minutes === undefined && (!body.scheduled_arrival || !body.actual_arrival)) {
-      validationErrors.push('delay_minutes or (scheduled_arrival and actual_arrival) is required');
-    }
-    if (body.ticket_fare_pence === undefined || body.ticket_fare_pence === null) {
-      validationErrors.push('ticket_fare_pence is required');
-    }
+    const validationErrors = validateEvaluateRequest(body);
 
     if (validationErrors.length > 0) {
       return res.status(400).json({
@@ -303,180 +624,382 @@ export function createApp(config: AppConfig): Express {
     try {
       await client.connect();
 
-      // Check for existing evaluation (idempotency)
-      const existingResult = await client.query(
-        'SELECT * FROM eligibility_engine.eligibility_evaluations WHERE journey_id = $1',
-        [body.journey_id]
+      const service = new EligibilityService(
+        new PostgresTocRepository(client),
+        new PostgresCompensationBandRepository(client),
+        new PostgresEvaluationRepository(client),
+        new PostgresSeatedFareRepository(client),
+        new PostgresStationDistanceRepository(client),
+        new PostgresTicketProductRepository(client)
       );
 
-      if (existingResult.rows.length > 0) {
-        // Return existing evaluation (idempotent response)
-        const row = existingResult.rows[0];
-        await client.end();
+      const { result, existing } = await service.evaluateOnce(body);
+
+      await client.end();
 
+      // Cached results (idempotency) skip metrics
+      if (existing) {
         reqLogger.info('Returning cached evaluation (idempotent)', {
           component: 'eligibility-api',
           journey_id: body.journey_id,
-          eligible: row.eligible,
+          eligible: result.eligible,
         });
 
-        return res.status(200).json({
-          journey_id: row.journey_id,
-          eligible: row.eligible,
-          scheme: row.scheme,
-          delay_minutes: row.delay_minutes,
-          compensation_percentage: parseFloat(row.compensation_percentage),
-          compensation_pence: row.compensation_pence,
-          ticket_fare_pence: row.ticket_fare_pence,
-          reasons: row.reasons,
-          applied_rules: row.applied_rules,
-          evaluation_timestamp: row.created_at,
-        });
+        return res.status(200).json(toEvaluationResponse(result));
       }
 
-      // Calculate delay minutes if not provided
-      let delayMinutes = body.delay_minutes;
-      if (delayMinutes === undefined && body.scheduled_arrival && body.actual_arrival) {
-        const scheduled = new Date(body.scheduled_arrival);
-        const actual = new Date(body.actual_arrival);
-        delayMinutes = Math.max(0, Math.floor((actual.getTime() - scheduled.getTime()) / (1000 * 60)));
-      }
+      // Calculate duration and record metrics
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      const durationSeconds = seconds + nanoseconds / 1e9;
 
-      // Look up TOC rulepack
-      const tocResult = await client.query(
-        'SELECT toc_code, scheme, active FROM eligibility_engine.toc_rulepacks WHERE toc_code = $1',
-        [body.toc_code]
-      );
+      recordEvaluation({
+        tocCode: body.toc_code,
+        scheme: result.scheme,
+        eligible: result.eligible,
+        durationSeconds,
+        ineligibleReason: result.ineligible_reason,
+      });
 
-      if (tocResult.rows.length === 0) {
+      reqLogger.info('Eligibility evaluation completed', {
+        component: 'eligibility-api',
+        journey_id: body.journey_id,
+        toc_code: body.toc_code,
+        scheme: result.scheme,
+        eligible: result.eligible,
+        delay_minutes: result.delay_minutes,
+        compensation_pence: result.compensation_pence,
+        duration_ms: Math.round(durationSeconds * 1000),
+      });
+
+      return res.status(200).json(toEvaluationResponse(result));
+    } catch (error) {
+      try {
         await client.end();
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+
+      // Inputs the pipeline cannot evaluate are caller errors, not server faults
+      if (isInvalidInputError(error)) {
         return res.status(400).json({
           error: 'Validation error',
-          details: `Unknown TOC code: ${body.toc_code}`,
+          details: error.message,
         });
       }
 
-      const tocRulepack = tocResult.rows[0];
-      const scheme = tocRulepack.scheme;
-
-      let eligible: boolean;
-      let compensationPercentage: number;
-      let compensationPence: number;
-      let reasons: string[];
-      let appliedRules: string[];
-      let ineligibleReason = 'unknown';
-
-      if (!tocRulepack.active) {
-        eligible = false;
-        compensationPercentage = 0;
-        compensationPence = 0;
-        reasons = ['TOC is not active for delay repay claims'];
-        appliedRules = [];
-        ineligibleReason = 'toc_inactive';
-      } else {
-        // Get compensation band
-        const bandResult = await client.query(
-          `SELECT delay_threshold_minutes, compensation_percentage
-           FROM eligibility_engine.compensation_bands
-           WHERE scheme_type = $1
-             AND delay_threshold_minutes <= $2
-           ORDER BY delay_threshold_minutes DESC
-           LIMIT 1`,
-          [scheme, delayMinutes]
-        );
-
-        if (bandResult.rows.length === 0) {
-          eligible = false;
-          compensationPercentage = 0;
-          compensationPence = 0;
-          const threshold = scheme === 'DR15' ? 15 : 30;
-          reasons = [`Delay of ${delayMinutes} minutes does not meet ${scheme} ${threshold}-minute threshold`];
-          appliedRules = [];
-          ineligibleReason = 'below_threshold';
-        } else {
-          const band = bandResult.rows[0];
-          eligible = true;
-          compensationPercentage = parseFloat(band.compensation_percentage);
-          compensationPence = Math.floor((body.ticket_fare_pence * compensationPercentage) / 100);
-          reasons = [`Delay of ${delayMinutes} minutes qualifies for ${compensationPercentage}% refund under ${scheme} scheme`];
-          appliedRules = [`${scheme}_${band.delay_threshold_minutes}MIN_${Math.round(compensationPercentage)}PCT`];
-        }
-      }
+      reqLogger.error('Evaluation failed', {
+        component: 'eligibility-api',
+        journey_id: body.journey_id,
+        error: (error as Error).message,
+      });
+      throw error;
+    }
+  });
+
+  // ============================================
+  // POST /eligibility/evaluate/batch
+  // Many journeys over one connection; each item succeeds or fails alone
+  // ============================================
+
+  app.post('/eligibility/evaluate/batch', async (req: Request, res: Response) => {
+    const body: BatchEvaluateRequestBody = req.body;
+    const reqLogger = req.logger || logger;
+    const batchStartTime = process.hrtime();
+
+    if (!Array.isArray(body?.journeys) || body.journeys.length === 0) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: 'journeys must be a non-empty array',
+      });
+    }
+    if (body.journeys.length > MAX_BATCH_SIZE) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: `journeys must contain at most ${MAX_BATCH_SIZE} items`,
+      });
+    }
+
+    const client = new Client(config.database);
+
+    try {
+      await client.connect();
 
-      // Store evaluation
-      const evaluationIdResult = await client.query('SELECT gen_random_uuid() as id');
-      const evaluationId = evaluationIdResult.rows[0].id;
-      const evaluationTimestamp = new Date().toISOString();
-
-      await client.query(
-        `INSERT INTO eligibility_engine.eligibility_evaluations (
-          id, journey_id, toc_code, scheme, delay_minutes,
-          ticket_fare_pence, eligible, compensation_percentage, compensation_pence,
-          reasons, applied_rules
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
-        [
-          evaluationId,
-          body.journey_id,
-          body.toc_code,
-          scheme,
-          delayMinutes,
-          body.ticket_fare_pence,
-          eligible,
-          compensationPercentage,
-          compensationPence,
-          JSON.stringify(reasons),
-          JSON.stringify(appliedRules),
-        ]
+      const service = new EligibilityService(
+        new PostgresTocRepository(client),
+        new PostgresCompensationBandRepository(client),
+        new PostgresEvaluationRepository(client),
+        new PostgresSeatedFareRepository(client),
+        new PostgresStationDistanceRepository(client),
+        new PostgresTicketProductRepository(client)
       );
 
+      const results: BatchItemResult[] = [];
+
+      for (const [index, item] of body.journeys.entries()) {
+        const journeyId = item?.journey_id ?? null;
+        const validationErrors = item && typeof item === 'object'
+          ? validateEvaluateRequest(item)
+          : ['journey must be an object'];
+
+        if (validationErrors.length > 0) {
+          results.push({ index, journey_id: journeyId, status: 'invalid', errors: validationErrors });
+          continue;
+        }
+
+        const startTime = process.hrtime();
+
+        try {
+          const { result, existing } = await service.evaluateOnce(item);
+
+          // Idempotency: journeys already evaluated return their stored result without metrics
+          if (existing) {
+            results.push({ index, journey_id: journeyId, status: 'existing', result: toEvaluationResponse(result) });
+            continue;
+          }
+
+          const [seconds, nanoseconds] = process.hrtime(startTime);
+          recordEvaluation({
+            tocCode: item.toc_code,
+            scheme: result.scheme,
+            eligible: result.eligible,
+            durationSeconds: seconds + nanoseconds / 1e9,
+            ineligibleReason: result.ineligible_reason,
+          });
+
+          results.push({ index, journey_id: journeyId, status: 'evaluated', result: toEvaluationResponse(result) });
+        } catch (error) {
+          if (isInvalidInputError(error)) {
+            results.push({ index, journey_id: journeyId, status: 'invalid', errors: [error.message] });
+            continue;
+          }
+
+          reqLogger.error('Batch item evaluation failed', {
+            component: 'eligibility-api',
+            journey_id: journeyId,
+            error: (error as Error).message,
+          });
+          results.push({ index, journey_id: journeyId, status: 'failed', errors: [(error as Error).message] });
+        }
+      }
+
       await client.end();
 
-      // Calculate duration and record metrics
-      const [seconds, nanoseconds] = process.hrtime(startTime);
-      const durationSeconds = seconds + nanoseconds / 1e9;
+      const summary = {
+        total: results.length,
+        evaluated: results.filter((r) => r.status === 'evaluated').length,
+        existing: results.filter((r) => r.status === 'existing').length,
+        invalid: results.filter((r) => r.status === 'invalid').length,
+        failed: results.filter((r) => r.status === 'failed').length,
+      };
 
-      recordEvaluation({
-        tocCode: body.toc_code,
-        scheme,
-        eligible,
-        durationSeconds,
-        ineligibleReason: eligible ? undefined : ineligibleReason,
+      const [seconds, nanoseconds] = process.hrtime(batchStartTime);
+      reqLogger.info('Batch evaluation completed', {
+        component: 'eligibility-api',
+        ...summary,
+        duration_ms: Math.round((seconds + nanoseconds / 1e9) * 1000),
       });
 
-      reqLogger.info('Eligibility evaluation completed', {
+      return res.status(200).json({ summary, results });
+    } catch (error) {
+      try {
+        await client.end();
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+
+      reqLogger.error('Batch evaluation failed', {
         component: 'eligibility-api',
-        journey_id: body.journey_id,
-        toc_code: body.toc_code,
-        scheme,
-        eligible,
-        delay_minutes: delayMinutes,
-        compensation_pence: compensationPence,
-        duration_ms: Math.round(durationSeconds * 1000),
+        error: (error as Error).message,
       });
+      throw error;
+    }
+  });
 
-      return res.status(200).json({
-        journey_id: body.journey_id,
-        eligible,
-        scheme,
-        delay_minutes: delayMinutes,
-        compensation_percentage: compensationPercentage,
-        compensation_pence: compensationPence,
-        ticket_fare_pence: body.ticket_fare_pence,
-        reasons,
-        applied_rules: appliedRules,
-        evaluation_timestamp: evaluationTimestamp,
+  // ============================================
+  // POST /eligibility/simulate
+  // What-if evaluation: same pipeline, never written to the database
+  // ============================================
+
+  app.post('/eligibility/simulate', async (req: Request, res: Response) => {
+    const body: SimulateRequestBody = req.body;
+    const reqLogger = req.logger || logger;
+
+    const validationErrors: string[] = [];
+
+    if (!body.toc_code) {
+      validationErrors.push('toc_code is required');
+    }
+    if (body.ticket_fare_pence === undefined || body.ticket_fare_pence === null) {
+      validationErrors.push('ticket_fare_pence is required');
+    }
+    if (body.delay_minutes === undefined && (body.scheduled_arrival === undefined) !== (body.actual_arrival === undefined)) {
+      validationErrors.push('scheduled_arrival and actual_arrival must be given together');
+    }
+    validationErrors.push(...validateInputFormats(body));
+
+    if (validationErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: validationErrors.join(', '),
       });
+    }
+
+    const client = new Client(config.database);
+
+    try {
+      await client.connect();
+
+      const service = new EligibilityService(
+        new PostgresTocRepository(client),
+        new PostgresCompensationBandRepository(client),
+        new PostgresEvaluationRepository(client),
+        new PostgresSeatedFareRepository(client),
+        new PostgresStationDistanceRepository(client),
+        new PostgresTicketProductRepository(client)
+      );
+      const simulation = await service.simulate(body);
+
+      await client.end();
+
+      reqLogger.info('Eligibility simulation completed', {
+        component: 'eligibility-api',
+        toc_code: body.toc_code,
+        scheme: simulation.outcome.scheme,
+        eligible: simulation.outcome.eligible,
+        delay_minutes: simulation.outcome.delay_minutes,
+      });
+
+      return res.status(200).json(toSimulationResponse(simulation, body.journey_id));
     } catch (error) {
-      reqLogger.error('Evaluation failed', {
+      try {
+        await client.end();
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+
+      if (isInvalidInputError(error)) {
+        return res.status(400).json({
+          error: 'Validation error',
+          details: error.message,
+        });
+      }
+
+      reqLogger.error('Simulation failed', {
         component: 'eligibility-api',
-        journey_id: body.journey_id,
+        toc_code: body.toc_code,
         error: (error as Error).message,
       });
+      throw error;
+    }
+  });
+
+  // ============================================
+  // POST /eligibility/:journey_id/reevaluate
+  // New evaluation version for an appeal or corrected inputs; the
+  // superseded version and EligibilitySuperseded outbox event commit together
+  // ============================================
+
+  app.post('/eligibility/:journey_id/reevaluate', async (req: Request, res: Response) => {
+    const { journey_id } = req.params;
+    const body: ReevaluateRequestBody = req.body;
+    const reqLogger = req.logger || logger;
+
+    if (!uuidValidate(journey_id)) {
+      return res.status(400).json({
+        error: 'Invalid journey_id format',
+        journey_id,
+      });
+    }
+
+    const validationErrors: string[] = [];
+
+    if (typeof body.reason !== 'string' || body.reason.trim() === '') {
+      validationErrors.push('reason is required');
+    }
+    if (body.corrections !== undefined
+      && (typeof body.corrections !== 'object' || body.corrections === null || Array.isArray(body.corrections))) {
+      validationErrors.push('corrections must be an object');
+    } else if (body.corrections) {
+      validationErrors.push(...validateInputFormats(body.corrections));
+    }
+
+    if (validationErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: validationErrors.join(', '),
+      });
+    }
+
+    const client = new Client(config.database);
+
+    try {
+      await client.connect();
+      await client.query('BEGIN');
+
+      const service = new EligibilityService(
+        new PostgresTocRepository(client),
+        new PostgresCompensationBandRepository(client),
+        new PostgresEvaluationRepository(client),
+        new PostgresSeatedFareRepository(client),
+        new PostgresStationDistanceRepository(client),
+        new PostgresTicketProductRepository(client)
+      );
+
+      const reevaluation = await service.reevaluate(journey_id, {
+        reason: body.reason,
+        corrections: body.corrections,
+      });
+      const { previous, current } = reevaluation;
+
+      await new PostgresOutboxRepository(client).enqueue(
+        eligibilitySupersededEvent(reevaluation, req.correlationId)
+      );
+
+      await client.query('COMMIT');
+      await client.end();
+
+      reqLogger.info('Eligibility re-evaluation completed', {
+        component: 'eligibility-api',
+        journey_id,
+        version: current.version,
+        eligible: current.eligible,
+        compensation_pence: current.compensation_pence,
+        previous_compensation_pence: previous.compensation_pence,
+      });
+
+      return res.status(200).json(toEvaluationResponse(current));
+    } catch (error) {
       try {
+        await client.query('ROLLBACK');
         await client.end();
       } catch (e) {
         // Ignore cleanup errors
       }
+
+      if (error instanceof EvaluationNotFoundError) {
+        return res.status(404).json({
+          error: 'Evaluation not found',
+          journey_id,
+        });
+      }
+      if (error instanceof ConcurrentReevaluationError) {
+        return res.status(409).json({
+          error: 'Conflict',
+          details: error.message,
+        });
+      }
+      if (isInvalidInputError(error)) {
+        return res.status(400).json({
+          error: 'Validation error',
+          details: error.message,
+        });
+      }
+
+      reqLogger.error('Re-evaluation failed', {
+        component: 'eligibility-api',
+        journey_id,
+        error: (error as Error).message,
+      });
       throw error;
     }
   });
@@ -506,12 +1029,188 @@ export function createApp(config: AppConfig): Express {
     }
   });
 
+  // ============================================
+  // Admin API
+  // Every /admin route needs the admin bearer token
+  // ============================================
+
+  const admin = express.Router();
+  admin.use(requireAdminToken(config.adminToken));
+  app.use('/admin', admin);
+
+  // ============================================
+  // GET /admin/dead-letters
+  // Consumed events the consumer gave up on, oldest first
+  // ============================================
+
+  admin.get('/dead-letters', async (req: Request, res: Response) => {
+    const reqLogger = req.logger || logger;
+    const status = req.query.status as string | undefined;
+    const limit = req.query.limit === undefined ? DEFAULT_DEAD_LETTER_LIMIT : Number(req.query.limit);
+
+    const validationErrors: string[] = [];
+    if (status !== undefined && !DEAD_LETTER_STATUSES.includes(status as DeadLetterStatus)) {
+      validationErrors.push(`status must be one of ${DEAD_LETTER_STATUSES.join(', ')}`);
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DEAD_LETTER_LIMIT) {
+      validationErrors.push(`limit must be an integer from 1 to ${MAX_DEAD_LETTER_LIMIT}`);
+    }
+
+    if (validationErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: validationErrors.join(', '),
+      });
+    }
+
+    const client = new Client(config.database);
+
+    try {
+      await client.connect();
+
+      const deadLetters = await new PostgresDeadLetterRepository(client).list({
+        status: status as DeadLetterStatus | undefined,
+        limit,
+      });
+
+      await client.end();
+
+      return res.status(200).json({
+        dead_letters: deadLetters.map(toDeadLetterResponse),
+        count: deadLetters.length,
+      });
+    } catch (error) {
+      reqLogger.error('Failed to list dead letters', {
+        component: 'eligibility-api',
+        error: (error as Error).message,
+      });
+      try {
+        await client.end();
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+      // Express 4 does not catch a rejected async handler
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: (error as Error).message,
+      });
+    }
+  });
+
+  // ============================================
+  // POST /admin/dead-letters/:id/replay
+  // Hand a dead-lettered event to the JourneyDelayConfirmed handler again;
+  // a failed replay is counted and the dead letter stays pending. An event
+  // processed for the journey since the dead letter was written is newer, so
+  // the replay is refused unless ?force=true.
+  // ============================================
+
+  admin.post('/dead-letters/:id/replay', async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const reqLogger = req.logger || logger;
+    const force = req.query.force === 'true';
+
+    if (!uuidValidate(id)) {
+      return res.status(400).json({
+        error: 'Invalid dead letter id format',
+        id,
+      });
+    }
+
+    const client = new Client(config.database);
+
+    try {
+      await client.connect();
+
+      const repository = new PostgresDeadLetterRepository(client);
+      const deadLetter = await repository.findById(id);
+
+      if (!deadLetter) {
+        await client.end();
+        return res.status(404).json({
+          error: 'Dead letter not found',
+          id,
+        });
+      }
+      if (deadLetter.status === 'replayed') {
+        await client.end();
+        return res.status(409).json({
+          error: 'Conflict',
+          details: `Dead letter ${id} was already replayed at ${deadLetter.replayed_at}`,
+        });
+      }
+
+      // processed_events.journey_id is a UUID; a dead letter whose journey_id
+      // is not one cannot have a newer event
+      const newer = deadLetter.journey_id && uuidValidate(deadLetter.journey_id) && !force
+        ? await new PostgresProcessedEventRepository(client).findLatestByJourneyId(deadLetter.journey_id)
+        : null;
+      if (newer?.processed_at && Date.parse(newer.processed_at) > Date.parse(deadLetter.created_at)) {
+        await client.end();
+        return res.status(409).json({
+          error: 'Conflict',
+          details: `Journey ${deadLetter.journey_id} has a newer event ${newer.event_id} processed at ${newer.processed_at}; `
+            + 'replay with force=true to evaluate the dead-lettered event over it',
+        });
+      }
+
+      try {
+        const event = parseJourneyDelayConfirmed(deadLetter.payload);
+        await new JourneyDelayConfirmedHandler(config.database).handle(event);
+      } catch (error) {
+        const failed = await repository.markReplayFailed(id, (error as Error).message);
+        await client.end();
+
+        reqLogger.error('Dead letter replay failed', {
+          component: 'eligibility-api',
+          dead_letter_id: id,
+          event_id: deadLetter.event_id,
+          error: (error as Error).message,
+        });
+
+        return res.status(422).json({
+          error: 'Replay failed',
+          details: (error as Error).message,
+          dead_letter: failed ? toDeadLetterResponse(failed) : undefined,
+        });
+      }
+
+      const replayed = await repository.markReplayed(id);
+      await client.end();
+
+      reqLogger.info('Dead letter replayed', {
+        component: 'eligibility-api',
+        dead_letter_id: id,
+        event_id: deadLetter.event_id,
+        journey_id: deadLetter.journey_id,
+      });
+
+      return res.status(200).json(replayed ? toDeadLetterResponse(replayed) : null);
+    } catch (error) {
+      reqLogger.error('Failed to replay dead letter', {
+        component: 'eligibility-api',
+        dead_letter_id: id,
+        error: (error as Error).message,
+      });
+      try {
+        await client.end();
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+      // Express 4 does not catch a rejected async handler
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: (error as Error).message,
+      });
+    }
+  });
+
   // ============================================
   // Error Handler
   // ============================================
 
   app.use((err: Error, req: Request, res: Response, _next: NextFunction) => {
-    const reqLogger = (req as any).logger || logger;
+    const reqLogger = req.logger || logger;
     reqLogger.error('Unhandled error', {
       component: 'eligibility-api',
       error: err.message,
@@ -7,9 +7,30 @@
  * - AC-10: Event Production (EligibilityEvaluated)
  *
  * Implements transactional outbox pattern for reliable event publishing.
+ * Eligibility rules are delegated to EligibilityService, with repositories
+ * bound to the handler's transaction so the evaluation, outbox row and inbox
+ * row commit together.
+ *
+ * Idempotency is by event_id (eligibility_engine.processed_events): an event
+ * already in the inbox is a duplicate and changes nothing. A new event for a
+ * journey that already has an evaluation is a correction and produces a new
+ * evaluation version (EligibilitySuperseded).
  */
 
 import { Client } from 'pg';
+import { DelayedLeg, EligibilityService, JourneySegment, StoredEvaluationResult } from '../services/eligibility-service.js';
+import { TicketFormat } from '../lib/ticket-format.js';
+import { SeasonTicketDetails } from '../services/season-ticket-valuer.js';
+import { FareComponent } from '../services/fare-component-splitter.js';
+import { PostgresTocRepository } from '../repositories/postgres-toc-repository.js';
+import { PostgresCompensationBandRepository } from '../repositories/postgres-compensation-band-repository.js';
+import { PostgresEvaluationRepository } from '../repositories/postgres-evaluation-repository.js';
+import { PostgresSeatedFareRepository } from '../repositories/postgres-seated-fare-repository.js';
+import { PostgresStationDistanceRepository } from '../repositories/postgres-station-distance-repository.js';
+import { PostgresTicketProductRepository } from '../repositories/postgres-ticket-product-repository.js';
+import { PostgresOutboxRepository } from '../repositories/postgres-outbox-repository.js';
+import { PostgresProcessedEventRepository, ProcessedEventOutcome } from '../repositories/postgres-processed-event-repository.js';
+import { eligibilityEvaluatedEvent, eligibilitySupersededEvent } from '../messaging/eligibility-events.js';
 
 // ============================================
 // Type Definitions
@@ -18,6 +39,7 @@ import { Client } from 'pg';
 export interface JourneyDelayConfirmedEvent {
   event_type: 'JourneyDelayConfirmed';
   event_id: string;
+  schema_version?: number; // Consumed messages are upcast to the current version (event-schemas.ts)
   timestamp: string;
   correlation_id: string;
   payload: JourneyDelayConfirmedPayload;
@@ -31,14 +53,19 @@ export interface JourneyDelayConfirmedPayload {
   scheduled_arrival: string;
   delay_minutes: number;
   ticket_fare_pence: number;
-  ticket_class: string;
-  ticket_type: string;
+  fare_components?: FareComponent[]; // Itemised fare; only compensable components are paid on
+  ticket_class?: string;
+  ticket_type?: string;
+  ticket_format?: TicketFormat;
+  season_ticket?: SeasonTicketDetails; // Flexi travel days or carnet journeys
+  ticket_product_code?: string; // Rover/Ranger/multi-day product
+  delayed_leg?: DelayedLeg;
   ticket_restrictions: string[];
   is_sleeper: boolean;
-  journey_segments: Array<{
-    toc_code: string;
-    fare_portion_pence: number;
-  }>;
+  journey_segments: JourneySegment[]; // Optional per-segment times for delay attribution
+  claim_submitted_at?: string; // Defaults to the event timestamp
+  origin_crs?: string;
+  destination_crs?: string;
 }
 
 export interface DatabaseConfig {
@@ -61,17 +88,6 @@ export interface HandlerOptions {
   };
 }
 
-interface TocRulepack {
-  toc_code: string;
-  scheme: string;
-  active: boolean;
-}
-
-interface CompensationBand {
-  delay_threshold_minutes: number;
-  compensation_percentage: number;
-}
-
 // ============================================
 // JourneyDelayConfirmedHandler Implementation
 // ============================================
@@ -99,138 +115,66 @@ export class JourneyDelayConfirmedHandler {
       // Start transaction
       await client.query('BEGIN');
 
-      // Check for existing evaluation (idempotency)
-      const existingResult = await client.query(
-        'SELECT * FROM eligibility_engine.eligibility_evaluations WHERE journey_id = $1',
-        [event.payload.journey_id]
-      );
+      const evaluationRepository = new PostgresEvaluationRepository(client);
+      const inbox = new PostgresProcessedEventRepository(client);
 
-      if (existingResult.rows.length > 0) {
+      // Check the inbox for this event (idempotency)
+      const processed = await inbox.findByEventId(event.event_id);
+
+      if (processed) {
         // Already processed - idempotent handling
         await client.query('COMMIT');
-        this.log('info', { correlation_id: event.correlation_id }, 'Duplicate event - already processed');
+        this.log('info', {
+          correlation_id: event.correlation_id,
+          event_id: event.event_id,
+          outcome: processed.outcome,
+        }, 'Duplicate event - already processed');
+        this.emitMetric('eligibility_events_duplicate_total', { event_type: event.event_type });
         return;
       }
 
-      // Look up TOC rulepack
-      const tocResult = await client.query(
-        'SELECT toc_code, scheme, active FROM eligibility_engine.toc_rulepacks WHERE toc_code = $1',
-        [event.payload.toc_code]
+      const service = new EligibilityService(
+        new PostgresTocRepository(client),
+        new PostgresCompensationBandRepository(client),
+        evaluationRepository,
+        new PostgresSeatedFareRepository(client),
+        new PostgresStationDistanceRepository(client),
+        new PostgresTicketProductRepository(client)
       );
 
-      let eligible: boolean;
-      let scheme: string;
-      let compensationPercentage: number;
-      let compensationPence: number;
-      let reasons: string[];
-      let appliedRules: string[];
-
-      if (tocResult.rows.length === 0) {
-        // Unknown TOC
-        eligible = false;
-        scheme = 'UNKNOWN';
-        compensationPercentage = 0;
-        compensationPence = 0;
-        reasons = ['Unknown TOC'];
-        appliedRules = [];
+      const { journey_id: journeyId, ...inputs } = event.payload;
+      const claimSubmittedAt = event.payload.claim_submitted_at ?? event.timestamp;
+      const outbox = new PostgresOutboxRepository(client);
+      const existing = await evaluationRepository.findByJourneyId(journeyId);
+
+      // Evaluate and persist (unknown or inactive TOCs throw and roll back);
+      // a journey already evaluated gets a new version from this event's inputs
+      // alone, not merged over those of the version it supersedes
+      let outcome: ProcessedEventOutcome;
+      let result: StoredEvaluationResult;
+      if (existing) {
+        const reevaluation = await service.reevaluate(journeyId, {
+          reason: `JourneyDelayConfirmed ${event.event_id}`,
+          inputs: { ...inputs, claim_submitted_at: claimSubmittedAt },
+        });
+        await outbox.enqueue(eligibilitySupersededEvent(reevaluation, event.correlation_id));
+        outcome = 'reevaluated';
+        result = reevaluation.current;
       } else {
-        const tocRulepack: TocRulepack = tocResult.rows[0];
-        scheme = tocRulepack.scheme;
-
-        if (!tocRulepack.active) {
-          eligible = false;
-          compensationPercentage = 0;
-          compensationPence = 0;
-          reasons = ['TOC is not active for delay repay claims'];
-          appliedRules = [];
-        } else {
-          // Get compensation band
-          const bandResult = await client.query(
-            `SELECT delay_threshold_minutes, compensation_percentage
-             FROM eligibility_engine.compensation_bands
-             WHERE scheme_type = $1
-               AND delay_threshold_minutes <= $2
-             ORDER BY delay_threshold_minutes DESC
-             LIMIT 1`,
-            [scheme, event.payload.delay_minutes]
-          );
-
-          if (bandResult.rows.length === 0) {
-            // Below threshold
-            eligible = false;
-            compensationPercentage = 0;
-            compensationPence = 0;
-            const threshold = scheme === 'DR15' ? 15 : 30;
-            reasons = [`Delay of ${event.payload.delay_minutes} minutes does not meet ${scheme} ${threshold}-minute threshold`];
-            appliedRules = [];
-          } else {
-            const band: CompensationBand = bandResult.rows[0];
-            eligible = true;
-            compensationPercentage = parseFloat(band.compensation_percentage.toString());
-            compensationPence = Math.floor(
-              (event.payload.ticket_fare_pence * compensationPercentage) / 100
-            );
-            reasons = [`Delay of ${event.payload.delay_minutes} minutes qualifies for ${compensationPercentage}% refund under ${scheme} scheme`];
-            appliedRules = [`${scheme}_${band.delay_threshold_minutes}MIN_${Math.round(compensationPercentage)}PCT`];
-          }
-        }
+        result = await service.evaluate({ ...event.payload, claim_submitted_at: claimSubmittedAt });
+        // Write to outbox (transactional outbox pattern)
+        await outbox.enqueue(eligibilityEvaluatedEvent(result, event.payload.toc_code, event.correlation_id));
+        outcome = 'evaluated';
       }
 
-      // Generate evaluation ID
-      const evaluationIdResult = await client.query('SELECT gen_random_uuid() as id');
-      const evaluationId = evaluationIdResult.rows[0].id;
-      const evaluationTimestamp = new Date().toISOString();
-
-      // Insert evaluation
-      await client.query(
-        `INSERT INTO eligibility_engine.eligibility_evaluations (
-          id, journey_id, toc_code, scheme, delay_minutes,
-          ticket_fare_pence, eligible, compensation_percentage, compensation_pence,
-          reasons, applied_rules
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
-        [
-          evaluationId,
-          event.payload.journey_id,
-          event.payload.toc_code,
-          scheme,
-          event.payload.delay_minutes,
-          event.payload.ticket_fare_pence,
-          eligible,
-          compensationPercentage,
-          compensationPence,
-          JSON.stringify(reasons),
-          JSON.stringify(appliedRules),
-        ]
-      );
-
-      // Write to outbox (transactional outbox pattern)
-      const outboxPayload = {
-        evaluation_id: evaluationId,
-        journey_id: event.payload.journey_id,
-        toc_code: event.payload.toc_code,
-        scheme,
-        delay_minutes: event.payload.delay_minutes,
-        ticket_fare_pence: event.payload.ticket_fare_pence,
-        eligible,
-        compensation_percentage: compensationPercentage,
-        compensation_pence: compensationPence,
-        reasons,
-        applied_rules: appliedRules,
-        evaluation_timestamp: evaluationTimestamp,
+      await inbox.record({
+        event_id: event.event_id,
+        event_type: event.event_type,
+        journey_id: journeyId,
+        outcome,
+        evaluation_id: result.evaluation_id,
         correlation_id: event.correlation_id,
-      };
-
-      await client.query(
-        `INSERT INTO eligibility_engine.outbox (
-          aggregate_type, aggregate_id, event_type, payload
-        ) VALUES ($1, $2, $3, $4)`,
-        [
-          'eligibility_evaluation',
-          event.payload.journey_id,
-          'EligibilityEvaluated',
-          JSON.stringify(outboxPayload),
-        ]
-      );
+      });
 
       // Commit transaction
       await client.query('COMMIT');
@@ -238,15 +182,20 @@ export class JourneyDelayConfirmedHandler {
       // Log and emit metrics
       this.log('info', {
         correlation_id: event.correlation_id,
-        journey_id: event.payload.journey_id,
-        eligible,
-        scheme,
-        compensation_pence: compensationPence,
+        event_id: event.event_id,
+        journey_id: journeyId,
+        outcome,
+        version: result.version,
+        eligible: result.eligible,
+        scheme: result.scheme,
+        compensation_pence: result.compensation_pence,
       }, 'Eligibility evaluation completed');
 
+      // Same reason label as HTTP evaluations (claim_window_expired, ...)
       this.emitMetric('eligibility_evaluations_total', {
-        eligible: eligible.toString(),
-        scheme,
+        eligible: result.eligible.toString(),
+        scheme: result.scheme,
+        ...(result.ineligible_reason ? { ineligible_reason: result.ineligible_reason } : {}),
       });
 
     } catch (error) {
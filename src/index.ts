@@ -4,9 +4,21 @@
  *
  * Creates the Express application. Server startup is handled
  * by createApp() which starts listening on port 3000.
+ *
+ * Starts the outbox relay when an event transport is configured
+ * (OUTBOX_TRANSPORT or KAFKA_BROKERS), and the JourneyDelayConfirmed
+ * consumer when KAFKA_BROKERS is set.
  */
 
+import { Pool } from 'pg';
 import { createApp, getServer } from './app.js';
+import { getLogger } from './lib/logger.js';
+import { JourneyDelayConfirmedHandler } from './handlers/journey-delay-confirmed.handler.js';
+import { PostgresDeadLetterRepository } from './repositories/postgres-dead-letter-repository.js';
+import { DEFAULT_EVENT_TOPICS, createEventTransport, createKafka } from './messaging/event-transports.js';
+import { JourneyDelayConsumer } from './messaging/journey-delay-consumer.js';
+import { KafkaBroker } from './messaging/message-brokers.js';
+import { OutboxRelay } from './messaging/outbox-relay.js';
 
 // Load configuration from environment
 const config = {
@@ -17,11 +29,71 @@ const config = {
     user: process.env.DB_USER || 'postgres',
     password: process.env.DB_PASSWORD || 'postgres',
   },
+  adminToken: process.env.ADMIN_API_TOKEN,
 };
 
 // Create the app (server auto-starts on PORT env var or 3000)
 const app = createApp(config);
 const server = getServer();
 
+// Workers log (meta, message); winston takes (message, meta)
+const logger = getLogger();
+const workerLogger = {
+  info: (meta: object, msg: string) => logger.info(msg, meta),
+  error: (meta: object, msg: string) => logger.error(msg, meta),
+  debug: (meta: object, msg: string) => logger.debug(msg, meta),
+};
+
+// Publish outbox events
+const eventTransport = createEventTransport(process.env, {
+  EligibilityEvaluated: process.env.ELIGIBILITY_EVALUATED_TOPIC || DEFAULT_EVENT_TOPICS.EligibilityEvaluated,
+  EligibilitySuperseded: process.env.ELIGIBILITY_SUPERSEDED_TOPIC || DEFAULT_EVENT_TOPICS.EligibilitySuperseded,
+});
+const outboxRelay = eventTransport
+  ? new OutboxRelay(config.database, eventTransport, {
+    batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || '100', 10),
+    pollIntervalMs: parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '1000', 10),
+    logger: workerLogger,
+  })
+  : null;
+
+if (outboxRelay) {
+  outboxRelay.start();
+  process.once('SIGTERM', () => {
+    void outboxRelay.stop();
+  });
+} else {
+  logger.info('Outbox relay not started: no event transport configured');
+}
+
+// Consume JourneyDelayConfirmed events; events that cannot be handled go to
+// eligibility_engine.dead_letters
+const deadLetterPool = process.env.KAFKA_BROKERS ? new Pool({ ...config.database, max: 2 }) : null;
+const journeyDelayConsumer = deadLetterPool
+  ? new JourneyDelayConsumer(
+    new KafkaBroker(createKafka()),
+    new JourneyDelayConfirmedHandler(config.database, { logger: workerLogger }),
+    {
+      topic: process.env.JOURNEY_DELAY_TOPIC || 'journey.delay.confirmed',
+      groupId: process.env.KAFKA_CONSUMER_GROUP || 'eligibility-engine',
+      partitionsConsumedConcurrently: parseInt(process.env.KAFKA_PARTITIONS_CONCURRENCY || '3', 10),
+      maxAttempts: parseInt(process.env.CONSUMER_MAX_ATTEMPTS || '3', 10),
+      deadLetters: new PostgresDeadLetterRepository(deadLetterPool),
+      logger: workerLogger,
+    }
+  )
+  : null;
+
+if (journeyDelayConsumer) {
+  journeyDelayConsumer.start().catch((error: Error) => {
+    logger.error('Consumer failed to start', { error: error.message });
+  });
+  process.once('SIGTERM', () => {
+    void journeyDelayConsumer.stop().then(() => deadLetterPool?.end());
+  });
+} else {
+  logger.info('Consumer not started: KAFKA_BROKERS not set');
+}
+
 // Export for testing
-export { app, server };
+export { app, server, outboxRelay, journeyDelayConsumer };
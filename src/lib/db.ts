@@ -0,0 +1,19 @@
+/**
+ * Database Module for Eligibility Engine
+ *
+ * Defines the minimal query surface shared by the Postgres repositories.
+ * A pg Client, Pool or PoolClient all satisfy it, so repositories can run
+ * on a pooled connection or inside a caller-managed transaction.
+ */
+
+import { QueryResult, QueryResultRow } from 'pg';
+
+/**
+ * Anything that can execute a parameterised SQL query
+ */
+export interface Queryable {
+  query<R extends QueryResultRow = QueryResultRow>(
+    text: string,
+    values?: unknown[]
+  ): Promise<QueryResult<R>>;
+}
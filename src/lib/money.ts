@@ -0,0 +1,111 @@
+/**
+ * Money - Pence arithmetic shared by every compensation calculation
+ *
+ * Schemes set a rounding mode and the smallest payout they will make
+ * (min_claimable_pence); a TOC rulepack can override either (see
+ * PostgresTocRepository). Rulepacks without a policy round down and have no
+ * minimum, which is how compensation was always paid.
+ *
+ * min_claimable_pence and the minimum_payout special rule
+ * (special-rules-interpreter.ts) pull in opposite directions:
+ * - the special rule raises an eligible payout to its minimum_pence, never
+ *   above the fare
+ * - min_claimable_pence, from the operator paying the claim, is applied last,
+ *   after the special rule and the sleeper cap; an eligible payout still
+ *   below it is refused (MINIMUM_PAYOUT_<n>P, ineligible_reason
+ *   below_minimum_payout)
+ * With both set, a payout the special rule raised to min_claimable_pence or
+ * more is paid; one it could not raise that far (a smaller fare, or a sleeper
+ * cap) is refused.
+ *
+ * Rounding only shows in applied_rules (ROUNDING_FLOOR, ROUNDING_HALF_UP,
+ * ROUNDING_HALF_EVEN) when it actually dropped or added a fraction of a penny.
+ */
+
+// ============================================
+// Type Definitions
+// ============================================
+
+export type RoundingMode = 'floor' | 'half_up' | 'half_even';
+
+export const ROUNDING_MODES: readonly RoundingMode[] = ['floor', 'half_up', 'half_even'];
+
+export interface MoneyPolicy {
+  rounding_mode: RoundingMode;
+  min_claimable_pence: number; // Eligible payouts below this are refused; 0 for no minimum
+}
+
+export const DEFAULT_MONEY_POLICY: MoneyPolicy = {
+  rounding_mode: 'floor',
+  min_claimable_pence: 0,
+};
+
+export interface PenceAmount {
+  pence: number;
+  rounding_rule?: string; // Set when a fraction of a penny was rounded
+}
+
+// Percentages carry at most a few decimal places; this absorbs float error
+// such as 0.29 * 100 = 28.999999999999996 without hiding real fractions.
+const FRACTION_PRECISION = 1e6;
+
+// ============================================
+// Functions
+// ============================================
+
+/**
+ * Resolve the money policy from a rulepack's (possibly unset) fields
+ */
+export function moneyPolicyFor(source: {
+  rounding_mode?: RoundingMode | null;
+  min_claimable_pence?: number | null;
+}): MoneyPolicy {
+  return {
+    rounding_mode: source.rounding_mode ?? DEFAULT_MONEY_POLICY.rounding_mode,
+    min_claimable_pence: source.min_claimable_pence ?? DEFAULT_MONEY_POLICY.min_claimable_pence,
+  };
+}
+
+/**
+ * Round a non-negative amount of pence to a whole penny
+ */
+export function roundPence(amount: number, mode: RoundingMode): number {
+  const snapped = snapFraction(amount);
+  const whole = Math.floor(snapped);
+  const fraction = snapped - whole;
+
+  switch (mode) {
+    case 'floor':
+      return whole;
+    case 'half_up':
+      return fraction >= 0.5 ? whole + 1 : whole;
+    case 'half_even':
+      if (fraction === 0.5) {
+        return whole % 2 === 0 ? whole : whole + 1;
+      }
+      return fraction > 0.5 ? whole + 1 : whole;
+  }
+}
+
+/**
+ * percentage% of an amount in pence, rounded under the given mode
+ */
+export function percentageOfPence(pence: number, percentage: number, mode: RoundingMode): PenceAmount {
+  const exact = (pence * percentage) / 100;
+  const rounded = roundPence(exact, mode);
+
+  return Number.isInteger(snapFraction(exact))
+    ? { pence: rounded }
+    : { pence: rounded, rounding_rule: roundingRuleName(mode) };
+}
+
+/**
+ * applied_rules entry for a rounding mode (e.g. ROUNDING_HALF_UP)
+ */
+export function roundingRuleName(mode: RoundingMode): string {
+  return `ROUNDING_${mode.toUpperCase()}`;
+}
+
+function snapFraction(amount: number): number {
+  return Math.round(amount * FRACTION_PRECISION) / FRACTION_PRECISION;
+}
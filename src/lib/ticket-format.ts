@@ -0,0 +1,22 @@
+/**
+ * Ticket format - Single or return, and the band percentage each is paid at
+ *
+ * A compensation band may set its own percentage for single and for return
+ * tickets; a band without one pays compensation_percentage for either.
+ */
+
+export type TicketFormat = 'single' | 'return';
+
+export interface BandPercentages {
+  compensation_percentage: number;
+  single_percentage?: number;
+  return_percentage?: number;
+}
+
+/**
+ * Pick the band percentage for a single or return ticket
+ */
+export function bandPercentageFor(band: BandPercentages, ticketFormat: TicketFormat): number {
+  const percentage = ticketFormat === 'single' ? band.single_percentage : band.return_percentage;
+  return percentage ?? band.compensation_percentage;
+}
@@ -0,0 +1,95 @@
+/**
+ * Eligibility events - Outbox events this service produces
+ *
+ * - EligibilityEvaluated: a journey's first evaluation
+ * - EligibilitySuperseded: a new evaluation version replaced the current one
+ *
+ * Both are keyed by journey_id (aggregate eligibility_evaluation) so a
+ * journey's events are published in order.
+ *
+ * Payloads are validated against their current schema before they reach
+ * the outbox; an EventSchemaError rolls back the transaction that produced
+ * the event rather than publishing something consumers cannot read.
+ */
+
+import { EvaluationResult, Reevaluation } from '../services/eligibility-service.js';
+import { OutboxEvent } from '../repositories/postgres-outbox-repository.js';
+import { validateProducedPayload } from './event-schemas.js';
+
+export const ELIGIBILITY_AGGREGATE_TYPE = 'eligibility_evaluation';
+
+/**
+ * EligibilityEvaluated for a new evaluation
+ */
+export function eligibilityEvaluatedEvent(
+  result: EvaluationResult,
+  tocCode: string,
+  correlationId: string
+): OutboxEvent {
+  return versioned({
+    aggregate_type: ELIGIBILITY_AGGREGATE_TYPE,
+    aggregate_id: result.journey_id,
+    event_type: 'EligibilityEvaluated',
+    payload: {
+      evaluation_id: result.evaluation_id,
+      journey_id: result.journey_id,
+      toc_code: tocCode,
+      scheme: result.scheme,
+      delay_minutes: result.delay_minutes,
+      ticket_fare_pence: result.ticket_fare_pence,
+      ticket_format: result.ticket_format,
+      delayed_leg: result.delayed_leg,
+      eligible: result.eligible,
+      compensation_percentage: result.compensation_percentage,
+      compensation_pence: result.compensation_pence,
+      reasons: result.reasons,
+      applied_rules: result.applied_rules,
+      fare_breakdown: result.fare_breakdown,
+      claim_deadline: result.claim_deadline,
+      claim_routing: result.claim_routing,
+      evaluation_timestamp: result.evaluation_timestamp,
+      correlation_id: correlationId,
+    },
+  });
+}
+
+/**
+ * EligibilitySuperseded for a re-evaluation
+ */
+export function eligibilitySupersededEvent(
+  { previous, current }: Reevaluation,
+  correlationId: string | undefined
+): OutboxEvent {
+  return versioned({
+    aggregate_type: ELIGIBILITY_AGGREGATE_TYPE,
+    aggregate_id: current.journey_id,
+    event_type: 'EligibilitySuperseded',
+    payload: {
+      journey_id: current.journey_id,
+      superseded_evaluation_id: previous.evaluation_id,
+      superseded_version: previous.version,
+      evaluation_id: current.evaluation_id,
+      version: current.version,
+      reason: current.reevaluation_reason,
+      previous_eligible: previous.eligible,
+      previous_compensation_pence: previous.compensation_pence,
+      eligible: current.eligible,
+      scheme: current.scheme,
+      compensation_percentage: current.compensation_percentage,
+      compensation_pence: current.compensation_pence,
+      reasons: current.reasons,
+      applied_rules: current.applied_rules,
+      claim_deadline: current.claim_deadline,
+      claim_routing: current.claim_routing,
+      evaluation_timestamp: current.evaluation_timestamp,
+      correlation_id: correlationId,
+    },
+  });
+}
+
+/**
+ * Validate the payload and stamp the schema version it was checked against
+ */
+function versioned(event: Omit<OutboxEvent, 'schema_version'>): OutboxEvent {
+  return { ...event, schema_version: validateProducedPayload(event.event_type, event.payload) };
+}
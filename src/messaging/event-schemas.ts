@@ -0,0 +1,376 @@
+/**
+ * Event schemas - JSON Schemas for the events this service consumes and
+ * produces
+ *
+ * Every event carries schema_version in its envelope.
+ *
+ * Consumed events are validated against the schema of the version they
+ * declare (messages without schema_version are version 1), then upcast
+ * version by version to the current shape, so the handler only ever sees
+ * the current version.
+ *
+ * Produced event payloads are validated against the current schema when
+ * they are written to the outbox; the relay stamps schema_version on the
+ * envelope. Consumers of these events hold the published schemas, so a
+ * change must stay compatible with them (see schema-compatibility.ts) or be
+ * published as a new version.
+ */
+
+import { Ajv, ValidateFunction } from 'ajv';
+
+// ============================================
+// Type Definitions
+// ============================================
+
+export type JsonSchema = Record<string, unknown>;
+
+type EventMessage = Record<string, unknown>;
+
+interface ConsumedEventVersion {
+  version: number;
+  schema: JsonSchema; // Whole message: envelope and payload
+  upcast?: (event: EventMessage) => EventMessage; // To the next version
+}
+
+interface ProducedEventVersion {
+  version: number;
+  payload: JsonSchema;
+}
+
+export class EventSchemaError extends Error {
+  readonly errors: string[];
+
+  constructor(eventType: string, version: number, errors: string[]) {
+    super(`${eventType} v${version} does not match its schema: ${errors.join('; ')}`);
+    this.name = 'EventSchemaError';
+    this.errors = errors;
+  }
+}
+
+export class UnsupportedSchemaVersionError extends Error {
+  readonly version: unknown;
+
+  constructor(eventType: string, version: unknown) {
+    super(`Unsupported ${eventType} schema_version: ${String(version)}`);
+    this.name = 'UnsupportedSchemaVersionError';
+    this.version = version;
+  }
+}
+
+// ============================================
+// Consumed: JourneyDelayConfirmed
+// ============================================
+
+const isoTimestamp = { type: 'string', minLength: 1 };
+
+const journeySegmentSchema = {
+  type: 'object',
+  required: ['toc_code'],
+  properties: {
+    toc_code: { type: 'string', minLength: 1 },
+    fare_portion_pence: { type: 'integer', minimum: 0 },
+    scheduled_departure: isoTimestamp,
+    scheduled_arrival: isoTimestamp,
+    actual_arrival: isoTimestamp,
+    origin_crs: { type: 'string' },
+    destination_crs: { type: 'string' },
+    weight: { type: 'number', minimum: 0 },
+  },
+};
+
+const journeyDelayPayloadProperties = {
+  journey_id: { type: 'string', minLength: 1 },
+  toc_code: { type: 'string', minLength: 1 },
+  scheduled_departure: isoTimestamp,
+  actual_arrival: isoTimestamp,
+  scheduled_arrival: isoTimestamp,
+  delay_minutes: { type: 'number' },
+  ticket_fare_pence: { type: 'integer', minimum: 0 },
+  fare_components: {
+    type: 'array',
+    items: {
+      type: 'object',
+      required: ['component_type', 'amount_pence'],
+      properties: {
+        component_type: { type: 'string' },
+        amount_pence: { type: 'integer', minimum: 0 },
+        description: { type: 'string' },
+      },
+    },
+  },
+  ticket_class: { type: 'string' },
+  ticket_type: { type: 'string' },
+  ticket_format: { enum: ['single', 'return'] },
+  season_ticket: {
+    type: 'object',
+    properties: {
+      travel_days: { type: 'integer', minimum: 1 },
+      journeys: { type: 'integer', minimum: 1 },
+    },
+  },
+  ticket_product_code: { type: 'string' },
+  delayed_leg: { enum: ['outbound', 'return'] },
+  ticket_restrictions: { type: 'array', items: { type: 'string' } },
+  is_sleeper: { type: 'boolean' },
+  journey_segments: { type: 'array', items: journeySegmentSchema },
+  claim_submitted_at: isoTimestamp,
+  origin_crs: { type: 'string' },
+  destination_crs: { type: 'string' },
+};
+
+/**
+ * v1: unversioned messages; only the fields the evaluation cannot do without
+ */
+const journeyDelayConfirmedV1: JsonSchema = {
+  $id: 'JourneyDelayConfirmed/v1',
+  type: 'object',
+  required: ['event_type', 'event_id', 'timestamp', 'payload'],
+  properties: {
+    event_type: { const: 'JourneyDelayConfirmed' },
+    event_id: { type: 'string', minLength: 1 },
+    schema_version: { const: 1 },
+    timestamp: isoTimestamp,
+    correlation_id: { type: 'string' },
+    payload: {
+      type: 'object',
+      required: ['journey_id', 'toc_code', 'delay_minutes', 'ticket_fare_pence'],
+      properties: journeyDelayPayloadProperties,
+    },
+  },
+};
+
+/**
+ * v2: correlation_id, restrictions, sleeper flag and segments always present
+ */
+const journeyDelayConfirmedV2: JsonSchema = {
+  $id: 'JourneyDelayConfirmed/v2',
+  type: 'object',
+  required: ['event_type', 'event_id', 'schema_version', 'timestamp', 'correlation_id', 'payload'],
+  properties: {
+    event_type: { const: 'JourneyDelayConfirmed' },
+    event_id: { type: 'string', minLength: 1 },
+    schema_version: { const: 2 },
+    timestamp: isoTimestamp,
+    correlation_id: { type: 'string', minLength: 1 },
+    payload: {
+      type: 'object',
+      required: [
+        'journey_id',
+        'toc_code',
+        'delay_minutes',
+        'ticket_fare_pence',
+        'ticket_restrictions',
+        'is_sleeper',
+        'journey_segments',
+      ],
+      properties: journeyDelayPayloadProperties,
+    },
+  },
+};
+
+/**
+ * v1 -> v2: fill in what v1 producers could leave out
+ */
+function upcastJourneyDelayConfirmedV1(event: EventMessage): EventMessage {
+  const payload = event.payload as EventMessage;
+  return {
+    ...event,
+    schema_version: 2,
+    correlation_id: typeof event.correlation_id === 'string' && event.correlation_id !== ''
+      ? event.correlation_id
+      : event.event_id,
+    payload: {
+      ...payload,
+      ticket_restrictions: payload.ticket_restrictions ?? [],
+      is_sleeper: payload.is_sleeper ?? false,
+      journey_segments: payload.journey_segments ?? [],
+    },
+  };
+}
+
+// Oldest first; the last version is current
+export const CONSUMED_EVENT_SCHEMAS: Record<string, ConsumedEventVersion[]> = {
+  JourneyDelayConfirmed: [
+    { version: 1, schema: journeyDelayConfirmedV1, upcast: upcastJourneyDelayConfirmedV1 },
+    { version: 2, schema: journeyDelayConfirmedV2 },
+  ],
+};
+
+// ============================================
+// Produced: EligibilityEvaluated, EligibilitySuperseded
+// ============================================
+
+const claimFields = {
+  claim_deadline: { type: ['string', 'null'], pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
+  claim_routing: { type: ['object', 'null'] },
+};
+
+const eligibilityEvaluatedV1: JsonSchema = {
+  type: 'object',
+  required: [
+    'evaluation_id',
+    'journey_id',
+    'toc_code',
+    'scheme',
+    'delay_minutes',
+    'ticket_fare_pence',
+    'eligible',
+    'compensation_percentage',
+    'compensation_pence',
+    'reasons',
+    'applied_rules',
+    'evaluation_timestamp',
+  ],
+  properties: {
+    evaluation_id: { type: 'string' },
+    journey_id: { type: 'string' },
+    toc_code: { type: 'string' },
+    scheme: { type: 'string' },
+    delay_minutes: { type: 'number' },
+    ticket_fare_pence: { type: 'integer' },
+    ticket_format: { enum: ['single', 'return'] },
+    delayed_leg: { enum: ['outbound', 'return'] },
+    eligible: { type: 'boolean' },
+    compensation_percentage: { type: 'number' },
+    compensation_pence: { type: 'integer' },
+    reasons: { type: 'array', items: { type: 'string' } },
+    applied_rules: { type: 'array', items: { type: 'string' } },
+    fare_breakdown: { type: 'object' },
+    ...claimFields,
+    evaluation_timestamp: { type: 'string' },
+    correlation_id: { type: 'string' },
+  },
+};
+
+const eligibilitySupersededV1: JsonSchema = {
+  type: 'object',
+  required: [
+    'journey_id',
+    'superseded_evaluation_id',
+    'superseded_version',
+    'evaluation_id',
+    'version',
+    'reason',
+    'previous_eligible',
+    'previous_compensation_pence',
+    'eligible',
+    'scheme',
+    'compensation_percentage',
+    'compensation_pence',
+    'reasons',
+    'applied_rules',
+    'evaluation_timestamp',
+  ],
+  properties: {
+    journey_id: { type: 'string' },
+    superseded_evaluation_id: { type: 'string' },
+    superseded_version: { type: 'integer', minimum: 1 },
+    evaluation_id: { type: 'string' },
+    version: { type: 'integer', minimum: 2 },
+    reason: { type: 'string' },
+    previous_eligible: { type: 'boolean' },
+    previous_compensation_pence: { type: 'integer' },
+    eligible: { type: 'boolean' },
+    scheme: { type: 'string' },
+    compensation_percentage: { type: 'number' },
+    compensation_pence: { type: 'integer' },
+    reasons: { type: 'array', items: { type: 'string' } },
+    applied_rules: { type: 'array', items: { type: 'string' } },
+    ...claimFields,
+    evaluation_timestamp: { type: 'string' },
+    correlation_id: { type: 'string' },
+  },
+};
+
+// Current version of each produced event's payload
+export const PRODUCED_EVENT_SCHEMAS: Record<string, ProducedEventVersion> = {
+  EligibilityEvaluated: { version: 1, payload: eligibilityEvaluatedV1 },
+  EligibilitySuperseded: { version: 1, payload: eligibilitySupersededV1 },
+};
+
+/**
+ * The whole published message (EventEnvelope) for a produced event,
+ * as consumers validate it
+ */
+export function producedEventSchema(eventType: string): JsonSchema {
+  const produced = producedVersion(eventType);
+  return {
+    $id: `${eventType}/v${produced.version}`,
+    type: 'object',
+    required: ['event_id', 'event_type', 'schema_version', 'aggregate_type', 'aggregate_id', 'timestamp', 'payload'],
+    properties: {
+      event_id: { type: 'string' },
+      event_type: { const: eventType },
+      schema_version: { const: produced.version },
+      aggregate_type: { type: 'string' },
+      aggregate_id: { type: 'string' },
+      timestamp: { type: 'string' },
+      correlation_id: { type: 'string' },
+      payload: produced.payload,
+    },
+  };
+}
+
+// ============================================
+// Validation
+// ============================================
+
+const ajv = new Ajv({ allErrors: true });
+const validators = new WeakMap<JsonSchema, ValidateFunction>();
+
+/**
+ * Check a consumed event against the schema of its declared version and
+ * upcast it to the current version
+ */
+export function readConsumedEvent(eventType: string, event: EventMessage): EventMessage {
+  const versions = CONSUMED_EVENT_SCHEMAS[eventType];
+  if (!versions) {
+    throw new UnsupportedSchemaVersionError(eventType, event.schema_version);
+  }
+
+  const declared = event.schema_version ?? 1;
+  let index = versions.findIndex((candidate) => candidate.version === declared);
+  if (index === -1) {
+    throw new UnsupportedSchemaVersionError(eventType, declared);
+  }
+  assertMatches(eventType, versions[index].version, versions[index].schema, event);
+
+  let current = event;
+  for (; index < versions.length - 1; index++) {
+    current = (versions[index].upcast as NonNullable<ConsumedEventVersion['upcast']>)(current);
+  }
+  return current;
+}
+
+/**
+ * Check a produced event's payload; returns the schema_version to publish it under
+ */
+export function validateProducedPayload(eventType: string, payload: object): number {
+  const produced = producedVersion(eventType);
+  assertMatches(eventType, produced.version, produced.payload, payload);
+  return produced.version;
+}
+
+function producedVersion(eventType: string): ProducedEventVersion {
+  const produced = PRODUCED_EVENT_SCHEMAS[eventType];
+  if (!produced) {
+    throw new UnsupportedSchemaVersionError(eventType, undefined);
+  }
+  return produced;
+}
+
+function assertMatches(eventType: string, version: number, schema: JsonSchema, value: unknown): void {
+  let validate = validators.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    validators.set(schema, validate);
+  }
+
+  if (!validate(value)) {
+    const errors = (validate.errors ?? []).map((error) => {
+      const path = error.instancePath.slice(1).replace(/\//g, '.');
+      return path ? `${path} ${error.message}` : `${error.message}`;
+    });
+    throw new EventSchemaError(eventType, version, errors);
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Event transports - Where the outbox relay publishes events
+ *
+ * - kafka: one topic per event type, keyed by aggregate_id so an
+ *   aggregate's events share a partition and stay in order
+ * - in_process: handed to subscribers in this process (local development)
+ * - file: appended as JSON lines to a file (local development, debugging)
+ *
+ * createEventTransport picks one from the environment: OUTBOX_TRANSPORT,
+ * else kafka when KAFKA_BROKERS is set.
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { Kafka, Producer } from 'kafkajs';
+
+// ============================================
+// Type Definitions
+// ============================================
+
+/**
+ * The message published for each outbox row
+ */
+export interface EventEnvelope {
+  event_id: string; // Outbox row id
+  event_type: string;
+  schema_version: number; // Payload schema version (event-schemas.ts)
+  aggregate_type: string;
+  aggregate_id: string;
+  timestamp: string; // ISO 8601, when the event was written to the outbox
+  correlation_id?: string;
+  payload: Record<string, unknown>;
+}
+
+export interface EventTransport {
+  readonly name: EventTransportName;
+  publish(envelope: EventEnvelope): Promise<void>;
+  close(): Promise<void>;
+}
+
+export type EventTransportName = 'kafka' | 'in_process' | 'file';
+
+export const EVENT_TRANSPORTS: readonly EventTransportName[] = ['kafka', 'in_process', 'file'];
+
+// Event type -> Kafka topic; every produced event type needs one
+export const DEFAULT_EVENT_TOPICS: Record<string, string> = {
+  EligibilityEvaluated: 'eligibility.evaluated',
+  EligibilitySuperseded: 'eligibility.superseded',
+};
+
+export class UnroutableEventError extends Error {
+  constructor(eventType: string) {
+    super(`No topic configured for event type ${eventType}`);
+    this.name = 'UnroutableEventError';
+  }
+}
+
+export class EventTransportConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EventTransportConfigError';
+  }
+}
+
+// ============================================
+// Transports
+// ============================================
+
+export class KafkaTransport implements EventTransport {
+  readonly name = 'kafka' as const;
+  private producer: Producer;
+  private topics: Record<string, string>;
+  private connected: Promise<void> | null = null;
+
+  constructor(producer: Producer, topics: Record<string, string> = DEFAULT_EVENT_TOPICS) {
+    this.producer = producer;
+    this.topics = topics;
+  }
+
+  async publish(envelope: EventEnvelope): Promise<void> {
+    const topic = this.topics[envelope.event_type];
+    if (!topic) {
+      throw new UnroutableEventError(envelope.event_type);
+    }
+
+    // A failed connect is retried on the next publish
+    this.connected ??= this.producer.connect().catch((error: unknown) => {
+      this.connected = null;
+      throw error;
+    });
+    await this.connected;
+
+    await this.producer.send({
+      topic,
+      messages: [{
+        key: envelope.aggregate_id,
+        value: JSON.stringify(envelope),
+        headers: {
+          event_id: envelope.event_id,
+          event_type: envelope.event_type,
+          schema_version: String(envelope.schema_version),
+        },
+      }],
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.connected) {
+      this.connected = null;
+      await this.producer.disconnect();
+    }
+  }
+}
+
+export type EventSubscriber = (envelope: EventEnvelope) => void | Promise<void>;
+
+export class InProcessTransport implements EventTransport {
+  readonly name = 'in_process' as const;
+  private subscribers = new Set<EventSubscriber>();
+
+  /**
+   * Receive every published event; returns an unsubscribe function
+   */
+  subscribe(subscriber: EventSubscriber): () => void {
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  /**
+   * Deliver to each subscriber in turn; a subscriber that throws fails the publish
+   */
+  async publish(envelope: EventEnvelope): Promise<void> {
+    for (const subscriber of this.subscribers) {
+      await subscriber(envelope);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.subscribers.clear();
+  }
+}
+
+export class FileTransport implements EventTransport {
+  readonly name = 'file' as const;
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async publish(envelope: EventEnvelope): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, `${JSON.stringify(envelope)}\n`, 'utf8');
+  }
+
+  async close(): Promise<void> {
+    // Nothing held open between publishes
+  }
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+/**
+ * Build the transport named by OUTBOX_TRANSPORT (default kafka when
+ * KAFKA_BROKERS is set); null when no transport is configured
+ */
+export function createEventTransport(
+  env: NodeJS.ProcessEnv = process.env,
+  topics: Record<string, string> = DEFAULT_EVENT_TOPICS
+): EventTransport | null {
+  const name = env.OUTBOX_TRANSPORT ?? (env.KAFKA_BROKERS ? 'kafka' : undefined);
+
+  switch (name) {
+    case undefined:
+      return null;
+    case 'kafka':
+      return new KafkaTransport(createKafka(env).producer({ idempotent: true, maxInFlightRequests: 1 }), topics);
+    case 'in_process':
+      return new InProcessTransport();
+    case 'file':
+      return new FileTransport(env.OUTBOX_FILE_PATH ?? 'outbox-events.ndjson');
+    default:
+      throw new EventTransportConfigError(
+        `OUTBOX_TRANSPORT must be one of ${EVENT_TRANSPORTS.join(', ')} (got ${name})`
+      );
+  }
+}
+
+/**
+ * Kafka client from KAFKA_BROKERS (comma-separated), with SASL/SSL when
+ * KAFKA_USERNAME and KAFKA_PASSWORD are set (Confluent Cloud)
+ */
+export function createKafka(env: NodeJS.ProcessEnv = process.env): Kafka {
+  const brokers = (env.KAFKA_BROKERS ?? '').split(',').map((broker) => broker.trim()).filter(Boolean);
+  if (brokers.length === 0) {
+    throw new EventTransportConfigError('KAFKA_BROKERS must list at least one broker');
+  }
+
+  const authenticated = Boolean(env.KAFKA_USERNAME && env.KAFKA_PASSWORD);
+  return new Kafka({
+    clientId: env.KAFKA_CLIENT_ID ?? 'eligibility-engine',
+    brokers,
+    ssl: authenticated,
+    sasl: authenticated
+      ? { mechanism: 'plain', username: env.KAFKA_USERNAME ?? '', password: env.KAFKA_PASSWORD ?? '' }
+      : undefined,
+  });
+}
@@ -0,0 +1,267 @@
+/**
+ * JourneyDelayConsumer - Feeds JourneyDelayConfirmed messages to the handler
+ *
+ * Each message is checked against the JSON Schema of its schema_version and
+ * upcast to the current version before it reaches
+ * JourneyDelayConfirmedHandler. The handler commits its own transaction, so
+ * the broker commits the offset only after the evaluation and outbox row are
+ * in the database.
+ *
+ * A failing handler is retried with backoff up to maxAttempts. After that,
+ * and at once for a message that can never be handled (not JSON, wrong event
+ * type, unsupported schema_version, schema violations), the message goes to the dead-letter store
+ * and its offset is committed so it cannot block its partition. Without a
+ * dead-letter store an invalid message is logged and skipped, and a handler
+ * failure leaves the offset uncommitted for the broker to deliver again.
+ *
+ * Partitions are consumed concurrently. Producers key messages by
+ * journey_id, which keeps a journey's events on one partition; events for
+ * the same journey are also serialised here in case they arrive on
+ * different partitions.
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import {
+  JourneyDelayConfirmedEvent,
+  JourneyDelayConfirmedHandler,
+  JourneyDelayConfirmedPayload,
+  HandlerOptions,
+} from '../handlers/journey-delay-confirmed.handler.js';
+import { NewDeadLetter, PostgresDeadLetterRepository } from '../repositories/postgres-dead-letter-repository.js';
+import { EventSchemaError, readConsumedEvent, UnsupportedSchemaVersionError } from './event-schemas.js';
+import { BrokerMessage, MessageBroker } from './message-brokers.js';
+import { retryDelayMs } from './outbox-relay.js';
+
+// ============================================
+// Type Definitions
+// ============================================
+
+export interface JourneyDelayConsumerOptions {
+  topic?: string;
+  groupId?: string; // Consumer group; instances sharing it split the partitions
+  partitionsConsumedConcurrently?: number;
+  maxAttempts?: number; // Handler attempts before the event is dead-lettered
+  retryBaseDelayMs?: number; // Delay after the first failed attempt, doubled per attempt
+  retryMaxDelayMs?: number;
+  deadLetters?: Pick<PostgresDeadLetterRepository, 'record'>;
+  logger?: HandlerOptions['logger'];
+}
+
+const DEFAULT_OPTIONS = {
+  topic: 'journey.delay.confirmed',
+  groupId: 'eligibility-engine',
+  partitionsConsumedConcurrently: 3,
+  maxAttempts: 3,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 30 * 1000,
+};
+
+export class InvalidEventMessageError extends Error {
+  constructor(message: string) {
+    super(`Invalid JourneyDelayConfirmed message: ${message}`);
+    this.name = 'InvalidEventMessageError';
+  }
+}
+
+/**
+ * Parse, validate and upcast a JourneyDelayConfirmed message value
+ * Upcasting from v1 defaults correlation_id to event_id when the producer
+ * sent none.
+ */
+export function parseJourneyDelayConfirmed(value: string | null): JourneyDelayConfirmedEvent {
+  if (value === null) {
+    throw new InvalidEventMessageError('empty message');
+  }
+
+  let event: unknown;
+  try {
+    event = JSON.parse(value);
+  } catch {
+    throw new InvalidEventMessageError('not valid JSON');
+  }
+  if (!isObject(event)) {
+    throw new InvalidEventMessageError('must be a JSON object');
+  }
+  if (event.event_type !== 'JourneyDelayConfirmed') {
+    throw new InvalidEventMessageError(`unexpected event_type ${String(event.event_type)}`);
+  }
+
+  let current: Record<string, unknown>;
+  try {
+    current = readConsumedEvent('JourneyDelayConfirmed', event);
+  } catch (error) {
+    if (error instanceof EventSchemaError) {
+      throw new InvalidEventMessageError(error.errors.join('; '));
+    }
+    if (error instanceof UnsupportedSchemaVersionError) {
+      throw new InvalidEventMessageError(`unsupported schema_version ${String(error.version)}`);
+    }
+    throw error;
+  }
+
+  // The schema has checked the envelope fields, and upcasting has filled in
+  // those v1 could leave out; the payload matches the current schema
+  return {
+    event_type: 'JourneyDelayConfirmed',
+    event_id: String(current.event_id),
+    schema_version: Number(current.schema_version),
+    timestamp: String(current.timestamp),
+    correlation_id: String(current.correlation_id),
+    payload: current.payload as JourneyDelayConfirmedPayload,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================
+// JourneyDelayConsumer Implementation
+// ============================================
+
+export class JourneyDelayConsumer {
+  private broker: MessageBroker;
+  private handler: Pick<JourneyDelayConfirmedHandler, 'handle'>;
+  private options: typeof DEFAULT_OPTIONS & JourneyDelayConsumerOptions;
+  private journeys = new Map<string, Promise<void>>(); // journey_id -> latest event in progress
+
+  constructor(
+    broker: MessageBroker,
+    handler: Pick<JourneyDelayConfirmedHandler, 'handle'>,
+    options: JourneyDelayConsumerOptions = {}
+  ) {
+    this.broker = broker;
+    this.handler = handler;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Join the consumer group and start handling messages
+   */
+  async start(): Promise<void> {
+    const { topic, groupId, partitionsConsumedConcurrently } = this.options;
+    await this.broker.consume(
+      { topic, groupId, partitionsConsumedConcurrently },
+      (message) => this.onMessage(message)
+    );
+    this.log('info', { topic, group_id: groupId, broker: this.broker.name }, 'Consumer started');
+  }
+
+  async stop(): Promise<void> {
+    await this.broker.stop();
+  }
+
+  /**
+   * Handle one message; resolving lets the broker commit its offset
+   */
+  private async onMessage(message: BrokerMessage): Promise<void> {
+    const position = { topic: message.topic, partition: message.partition, offset: message.offset };
+
+    let event: JourneyDelayConfirmedEvent;
+    try {
+      event = parseJourneyDelayConfirmed(message.value);
+    } catch (error) {
+      if (!this.options.deadLetters) {
+        this.log('error', { ...position, error: (error as Error).message }, 'Skipping invalid message');
+        return;
+      }
+      await this.deadLetter(message, null, error as Error, 1);
+      return;
+    }
+
+    await this.inJourneyOrder(event.payload.journey_id, () => this.handleWithRetries(message, event));
+    this.log('debug', { ...position, event_id: event.event_id, correlation_id: event.correlation_id }, 'Message handled');
+  }
+
+  /**
+   * Call the handler until it succeeds or maxAttempts is reached
+   */
+  private async handleWithRetries(message: BrokerMessage, event: JourneyDelayConfirmedEvent): Promise<void> {
+    const { maxAttempts, retryBaseDelayMs, retryMaxDelayMs } = this.options;
+
+    for (let attempts = 1; ; attempts++) {
+      try {
+        await this.handler.handle(event);
+        return;
+      } catch (error) {
+        if (attempts >= maxAttempts) {
+          if (!this.options.deadLetters) {
+            throw error;
+          }
+          await this.deadLetter(message, event, error as Error, attempts);
+          return;
+        }
+
+        const delayMs = retryDelayMs(attempts, retryBaseDelayMs, retryMaxDelayMs);
+        this.log('error', {
+          event_id: event.event_id,
+          correlation_id: event.correlation_id,
+          attempts,
+          retry_in_ms: delayMs,
+          error: (error as Error).message,
+        }, 'Handler failed; retrying');
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Hand a message to the dead-letter store; if that fails the error
+   * propagates and the offset stays uncommitted
+   */
+  private async deadLetter(
+    message: BrokerMessage,
+    event: JourneyDelayConfirmedEvent | null,
+    error: Error,
+    attempts: number
+  ): Promise<void> {
+    const letter: NewDeadLetter = {
+      topic: message.topic,
+      partition: message.partition,
+      message_offset: message.offset,
+      message_key: message.key,
+      event_id: event?.event_id ?? null,
+      event_type: event?.event_type ?? null,
+      journey_id: event?.payload.journey_id ?? null,
+      payload: message.value ?? '',
+      error: error.message,
+      attempts,
+    };
+    await this.options.deadLetters?.record(letter);
+
+    this.log('error', {
+      topic: message.topic,
+      partition: message.partition,
+      offset: message.offset,
+      event_id: letter.event_id,
+      attempts,
+      error: error.message,
+    }, 'Message dead-lettered');
+  }
+
+  /**
+   * Run after any earlier event for the same journey has finished
+   */
+  private async inJourneyOrder(journeyId: string, work: () => Promise<void>): Promise<void> {
+    const previous = this.journeys.get(journeyId) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(work);
+    this.journeys.set(journeyId, current);
+
+    try {
+      await current;
+    } finally {
+      if (this.journeys.get(journeyId) === current) {
+        this.journeys.delete(journeyId);
+      }
+    }
+  }
+
+  /**
+   * Log helper
+   */
+  private log(level: 'info' | 'error' | 'debug', meta: object, msg: string): void {
+    if (this.options.logger) {
+      this.options.logger[level](meta, msg);
+    }
+  }
+}
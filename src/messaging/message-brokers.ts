@@ -0,0 +1,251 @@
+/**
+ * Message brokers - Where consumed events come from
+ *
+ * A broker delivers each partition's messages one at a time, in offset
+ * order, with partitions running concurrently. It commits a message's
+ * offset only once the handler has resolved; a handler that throws leaves
+ * the offset where it was and the message is delivered again.
+ *
+ * - kafka: a kafkajs consumer group with auto-commit off
+ * - in_memory: partitioned topics held in this process, for tests and local
+ *   development
+ */
+
+import { Consumer, IHeaders, Kafka } from 'kafkajs';
+
+// ============================================
+// Type Definitions
+// ============================================
+
+export interface BrokerMessage {
+  topic: string;
+  partition: number;
+  offset: string;
+  key: string | null;
+  value: string | null;
+  headers: Record<string, string>;
+}
+
+export type BrokerMessageHandler = (message: BrokerMessage) => Promise<void>;
+
+export interface BrokerSubscription {
+  topic: string;
+  groupId: string;
+  partitionsConsumedConcurrently: number;
+}
+
+export interface MessageBroker {
+  readonly name: 'kafka' | 'in_memory';
+  consume(subscription: BrokerSubscription, handler: BrokerMessageHandler): Promise<void>;
+  stop(): Promise<void>;
+}
+
+// ============================================
+// Brokers
+// ============================================
+
+export class KafkaBroker implements MessageBroker {
+  readonly name = 'kafka' as const;
+  private kafka: Pick<Kafka, 'consumer'>;
+  private consumer: Consumer | null = null;
+
+  constructor(kafka: Pick<Kafka, 'consumer'>) {
+    this.kafka = kafka;
+  }
+
+  async consume(subscription: BrokerSubscription, handler: BrokerMessageHandler): Promise<void> {
+    const consumer = this.kafka.consumer({ groupId: subscription.groupId });
+    await consumer.connect();
+    await consumer.subscribe({ topics: [subscription.topic] });
+
+    await consumer.run({
+      autoCommit: false,
+      partitionsConsumedConcurrently: subscription.partitionsConsumedConcurrently,
+      eachMessage: async ({ topic, partition, message }) => {
+        await handler({
+          topic,
+          partition,
+          offset: message.offset,
+          key: message.key?.toString() ?? null,
+          value: message.value?.toString() ?? null,
+          headers: headerStrings(message.headers),
+        });
+        // The committed offset is the next one to read
+        await consumer.commitOffsets([{ topic, partition, offset: (BigInt(message.offset) + 1n).toString() }]);
+      },
+    });
+    this.consumer = consumer;
+  }
+
+  async stop(): Promise<void> {
+    if (this.consumer) {
+      const consumer = this.consumer;
+      this.consumer = null;
+      await consumer.disconnect();
+    }
+  }
+}
+
+interface InMemoryRecord {
+  key: string | null;
+  value: string | null;
+  headers: Record<string, string>;
+}
+
+interface InMemoryConsumer {
+  subscription: BrokerSubscription;
+  handler: BrokerMessageHandler;
+  pumps: Map<number, Promise<void>>; // Partition -> delivery in progress
+}
+
+/**
+ * Partitioned topics in memory
+ *
+ * Records are partitioned by a hash of their key, as Kafka's default
+ * partitioner does, so a key's records stay in order. A message whose
+ * handler throws stays uncommitted; its partition stops until the next
+ * produce to it or redeliver().
+ */
+export class InMemoryBroker implements MessageBroker {
+  readonly name = 'in_memory' as const;
+  private partitions: number;
+  private topics = new Map<string, InMemoryRecord[][]>();
+  private committed = new Map<string, number>(); // group/topic/partition -> next offset
+  private consumers: InMemoryConsumer[] = [];
+
+  constructor(options: { partitions?: number } = {}) {
+    this.partitions = options.partitions ?? 3;
+  }
+
+  /**
+   * Append a record; returns where it was written
+   */
+  produce(
+    topic: string,
+    record: { key?: string | null; value: string | null; headers?: Record<string, string> }
+  ): { partition: number; offset: string } {
+    const key = record.key ?? null;
+    const partition = key === null ? 0 : partitionFor(key, this.partitions);
+    const log = this.partitionsOf(topic)[partition];
+    log.push({ key, value: record.value, headers: record.headers ?? {} });
+
+    for (const consumer of this.consumers) {
+      if (consumer.subscription.topic === topic) {
+        this.pump(consumer, partition);
+      }
+    }
+    return { partition, offset: String(log.length - 1) };
+  }
+
+  async consume(subscription: BrokerSubscription, handler: BrokerMessageHandler): Promise<void> {
+    const consumer: InMemoryConsumer = { subscription, handler, pumps: new Map() };
+    this.consumers.push(consumer);
+    for (let partition = 0; partition < this.partitions; partition++) {
+      this.pump(consumer, partition);
+    }
+  }
+
+  /**
+   * Deliver uncommitted messages again, e.g. after a handler failure
+   */
+  redeliver(): void {
+    for (const consumer of this.consumers) {
+      for (let partition = 0; partition < this.partitions; partition++) {
+        this.pump(consumer, partition);
+      }
+    }
+  }
+
+  /**
+   * Resolves once every partition is caught up or stopped on a failure
+   */
+  async idle(): Promise<void> {
+    let pending = this.consumers.flatMap((consumer) => [...consumer.pumps.values()]);
+    while (pending.length > 0) {
+      await Promise.all(pending);
+      pending = this.consumers.flatMap((consumer) => [...consumer.pumps.values()]);
+    }
+  }
+
+  /**
+   * Next offset the group will read from a partition
+   */
+  committedOffset(groupId: string, topic: string, partition: number): number {
+    return this.committed.get(`${groupId}/${topic}/${partition}`) ?? 0;
+  }
+
+  async stop(): Promise<void> {
+    const consumers = this.consumers;
+    this.consumers = [];
+    await Promise.all(consumers.flatMap((consumer) => [...consumer.pumps.values()]));
+  }
+
+  private partitionsOf(topic: string): InMemoryRecord[][] {
+    let partitions = this.topics.get(topic);
+    if (!partitions) {
+      partitions = Array.from({ length: this.partitions }, () => []);
+      this.topics.set(topic, partitions);
+    }
+    return partitions;
+  }
+
+  /**
+   * Start delivering a partition unless delivery is already running
+   */
+  private pump(consumer: InMemoryConsumer, partition: number): void {
+    if (consumer.pumps.has(partition)) {
+      return;
+    }
+    const delivery = this.deliver(consumer, partition).finally(() => {
+      consumer.pumps.delete(partition);
+    });
+    consumer.pumps.set(partition, delivery);
+  }
+
+  private async deliver(consumer: InMemoryConsumer, partition: number): Promise<void> {
+    const { topic, groupId } = consumer.subscription;
+    const log = this.partitionsOf(topic)[partition];
+    const committedKey = `${groupId}/${topic}/${partition}`;
+
+    let offset = this.committedOffset(groupId, topic, partition);
+    while (offset < log.length && this.consumers.includes(consumer)) {
+      const record = log[offset];
+      try {
+        await consumer.handler({ topic, partition, offset: String(offset), ...record });
+      } catch {
+        return; // Left uncommitted for redelivery
+      }
+      offset += 1;
+      this.committed.set(committedKey, offset);
+    }
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Kafka headers as strings (first value of repeated headers)
+ */
+function headerStrings(headers: IHeaders | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first !== undefined) {
+      result[name] = first.toString();
+    }
+  }
+  return result;
+}
+
+/**
+ * Stable partition for a key
+ */
+function partitionFor(key: string, partitions: number): number {
+  let hash = 0;
+  for (const char of key) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return Math.abs(hash) % partitions;
+}
@@ -0,0 +1,189 @@
+/**
+ * OutboxRelay - Publishes eligibility_engine.outbox rows
+ *
+ * Each batch runs in one transaction: claim due rows (FOR UPDATE SKIP
+ * LOCKED, at most one per aggregate), publish each through the transport,
+ * then stamp published_at or record the failure and back off. Several
+ * relays can run side by side; an aggregate's events are still published in
+ * the order they were written.
+ *
+ * Delivery is at least once: a crash between publishing and committing
+ * publishes the row again on the next batch.
+ */
+
+import { Client } from 'pg';
+import { DatabaseConfig, HandlerOptions } from '../handlers/journey-delay-confirmed.handler.js';
+import { OutboxMessage, PostgresOutboxRepository } from '../repositories/postgres-outbox-repository.js';
+import { EventEnvelope, EventTransport } from './event-transports.js';
+
+// ============================================
+// Type Definitions
+// ============================================
+
+export interface OutboxRelayOptions {
+  batchSize?: number; // Rows claimed per transaction
+  pollIntervalMs?: number; // Wait between batches when the outbox is drained
+  retryBaseDelayMs?: number; // Delay after the first failed attempt, doubled per attempt
+  retryMaxDelayMs?: number;
+  logger?: HandlerOptions['logger'];
+}
+
+export interface RelayBatchResult {
+  claimed: number;
+  published: number;
+  failed: number;
+}
+
+const DEFAULT_OPTIONS = {
+  batchSize: 100,
+  pollIntervalMs: 1000,
+  retryBaseDelayMs: 1000,
+  retryMaxDelayMs: 5 * 60 * 1000,
+};
+
+/**
+ * Backoff before the next attempt after `attempts` failed attempts
+ */
+export function retryDelayMs(attempts: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * The published form of an outbox row
+ */
+export function toEnvelope(message: OutboxMessage): EventEnvelope {
+  const correlationId = message.payload.correlation_id;
+  return {
+    event_id: message.id,
+    event_type: message.event_type,
+    schema_version: message.schema_version,
+    aggregate_type: message.aggregate_type,
+    aggregate_id: message.aggregate_id,
+    timestamp: message.created_at,
+    correlation_id: typeof correlationId === 'string' ? correlationId : undefined,
+    payload: message.payload,
+  };
+}
+
+// ============================================
+// OutboxRelay Implementation
+// ============================================
+
+export class OutboxRelay {
+  private dbConfig: DatabaseConfig;
+  private transport: EventTransport;
+  private options: typeof DEFAULT_OPTIONS & OutboxRelayOptions;
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<void> | null = null;
+
+  constructor(dbConfig: DatabaseConfig, transport: EventTransport, options: OutboxRelayOptions = {}) {
+    this.dbConfig = dbConfig;
+    this.transport = transport;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Claim and publish one batch
+   */
+  async relayBatch(): Promise<RelayBatchResult> {
+    const client = new Client(this.dbConfig);
+    await client.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const repository = new PostgresOutboxRepository(client);
+      const messages = await repository.claimUnpublished(this.options.batchSize);
+      const result: RelayBatchResult = { claimed: messages.length, published: 0, failed: 0 };
+
+      for (const message of messages) {
+        try {
+          await this.transport.publish(toEnvelope(message));
+          await repository.markPublished(message.id);
+          result.published += 1;
+        } catch (error) {
+          const attempts = message.attempts + 1;
+          const delayMs = retryDelayMs(attempts, this.options.retryBaseDelayMs, this.options.retryMaxDelayMs);
+          await repository.markFailed(message.id, (error as Error).message, delayMs);
+          result.failed += 1;
+          this.log('error', {
+            event_id: message.id,
+            aggregate_id: message.aggregate_id,
+            attempts,
+            retry_in_ms: delayMs,
+            error: (error as Error).message,
+          }, 'Outbox publish failed');
+        }
+      }
+
+      await client.query('COMMIT');
+
+      if (result.claimed > 0) {
+        this.log('info', { ...result, transport: this.transport.name }, 'Outbox batch relayed');
+      }
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  /**
+   * Relay batches until stopped; a full batch is followed at once by the next
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling, let the current batch finish and close the transport
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.inFlight;
+    await this.transport.close();
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.inFlight = this.poll().finally(() => {
+        this.inFlight = null;
+      });
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    let drained = true;
+    try {
+      const result = await this.relayBatch();
+      drained = result.claimed < this.options.batchSize;
+    } catch (error) {
+      this.log('error', { error: (error as Error).message }, 'Outbox relay batch failed');
+    }
+
+    if (this.running) {
+      this.schedule(drained ? this.options.pollIntervalMs : 0);
+    }
+  }
+
+  /**
+   * Log helper
+   */
+  private log(level: 'info' | 'error' | 'debug', meta: object, msg: string): void {
+    if (this.options.logger) {
+      this.options.logger[level](meta, msg);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Schema compatibility - Changes to a produced event schema that would break
+ * its consumers
+ *
+ * Consumers validate messages against the version they were built for, so
+ * every message the current schema allows must still match the published
+ * schema of the same version:
+ * - a property's type may narrow, never widen
+ * - a required property stays required
+ * - a published property stays declared; without it any value is allowed
+ * - enum and const values may be removed, never added
+ * - restricting keywords (pattern, format, bounds, lengths, sizes) stay as
+ *   published; a new restriction is fine, a changed or removed one is not
+ * - array items stay constrained
+ * - where the published schema closes an object (additionalProperties:
+ *   false), it stays closed and no property may be added
+ *
+ * Anything else needs a new schema_version.
+ */
+
+import { JsonSchema } from './event-schemas.js';
+
+// Keywords that narrow the values a type allows
+const RESTRICTING_KEYWORDS = [
+  'pattern',
+  'format',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'minLength',
+  'maxLength',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'minProperties',
+  'maxProperties',
+];
+
+/**
+ * Describe each breaking change from published to current; empty when
+ * current is a compatible evolution of published
+ */
+export function breakingChanges(published: JsonSchema, current: JsonSchema, path = '(root)'): string[] {
+  const changes: string[] = [];
+
+  const publishedTypes = typesOf(published);
+  const currentTypes = typesOf(current);
+  if (publishedTypes) {
+    const widened = currentTypes
+      ? currentTypes.filter((type) => !publishedTypes.includes(type) && !narrows(type, publishedTypes))
+      : ['any'];
+    if (widened.length > 0) {
+      changes.push(`${path}: type ${widened.join(', ')} not allowed by the published schema`);
+    }
+  }
+
+  const publishedValues = valuesOf(published);
+  if (publishedValues) {
+    const currentValues = valuesOf(current);
+    const added = currentValues
+      ? currentValues.filter((value) => !publishedValues.some((allowed) => isEqual(allowed, value)))
+      : ['any value'];
+    if (added.length > 0) {
+      changes.push(`${path}: value ${added.map((value) => JSON.stringify(value)).join(', ')} not allowed by the published schema`);
+    }
+  }
+
+  for (const keyword of RESTRICTING_KEYWORDS) {
+    if (!(keyword in published) || isEqual(published[keyword], current[keyword])) {
+      continue;
+    }
+    changes.push(keyword in current
+      ? `${path}: ${keyword} changed from ${JSON.stringify(published[keyword])} to ${JSON.stringify(current[keyword])}`
+      : `${path}: ${keyword} ${JSON.stringify(published[keyword])} removed`);
+  }
+
+  const currentRequired = stringsOf(current.required);
+  for (const property of stringsOf(published.required)) {
+    if (!currentRequired.includes(property)) {
+      changes.push(`${path}: ${property} is no longer required`);
+    }
+  }
+
+  const publishedProperties = schemasOf(published.properties);
+  const currentProperties = schemasOf(current.properties);
+  if (published.additionalProperties === false && current.additionalProperties !== false) {
+    changes.push(`${path}: additional properties not allowed by the published schema`);
+  }
+  const propertyPath = (property: string) => (path === '(root)' ? property : `${path}.${property}`);
+  for (const [property, schema] of Object.entries(publishedProperties)) {
+    if (!currentProperties[property]) {
+      changes.push(...breakingChanges(schema, {}, propertyPath(property)));
+    }
+  }
+  for (const [property, schema] of Object.entries(currentProperties)) {
+    if (publishedProperties[property]) {
+      changes.push(...breakingChanges(publishedProperties[property], schema, propertyPath(property)));
+    } else if (published.additionalProperties === false) {
+      changes.push(`${propertyPath(property)}: property not allowed by the published schema`);
+    }
+  }
+
+  if (isSchema(published.items)) {
+    changes.push(...breakingChanges(published.items, isSchema(current.items) ? current.items : {}, `${path}[]`));
+  }
+
+  return changes;
+}
+
+function typesOf(schema: JsonSchema): string[] | null {
+  if (typeof schema.type === 'string') {
+    return [schema.type];
+  }
+  return Array.isArray(schema.type) ? stringsOf(schema.type) : null;
+}
+
+// Every integer is a number
+function narrows(type: string, publishedTypes: string[]): boolean {
+  return type === 'integer' && publishedTypes.includes('number');
+}
+
+function valuesOf(schema: JsonSchema): unknown[] | null {
+  if ('const' in schema) {
+    return [schema.const];
+  }
+  return Array.isArray(schema.enum) ? schema.enum : null;
+}
+
+function stringsOf(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function schemasOf(value: unknown): Record<string, JsonSchema> {
+  return isSchema(value) ? value as Record<string, JsonSchema> : {};
+}
+
+function isSchema(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
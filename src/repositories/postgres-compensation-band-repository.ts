@@ -0,0 +1,98 @@
+/**
+ * PostgresCompensationBandRepository - Compensation band lookups backed by Postgres
+ *
+ * Reads eligibility_engine.compensation_bands for EligibilityService.
+ * NUMERIC columns arrive from pg as strings and are converted here.
+ * Only bands in force on the requested date (default today) are returned.
+ *
+ * When a TOC code is given, that TOC's override rows (toc_code set) are
+ * layered over the scheme's bands: an override wins at its threshold.
+ */
+
+import { Queryable } from '../lib/db.js';
+import {
+  CompensationBand,
+  CompensationBandRepository,
+} from '../services/eligibility-service.js';
+
+interface CompensationBandRow {
+  id: string;
+  scheme_type: string;
+  toc_code: string | null;
+  delay_threshold_minutes: number;
+  compensation_percentage: string;
+  single_percentage: string;
+  return_percentage: string;
+  effective_from: string;
+  effective_to: string | null;
+}
+
+const BAND_COLUMNS = `id, scheme_type, toc_code, delay_threshold_minutes, compensation_percentage,
+              single_percentage, return_percentage,
+              to_char(effective_from, 'YYYY-MM-DD') AS effective_from,
+              to_char(effective_to, 'YYYY-MM-DD') AS effective_to`;
+
+export class PostgresCompensationBandRepository implements CompensationBandRepository {
+  private db: Queryable;
+
+  constructor(db: Queryable) {
+    this.db = db;
+  }
+
+  /**
+   * Find the highest band whose threshold the delay meets
+   */
+  async findBySchemeAndDelay(
+    scheme: string,
+    delayMinutes: number,
+    onDate?: string,
+    tocCode?: string
+  ): Promise<CompensationBand | null> {
+    const result = await this.db.query<CompensationBandRow>(
+      `SELECT ${BAND_COLUMNS}
+       FROM eligibility_engine.compensation_bands
+       WHERE scheme_type = $1
+         AND (toc_code IS NULL OR toc_code = $4)
+         AND delay_threshold_minutes <= $2
+         AND effective_from <= COALESCE($3::date, CURRENT_DATE)
+         AND (effective_to IS NULL OR effective_to > COALESCE($3::date, CURRENT_DATE))
+       ORDER BY delay_threshold_minutes DESC, toc_code NULLS LAST
+       LIMIT 1`,
+      [scheme, delayMinutes, onDate ?? null, tocCode ?? null]
+    );
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Find all bands for a scheme, lowest threshold first
+   */
+  async findAllByScheme(scheme: string, onDate?: string, tocCode?: string): Promise<CompensationBand[]> {
+    const result = await this.db.query<CompensationBandRow>(
+      `SELECT DISTINCT ON (delay_threshold_minutes) ${BAND_COLUMNS}
+       FROM eligibility_engine.compensation_bands
+       WHERE scheme_type = $1
+         AND (toc_code IS NULL OR toc_code = $3)
+         AND effective_from <= COALESCE($2::date, CURRENT_DATE)
+         AND (effective_to IS NULL OR effective_to > COALESCE($2::date, CURRENT_DATE))
+       ORDER BY delay_threshold_minutes ASC, toc_code NULLS LAST`,
+      [scheme, onDate ?? null, tocCode ?? null]
+    );
+
+    return result.rows.map((row) => this.mapRow(row));
+  }
+
+  private mapRow(row: CompensationBandRow): CompensationBand {
+    return {
+      id: String(row.id),
+      scheme_type: row.scheme_type,
+      toc_code: row.toc_code,
+      delay_threshold_minutes: row.delay_threshold_minutes,
+      compensation_percentage: parseFloat(row.compensation_percentage),
+      single_percentage: parseFloat(row.single_percentage),
+      return_percentage: parseFloat(row.return_percentage),
+      effective_from: row.effective_from,
+      effective_to: row.effective_to,
+    };
+  }
+}
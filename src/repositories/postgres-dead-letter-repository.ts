@@ -0,0 +1,156 @@
+/**
+ * PostgresDeadLetterRepository - Consumed events that could not be handled
+ *
+ * Writes and reads eligibility_engine.dead_letters. The consumer records a
+ * message here once it gives up on it, so the offset can be committed
+ * without losing the event; operators list and replay them through the
+ * admin API.
+ */
+
+import { Queryable } from '../lib/db.js';
+
+export type DeadLetterStatus = 'pending' | 'replayed';
+
+export const DEAD_LETTER_STATUSES: readonly DeadLetterStatus[] = ['pending', 'replayed'];
+
+/**
+ * A message the consumer gave up on
+ */
+export interface NewDeadLetter {
+  topic: string;
+  partition: number;
+  message_offset: string;
+  message_key: string | null;
+  event_id: string | null; // Null when the message could not be parsed
+  event_type: string | null;
+  journey_id: string | null;
+  payload: string; // Message value exactly as it arrived
+  error: string;
+  attempts: number;
+}
+
+export interface DeadLetter extends NewDeadLetter {
+  id: string;
+  status: DeadLetterStatus;
+  created_at: string; // ISO 8601
+  last_failed_at: string; // ISO 8601
+  replayed_at: string | null; // ISO 8601
+}
+
+interface DeadLetterRow extends Omit<DeadLetter, 'created_at' | 'last_failed_at' | 'replayed_at'> {
+  created_at: Date;
+  last_failed_at: Date;
+  replayed_at: Date | null;
+}
+
+const DEAD_LETTER_COLUMNS = `id, topic, partition, message_offset, message_key, event_id, event_type,
+              journey_id, payload, error, attempts, status, created_at, last_failed_at, replayed_at`;
+
+export class PostgresDeadLetterRepository {
+  private db: Queryable;
+
+  constructor(db: Queryable) {
+    this.db = db;
+  }
+
+  /**
+   * Store a failed message
+   * A message already dead-lettered (redelivered before its offset was
+   * committed) keeps its row, with the new error and attempts added.
+   */
+  async record(letter: NewDeadLetter): Promise<void> {
+    await this.db.query(
+      `INSERT INTO eligibility_engine.dead_letters (
+        topic, partition, message_offset, message_key, event_id, event_type,
+        journey_id, payload, error, attempts
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (topic, partition, message_offset) DO UPDATE
+      SET error = EXCLUDED.error,
+          attempts = eligibility_engine.dead_letters.attempts + EXCLUDED.attempts,
+          status = 'pending',
+          last_failed_at = CURRENT_TIMESTAMP`,
+      [
+        letter.topic,
+        letter.partition,
+        letter.message_offset,
+        letter.message_key,
+        letter.event_id,
+        letter.event_type,
+        letter.journey_id,
+        letter.payload,
+        letter.error,
+        letter.attempts,
+      ]
+    );
+  }
+
+  /**
+   * Dead letters, oldest first, optionally only those with one status
+   */
+  async list(options: { status?: DeadLetterStatus; limit: number }): Promise<DeadLetter[]> {
+    const result = await this.db.query<DeadLetterRow>(
+      `SELECT ${DEAD_LETTER_COLUMNS}
+       FROM eligibility_engine.dead_letters
+       WHERE ($1::varchar IS NULL OR status = $1)
+       ORDER BY created_at, id
+       LIMIT $2`,
+      [options.status ?? null, options.limit]
+    );
+
+    return result.rows.map(toDeadLetter);
+  }
+
+  async findById(id: string): Promise<DeadLetter | null> {
+    const result = await this.db.query<DeadLetterRow>(
+      `SELECT ${DEAD_LETTER_COLUMNS}
+       FROM eligibility_engine.dead_letters
+       WHERE id = $1`,
+      [id]
+    );
+
+    return result.rows[0] ? toDeadLetter(result.rows[0]) : null;
+  }
+
+  /**
+   * Record a successful replay, counting the attempt
+   */
+  async markReplayed(id: string): Promise<DeadLetter | null> {
+    const result = await this.db.query<DeadLetterRow>(
+      `UPDATE eligibility_engine.dead_letters
+       SET status = 'replayed',
+           attempts = attempts + 1,
+           replayed_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING ${DEAD_LETTER_COLUMNS}`,
+      [id]
+    );
+
+    return result.rows[0] ? toDeadLetter(result.rows[0]) : null;
+  }
+
+  /**
+   * Record a failed replay; the letter stays pending
+   */
+  async markReplayFailed(id: string, error: string): Promise<DeadLetter | null> {
+    const result = await this.db.query<DeadLetterRow>(
+      `UPDATE eligibility_engine.dead_letters
+       SET attempts = attempts + 1,
+           error = $2,
+           last_failed_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING ${DEAD_LETTER_COLUMNS}`,
+      [id, error]
+    );
+
+    return result.rows[0] ? toDeadLetter(result.rows[0]) : null;
+  }
+}
+
+function toDeadLetter(row: DeadLetterRow): DeadLetter {
+  return {
+    ...row,
+    created_at: new Date(row.created_at).toISOString(),
+    last_failed_at: new Date(row.last_failed_at).toISOString(),
+    replayed_at: row.replayed_at ? new Date(row.replayed_at).toISOString() : null,
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * PostgresEvaluationRepository - Evaluation persistence backed by Postgres
+ *
+ * Reads and writes eligibility_engine.eligibility_evaluations. When given a
+ * transaction-bound client, saves join the caller's transaction (used by the
+ * JourneyDelayConfirmed handler to keep the evaluation and outbox row atomic).
+ *
+ * A journey can have several evaluation versions; exactly one is current
+ * (superseded_at IS NULL).
+ */
+
+import { Queryable } from '../lib/db.js';
+import {
+  ClaimRouting,
+  DecisionTraceStep,
+  DelayedLeg,
+  FareBreakdown,
+  EvaluationRepository,
+  EvaluationRequest,
+  EvaluationResult,
+  RuleVersion,
+  StoredEvaluationResult,
+} from '../services/eligibility-service.js';
+import { TicketFormat } from '../lib/ticket-format.js';
+
+interface EvaluationRow {
+  id: string;
+  journey_id: string;
+  toc_code: string;
+  scheme: string;
+  delay_minutes: number;
+  eligible: boolean;
+  compensation_percentage: string | null;
+  compensation_pence: number | null;
+  ticket_fare_pence: number | null;
+  reasons: string[] | null;
+  applied_rules: string[] | null;
+  claim_submitted_at: Date | null;
+  claim_deadline: string | null;
+  claim_routing: ClaimRouting | null;
+  ticket_format: TicketFormat | null;
+  delayed_leg: DelayedLeg | null;
+  rule_version: RuleVersion | null;
+  version: number;
+  evaluation_request: EvaluationRequest | null;
+  supersedes_evaluation_id: string | null;
+  superseded_by: string | null;
+  superseded_at: Date | null;
+  reevaluation_reason: string | null;
+  decision_trace: DecisionTraceStep[] | null;
+  fare_breakdown: FareBreakdown | null;
+  created_at: Date;
+}
+
+const EVALUATION_COLUMNS = `id, journey_id, toc_code, eligible, scheme, delay_minutes,
+        compensation_percentage, compensation_pence, ticket_fare_pence,
+        reasons, applied_rules, claim_submitted_at,
+        to_char(claim_deadline, 'YYYY-MM-DD') AS claim_deadline, claim_routing,
+        ticket_format, delayed_leg, rule_version, version, evaluation_request,
+        supersedes_evaluation_id, superseded_by, superseded_at, reevaluation_reason,
+        decision_trace, fare_breakdown, created_at`;
+
+export class PostgresEvaluationRepository implements EvaluationRepository {
+  private db: Queryable;
+
+  constructor(db: Queryable) {
+    this.db = db;
+  }
+
+  /**
+   * Insert a new evaluation
+   */
+  async save(evaluation: EvaluationResult): Promise<void> {
+    await this.db.query(
+      `INSERT INTO eligibility_engine.eligibility_evaluations (
+        id, journey_id, toc_code, scheme, delay_minutes,
+        ticket_fare_pence, eligible, compensation_percentage, compensation_pence,
+        reasons, applied_rules, claim_submitted_at, claim_deadline, claim_routing,
+        ticket_format, delayed_leg, rule_version, version, evaluation_request,
+        supersedes_evaluation_id, reevaluation_reason, decision_trace, fare_breakdown, created_at
+      ) VALUES (COALESCE($1::uuid, gen_random_uuid()), $2, $3, $4, $5, $6, $7, $8, $9, $10, $11,
+        $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, COALESCE($24::timestamptz, CURRENT_TIMESTAMP))`,
+      [
+        evaluation.evaluation_id ?? null,
+        evaluation.journey_id,
+        evaluation.toc_code,
+        evaluation.scheme,
+        evaluation.delay_minutes,
+        evaluation.ticket_fare_pence,
+        evaluation.eligible,
+        evaluation.compensation_percentage,
+        evaluation.compensation_pence,
+        JSON.stringify(evaluation.reasons),
+        JSON.stringify(evaluation.applied_rules),
+        evaluation.claim_submitted_at ?? null,
+        evaluation.claim_deadline ?? null,
+        evaluation.claim_routing ? JSON.stringify(evaluation.claim_routing) : null,
+        evaluation.ticket_format ?? null,
+        evaluation.delayed_leg ?? null,
+        evaluation.rule_version ? JSON.stringify(evaluation.rule_version) : null,
+        evaluation.version ?? 1,
+        evaluation.evaluation_request ? JSON.stringify(evaluation.evaluation_request) : null,
+        evaluation.supersedes_evaluation_id ?? null,
+        evaluation.reevaluation_reason ?? null,
+        evaluation.decision_trace ? JSON.stringify(evaluation.decision_trace) : null,
+        evaluation.fare_breakdown ? JSON.stringify(evaluation.fare_breakdown) : null,
+        evaluation.evaluation_timestamp ?? null,
+      ]
+    );
+  }
+
+  /**
+   * Find the current evaluation for a journey
+   */
+  async findByJourneyId(journeyId: string): Promise<StoredEvaluationResult | null> {
+    const result = await this.db.query<EvaluationRow>(
+      `SELECT ${EVALUATION_COLUMNS}
+       FROM eligibility_engine.eligibility_evaluations
+       WHERE journey_id = $1
+         AND superseded_at IS NULL`,
+      [journeyId]
+    );
+
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Find every evaluation version for a journey, oldest first
+   */
+  async findHistoryByJourneyId(journeyId: string): Promise<StoredEvaluationResult[]> {
+    const result = await this.db.query<EvaluationRow>(
+      `SELECT ${EVALUATION_COLUMNS}
+       FROM eligibility_engine.eligibility_evaluations
+       WHERE journey_id = $1
+       ORDER BY version ASC`,
+      [journeyId]
+    );
+
+    return result.rows.map((row) => this.mapRow(row));
+  }
+
+  /**
+   * Mark the current version superseded
+   * Returns false if it was already superseded (a concurrent re-evaluation won)
+   */
+  async supersede(evaluationId: string, supersededBy: string, supersededAt: string): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE eligibility_engine.eligibility_evaluations
+       SET superseded_by = $2, superseded_at = $3
+       WHERE id = $1
+         AND superseded_at IS NULL`,
+      [evaluationId, supersededBy, supersededAt]
+    );
+
+    return result.rowCount === 1;
+  }
+
+  private mapRow(row: EvaluationRow): StoredEvaluationResult {
+    return {
+      journey_id: row.journey_id,
+      eligible: row.eligible,
+      scheme: row.scheme,
+      delay_minutes: row.delay_minutes,
+      compensation_percentage: parseFloat(row.compensation_percentage ?? '0'),
+      compensation_pence: row.compensation_pence ?? 0,
+      ticket_fare_pence: row.ticket_fare_pence ?? 0,
+      reasons: row.reasons ?? [],
+      applied_rules: row.applied_rules ?? [],
+      toc_code: row.toc_code,
+      evaluation_timestamp: new Date(row.created_at).toISOString(),
+      evaluation_id: row.id,
+      claim_submitted_at: row.claim_submitted_at ? new Date(row.claim_submitted_at).toISOString() : undefined,
+      claim_deadline: row.claim_deadline ?? undefined,
+      claim_routing: row.claim_routing ?? undefined,
+      ticket_format: row.ticket_format ?? undefined,
+      delayed_leg: row.delayed_leg ?? undefined,
+      rule_version: row.rule_version ?? undefined,
+      version: row.version ?? 1,
+      evaluation_request: row.evaluation_request ?? undefined,
+      supersedes_evaluation_id: row.supersedes_evaluation_id ?? undefined,
+      superseded_by: row.superseded_by ?? undefined,
+      superseded_at: row.superseded_at ? new Date(row.superseded_at).toISOString() : undefined,
+      reevaluation_reason: row.reevaluation_reason ?? undefined,
+      decision_trace: row.decision_trace ?? undefined,
+      fare_breakdown: row.fare_breakdown ?? undefined,
+    };
+  }
+}
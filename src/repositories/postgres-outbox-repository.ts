@@ -0,0 +1,135 @@
+/**
+ * PostgresOutboxRepository - Transactional outbox backed by Postgres
+ *
+ * Appends events to eligibility_engine.outbox. Callers pass a
+ * transaction-bound client so the event commits with the state change that
+ * produced it.
+ *
+ * The outbox relay claims rows with FOR UPDATE SKIP LOCKED inside its own
+ * transaction. Only the oldest unpublished row of each aggregate can be
+ * claimed, so concurrent relays never publish an aggregate's events out of
+ * order.
+ */
+
+import { Queryable } from '../lib/db.js';
+
+export interface OutboxEvent {
+  aggregate_type: string;
+  aggregate_id: string;
+  event_type: string;
+  schema_version: number; // Payload schema version (event-schemas.ts)
+  payload: object;
+}
+
+/**
+ * An unpublished row claimed by the relay
+ */
+export interface OutboxMessage extends OutboxEvent {
+  id: string;
+  payload: Record<string, unknown>;
+  created_at: string; // ISO 8601
+  attempts: number; // Publish attempts so far
+}
+
+interface OutboxRow {
+  id: string;
+  aggregate_type: string;
+  aggregate_id: string;
+  event_type: string;
+  schema_version: number;
+  payload: Record<string, unknown>;
+  created_at: Date;
+  attempts: number;
+}
+
+export class PostgresOutboxRepository {
+  private db: Queryable;
+
+  constructor(db: Queryable) {
+    this.db = db;
+  }
+
+  /**
+   * Append an event for the relay to publish
+   */
+  async enqueue(event: OutboxEvent): Promise<void> {
+    await this.db.query(
+      `INSERT INTO eligibility_engine.outbox (
+        aggregate_type, aggregate_id, event_type, schema_version, payload
+      ) VALUES ($1, $2, $3, $4, $5)`,
+      [
+        event.aggregate_type,
+        event.aggregate_id,
+        event.event_type,
+        event.schema_version,
+        JSON.stringify(event.payload),
+      ]
+    );
+  }
+
+  /**
+   * Lock up to limit rows that are due for publishing, oldest first
+   * Rows locked by another relay are skipped, as is any row with an older
+   * unpublished row for the same aggregate. Must run inside a transaction.
+   */
+  async claimUnpublished(limit: number): Promise<OutboxMessage[]> {
+    const result = await this.db.query<OutboxRow>(
+      `SELECT o.id, o.aggregate_type, o.aggregate_id, o.event_type, o.schema_version, o.payload, o.created_at, o.attempts
+       FROM eligibility_engine.outbox o
+       WHERE o.published_at IS NULL
+         AND (o.next_attempt_at IS NULL OR o.next_attempt_at <= CURRENT_TIMESTAMP)
+         AND NOT EXISTS (
+           SELECT 1
+           FROM eligibility_engine.outbox earlier
+           WHERE earlier.aggregate_type = o.aggregate_type
+             AND earlier.aggregate_id = o.aggregate_id
+             AND earlier.published_at IS NULL
+             AND (earlier.created_at, earlier.id) < (o.created_at, o.id)
+         )
+       ORDER BY o.created_at, o.id
+       LIMIT $1
+       FOR UPDATE OF o SKIP LOCKED`,
+      [limit]
+    );
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      aggregate_type: row.aggregate_type,
+      aggregate_id: row.aggregate_id,
+      event_type: row.event_type,
+      schema_version: row.schema_version,
+      payload: row.payload,
+      created_at: new Date(row.created_at).toISOString(),
+      attempts: row.attempts,
+    }));
+  }
+
+  /**
+   * Stamp a row published, counting the attempt
+   */
+  async markPublished(id: string): Promise<void> {
+    await this.db.query(
+      `UPDATE eligibility_engine.outbox
+       SET published_at = CURRENT_TIMESTAMP,
+           attempts = attempts + 1,
+           next_attempt_at = NULL,
+           last_error = NULL
+       WHERE id = $1`,
+      [id]
+    );
+  }
+
+  /**
+   * Record a failed attempt and hold the row back for retryDelayMs
+   */
+  async markFailed(id: string, error: string, retryDelayMs: number): Promise<void> {
+    await this.db.query(
+      `UPDATE eligibility_engine.outbox
+       SET attempts = attempts + 1,
+           next_attempt_at = CURRENT_TIMESTAMP + $3 * INTERVAL '1 millisecond',
+           last_error = $2
+       WHERE id = $1`,
+      [id, error, retryDelayMs]
+    );
+  }
+}
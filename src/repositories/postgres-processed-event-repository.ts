@@ -0,0 +1,82 @@
+/**
+ * PostgresProcessedEventRepository - Inbox of consumed events
+ *
+ * Reads and writes eligibility_engine.processed_events. The handler checks
+ * the inbox and records the event through its transaction-bound client, so
+ * the row commits with the evaluation; event_id is the primary key, and a
+ * concurrent delivery of the same event fails on insert and rolls back.
+ */
+
+import { Queryable } from '../lib/db.js';
+
+export type ProcessedEventOutcome = 'evaluated' | 'reevaluated';
+
+export interface ProcessedEvent {
+  event_id: string;
+  event_type: string;
+  journey_id: string;
+  outcome: ProcessedEventOutcome;
+  evaluation_id: string; // Evaluation the event produced
+  correlation_id: string | null;
+  processed_at?: string; // ISO 8601; set by the database
+}
+
+interface ProcessedEventRow extends Omit<ProcessedEvent, 'processed_at'> {
+  processed_at: Date;
+}
+
+export class PostgresProcessedEventRepository {
+  private db: Queryable;
+
+  constructor(db: Queryable) {
+    this.db = db;
+  }
+
+  async findByEventId(eventId: string): Promise<ProcessedEvent | null> {
+    const result = await this.db.query<ProcessedEventRow>(
+      `SELECT event_id, event_type, journey_id, outcome, evaluation_id, correlation_id, processed_at
+       FROM eligibility_engine.processed_events
+       WHERE event_id = $1`,
+      [eventId]
+    );
+
+    const row = result.rows[0];
+    return row ? { ...row, processed_at: new Date(row.processed_at).toISOString() } : null;
+  }
+
+  /**
+   * The event most recently processed for a journey
+   */
+  async findLatestByJourneyId(journeyId: string): Promise<ProcessedEvent | null> {
+    const result = await this.db.query<ProcessedEventRow>(
+      `SELECT event_id, event_type, journey_id, outcome, evaluation_id, correlation_id, processed_at
+       FROM eligibility_engine.processed_events
+       WHERE journey_id = $1
+       ORDER BY processed_at DESC
+       LIMIT 1`,
+      [journeyId]
+    );
+
+    const row = result.rows[0];
+    return row ? { ...row, processed_at: new Date(row.processed_at).toISOString() } : null;
+  }
+
+  /**
+   * Record a handled event; fails if the event_id is already recorded
+   */
+  async record(event: ProcessedEvent): Promise<void> {
+    await this.db.query(
+      `INSERT INTO eligibility_engine.processed_events (
+        event_id, event_type, journey_id, outcome, evaluation_id, correlation_id
+      ) VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        event.event_id,
+        event.event_type,
+        event.journey_id,
+        event.outcome,
+        event.evaluation_id,
+        event.correlation_id,
+      ]
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * PostgresSeatedFareRepository - Seated fare equivalents backed by Postgres
+ *
+ * Reads eligibility_engine.seated_fare_equivalents for SleeperFareCapper.
+ * Returns the latest version that had started by the requested date (default
+ * today); SleeperFareCapper decides whether it has since expired.
+ */
+
+import { Queryable } from '../lib/db.js';
+import { SeatedFareEquivalent, SeatedFareRepository } from '../services/sleeper-fare-capper.js';
+
+export class PostgresSeatedFareRepository implements SeatedFareRepository {
+  private db: Queryable;
+
+  constructor(db: Queryable) {
+    this.db = db;
+  }
+
+  /**
+   * Find the seated equivalent for a sleeper route and berth class
+   */
+  async findByRouteAndClass(
+    routeCode: string,
+    sleeperClass: string,
+    onDate?: string
+  ): Promise<SeatedFareEquivalent | null> {
+    const result = await this.db.query<SeatedFareEquivalent>(
+      `SELECT route_code, sleeper_class, seated_equivalent_pence,
+              to_char(effective_from, 'YYYY-MM-DD') AS effective_from,
+              to_char(effective_to, 'YYYY-MM-DD') AS effective_to
+       FROM eligibility_engine.seated_fare_equivalents
+       WHERE route_code = $1
+         AND sleeper_class = $2
+         AND effective_from <= COALESCE($3::date, CURRENT_DATE)
+       ORDER BY effective_from DESC
+       LIMIT 1`,
+      [routeCode, sleeperClass, onDate ?? null]
+    );
+
+    return result.rows[0] ?? null;
+  }
+}
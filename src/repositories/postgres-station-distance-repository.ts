@@ -0,0 +1,34 @@
+/**
+ * PostgresStationDistanceRepository - Station distances backed by Postgres
+ *
+ * Reads eligibility_engine.station_distances for mileage apportionment.
+ * A pair is stored once and matched in either direction.
+ * NUMERIC columns arrive from pg as strings and are converted here.
+ */
+
+import { Queryable } from '../lib/db.js';
+import { StationDistanceRepository } from '../services/apportionment-strategies.js';
+
+export class PostgresStationDistanceRepository implements StationDistanceRepository {
+  private db: Queryable;
+
+  constructor(db: Queryable) {
+    this.db = db;
+  }
+
+  /**
+   * Find the distance in miles between two stations
+   */
+  async findMiles(fromCrs: string, toCrs: string): Promise<number | null> {
+    const result = await this.db.query<{ miles: string }>(
+      `SELECT miles
+       FROM eligibility_engine.station_distances
+       WHERE (from_crs = $1 AND to_crs = $2)
+          OR (from_crs = $2 AND to_crs = $1)
+       LIMIT 1`,
+      [fromCrs, toCrs]
+    );
+
+    return result.rows.length > 0 ? parseFloat(result.rows[0].miles) : null;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * PostgresTicketProductRepository - Ticket product rules backed by Postgres
+ *
+ * Reads eligibility_engine.ticket_products for TicketProductValuer.
+ * Returns the latest version that had started by the requested date (default
+ * today); TicketProductValuer decides whether it has since expired.
+ */
+
+import { Queryable } from '../lib/db.js';
+import { TicketProduct, TicketProductRepository } from '../services/ticket-product-valuer.js';
+
+export class PostgresTicketProductRepository implements TicketProductRepository {
+  private db: Queryable;
+
+  constructor(db: Queryable) {
+    this.db = db;
+  }
+
+  /**
+   * Find the valuation rule for a ticket product
+   */
+  async findByCode(productCode: string, onDate?: string): Promise<TicketProduct | null> {
+    const result = await this.db.query<TicketProduct>(
+      `SELECT product_code, product_name, valuation_basis, travel_days, journeys_per_day,
+              exclusion_reason,
+              to_char(effective_from, 'YYYY-MM-DD') AS effective_from,
+              to_char(effective_to, 'YYYY-MM-DD') AS effective_to
+       FROM eligibility_engine.ticket_products
+       WHERE product_code = $1
+         AND effective_from <= COALESCE($2::date, CURRENT_DATE)
+       ORDER BY effective_from DESC
+       LIMIT 1`,
+      [productCode, onDate ?? null]
+    );
+
+    return result.rows[0] ?? null;
+  }
+}
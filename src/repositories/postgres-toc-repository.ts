@@ -0,0 +1,60 @@
+/**
+ * PostgresTocRepository - TOC rulepack lookups backed by Postgres
+ *
+ * Reads eligibility_engine.toc_rulepacks for EligibilityService.
+ * A TOC can have several rulepack versions; lookups pick the one in force
+ * on the requested date.
+ *
+ * The rulepack carries its scheme's definition from eligibility_engine.schemes.
+ * min_threshold_minutes is the scheme's minimum threshold, lowered by any
+ * TOC band override below it.
+ *
+ * rounding_mode, min_claimable_pence, season_ticket_divisors and
+ * fare_component_policy come from the rulepack when set, else from its scheme.
+ */
+
+import { Queryable } from '../lib/db.js';
+import { TocRepository, TocRulepack } from '../services/eligibility-service.js';
+
+export class PostgresTocRepository implements TocRepository {
+  private db: Queryable;
+
+  constructor(db: Queryable) {
+    this.db = db;
+  }
+
+  /**
+   * Find the rulepack for a TOC code in force on a date (default today)
+   */
+  async findByTocCode(tocCode: string, onDate?: string): Promise<TocRulepack | null> {
+    const result = await this.db.query<TocRulepack>(
+      `SELECT r.id, r.toc_code, r.toc_name, r.scheme, s.scheme_name,
+              LEAST(s.min_threshold_minutes, (
+                SELECT MIN(b.delay_threshold_minutes)
+                FROM eligibility_engine.compensation_bands b
+                WHERE b.toc_code = r.toc_code
+                  AND b.scheme_type = r.scheme
+                  AND b.effective_from <= COALESCE($2::date, CURRENT_DATE)
+                  AND (b.effective_to IS NULL OR b.effective_to > COALESCE($2::date, CURRENT_DATE))
+              )) AS min_threshold_minutes,
+              r.allows_online_claims, r.allows_postal_claims, r.claim_portal_url,
+              r.max_claim_days, r.special_rules, r.active,
+              COALESCE(r.rounding_mode, s.rounding_mode) AS rounding_mode,
+              COALESCE(r.min_claimable_pence, s.min_claimable_pence) AS min_claimable_pence,
+              COALESCE(r.season_ticket_divisors, s.season_ticket_divisors) AS season_ticket_divisors,
+              COALESCE(r.fare_component_policy, s.fare_component_policy) AS fare_component_policy,
+              to_char(r.effective_from, 'YYYY-MM-DD') AS effective_from,
+              to_char(r.effective_to, 'YYYY-MM-DD') AS effective_to
+       FROM eligibility_engine.toc_rulepacks r
+       JOIN eligibility_engine.schemes s ON s.scheme_code = r.scheme
+       WHERE r.toc_code = $1
+         AND r.effective_from <= COALESCE($2::date, CURRENT_DATE)
+         AND (r.effective_to IS NULL OR r.effective_to > COALESCE($2::date, CURRENT_DATE))
+       ORDER BY r.effective_from DESC
+       LIMIT 1`,
+      [tocCode, onDate ?? null]
+    );
+
+    return result.rows[0] ?? null;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Apportionment strategies - Split a ticket fare across journey segments
+ *
+ * Used by MultiTocApportioner when the caller does not know each operator's
+ * share of a through fare. A strategy only produces a weight per segment;
+ * allocatePence turns the weights into whole pence that sum exactly to the
+ * fare, handing the rounding remainder out by largest remainder.
+ *
+ * - equal: every segment weighs the same
+ * - mileage: weighted by segment distance from the station distance table
+ * - weights: caller-supplied weight on each segment
+ */
+
+import type { JourneySegment } from './multi-toc-apportioner.js';
+
+// ============================================
+// Type Definitions
+// ============================================
+
+/**
+ * fare_portions uses the caller's fare_portion_pence as given
+ */
+export type ApportionmentStrategyName = 'fare_portions' | 'equal' | 'mileage' | 'weights';
+
+export const APPORTIONMENT_STRATEGIES: readonly ApportionmentStrategyName[] = [
+  'fare_portions',
+  'equal',
+  'mileage',
+  'weights',
+];
+
+export interface ApportionmentStrategy {
+  readonly name: ApportionmentStrategyName;
+  weigh(segments: JourneySegment[]): Promise<number[]>;
+}
+
+// Repository interface
+export interface StationDistanceRepository {
+  findMiles(fromCrs: string, toCrs: string): Promise<number | null>;
+}
+
+export class ApportionmentStrategyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApportionmentStrategyError';
+  }
+}
+
+// ============================================
+// Rounding
+// ============================================
+
+/**
+ * Split totalPence in proportion to weights
+ * Each share is rounded down, then the pence left over go one each to the
+ * shares with the largest fractional parts (earlier segments win ties).
+ */
+export function allocatePence(totalPence: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.some((weight) => !Number.isFinite(weight) || weight < 0) || totalWeight <= 0) {
+    throw new ApportionmentStrategyError('segment weights must be non-negative and not all zero');
+  }
+
+  const exact = weights.map((weight) => (totalPence * weight) / totalWeight);
+  const shares = exact.map((share) => Math.floor(share));
+  let remainder = totalPence - shares.reduce((sum, share) => sum + share, 0);
+
+  const byFraction = exact
+    .map((share, index) => ({ index, fraction: share - shares[index] }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+
+  for (const { index } of byFraction) {
+    if (remainder <= 0) {
+      break;
+    }
+    shares[index] += 1;
+    remainder -= 1;
+  }
+
+  return shares;
+}
+
+// ============================================
+// Strategies
+// ============================================
+
+export class EqualSplitStrategy implements ApportionmentStrategy {
+  readonly name = 'equal' as const;
+
+  async weigh(segments: JourneySegment[]): Promise<number[]> {
+    return segments.map(() => 1);
+  }
+}
+
+export class MileageWeightedStrategy implements ApportionmentStrategy {
+  readonly name = 'mileage' as const;
+  private stationDistanceRepository: StationDistanceRepository;
+
+  constructor(stationDistanceRepository: StationDistanceRepository) {
+    this.stationDistanceRepository = stationDistanceRepository;
+  }
+
+  async weigh(segments: JourneySegment[]): Promise<number[]> {
+    const miles: number[] = [];
+
+    for (const segment of segments) {
+      if (!segment.origin_crs || !segment.destination_crs) {
+        throw new ApportionmentStrategyError(
+          `segment ${segment.segment_order} needs origin_crs and destination_crs for mileage apportionment`
+        );
+      }
+
+      const distance = await this.stationDistanceRepository.findMiles(segment.origin_crs, segment.destination_crs);
+      if (distance === null) {
+        throw new ApportionmentStrategyError(
+          `no station distance for ${segment.origin_crs}-${segment.destination_crs}`
+        );
+      }
+      miles.push(distance);
+    }
+
+    return miles;
+  }
+}
+
+export class CallerWeightedStrategy implements ApportionmentStrategy {
+  readonly name = 'weights' as const;
+
+  async weigh(segments: JourneySegment[]): Promise<number[]> {
+    return segments.map((segment) => {
+      if (segment.weight === undefined) {
+        throw new ApportionmentStrategyError(
+          `segment ${segment.segment_order} needs a weight for weighted apportionment`
+        );
+      }
+      return segment.weight;
+    });
+  }
+}
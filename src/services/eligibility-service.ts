@@ -6,29 +6,98 @@
  * - AC-1: Evaluate DR15 Eligibility
  * - AC-2: Evaluate DR30 Eligibility
  * - AC-3: Calculate Compensation Amount
+ * - Claim window enforcement (toc_rulepacks.max_claim_days)
+ * - Ticket restrictions checked against the scheduled departure
+ * - Claim routing guidance for eligible results
+ * - TOC special_rules applied after the standard band lookup
+ * - Single vs return band percentages
+ * - Effective-dated rulepacks and bands, looked up by journey date
+ * - Data-driven schemes (eligibility_engine.schemes) with per-TOC band overrides
+ * - Multi-TOC journeys apportioned per segment (MultiTocApportioner), with
+ *   per-segment delays and claims routed to the operator responsible; the fare
+ *   is split by an apportionment strategy when segment fares are unknown
+ * - Sleeper compensation capped at the seated equivalent fare
+ * - Per-scheme/per-TOC rounding and minimum claimable payouts (lib/money.ts)
+ * - Season, flexi and carnet tickets paid on their per-journey value, which
+ *   multi-TOC journeys share across their segments
+ * - Rover, Ranger and other multi-day products valued per day or per journey
+ *   from stored product rules, or excluded from Delay Repay, on single and
+ *   multi-TOC journeys alike
+ * - Itemised fares paid only on their compensable components (PlusBus,
+ *   Travelcard, reservations and berth supplements excluded by policy)
+ * - Re-evaluation (appeals, corrected inputs) as new evaluation versions
+ * - Ordered decision trace recorded with each evaluation
+ * - What-if simulation with a band table, never persisted
+ *
+ * This is the single evaluation pipeline: the HTTP route and the
+ * JourneyDelayConfirmed handler both delegate here.
  */
 
+import { v4 as uuidv4 } from 'uuid';
+import { moneyPolicyFor, MoneyPolicy, percentageOfPence, RoundingMode } from '../lib/money.js';
+import { bandPercentageFor, TicketFormat } from '../lib/ticket-format.js';
+import { SpecialRulesInterpreter, SpecialRulesOutcome } from './special-rules-interpreter.js';
+import { RestrictionValidationResult, RestrictionValidator } from './restriction-validator.js';
+import { SeatedFareRepository, SleeperFareCapper } from './sleeper-fare-capper.js';
+import {
+  SeasonTicketDetails,
+  SeasonTicketValuation,
+  SeasonTicketValuer,
+  seasonTicketTypeOf,
+} from './season-ticket-valuer.js';
+import {
+  TicketProductRepository,
+  TicketProductValuation,
+  TicketProductValuer,
+} from './ticket-product-valuer.js';
+import { FareComponent, FareComponentBreakdown, FareComponentSplitter } from './fare-component-splitter.js';
+import { ApportionmentResult, MultiTocApportioner, SegmentEligibility } from './multi-toc-apportioner.js';
+import {
+  allocatePence,
+  ApportionmentStrategyError,
+  ApportionmentStrategyName,
+  StationDistanceRepository,
+} from './apportionment-strategies.js';
+
 // ============================================
 // Type Definitions
 // ============================================
 
+export type DelayedLeg = 'outbound' | 'return';
+
 export interface JourneySegment {
   toc_code: string;
-  fare_portion_pence: number;
+  fare_portion_pence?: number; // Omit on every segment to split the fare by apportionment_strategy
+  scheduled_departure?: string; // ISO 8601; detects missed connections from the previous segment
+  scheduled_arrival?: string; // With actual_arrival, gives the segment its own delay
+  actual_arrival?: string;
+  origin_crs?: string; // Mileage apportionment
+  destination_crs?: string;
+  weight?: number; // Weights apportionment
 }
 
 export interface EvaluationRequest {
   journey_id: string;
   toc_code: string;
-  scheduled_departure: string;
-  actual_arrival: string;
-  scheduled_arrival: string;
+  scheduled_departure?: string;
+  actual_arrival?: string;
+  scheduled_arrival?: string;
+  delay_minutes?: number; // Pre-computed delay; takes precedence over arrival times
   ticket_fare_pence: number;
-  ticket_class: string;
-  ticket_type: string;
-  ticket_restrictions: string[];
-  is_sleeper: boolean;
-  journey_segments: JourneySegment[];
+  fare_components?: FareComponent[]; // Itemised fare; must sum to ticket_fare_pence
+  ticket_class?: string;
+  ticket_type?: string; // Season types (e.g. annual_season, flexi_season, carnet) pay per journey
+  ticket_format?: TicketFormat; // Defaults from ticket_type, else 'return'
+  season_ticket?: SeasonTicketDetails; // Flexi travel days or carnet journeys
+  ticket_product_code?: string; // Rover/Ranger/multi-day product (eligibility_engine.ticket_products)
+  delayed_leg?: DelayedLeg; // Return tickets only
+  ticket_restrictions?: string[];
+  is_sleeper?: boolean;
+  journey_segments?: JourneySegment[];
+  apportionment_strategy?: ApportionmentStrategyName; // Defaults to fare_portions when given, else equal
+  claim_submitted_at?: string; // ISO 8601; defaults to the evaluation time
+  origin_crs?: string;
+  destination_crs?: string;
 }
 
 export interface EvaluationResult {
@@ -42,38 +111,333 @@ export interface EvaluationResult {
   reasons: string[];
   applied_rules: string[];
   toc_code?: string;
+  ticket_format?: TicketFormat;
+  delayed_leg?: DelayedLeg;
   evaluation_timestamp?: string;
   evaluation_id?: string;
+  claim_submitted_at?: string;
+  claim_deadline?: string; // YYYY-MM-DD, last day a claim is accepted
+  claim_routing?: ClaimRouting; // Present on eligible results only
+  rule_version?: RuleVersion;
+  version?: number; // 1 for the first evaluation, +1 per re-evaluation
+  evaluation_request?: EvaluationRequest; // Inputs this version was evaluated from
+  supersedes_evaluation_id?: string;
+  superseded_by?: string; // Set once a re-evaluation replaces this version
+  superseded_at?: string;
+  reevaluation_reason?: string;
+  ineligible_reason?: string; // Metric label when eligible=false (e.g. below_threshold)
+  decision_trace?: DecisionTraceStep[];
+  fare_breakdown?: FareBreakdown;
+}
+
+// Every saved evaluation version has an id
+export type StoredEvaluationResult = EvaluationResult & { evaluation_id: string };
+
+/**
+ * How the payout was derived from the fare, beyond the band percentage
+ */
+export interface FareBreakdown {
+  sleeper_cap?: SleeperCapBreakdown;
+  segments?: SegmentEligibility[]; // Multi-TOC journeys, in segment order
+  responsible_toc_code?: string | null; // Operator responsible for the delay at the destination
+  apportionment_strategy?: ApportionmentStrategyName; // How the fare was split across the segments
+  season_ticket?: SeasonTicketValuation; // Per-journey value compensation was paid on
+  ticket_product?: TicketProductValuation; // Per-day/per-journey value, or why the product is excluded
+  fare_components?: FareComponentBreakdown; // Components compensated and excluded
+}
+
+export interface SleeperCapBreakdown {
+  route_code: string | null; // ORIGIN-DESTINATION CRS, e.g. EUS-INV
+  sleeper_class: string;
+  original_compensation_pence: number;
+  seated_equivalent_pence: number | null;
+  cap_applied: boolean;
+  capped_compensation_pence: number;
+  notes?: string;
+}
+
+export type DecisionStep =
+  | 'toc_lookup'
+  | 'delay_calculation'
+  | 'claim_window'
+  | 'restriction_check'
+  | 'fare_components'
+  | 'ticket_product'
+  | 'season_ticket'
+  | 'band_selection'
+  | 'special_rules'
+  | 'apportionment'
+  | 'sleeper_cap'
+  | 'compensation';
+
+/**
+ * One step of the evaluation pipeline, in the order it ran
+ */
+export interface DecisionTraceStep {
+  step: DecisionStep;
+  outcome: string; // Human-readable summary for support staff
+  details: Record<string, unknown>; // Inputs and values the step used
 }
 
 export interface TocRulepack {
+  id?: string;
   toc_code: string;
   toc_name: string;
   scheme: string;
+  scheme_name?: string;
+  min_threshold_minutes: number; // Scheme minimum, lowered by any TOC band override
   allows_online_claims: boolean;
+  allows_postal_claims: boolean;
+  claim_portal_url: string | null;
   max_claim_days: number;
+  special_rules?: unknown; // Raw JSONB, validated by SpecialRulesInterpreter
   active: boolean;
+  rounding_mode?: RoundingMode | null; // Scheme default unless the TOC overrides; floor when unset
+  min_claimable_pence?: number | null; // Payouts below this are refused (see lib/money.ts)
+  season_ticket_divisors?: unknown; // Raw JSONB, validated by SeasonTicketValuer
+  fare_component_policy?: unknown; // Raw JSONB, validated by FareComponentSplitter
+  effective_from?: string; // YYYY-MM-DD
+  effective_to?: string | null; // YYYY-MM-DD, exclusive; null while current
+}
+
+export type ClaimChannel = 'online' | 'postal';
+
+/**
+ * Where and how the passenger should submit their claim
+ */
+export interface ClaimRouting {
+  toc_code: string;
+  toc_name: string;
+  channels: ClaimChannel[];
+  claim_portal_url: string | null;
+  claim_deadline: string;
 }
 
 export interface CompensationBand {
+  id?: string;
   scheme_type: string;
+  toc_code?: string | null; // Set on per-TOC overrides of the scheme's bands
   delay_threshold_minutes: number;
-  compensation_percentage: number;
+  compensation_percentage: number; // Used when no ticket-specific percentage is set
+  single_percentage?: number;
+  return_percentage?: number;
+  effective_from?: string; // YYYY-MM-DD
+  effective_to?: string | null; // YYYY-MM-DD, exclusive; null while current
+}
+
+/**
+ * The rulepack and band versions a decision was made under
+ */
+export interface RuleVersion {
+  rules_as_of: string; // YYYY-MM-DD journey date used for the lookup
+  toc_rulepack_id?: string;
+  toc_rulepack_effective_from?: string;
+  compensation_band_id?: string; // Absent when no standard band applied
+  compensation_band_effective_from?: string;
 }
 
 // Repository interfaces
+// onDate (YYYY-MM-DD) selects the version in force on that date; defaults to today
+// tocCode layers that TOC's band overrides over the scheme's bands
 export interface TocRepository {
-  findByTocCode(tocCode: string): Promise<TocRulepack | null>;
+  findByTocCode(tocCode: string, onDate?: string): Promise<TocRulepack | null>;
 }
 
 export interface CompensationBandRepository {
-  findBySchemeAndDelay(scheme: string, delayMinutes: number): Promise<CompensationBand | null>;
-  findAllByScheme(scheme: string): Promise<CompensationBand[]>;
+  findBySchemeAndDelay(
+    scheme: string,
+    delayMinutes: number,
+    onDate?: string,
+    tocCode?: string
+  ): Promise<CompensationBand | null>;
+  findAllByScheme(scheme: string, onDate?: string, tocCode?: string): Promise<CompensationBand[]>;
 }
 
 export interface EvaluationRepository {
   save(evaluation: EvaluationResult): Promise<void>;
-  findByJourneyId(journeyId: string): Promise<EvaluationResult | null>;
+  findByJourneyId(journeyId: string): Promise<StoredEvaluationResult | null>; // Current version
+  findHistoryByJourneyId(journeyId: string): Promise<StoredEvaluationResult[]>;
+  supersede(evaluationId: string, supersededBy: string, supersededAt: string): Promise<boolean>;
+}
+
+export interface ReevaluationRequest {
+  reason: string;
+  inputs?: Omit<EvaluationRequest, 'journey_id'>; // Replace the stored inputs (a new event for the journey)
+  corrections?: Partial<Omit<EvaluationRequest, 'journey_id'>>;
+}
+
+export interface Evaluation {
+  result: StoredEvaluationResult;
+  existing: boolean; // Already evaluated: result is the stored current version
+}
+
+export interface Reevaluation {
+  previous: StoredEvaluationResult;
+  current: StoredEvaluationResult;
+}
+
+// A simulation needs no journey; without a delay or arrival times it
+// simulates an on-time journey
+export type SimulationRequest = Omit<EvaluationRequest, 'journey_id'> & { journey_id?: string };
+
+/**
+ * What a delay reaching one band would pay under the simulated inputs
+ */
+export interface SimulatedBand {
+  delay_threshold_minutes: number;
+  delay_minutes_to: number | null; // Last minute before the next band; null for the top band
+  minutes_to_reach: number; // Further delay needed from the simulated delay; 0 once reached
+  compensation_percentage: number;
+  compensation_pence: number;
+  applied_rules: string[];
+}
+
+export interface Simulation {
+  outcome: EvaluationResult;
+  band_table: SimulatedBand[];
+}
+
+// Peak hours and journey and claim dates are London local time
+const LONDON_TIME_FORMAT = new Intl.DateTimeFormat('en-GB', {
+  timeZone: 'Europe/London',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+// ============================================
+// Band Helpers
+// ============================================
+
+/**
+ * Resolve single/return from an explicit ticket_format or the free-text ticket_type.
+ * Season tickets are valued per single journey.
+ * Unknown tickets are treated as returns, which never pays more than a single.
+ */
+export function resolveTicketFormat(ticketFormat?: TicketFormat, ticketType?: string): TicketFormat {
+  if (ticketFormat) {
+    return ticketFormat;
+  }
+  if (ticketType && (/single/i.test(ticketType) || seasonTicketTypeOf(ticketType))) {
+    return 'single';
+  }
+  return 'return';
+}
+
+/**
+ * What the ticket is worth for this journey when that is not the whole fare
+ * (compensable components only, one journey on a season or multi-day ticket).
+ * Compensation is a percentage of this instead of the ticket fare.
+ */
+interface TicketValue {
+  value_pence: number;
+  applied_rules: string[];
+  reasons: string[];
+  fare_breakdown: FareBreakdown;
+}
+
+function seasonTicketValue(valuation: SeasonTicketValuation): TicketValue {
+  return {
+    value_pence: valuation.per_journey_value_pence,
+    applied_rules: [`SEASON_TICKET_${valuation.season_type.toUpperCase()}`],
+    reasons: [`Season ticket (${valuation.season_type}) paid on a per-journey value of ${valuation.per_journey_value_pence} pence: ${valuation.formula}`],
+    fare_breakdown: { season_ticket: valuation },
+  };
+}
+
+function ticketProductValue(valuation: TicketProductValuation & { value_pence: number }): TicketValue {
+  return {
+    value_pence: valuation.value_pence,
+    applied_rules: [`TICKET_PRODUCT_${valuation.product_code.toUpperCase()}`],
+    reasons: [`${valuation.product_name} paid on a ${valuation.valuation_basis.replace('_', '-')} value of ${valuation.value_pence} pence: ${valuation.formula}`],
+    fare_breakdown: { ticket_product: valuation },
+  };
+}
+
+/**
+ * Add the fare component split to a ticket value already taken from the
+ * compensable fare; with no ticket value the compensable fare is the value
+ */
+function withFareComponents(
+  ticketValue: TicketValue | null,
+  fareComponents: FareComponentBreakdown | null
+): TicketValue | null {
+  if (!fareComponents) {
+    return ticketValue;
+  }
+
+  const excluded = fareComponents.components.filter((component) => !component.compensable);
+  const excludedTypes = [...new Set(excluded.map((component) => component.component_type))];
+  const hasExclusions = fareComponents.excluded_pence > 0;
+
+  return {
+    value_pence: ticketValue?.value_pence ?? fareComponents.compensable_pence,
+    applied_rules: [...(hasExclusions ? ['FARE_COMPONENTS_EXCLUDED'] : []), ...(ticketValue?.applied_rules ?? [])],
+    reasons: [
+      ...(hasExclusions
+        ? [`Paid on ${fareComponents.compensable_pence} pence of compensable fare; ${fareComponents.excluded_pence} pence excluded (${excludedTypes.join(', ')})`]
+        : []),
+      ...(ticketValue?.reasons ?? []),
+    ],
+    fare_breakdown: { ...ticketValue?.fare_breakdown, fare_components: fareComponents },
+  };
+}
+
+/**
+ * What decides a claim whatever the delay: the claim window, the ticket's
+ * restrictions and what the ticket is worth for this journey
+ */
+interface ClaimGate {
+  claim_submitted_at: Date;
+  claim_deadline: string;
+  claim_window_expired: boolean;
+  restriction_check: RestrictionValidationResult | null;
+  ticket_product: TicketProductValuation | null;
+  compensable_fare_pence: number;
+  ticket_value: TicketValue | null;
+  ticket_format: TicketFormat;
+}
+
+// ============================================
+// Errors
+// ============================================
+
+export class UnknownTocError extends Error {
+  constructor(tocCode: string) {
+    super(`Unknown TOC code: ${tocCode}`);
+    this.name = 'UnknownTocError';
+  }
+}
+
+export class InactiveTocError extends Error {
+  constructor(tocCode: string) {
+    super(`TOC ${tocCode} is not currently active`);
+    this.name = 'InactiveTocError';
+  }
+}
+
+export class EvaluationNotFoundError extends Error {
+  constructor(journeyId: string) {
+    super(`No evaluation found for journey ${journeyId}`);
+    this.name = 'EvaluationNotFoundError';
+  }
+}
+
+export class InvalidJourneySegmentsError extends Error {
+  constructor(message: string) {
+    super(`Invalid journey_segments: ${message}`);
+    this.name = 'InvalidJourneySegmentsError';
+  }
+}
+
+export class ConcurrentReevaluationError extends Error {
+  constructor(journeyId: string) {
+    super(`Evaluation for journey ${journeyId} was re-evaluated concurrently`);
+    this.name = 'ConcurrentReevaluationError';
+  }
 }
 
 // ============================================
@@ -84,65 +448,802 @@ export class EligibilityService {
   private tocRepository: TocRepository;
   private compensationBandRepository: CompensationBandRepository;
   private evaluationRepository: EvaluationRepository;
+  private specialRulesInterpreter = new SpecialRulesInterpreter();
+  private restrictionValidator = new RestrictionValidator();
+  private seasonTicketValuer = new SeasonTicketValuer();
+  private fareComponentSplitter = new FareComponentSplitter();
+  private ticketProductValuer: TicketProductValuer | null;
+  private sleeperFareCapper: SleeperFareCapper | null;
+  private multiTocApportioner: MultiTocApportioner;
 
+  /**
+   * Without a seated fare repository sleeper journeys are paid uncapped;
+   * without a station distance repository mileage apportionment is refused;
+   * without a ticket product repository products are paid on the whole fare
+   */
   constructor(
     tocRepository: TocRepository,
     compensationBandRepository: CompensationBandRepository,
-    evaluationRepository: EvaluationRepository
+    evaluationRepository: EvaluationRepository,
+    seatedFareRepository?: SeatedFareRepository,
+    stationDistanceRepository?: StationDistanceRepository,
+    ticketProductRepository?: TicketProductRepository
   ) {
     this.tocRepository = tocRepository;
     this.compensationBandRepository = compensationBandRepository;
     this.evaluationRepository = evaluationRepository;
+    this.sleeperFareCapper = seatedFareRepository ? new SleeperFareCapper(seatedFareRepository) : null;
+    this.ticketProductValuer = ticketProductRepository ? new TicketProductValuer(ticketProductRepository) : null;
+    this.multiTocApportioner = new MultiTocApportioner(
+      tocRepository,
+      compensationBandRepository,
+      stationDistanceRepository
+    );
   }
 
   /**
-   * Evaluate eligibility for a journey
+   * Evaluate eligibility for a journey and persist the result
    * Implements idempotency by checking for existing evaluation
    */
-  async evaluate(request: EvaluationRequest): Promise<EvaluationResult> {
+  async evaluate(request: EvaluationRequest): Promise<StoredEvaluationResult> {
+    return (await this.evaluateOnce(request)).result;
+  }
+
+  /**
+   * Evaluate as evaluate(), reporting whether the result was already stored
+   */
+  async evaluateOnce(request: EvaluationRequest): Promise<Evaluation> {
     // Check for existing evaluation (idempotency)
     const existingEvaluation = await this.evaluationRepository.findByJourneyId(request.journey_id);
     if (existingEvaluation) {
-      return existingEvaluation;
+      return { result: existingEvaluation, existing: true };
+    }
+
+    const result = await this.decide(request);
+    result.version = 1;
+    result.evaluation_request = { ...request, claim_submitted_at: result.claim_submitted_at };
+
+    await this.evaluationRepository.save(result);
+
+    return { result, existing: false };
+  }
+
+  /**
+   * Re-evaluate a journey (appeal, corrected inputs or a new event)
+   * Starts from the given inputs, else those of the current version, applies
+   * the corrections, saves the outcome as a new version and marks the
+   * previous one superseded. The original claim submission time is kept
+   * unless corrected or replaced.
+   */
+  async reevaluate(journeyId: string, reevaluation: ReevaluationRequest): Promise<Reevaluation> {
+    const previous = await this.evaluationRepository.findByJourneyId(journeyId);
+    if (!previous) {
+      throw new EvaluationNotFoundError(journeyId);
+    }
+
+    const request: EvaluationRequest = {
+      ...(reevaluation.inputs ?? this.storedInputs(previous)),
+      ...reevaluation.corrections,
+      journey_id: journeyId,
+    };
+
+    const current = await this.decide(request);
+    current.version = (previous.version ?? 1) + 1;
+    current.evaluation_request = { ...request, claim_submitted_at: current.claim_submitted_at };
+    current.supersedes_evaluation_id = previous.evaluation_id;
+    current.reevaluation_reason = reevaluation.reason;
+
+    // Supersede first: only one version per journey may be current
+    const supersededAt = current.evaluation_timestamp;
+    const superseded = await this.evaluationRepository.supersede(
+      previous.evaluation_id,
+      current.evaluation_id,
+      supersededAt
+    );
+    if (!superseded) {
+      throw new ConcurrentReevaluationError(journeyId);
+    }
+
+    await this.evaluationRepository.save(current);
+
+    return {
+      previous: { ...previous, superseded_by: current.evaluation_id, superseded_at: supersededAt },
+      current,
+    };
+  }
+
+  /**
+   * Run the evaluation pipeline for a what-if request without persisting anything
+   * The band table pays each band through the same pipeline as the outcome:
+   * claim window, restrictions, ticket value, multi-TOC apportionment,
+   * special rules, sleeper cap and minimum claimable amount. A claim that is
+   * blocked pays nothing in any band.
+   */
+  async simulate(request: SimulationRequest): Promise<Simulation> {
+    const hasArrivalTimes = request.scheduled_arrival !== undefined && request.actual_arrival !== undefined;
+    const simulated: EvaluationRequest = {
+      ...request,
+      journey_id: request.journey_id ?? '',
+      delay_minutes: request.delay_minutes ?? (hasArrivalTimes ? undefined : 0),
+    };
+
+    const outcome = await this.decide(simulated);
+    const rulesAsOf = outcome.rule_version.rules_as_of;
+
+    const tocRulepack = await this.tocRepository.findByTocCode(simulated.toc_code, rulesAsOf);
+    if (!tocRulepack) {
+      throw new UnknownTocError(simulated.toc_code);
     }
+    const bands = await this.compensationBandRepository.findAllByScheme(
+      tocRulepack.scheme,
+      rulesAsOf,
+      tocRulepack.toc_code
+    );
+    // The claim window, restrictions and ticket value hold whatever the delay
+    const gate = await this.gateClaim(
+      simulated,
+      tocRulepack,
+      this.parseClaimSubmittedAt(outcome.claim_submitted_at),
+      rulesAsOf,
+      []
+    );
+    // Each band is paid as a journey delayed by its threshold, so segments
+    // take that delay rather than their own arrival times
+    const bandRequest = (threshold: number): EvaluationRequest => ({
+      ...simulated,
+      delay_minutes: threshold,
+      journey_segments: simulated.journey_segments?.map((segment) => ({
+        ...segment,
+        scheduled_arrival: undefined,
+        actual_arrival: undefined,
+      })),
+    });
+
+    const bandTable = await Promise.all(bands.map(async (band, index): Promise<SimulatedBand> => {
+      const nextBand = bands[index + 1];
+      const threshold = band.delay_threshold_minutes;
+      const { result } = await this.payDelay(
+        bandRequest(threshold),
+        tocRulepack,
+        threshold,
+        gate,
+        { ...outcome.rule_version },
+        [],
+        band
+      );
+
+      return {
+        delay_threshold_minutes: threshold,
+        delay_minutes_to: nextBand ? nextBand.delay_threshold_minutes - 1 : null,
+        minutes_to_reach: Math.max(0, threshold - outcome.delay_minutes),
+        compensation_percentage: result.compensation_percentage,
+        compensation_pence: result.compensation_pence,
+        applied_rules: result.applied_rules,
+      };
+    }));
+
+    return { outcome, band_table: bandTable };
+  }
+
+  /**
+   * Inputs a stored evaluation was made from
+   * Evaluations stored before inputs were recorded are rebuilt from their
+   * columns; without a journey timestamp their rules are looked up as of
+   * the claim submission date.
+   */
+  private storedInputs(evaluation: EvaluationResult): EvaluationRequest {
+    return evaluation.evaluation_request ?? {
+      journey_id: evaluation.journey_id,
+      toc_code: evaluation.toc_code ?? '',
+      delay_minutes: evaluation.delay_minutes,
+      ticket_fare_pence: evaluation.ticket_fare_pence,
+      ticket_format: evaluation.ticket_format,
+      delayed_leg: evaluation.delayed_leg,
+      claim_submitted_at: evaluation.claim_submitted_at,
+    };
+  }
+
+  /**
+   * Run the evaluation pipeline without persisting the result
+   */
+  private async decide(
+    request: EvaluationRequest
+  ): Promise<EvaluationResult & { evaluation_id: string; evaluation_timestamp: string; rule_version: RuleVersion }> {
+    // Rules are looked up as they stood on the (London) day of the journey
+    const claimSubmittedAt = this.parseClaimSubmittedAt(request.claim_submitted_at);
+    const rulesAsOf = this.toLondonDate(this.journeyDate(request, claimSubmittedAt));
+    const trace: DecisionTraceStep[] = [];
 
     // Look up TOC rulepack
-    const tocRulepack = await this.tocRepository.findByTocCode(request.toc_code);
+    const tocRulepack = await this.tocRepository.findByTocCode(request.toc_code, rulesAsOf);
     if (!tocRulepack) {
-      throw new Error(`Unknown TOC code: ${request.toc_code}`);
+      throw new UnknownTocError(request.toc_code);
     }
 
     if (!tocRulepack.active) {
-      throw new Error(`TOC ${request.toc_code} is not currently active`);
+      throw new InactiveTocError(request.toc_code);
+    }
+
+    trace.push({
+      step: 'toc_lookup',
+      outcome: `${tocRulepack.toc_code} (${tocRulepack.toc_name}) uses ${tocRulepack.scheme}`,
+      details: {
+        toc_code: tocRulepack.toc_code,
+        rules_as_of: rulesAsOf,
+        toc_rulepack_id: tocRulepack.id,
+        toc_rulepack_effective_from: tocRulepack.effective_from,
+        scheme: tocRulepack.scheme,
+        min_threshold_minutes: tocRulepack.min_threshold_minutes,
+        max_claim_days: tocRulepack.max_claim_days,
+      },
+    });
+
+    // Use the supplied delay, or calculate it from arrival times
+    const delayMinutes = request.delay_minutes !== undefined
+      ? Math.max(0, request.delay_minutes)
+      : this.calculateDelayMinutes(request.scheduled_arrival, request.actual_arrival);
+
+    trace.push({
+      step: 'delay_calculation',
+      outcome: `Delay of ${delayMinutes} minutes`,
+      details: request.delay_minutes !== undefined
+        ? { source: 'delay_minutes', delay_minutes: request.delay_minutes }
+        : {
+          source: 'arrival_times',
+          scheduled_arrival: request.scheduled_arrival,
+          actual_arrival: request.actual_arrival,
+        },
+    });
+
+    const ruleVersion: RuleVersion = {
+      rules_as_of: rulesAsOf,
+      toc_rulepack_id: tocRulepack.id,
+      toc_rulepack_effective_from: tocRulepack.effective_from,
+    };
+
+    const gate = await this.gateClaim(request, tocRulepack, claimSubmittedAt, rulesAsOf, trace);
+    const { result, claimRulepack } = await this.payDelay(request, tocRulepack, delayMinutes, gate, ruleVersion, trace);
+    const moneyPolicy = moneyPolicyFor(tocRulepack);
+    const claimMoneyPolicy = moneyPolicyFor(claimRulepack);
+
+    trace.push({
+      step: 'compensation',
+      outcome: result.eligible
+        ? `Eligible for ${result.compensation_pence} pence (${result.compensation_percentage}%)`
+        : `Not eligible: ${result.reasons.join('; ')}`,
+      details: {
+        eligible: result.eligible,
+        ineligible_reason: result.ineligible_reason,
+        ticket_fare_pence: request.ticket_fare_pence,
+        compensation_percentage: result.compensation_percentage,
+        compensation_pence: result.compensation_pence,
+        applied_rules: result.applied_rules,
+        rounding_mode: moneyPolicy.rounding_mode,
+        min_claimable_pence: claimMoneyPolicy.min_claimable_pence,
+      },
+    });
+
+    result.ticket_format = gate.ticket_format;
+    if (gate.ticket_format === 'return' && request.delayed_leg) {
+      result.delayed_leg = request.delayed_leg;
+    }
+
+    result.claim_submitted_at = claimSubmittedAt.toISOString();
+    result.claim_deadline = gate.claim_deadline;
+    if (result.eligible) {
+      result.claim_routing = this.buildClaimRouting(claimRulepack, gate.claim_deadline);
     }
+    result.toc_code = request.toc_code;
+    result.decision_trace = trace;
+
+    return {
+      ...result,
+      rule_version: ruleVersion,
+      evaluation_id: uuidv4(),
+      evaluation_timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Check the claim window and ticket restrictions and value the ticket
+   * None of this depends on the delay, so a simulation gates every band the
+   * same way.
+   */
+  private async gateClaim(
+    request: EvaluationRequest,
+    tocRulepack: TocRulepack,
+    claimSubmittedAt: Date,
+    rulesAsOf: string,
+    trace: DecisionTraceStep[]
+  ): Promise<ClaimGate> {
+    const moneyPolicy = moneyPolicyFor(tocRulepack);
+    let ticketFormat = resolveTicketFormat(request.ticket_format, request.ticket_type);
 
-    // Calculate delay in minutes
-    const delayMinutes = this.calculateDelayMinutes(
-      request.scheduled_arrival,
-      request.actual_arrival
+    // Check the claim was submitted within the TOC's claim window
+    const claimDeadline = this.calculateClaimDeadline(
+      request,
+      tocRulepack.max_claim_days,
+      claimSubmittedAt
     );
+    const claimWindowExpired = this.toLondonDate(claimSubmittedAt) > claimDeadline;
 
-    // Get compensation band for the delay
-    const compensationBand = await this.compensationBandRepository.findBySchemeAndDelay(
-      tocRulepack.scheme,
-      delayMinutes
+    trace.push({
+      step: 'claim_window',
+      outcome: claimWindowExpired
+        ? `Claim submitted after the ${claimDeadline} deadline`
+        : `Claim submitted by the ${claimDeadline} deadline`,
+      details: {
+        claim_submitted_at: claimSubmittedAt.toISOString(),
+        max_claim_days: tocRulepack.max_claim_days,
+        claim_deadline: claimDeadline,
+        within_window: !claimWindowExpired,
+      },
+    });
+
+    // A ticket not valid on the train taken pays nothing
+    const restrictionCheck = claimWindowExpired ? null : await this.checkRestrictions(request, trace);
+
+    // Add-ons outside Delay Repay are taken off the fare before it is valued
+    const fareComponents = claimWindowExpired ? null : this.splitFareComponents(request, tocRulepack, trace);
+    const compensableFarePence = fareComponents?.compensable_pence ?? request.ticket_fare_pence;
+
+    // Multi-day products are valued (or excluded) before any band applies;
+    // a per-journey value is a single, a day of travel keeps the usual format
+    const ticketProduct = claimWindowExpired
+      ? null
+      : await this.valueTicketProduct(request, compensableFarePence, rulesAsOf, moneyPolicy.rounding_mode, trace);
+    if (ticketProduct?.valuation_basis === 'per_journey' && !request.ticket_format) {
+      ticketFormat = 'single';
+    }
+
+    // Season and multi-day tickets are paid on the value of one journey
+    const seasonTicket = claimWindowExpired || restrictionCheck?.valid === false || ticketProduct
+      ? null
+      : this.valueSeasonTicket(request, compensableFarePence, tocRulepack, moneyPolicy.rounding_mode, trace);
+    const ticketValue = withFareComponents(
+      ticketProduct?.value_pence !== undefined
+        ? ticketProductValue({ ...ticketProduct, value_pence: ticketProduct.value_pence })
+        : seasonTicket && seasonTicketValue(seasonTicket),
+      fareComponents
     );
 
-    // Build result
-    const result = this.buildEvaluationResult(
+    return {
+      claim_submitted_at: claimSubmittedAt,
+      claim_deadline: claimDeadline,
+      claim_window_expired: claimWindowExpired,
+      restriction_check: restrictionCheck,
+      ticket_product: ticketProduct,
+      compensable_fare_pence: compensableFarePence,
+      ticket_value: ticketValue,
+      ticket_format: ticketFormat,
+    };
+  }
+
+  /**
+   * Pay a delay on a gated claim: the blocked result, the multi-TOC
+   * apportionment or the band with special rules, then the sleeper cap and
+   * the paying operator's minimum claimable amount
+   * The band is looked up from the delay unless given.
+   */
+  private async payDelay(
+    request: EvaluationRequest,
+    tocRulepack: TocRulepack,
+    delayMinutes: number,
+    gate: ClaimGate,
+    ruleVersion: RuleVersion,
+    trace: DecisionTraceStep[],
+    band?: CompensationBand | null
+  ): Promise<{ result: EvaluationResult; claimRulepack: TocRulepack }> {
+    const rulesAsOf = ruleVersion.rules_as_of;
+    const moneyPolicy = moneyPolicyFor(tocRulepack);
+    const { ticket_value: ticketValue, ticket_format: ticketFormat } = gate;
+    // Claims are lodged with the operator responsible for the delay
+    let claimRulepack = tocRulepack;
+    let result: EvaluationResult;
+
+    if (gate.claim_window_expired) {
+      result = this.buildClaimWindowExpiredResult(
+        request,
+        tocRulepack,
+        delayMinutes,
+        gate.claim_submitted_at,
+        gate.claim_deadline
+      );
+    } else if (gate.restriction_check && !gate.restriction_check.valid) {
+      result = this.buildBlockingRestrictionResult(request, tocRulepack, delayMinutes, gate.restriction_check);
+    } else if (gate.ticket_product?.excluded) {
+      result = this.buildExcludedProductResult(request, tocRulepack, delayMinutes, gate.ticket_product);
+    } else if (request.journey_segments && request.journey_segments.length > 1) {
+      // Split journeys: each segment is paid under its own TOC's scheme, on
+      // its share of what the ticket is worth for this journey
+      const apportionment = await this.apportionJourney(
+        request,
+        delayMinutes,
+        ticketFormat,
+        rulesAsOf,
+        gate.compensable_fare_pence,
+        ticketValue?.value_pence ?? gate.compensable_fare_pence
+      );
+
+      trace.push({
+        step: 'apportionment',
+        outcome: `${apportionment.segment_eligibilities.length} segments pay ${apportionment.total_compensation_pence} pence in total`,
+        details: {
+          delay_minutes: delayMinutes,
+          apportionment_strategy: apportionment.apportionment_strategy,
+          destination_delay_minutes: apportionment.destination_delay_minutes,
+          responsible_toc_code: apportionment.responsible_toc_code,
+          segments: apportionment.segment_eligibilities,
+        },
+      });
+
+      const responsibleTocCode = apportionment.responsible_toc_code;
+      if (responsibleTocCode && responsibleTocCode !== tocRulepack.toc_code) {
+        claimRulepack = await this.tocRepository.findByTocCode(responsibleTocCode, rulesAsOf) ?? tocRulepack;
+      }
+
+      // The lead TOC's exclusions and minimum payout cover the whole journey
+      const specialRules = this.specialRulesInterpreter.applyToJourney(
+        this.specialRulesInterpreter.parse(tocRulepack.special_rules),
+        {
+          scheme: tocRulepack.scheme,
+          delay_minutes: delayMinutes,
+          origin_crs: request.origin_crs,
+          destination_crs: request.destination_crs,
+          ticket_type: request.ticket_type,
+        },
+        apportionment.total_compensation_pence > 0
+      );
+
+      trace.push({
+        step: 'special_rules',
+        outcome: specialRules.applied_rules.length > 0
+          ? `Applied ${specialRules.applied_rules.join(', ')}`
+          : 'No special rules applied',
+        details: {
+          applied_rules: specialRules.applied_rules,
+          excluded: specialRules.excluded,
+          exclusion_reason: specialRules.exclusion_reason,
+          minimum_payout_pence: specialRules.minimum_payout_pence,
+        },
+      });
+
+      result = specialRules.excluded
+        ? this.buildSpecialRuleExclusionResult(request, tocRulepack, delayMinutes, specialRules)
+        : this.buildApportionedResult(request, tocRulepack, delayMinutes, apportionment, specialRules, ticketValue);
+    } else {
+      // Get compensation band for the delay
+      const compensationBand = band !== undefined
+        ? band
+        : await this.compensationBandRepository.findBySchemeAndDelay(
+          tocRulepack.scheme,
+          delayMinutes,
+          rulesAsOf,
+          tocRulepack.toc_code
+        );
+
+      trace.push({
+        step: 'band_selection',
+        outcome: compensationBand
+          ? `${tocRulepack.scheme} ${compensationBand.delay_threshold_minutes}-minute band`
+          : `No ${tocRulepack.scheme} band for a ${delayMinutes}-minute delay`,
+        details: {
+          scheme: tocRulepack.scheme,
+          delay_minutes: delayMinutes,
+          ticket_format: ticketFormat,
+          band_id: compensationBand?.id,
+          band_toc_code: compensationBand?.toc_code ?? undefined,
+          delay_threshold_minutes: compensationBand?.delay_threshold_minutes,
+          band_percentage: compensationBand ? bandPercentageFor(compensationBand, ticketFormat) : undefined,
+          band_effective_from: compensationBand?.effective_from,
+        },
+      });
+
+      // Apply TOC-specific special rules on top of the standard band
+      const specialRules = this.specialRulesInterpreter.apply(
+        this.specialRulesInterpreter.parse(tocRulepack.special_rules),
+        {
+          scheme: tocRulepack.scheme,
+          delay_minutes: delayMinutes,
+          standard_band: compensationBand,
+          origin_crs: request.origin_crs,
+          destination_crs: request.destination_crs,
+          ticket_type: request.ticket_type,
+        }
+      );
+
+      trace.push({
+        step: 'special_rules',
+        outcome: specialRules.applied_rules.length > 0
+          ? `Applied ${specialRules.applied_rules.join(', ')}`
+          : 'No special rules applied',
+        details: {
+          applied_rules: specialRules.applied_rules,
+          excluded: specialRules.excluded,
+          exclusion_reason: specialRules.exclusion_reason,
+          band_threshold_minutes: specialRules.band?.delay_threshold_minutes,
+          compensation_percentage_override: specialRules.compensation_percentage_override,
+          minimum_payout_pence: specialRules.minimum_payout_pence,
+        },
+      });
+
+      if (specialRules.band?.id) {
+        ruleVersion.compensation_band_id = specialRules.band.id;
+        ruleVersion.compensation_band_effective_from = specialRules.band.effective_from;
+      }
+
+      // Build result
+      result = specialRules.excluded
+        ? this.buildSpecialRuleExclusionResult(request, tocRulepack, delayMinutes, specialRules)
+        : this.buildEvaluationResult(
+          request,
+          tocRulepack,
+          delayMinutes,
+          specialRules,
+          ticketFormat,
+          moneyPolicy.rounding_mode,
+          ticketValue
+        );
+    }
+
+    const sleeperCap = await this.applySleeperCap(
       request,
-      tocRulepack,
-      delayMinutes,
-      compensationBand
+      result,
+      ticketValue?.value_pence ?? gate.compensable_fare_pence,
+      rulesAsOf,
+      moneyPolicy.rounding_mode
     );
+    if (sleeperCap) {
+      result.fare_breakdown = { ...result.fare_breakdown, sleeper_cap: sleeperCap };
+      trace.push({
+        step: 'sleeper_cap',
+        outcome: sleeperCap.cap_applied
+          ? `Capped at the ${sleeperCap.seated_equivalent_pence}-pence seated equivalent`
+          : `Not capped: ${sleeperCap.notes ?? 'within the seated equivalent'}`,
+        details: { ...sleeperCap },
+      });
+    }
+
+    // The operator paying the claim decides the smallest payout it will make
+    this.applyMinClaimable(result, moneyPolicyFor(claimRulepack));
 
-    return result;
+    return { result, claimRulepack };
+  }
+
+  /**
+   * Check the ticket's restrictions against the scheduled departure (London time)
+   * Returns null when there is nothing to check.
+   */
+  private async checkRestrictions(
+    request: EvaluationRequest,
+    trace: DecisionTraceStep[]
+  ): Promise<RestrictionValidationResult | null> {
+    const restrictionCodes = request.ticket_restrictions ?? [];
+
+    if (restrictionCodes.length === 0 || !request.scheduled_departure) {
+      trace.push({
+        step: 'restriction_check',
+        outcome: restrictionCodes.length === 0
+          ? 'No ticket restrictions to check'
+          : 'Restrictions not checked: no scheduled departure',
+        details: { ticket_restrictions: restrictionCodes },
+      });
+      return null;
+    }
+
+    const parts = Object.fromEntries(
+      LONDON_TIME_FORMAT.formatToParts(new Date(request.scheduled_departure)).map((p) => [p.type, p.value])
+    );
+    const journeyDate = `${parts.year}-${parts.month}-${parts.day}`;
+    const departureTime = `${parts.hour}:${parts.minute}`;
+
+    const check = await this.restrictionValidator.validate({
+      restriction_codes: restrictionCodes,
+      journey_date: journeyDate,
+      departure_time: departureTime,
+    });
+
+    trace.push({
+      step: 'restriction_check',
+      outcome: check.valid
+        ? `Ticket valid for the ${departureTime} departure on ${journeyDate}`
+        : `${check.blocking_restriction} blocks the ${departureTime} departure on ${journeyDate}`,
+      details: {
+        ticket_restrictions: restrictionCodes,
+        journey_date: journeyDate,
+        departure_time: departureTime,
+        valid: check.valid,
+        blocking_restriction: check.blocking_restriction,
+        reason: check.reason,
+      },
+    });
+
+    return check;
+  }
+
+  /**
+   * Cap an eligible sleeper payout at the seated equivalent fare
+   * The route is ORIGIN-DESTINATION CRS and the berth class follows the
+   * ticket class (standard_berth, first_berth). The sleeper fare is the fare
+   * the payout was worked out on (compensable, product or season value).
+   * Adjusts the result in place and returns the cap outcome, or null when
+   * the journey is not capped.
+   */
+  private async applySleeperCap(
+    request: EvaluationRequest,
+    result: EvaluationResult,
+    farePence: number,
+    journeyDate: string,
+    roundingMode: RoundingMode
+  ): Promise<SleeperCapBreakdown | null> {
+    if (!request.is_sleeper || !result.eligible || !this.sleeperFareCapper) {
+      return null;
+    }
+
+    const sleeperClass = `${(request.ticket_class ?? 'standard').toLowerCase()}_berth`;
+    const originalCompensationPence = result.compensation_pence;
+
+    if (!request.origin_crs || !request.destination_crs) {
+      return {
+        route_code: null,
+        sleeper_class: sleeperClass,
+        original_compensation_pence: originalCompensationPence,
+        seated_equivalent_pence: null,
+        cap_applied: false,
+        capped_compensation_pence: originalCompensationPence,
+        notes: 'No origin and destination to find the seated equivalent',
+      };
+    }
+
+    const routeCode = `${request.origin_crs}-${request.destination_crs}`;
+    const cap = await this.sleeperFareCapper.applyCap({
+      route_code: routeCode,
+      sleeper_class: sleeperClass,
+      sleeper_fare_pence: farePence,
+      calculated_compensation_pence: originalCompensationPence,
+      journey_date: journeyDate,
+      compensation_percentage: result.compensation_percentage,
+      rounding_mode: roundingMode,
+    });
+
+    if (cap.cap_applied) {
+      result.compensation_pence = cap.capped_compensation_pence;
+      result.reasons.push(
+        `Sleeper compensation capped at ${result.compensation_percentage}% of the ${cap.seated_equivalent_pence}-pence seated fare`
+      );
+      result.applied_rules.push('SLEEPER_SEATED_FARE_CAP');
+      if (cap.rounding_rule && !result.applied_rules.includes(cap.rounding_rule)) {
+        result.applied_rules.push(cap.rounding_rule);
+      }
+    }
+
+    return {
+      route_code: routeCode,
+      sleeper_class: sleeperClass,
+      original_compensation_pence: originalCompensationPence,
+      seated_equivalent_pence: cap.seated_equivalent_pence ?? null,
+      cap_applied: cap.cap_applied,
+      capped_compensation_pence: cap.capped_compensation_pence,
+      notes: cap.notes,
+    };
+  }
+
+  /**
+   * Split an itemised fare into compensable and excluded components; null
+   * when the request does not itemise its fare
+   */
+  private splitFareComponents(
+    request: EvaluationRequest,
+    tocRulepack: TocRulepack,
+    trace: DecisionTraceStep[]
+  ): FareComponentBreakdown | null {
+    if (!request.fare_components) {
+      return null;
+    }
+
+    const breakdown = this.fareComponentSplitter.split({
+      ticket_fare_pence: request.ticket_fare_pence,
+      fare_components: request.fare_components,
+      policy: tocRulepack.fare_component_policy,
+    });
+
+    trace.push({
+      step: 'fare_components',
+      outcome: `${breakdown.compensable_pence} pence compensable, ${breakdown.excluded_pence} pence excluded`,
+      details: { ...breakdown },
+    });
+
+    return breakdown;
+  }
+
+  /**
+   * Per-journey value of a season, flexi or carnet ticket; null for other tickets
+   */
+  private valueSeasonTicket(
+    request: EvaluationRequest,
+    farePence: number,
+    tocRulepack: TocRulepack,
+    roundingMode: RoundingMode,
+    trace: DecisionTraceStep[]
+  ): SeasonTicketValuation | null {
+    const valuation = this.seasonTicketValuer.value({
+      ticket_type: request.ticket_type,
+      season_price_pence: farePence,
+      season_ticket: request.season_ticket,
+      divisors: tocRulepack.season_ticket_divisors,
+      rounding_mode: roundingMode,
+    });
+
+    if (valuation) {
+      trace.push({
+        step: 'season_ticket',
+        outcome: `${valuation.per_journey_value_pence} pence per journey`,
+        details: { ...valuation },
+      });
+    }
+
+    return valuation;
+  }
+
+  /**
+   * Value a Rover, Ranger or other multi-day product; null when the request
+   * names none or no product rules are available
+   */
+  private async valueTicketProduct(
+    request: EvaluationRequest,
+    farePence: number,
+    journeyDate: string,
+    roundingMode: RoundingMode,
+    trace: DecisionTraceStep[]
+  ): Promise<TicketProductValuation | null> {
+    if (!request.ticket_product_code || !this.ticketProductValuer) {
+      return null;
+    }
+
+    const valuation = await this.ticketProductValuer.value({
+      product_code: request.ticket_product_code,
+      fare_pence: farePence,
+      journey_date: journeyDate,
+      rounding_mode: roundingMode,
+    });
+
+    trace.push({
+      step: 'ticket_product',
+      outcome: valuation.excluded
+        ? `${valuation.product_name} excluded: ${valuation.exclusion_reason}`
+        : `${valuation.product_name} worth ${valuation.value_pence} pence ${valuation.valuation_basis.replace('_', ' ')}`,
+      details: { ...valuation },
+    });
+
+    return valuation;
+  }
+
+  /**
+   * Refuse an eligible payout smaller than the paying operator's minimum
+   */
+  private applyMinClaimable(result: EvaluationResult, moneyPolicy: MoneyPolicy): void {
+    const minimumPence = moneyPolicy.min_claimable_pence;
+    if (!result.eligible || result.compensation_pence >= minimumPence) {
+      return;
+    }
+
+    result.reasons.push(
+      `Compensation of ${result.compensation_pence} pence is below the ${minimumPence}-pence minimum payout`
+    );
+    result.applied_rules.push(`MINIMUM_PAYOUT_${minimumPence}P`);
+    result.eligible = false;
+    result.compensation_pence = 0;
+    result.ineligible_reason = 'below_minimum_payout';
   }
 
   /**
    * Calculate delay in minutes from scheduled and actual arrival times
    */
-  private calculateDelayMinutes(scheduledArrival: string, actualArrival: string): number {
+  private calculateDelayMinutes(scheduledArrival?: string, actualArrival?: string): number {
+    if (!scheduledArrival || !actualArrival) {
+      throw new Error('delay_minutes or (scheduled_arrival and actual_arrival) is required');
+    }
+
     const scheduled = new Date(scheduledArrival);
     const actual = new Date(actualArrival);
     const diffMs = actual.getTime() - scheduled.getTime();
@@ -152,6 +1253,292 @@ export class EligibilityService {
     return Math.max(0, diffMinutes);
   }
 
+  /**
+   * Parse the claim submission time, defaulting to now
+   */
+  private parseClaimSubmittedAt(claimSubmittedAt?: string): Date {
+    if (claimSubmittedAt === undefined) {
+      return new Date();
+    }
+
+    const parsed = new Date(claimSubmittedAt);
+    if (isNaN(parsed.getTime())) {
+      throw new Error('Invalid claim_submitted_at');
+    }
+    return parsed;
+  }
+
+  /**
+   * The journey date is taken from the earliest timestamp available; when the
+   * request carries no timestamps the journey is assumed to be on the
+   * submission date.
+   */
+  private journeyDate(request: EvaluationRequest, claimSubmittedAt: Date): Date {
+    const journeyTimestamp = request.scheduled_departure
+      ?? request.scheduled_arrival
+      ?? request.actual_arrival;
+    return journeyTimestamp ? new Date(journeyTimestamp) : claimSubmittedAt;
+  }
+
+  /**
+   * Calculate the claim deadline (YYYY-MM-DD) as London journey date + max_claim_days
+   */
+  private calculateClaimDeadline(
+    request: EvaluationRequest,
+    maxClaimDays: number,
+    claimSubmittedAt: Date
+  ): string {
+    const [year, month, day] = this.toLondonDate(this.journeyDate(request, claimSubmittedAt)).split('-').map(Number);
+
+    const deadline = new Date(Date.UTC(year, month - 1, day + maxClaimDays));
+
+    return this.toDateString(deadline);
+  }
+
+  /**
+   * Format a date as YYYY-MM-DD (UTC)
+   */
+  private toDateString(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Format a date as YYYY-MM-DD in London; from 00:00 to 01:00 BST the UTC
+   * date is still the day before
+   */
+  private toLondonDate(date: Date): string {
+    const parts = Object.fromEntries(LONDON_TIME_FORMAT.formatToParts(date).map((p) => [p.type, p.value]));
+    return `${parts.year}-${parts.month}-${parts.day}`;
+  }
+
+  /**
+   * Build claim routing guidance from the TOC rulepack
+   */
+  private buildClaimRouting(tocRulepack: TocRulepack, claimDeadline: string): ClaimRouting {
+    const channels: ClaimChannel[] = [];
+    if (tocRulepack.allows_online_claims) {
+      channels.push('online');
+    }
+    if (tocRulepack.allows_postal_claims) {
+      channels.push('postal');
+    }
+
+    return {
+      toc_code: tocRulepack.toc_code,
+      toc_name: tocRulepack.toc_name,
+      channels,
+      claim_portal_url: tocRulepack.claim_portal_url ?? null,
+      claim_deadline: claimDeadline,
+    };
+  }
+
+  /**
+   * Build an ineligible result for a claim submitted after the deadline
+   */
+  private buildClaimWindowExpiredResult(
+    request: EvaluationRequest,
+    tocRulepack: TocRulepack,
+    delayMinutes: number,
+    claimSubmittedAt: Date,
+    claimDeadline: string
+  ): EvaluationResult {
+    return {
+      journey_id: request.journey_id,
+      eligible: false,
+      scheme: tocRulepack.scheme,
+      delay_minutes: delayMinutes,
+      compensation_percentage: 0,
+      compensation_pence: 0,
+      ticket_fare_pence: request.ticket_fare_pence,
+      reasons: [
+        `Claim submitted on ${this.toLondonDate(claimSubmittedAt)} is outside the ${tocRulepack.max_claim_days}-day claim window (deadline ${claimDeadline})`,
+      ],
+      applied_rules: [],
+      ineligible_reason: 'claim_window_expired',
+    };
+  }
+
+  /**
+   * Build an ineligible result for a ticket not valid on the train taken
+   */
+  private buildBlockingRestrictionResult(
+    request: EvaluationRequest,
+    tocRulepack: TocRulepack,
+    delayMinutes: number,
+    restrictionCheck: RestrictionValidationResult
+  ): EvaluationResult {
+    return {
+      journey_id: request.journey_id,
+      eligible: false,
+      scheme: tocRulepack.scheme,
+      delay_minutes: delayMinutes,
+      compensation_percentage: 0,
+      compensation_pence: 0,
+      ticket_fare_pence: request.ticket_fare_pence,
+      reasons: [
+        `Ticket restriction ${restrictionCheck.blocking_restriction}: ${restrictionCheck.reason ?? 'not valid for this departure'}`,
+      ],
+      applied_rules: [],
+      ineligible_reason: 'blocking_restriction',
+    };
+  }
+
+  /**
+   * Build the result for a multi-TOC journey from its per-segment outcomes
+   * compensation_percentage is the effective percentage of the fare value
+   * the segments shared, after any minimum payout.
+   */
+  private buildApportionedResult(
+    request: EvaluationRequest,
+    tocRulepack: TocRulepack,
+    delayMinutes: number,
+    apportionment: ApportionmentResult,
+    specialRules: SpecialRulesOutcome,
+    fareValue: TicketValue | null
+  ): EvaluationResult {
+    const segments = apportionment.segment_eligibilities;
+    let compensationPence = apportionment.total_compensation_pence;
+    const eligible = compensationPence > 0;
+    const farePence = fareValue?.value_pence ?? request.ticket_fare_pence;
+    const reasons = segments.map((s) => s.eligible
+      ? `Segment ${s.segment_order} (${s.toc_code}, ${s.scheme}): ${s.compensation_percentage}% of ${s.fare_portion_pence} pence for a ${s.delay_minutes}-minute delay`
+      : `Segment ${s.segment_order} (${s.toc_code}): not eligible${s.notes ? ` - ${s.notes}` : ''}`);
+    const missed = segments.find((s) => s.missed_connection);
+    if (missed) {
+      reasons.push(`Missed connection after segment ${missed.segment_order}: ${missed.toc_code} is responsible for the delay at the destination`);
+    }
+    reasons.push(...fareValue?.reasons ?? []);
+
+    // Minimum payout never exceeds the fare
+    const minimumPayout = Math.min(specialRules.minimum_payout_pence ?? 0, farePence);
+    if (compensationPence < minimumPayout) {
+      compensationPence = minimumPayout;
+      reasons.push(`Minimum payout of ${minimumPayout} pence applied`);
+    }
+
+    return {
+      journey_id: request.journey_id,
+      eligible,
+      scheme: tocRulepack.scheme,
+      delay_minutes: delayMinutes,
+      compensation_percentage: farePence > 0
+        ? Math.round((compensationPence * 10000) / farePence) / 100
+        : 0,
+      compensation_pence: compensationPence,
+      ticket_fare_pence: request.ticket_fare_pence,
+      reasons,
+      applied_rules: eligible
+        ? [
+          'MULTI_TOC_APPORTIONMENT',
+          ...new Set(segments.flatMap((s) => (s.rounding_rule ? [s.rounding_rule] : []))),
+          ...specialRules.applied_rules,
+          ...fareValue?.applied_rules ?? [],
+        ]
+        : [],
+      fare_breakdown: {
+        segments,
+        responsible_toc_code: apportionment.responsible_toc_code,
+        apportionment_strategy: apportionment.apportionment_strategy,
+        ...fareValue?.fare_breakdown,
+      },
+      ineligible_reason: eligible ? undefined : 'below_threshold',
+    };
+  }
+
+  /**
+   * Apportion a multi-TOC journey's fare value across its segments
+   * Segment fare portions are given against the compensable fare; when the
+   * ticket is worth less for this journey (one journey on a season, a day on
+   * a Rover) they are scaled down to that value in the same proportions.
+   */
+  private async apportionJourney(
+    request: EvaluationRequest,
+    delayMinutes: number,
+    ticketFormat: TicketFormat,
+    rulesAsOf: string,
+    compensableFarePence: number,
+    valuePence: number
+  ): Promise<ApportionmentResult> {
+    const segments = request.journey_segments ?? [];
+    const farePortions = segments.map((segment) => segment.fare_portion_pence);
+
+    try {
+      let scaledPortions: number[] | null = null;
+      if (valuePence !== compensableFarePence && farePortions.every((portion) => portion !== undefined)) {
+        const fareSum = (farePortions as number[]).reduce((sum, portion) => sum + portion, 0);
+        if (fareSum !== compensableFarePence) {
+          throw new ApportionmentStrategyError(
+            `Fare portions do not sum to total fare (${fareSum} of ${compensableFarePence} pence)`
+          );
+        }
+        scaledPortions = allocatePence(valuePence, farePortions as number[]);
+      }
+
+      return await this.multiTocApportioner.apportion({
+        journey_id: request.journey_id,
+        delay_minutes: delayMinutes,
+        total_fare_pence: valuePence,
+        journey_segments: segments.map((segment, index) => ({
+          ...segment,
+          fare_portion_pence: scaledPortions ? scaledPortions[index] : segment.fare_portion_pence,
+          segment_order: index + 1,
+        })),
+        ticket_format: ticketFormat,
+        rules_as_of: rulesAsOf,
+        apportionment_strategy: request.apportionment_strategy,
+      });
+    } catch (error) {
+      throw error instanceof ApportionmentStrategyError ? new InvalidJourneySegmentsError(error.message) : error;
+    }
+  }
+
+  /**
+   * Build an ineligible result for a ticket product Delay Repay does not cover
+   */
+  private buildExcludedProductResult(
+    request: EvaluationRequest,
+    tocRulepack: TocRulepack,
+    delayMinutes: number,
+    ticketProduct: TicketProductValuation
+  ): EvaluationResult {
+    return {
+      journey_id: request.journey_id,
+      eligible: false,
+      scheme: tocRulepack.scheme,
+      delay_minutes: delayMinutes,
+      compensation_percentage: 0,
+      compensation_pence: 0,
+      ticket_fare_pence: request.ticket_fare_pence,
+      reasons: [`Ticket product excluded: ${ticketProduct.exclusion_reason}`],
+      applied_rules: [`TICKET_PRODUCT_${ticketProduct.product_code.toUpperCase()}`],
+      fare_breakdown: { ticket_product: ticketProduct },
+      ineligible_reason: 'product_excluded',
+    };
+  }
+
+  /**
+   * Build an ineligible result for a journey excluded by a special rule
+   */
+  private buildSpecialRuleExclusionResult(
+    request: EvaluationRequest,
+    tocRulepack: TocRulepack,
+    delayMinutes: number,
+    specialRules: SpecialRulesOutcome
+  ): EvaluationResult {
+    return {
+      journey_id: request.journey_id,
+      eligible: false,
+      scheme: tocRulepack.scheme,
+      delay_minutes: delayMinutes,
+      compensation_percentage: 0,
+      compensation_pence: 0,
+      ticket_fare_pence: request.ticket_fare_pence,
+      reasons: [specialRules.exclusion_reason ?? 'Excluded by TOC special rule'],
+      applied_rules: specialRules.applied_rules,
+      ineligible_reason: 'special_rule_exclusion',
+    };
+  }
+
   /**
    * Build the evaluation result based on delay and compensation band
    */
@@ -159,10 +1546,17 @@ export class EligibilityService {
     request: EvaluationRequest,
     tocRulepack: TocRulepack,
     delayMinutes: number,
-    compensationBand: CompensationBand | null
+    specialRules: SpecialRulesOutcome,
+    ticketFormat: TicketFormat,
+    roundingMode: RoundingMode,
+    ticketValue?: TicketValue | null
   ): EvaluationResult {
+    const compensationBand = specialRules.band;
     const scheme = tocRulepack.scheme;
-    const threshold = scheme === 'DR15' ? 15 : 30;
+    const threshold = tocRulepack.min_threshold_minutes;
+    // Itemised fares and season and multi-day tickets are paid on their value, not the whole fare
+    const farePence = ticketValue?.value_pence ?? request.ticket_fare_pence;
+    const fareBreakdown = ticketValue?.fare_breakdown;
 
     if (!compensationBand) {
       // Not eligible - delay below threshold
@@ -175,18 +1569,35 @@ export class EligibilityService {
         compensation_pence: 0,
         ticket_fare_pence: request.ticket_fare_pence,
         reasons: [`Delay of ${delayMinutes} minutes does not meet ${scheme} ${threshold}-minute threshold`],
-        applied_rules: [],
+        applied_rules: specialRules.applied_rules,
+        fare_breakdown: fareBreakdown,
+        ineligible_reason: 'below_threshold',
       };
     }
 
     // Calculate compensation
-    const compensationPercentage = compensationBand.compensation_percentage;
-    const compensationPence = Math.floor(
-      (request.ticket_fare_pence * compensationPercentage) / 100
-    );
+    const bandPercentage = bandPercentageFor(compensationBand, ticketFormat);
+    const compensationPercentage = specialRules.compensation_percentage_override ?? bandPercentage;
+    const compensation = percentageOfPence(farePence, compensationPercentage, roundingMode);
+    let compensationPence = compensation.pence;
+    const reasons = [`Delay of ${delayMinutes} minutes qualifies for ${compensationPercentage}% refund under ${scheme} scheme`];
+    if (ticketFormat === 'return' && request.delayed_leg) {
+      reasons.push(`Return ticket with ${request.delayed_leg} leg delayed`);
+    }
+    reasons.push(...ticketValue?.reasons ?? []);
 
     // Determine the rule name
-    const ruleName = this.buildRuleName(scheme, compensationBand.delay_threshold_minutes, compensationPercentage);
+    const ruleName = this.buildRuleName(compensationBand, bandPercentage);
+    const appliedRules = [ruleName, ...specialRules.applied_rules, ...ticketValue?.applied_rules ?? []];
+
+    // Minimum payout never exceeds the fare
+    const minimumPayout = Math.min(specialRules.minimum_payout_pence ?? 0, farePence);
+    if (compensationPence < minimumPayout) {
+      compensationPence = minimumPayout;
+      reasons.push(`Minimum payout of ${minimumPayout} pence applied`);
+    } else if (compensation.rounding_rule) {
+      appliedRules.push(compensation.rounding_rule);
+    }
 
     return {
       journey_id: request.journey_id,
@@ -196,15 +1607,17 @@ export class EligibilityService {
       compensation_percentage: compensationPercentage,
       compensation_pence: compensationPence,
       ticket_fare_pence: request.ticket_fare_pence,
-      reasons: [`Delay of ${delayMinutes} minutes qualifies for ${compensationPercentage}% refund under ${scheme} scheme`],
-      applied_rules: [ruleName],
+      reasons,
+      applied_rules: appliedRules,
+      fare_breakdown: fareBreakdown,
     };
   }
 
   /**
-   * Build the rule name (e.g., DR15_15MIN_25PCT)
+   * Build the rule name (e.g., DR15_15MIN_25PCT, or DR15_CC_2MIN_10PCT for a TOC override)
    */
-  private buildRuleName(scheme: string, thresholdMinutes: number, percentage: number): string {
-    return `${scheme}_${thresholdMinutes}MIN_${Math.round(percentage)}PCT`;
+  private buildRuleName(band: CompensationBand, percentage: number): string {
+    const prefix = band.toc_code ? `${band.scheme_type}_${band.toc_code}` : band.scheme_type;
+    return `${prefix}_${band.delay_threshold_minutes}MIN_${Math.round(percentage)}PCT`;
   }
 }
@@ -0,0 +1,159 @@
+/**
+ * FareComponentSplitter - Separate the compensable rail fare from add-ons
+ *
+ * A ticket price can bundle things Delay Repay does not cover: PlusBus,
+ * London Travelcard zones, seat reservation fees and sleeper berth
+ * supplements. When the caller itemises the fare into components, only the
+ * compensable ones form the fare compensation is paid on.
+ *
+ * Which component types are compensable is the component policy, set per
+ * scheme and overridden per TOC (fare_component_policy JSONB), e.g.
+ * {"reservation": "compensable"}; types left unset use the defaults below.
+ */
+
+// ============================================
+// Type Definitions
+// ============================================
+
+export type FareComponentType = 'rail' | 'plusbus' | 'travelcard' | 'reservation' | 'berth_supplement';
+
+export const FARE_COMPONENT_TYPES: readonly FareComponentType[] = [
+  'rail',
+  'plusbus',
+  'travelcard',
+  'reservation',
+  'berth_supplement',
+];
+
+export type FareComponentTreatment = 'compensable' | 'excluded';
+
+export type FareComponentPolicy = Record<FareComponentType, FareComponentTreatment>;
+
+export const DEFAULT_FARE_COMPONENT_POLICY: FareComponentPolicy = {
+  rail: 'compensable',
+  plusbus: 'excluded',
+  travelcard: 'excluded',
+  reservation: 'excluded',
+  berth_supplement: 'excluded',
+};
+
+export interface FareComponent {
+  component_type: FareComponentType;
+  amount_pence: number;
+  description?: string; // e.g. 'PlusBus Leeds'
+}
+
+export interface ItemisedFareComponent extends FareComponent {
+  compensable: boolean;
+  exclusion_reason?: string; // Set on excluded components
+}
+
+export interface FareComponentSplitRequest {
+  ticket_fare_pence: number;
+  fare_components: FareComponent[];
+  policy?: unknown; // Raw fare_component_policy JSONB from the rulepack
+}
+
+export interface FareComponentBreakdown {
+  compensable_pence: number; // Fare compensation is paid on
+  excluded_pence: number;
+  components: ItemisedFareComponent[];
+}
+
+export class InvalidFareComponentsError extends Error {
+  constructor(message: string) {
+    super(`Invalid fare components: ${message}`);
+    this.name = 'InvalidFareComponentsError';
+  }
+}
+
+export class InvalidFareComponentPolicyError extends Error {
+  constructor(message: string) {
+    super(`Invalid fare_component_policy: ${message}`);
+    this.name = 'InvalidFareComponentPolicyError';
+  }
+}
+
+const COMPONENT_LABELS: Record<FareComponentType, string> = {
+  rail: 'Rail fare',
+  plusbus: 'PlusBus',
+  travelcard: 'London Travelcard zones',
+  reservation: 'Seat reservation fee',
+  berth_supplement: 'Sleeper berth supplement',
+};
+
+// ============================================
+// FareComponentSplitter Implementation
+// ============================================
+
+export class FareComponentSplitter {
+  /**
+   * Itemise a fare into compensable and excluded components
+   */
+  split(request: FareComponentSplitRequest): FareComponentBreakdown {
+    const components = request.fare_components;
+    if (components.length === 0) {
+      throw new InvalidFareComponentsError('at least one component is required');
+    }
+    for (const component of components) {
+      if (!FARE_COMPONENT_TYPES.includes(component.component_type)) {
+        throw new InvalidFareComponentsError(`unknown component type ${component.component_type}`);
+      }
+      if (!Number.isInteger(component.amount_pence) || component.amount_pence < 0) {
+        throw new InvalidFareComponentsError(`${component.component_type} amount_pence must be a non-negative integer`);
+      }
+    }
+
+    const sum = components.reduce((total, component) => total + component.amount_pence, 0);
+    if (sum !== request.ticket_fare_pence) {
+      throw new InvalidFareComponentsError(
+        `components do not sum to ticket fare (${sum} of ${request.ticket_fare_pence} pence)`
+      );
+    }
+
+    const policy = this.parsePolicy(request.policy);
+    const itemised = components.map((component): ItemisedFareComponent => (
+      policy[component.component_type] === 'compensable'
+        ? { ...component, compensable: true }
+        : {
+          ...component,
+          compensable: false,
+          exclusion_reason: `${COMPONENT_LABELS[component.component_type]} is not covered by Delay Repay`,
+        }
+    ));
+    const compensablePence = itemised
+      .filter((component) => component.compensable)
+      .reduce((total, component) => total + component.amount_pence, 0);
+
+    return {
+      compensable_pence: compensablePence,
+      excluded_pence: sum - compensablePence,
+      components: itemised,
+    };
+  }
+
+  /**
+   * Layer the rulepack's component policy over the defaults
+   */
+  private parsePolicy(raw: unknown): FareComponentPolicy {
+    if (raw === null || raw === undefined) {
+      return DEFAULT_FARE_COMPONENT_POLICY;
+    }
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new InvalidFareComponentPolicyError('must be an object');
+    }
+
+    const policy = { ...DEFAULT_FARE_COMPONENT_POLICY };
+    for (const [key, value] of Object.entries(raw)) {
+      if (!(key in policy)) {
+        throw new InvalidFareComponentPolicyError(`unknown component type ${key}`);
+      }
+      if (value !== 'compensable' && value !== 'excluded') {
+        throw new InvalidFareComponentPolicyError(`${key} must be 'compensable' or 'excluded'`);
+      }
+      policy[key as FareComponentType] = value;
+    }
+
+    return policy;
+  }
+}
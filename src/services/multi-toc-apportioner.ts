@@ -7,16 +7,50 @@
  *
  * For split-ticket journeys across multiple Train Operating Companies,
  * each segment is evaluated against its TOC's delay repay scheme independently.
+ * Bands come from the compensation band repository, including any TOC overrides.
+ *
+ * A segment's delay comes from its own scheduled/actual arrival; segments
+ * without times use the journey delay. When every connection is made, only
+ * the delay at the final destination reached the passenger, so every segment
+ * is paid on that delay, and none is paid when it is below threshold. A
+ * segment that arrives after the next segment's scheduled departure missed
+ * its connection: its operator is responsible for the delay at the final
+ * destination, so it is paid on that delay, the segments before it on their
+ * own delay, and the segments after it are not paid again.
+ *
+ * When the caller does not know each operator's share of the fare, the
+ * request names an apportionment strategy (see apportionment-strategies.ts)
+ * and the fare is split across the segments before they are evaluated.
  */
 
+import { percentageOfPence, RoundingMode } from '../lib/money.js';
+import { bandPercentageFor, TicketFormat } from '../lib/ticket-format.js';
+import {
+  allocatePence,
+  ApportionmentStrategy,
+  ApportionmentStrategyError,
+  ApportionmentStrategyName,
+  CallerWeightedStrategy,
+  EqualSplitStrategy,
+  MileageWeightedStrategy,
+  StationDistanceRepository,
+} from './apportionment-strategies.js';
+import type { CompensationBandRepository } from './eligibility-service.js';
+
 // ============================================
 // Type Definitions
 // ============================================
 
 export interface JourneySegment {
   toc_code: string;
-  fare_portion_pence: number;
+  fare_portion_pence?: number; // Required by the fare_portions strategy
   segment_order: number;
+  scheduled_departure?: string; // ISO 8601
+  scheduled_arrival?: string;
+  actual_arrival?: string;
+  origin_crs?: string; // Mileage strategy
+  destination_crs?: string;
+  weight?: number; // Weights strategy
 }
 
 export interface ApportionmentRequest {
@@ -24,6 +58,9 @@ export interface ApportionmentRequest {
   delay_minutes: number;
   total_fare_pence: number;
   journey_segments: JourneySegment[];
+  ticket_format?: TicketFormat;
+  rules_as_of?: string; // YYYY-MM-DD journey date; defaults to today
+  apportionment_strategy?: ApportionmentStrategyName; // Defaults to fare_portions when every segment has one, else equal
 }
 
 export interface SegmentEligibility {
@@ -35,53 +72,66 @@ export interface SegmentEligibility {
   compensation_pence: number;
   scheme?: string;
   notes?: string;
+  delay_minutes?: number; // Delay the segment was paid on
+  missed_connection?: boolean;
+  delay_attributed_to?: string; // TOC whose missed connection caused this segment's delay
+  rounding_rule?: string; // Set when the segment's compensation was rounded to whole pence
 }
 
 export interface ApportionmentResult {
   journey_id: string;
   segment_eligibilities: SegmentEligibility[];
   total_compensation_pence: number;
+  destination_delay_minutes: number;
+  responsible_toc_code: string | null; // Operator the claim is lodged with; null when not delayed
+  apportionment_strategy: ApportionmentStrategyName;
+}
+
+interface SegmentDelay {
+  delay_minutes: number;
+  missed_connection: boolean;
+  delay_attributed_to?: string;
 }
 
 export interface TocRulepack {
   toc_code: string;
   scheme: string;
   active: boolean;
+  rounding_mode?: RoundingMode | null; // Segment compensation is rounded under its own TOC's mode
 }
 
 // Repository interface
 export interface TocRulepackRepository {
-  findByTocCode(tocCode: string): Promise<TocRulepack | null>;
+  findByTocCode(tocCode: string, onDate?: string): Promise<TocRulepack | null>;
 }
 
-// ============================================
-// Compensation Band Constants
-// ============================================
-
-// DR15 scheme: 15-minute threshold
-const DR15_BANDS = [
-  { minMinutes: 15, maxMinutes: 29, percentage: 25 },
-  { minMinutes: 30, maxMinutes: 59, percentage: 50 },
-  { minMinutes: 60, maxMinutes: 119, percentage: 50 },
-  { minMinutes: 120, maxMinutes: Infinity, percentage: 100 },
-];
-
-// DR30 scheme: 30-minute threshold
-const DR30_BANDS = [
-  { minMinutes: 30, maxMinutes: 59, percentage: 50 },
-  { minMinutes: 60, maxMinutes: 119, percentage: 50 },
-  { minMinutes: 120, maxMinutes: Infinity, percentage: 100 },
-];
-
 // ============================================
 // MultiTocApportioner Implementation
 // ============================================
 
 export class MultiTocApportioner {
   private tocRulepackRepository: TocRulepackRepository;
+  private compensationBandRepository: CompensationBandRepository;
+  private strategies = new Map<ApportionmentStrategyName, ApportionmentStrategy>();
 
-  constructor(tocRulepackRepository: TocRulepackRepository) {
+  /**
+   * Without a station distance repository the mileage strategy is unavailable
+   */
+  constructor(
+    tocRulepackRepository: TocRulepackRepository,
+    compensationBandRepository: CompensationBandRepository,
+    stationDistanceRepository?: StationDistanceRepository
+  ) {
     this.tocRulepackRepository = tocRulepackRepository;
+    this.compensationBandRepository = compensationBandRepository;
+
+    const strategies: ApportionmentStrategy[] = [new EqualSplitStrategy(), new CallerWeightedStrategy()];
+    if (stationDistanceRepository) {
+      strategies.push(new MileageWeightedStrategy(stationDistanceRepository));
+    }
+    for (const strategy of strategies) {
+      this.strategies.set(strategy.name, strategy);
+    }
   }
 
   /**
@@ -89,19 +139,32 @@ export class MultiTocApportioner {
    */
   async apportion(request: ApportionmentRequest): Promise<ApportionmentResult> {
     // Validate request
-    this.validateRequest(request);
+    const strategyName = this.validateRequest(request);
+
+    const segments = [...request.journey_segments].sort((a, b) => a.segment_order - b.segment_order);
+    const farePortions = await this.farePortions(segments, request.total_fare_pence, strategyName);
+    const attribution = this.attributeDelays(segments, request.delay_minutes);
 
     // Process each segment
     const segmentEligibilities: SegmentEligibility[] = [];
 
-    for (const segment of request.journey_segments) {
-      const eligibility = await this.evaluateSegment(segment, request.delay_minutes);
-      segmentEligibilities.push(eligibility);
+    for (const [index, segment] of segments.entries()) {
+      const segmentDelay = attribution.delays[index];
+      const eligibility = await this.evaluateSegment(
+        { ...segment, fare_portion_pence: farePortions[index] },
+        segmentDelay.delay_minutes,
+        request.ticket_format ?? 'return',
+        request.rules_as_of
+      );
+      segmentEligibilities.push({
+        ...eligibility,
+        ...segmentDelay,
+        notes: segmentDelay.delay_attributed_to && !eligibility.notes
+          ? `Delay attributed to ${segmentDelay.delay_attributed_to} (missed connection)`
+          : eligibility.notes,
+      });
     }
 
-    // Sort by segment order to maintain ordering
-    segmentEligibilities.sort((a, b) => a.segment_order - b.segment_order);
-
     // Calculate total compensation
     const totalCompensationPence = segmentEligibilities.reduce(
       (sum, seg) => sum + seg.compensation_pence,
@@ -112,38 +175,140 @@ export class MultiTocApportioner {
       journey_id: request.journey_id,
       segment_eligibilities: segmentEligibilities,
       total_compensation_pence: totalCompensationPence,
+      destination_delay_minutes: attribution.destination_delay_minutes,
+      responsible_toc_code: attribution.responsible_toc_code,
+      apportionment_strategy: strategyName,
     };
   }
 
   /**
-   * Validate the apportionment request
+   * Each segment's share of the fare, in journey order
+   */
+  private async farePortions(
+    segments: JourneySegment[],
+    totalFarePence: number,
+    strategyName: ApportionmentStrategyName
+  ): Promise<number[]> {
+    if (strategyName === 'fare_portions') {
+      return segments.map((segment) => segment.fare_portion_pence ?? 0);
+    }
+
+    const strategy = this.strategies.get(strategyName);
+    if (!strategy) {
+      throw new ApportionmentStrategyError(`apportionment strategy ${strategyName} is not available`);
+    }
+
+    return allocatePence(totalFarePence, await strategy.weigh(segments));
+  }
+
+  /**
+   * Work out the delay each segment is paid on and who is responsible for
+   * the delay at the final destination (segments in journey order)
    */
-  private validateRequest(request: ApportionmentRequest): void {
+  private attributeDelays(
+    segments: JourneySegment[],
+    journeyDelayMinutes: number
+  ): { delays: SegmentDelay[]; destination_delay_minutes: number; responsible_toc_code: string | null } {
+    const ownDelays = segments.map((segment) => this.segmentDelayMinutes(segment) ?? journeyDelayMinutes);
+    const missedConnections = segments.map((segment, index) => {
+      const next = segments[index + 1];
+      return Boolean(
+        next?.scheduled_departure && segment.actual_arrival
+        && new Date(segment.actual_arrival).getTime() > new Date(next.scheduled_departure).getTime()
+      );
+    });
+
+    const lastSegment = segments[segments.length - 1];
+    const destinationDelayMinutes = this.segmentDelayMinutes(lastSegment) ?? journeyDelayMinutes;
+    const firstMissed = missedConnections.indexOf(true);
+
+    if (firstMissed === -1) {
+      // An intermediate delay that still made its connection pays nothing by itself
+      return {
+        delays: segments.map(() => ({
+          delay_minutes: destinationDelayMinutes,
+          missed_connection: false,
+        })),
+        destination_delay_minutes: destinationDelayMinutes,
+        responsible_toc_code: destinationDelayMinutes > 0 ? lastSegment.toc_code : null,
+      };
+    }
+
+    const responsibleTocCode = segments[firstMissed].toc_code;
+
+    return {
+      delays: ownDelays.map((delay, index) => {
+        if (index < firstMissed) {
+          return { delay_minutes: delay, missed_connection: false };
+        }
+        if (index === firstMissed) {
+          return { delay_minutes: destinationDelayMinutes, missed_connection: true };
+        }
+        return { delay_minutes: 0, missed_connection: missedConnections[index], delay_attributed_to: responsibleTocCode };
+      }),
+      destination_delay_minutes: destinationDelayMinutes,
+      responsible_toc_code: responsibleTocCode,
+    };
+  }
+
+  /**
+   * Arrival delay of a segment from its own times, or null without them
+   * Early arrival counts as no delay.
+   */
+  private segmentDelayMinutes(segment: JourneySegment): number | null {
+    if (!segment.scheduled_arrival || !segment.actual_arrival) {
+      return null;
+    }
+
+    const diffMs = new Date(segment.actual_arrival).getTime() - new Date(segment.scheduled_arrival).getTime();
+    return Math.max(0, Math.floor(diffMs / (1000 * 60)));
+  }
+
+  /**
+   * Validate the apportionment request and resolve its strategy
+   */
+  private validateRequest(request: ApportionmentRequest): ApportionmentStrategyName {
     // Check for empty segments
     if (request.journey_segments.length === 0) {
       throw new Error('At least one journey segment is required');
     }
 
+    const portionsGiven = request.journey_segments.every((seg) => seg.fare_portion_pence !== undefined);
+    const strategyName = request.apportionment_strategy ?? (portionsGiven ? 'fare_portions' : 'equal');
+    if (strategyName !== 'fare_portions') {
+      return strategyName;
+    }
+
+    if (!portionsGiven) {
+      throw new ApportionmentStrategyError('fare_portions apportionment needs fare_portion_pence on every segment');
+    }
+
     // Check fare portions sum to total
     const fareSum = request.journey_segments.reduce(
-      (sum, seg) => sum + seg.fare_portion_pence,
+      (sum, seg) => sum + (seg.fare_portion_pence ?? 0),
       0
     );
 
     if (fareSum !== request.total_fare_pence) {
-      throw new Error('Fare portions do not sum to total fare');
+      throw new ApportionmentStrategyError(
+        `Fare portions do not sum to total fare (${fareSum} of ${request.total_fare_pence} pence)`
+      );
     }
+
+    return strategyName;
   }
 
   /**
    * Evaluate a single segment for eligibility
    */
   private async evaluateSegment(
-    segment: JourneySegment,
-    delayMinutes: number
+    segment: JourneySegment & { fare_portion_pence: number },
+    delayMinutes: number,
+    ticketFormat: TicketFormat,
+    rulesAsOf?: string
   ): Promise<SegmentEligibility> {
     // Look up TOC rulepack
-    const tocRulepack = await this.tocRulepackRepository.findByTocCode(segment.toc_code);
+    const tocRulepack = await this.tocRulepackRepository.findByTocCode(segment.toc_code, rulesAsOf);
 
     // Unknown TOC
     if (!tocRulepack) {
@@ -172,15 +337,20 @@ export class MultiTocApportioner {
       };
     }
 
-    // Get compensation percentage based on scheme and delay
-    const compensationPercentage = this.getCompensationPercentage(
+    // Get compensation percentage from the scheme's bands and any TOC overrides
+    const band = await this.compensationBandRepository.findBySchemeAndDelay(
       tocRulepack.scheme,
-      delayMinutes
+      delayMinutes,
+      rulesAsOf,
+      tocRulepack.toc_code
     );
+    const compensationPercentage = band ? bandPercentageFor(band, ticketFormat) : 0;
 
     // Calculate compensation
-    const compensationPence = Math.floor(
-      (segment.fare_portion_pence * compensationPercentage) / 100
+    const compensation = percentageOfPence(
+      segment.fare_portion_pence,
+      compensationPercentage,
+      tocRulepack.rounding_mode ?? 'floor'
     );
 
     const eligible = compensationPercentage > 0;
@@ -191,24 +361,9 @@ export class MultiTocApportioner {
       fare_portion_pence: segment.fare_portion_pence,
       eligible,
       compensation_percentage: compensationPercentage,
-      compensation_pence: compensationPence,
+      compensation_pence: compensation.pence,
       scheme: tocRulepack.scheme,
+      rounding_rule: compensation.rounding_rule,
     };
   }
-
-  /**
-   * Get compensation percentage based on scheme and delay minutes
-   */
-  private getCompensationPercentage(scheme: string, delayMinutes: number): number {
-    const bands = scheme === 'DR15' ? DR15_BANDS : DR30_BANDS;
-
-    for (const band of bands) {
-      if (delayMinutes >= band.minMinutes && delayMinutes <= band.maxMinutes) {
-        return band.percentage;
-      }
-    }
-
-    // Delay below minimum threshold
-    return 0;
-  }
 }
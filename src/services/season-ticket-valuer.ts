@@ -0,0 +1,179 @@
+/**
+ * SeasonTicketValuer - Per-journey value of season, flexi and carnet tickets
+ *
+ * Delay Repay on a season ticket pays a percentage of the value of one
+ * journey, not of the season price. The value is the price divided by the
+ * journeys the ticket covers:
+ *
+ * - weekly / monthly / annual season: a fixed number of journeys per period
+ * - flexi season (e.g. 8 days in 28): travel days bought x journeys per day
+ * - carnet: the number of journeys bought
+ *
+ * The period divisors come from the scheme, overridden per TOC
+ * (season_ticket_divisors JSONB); keys left unset use the defaults below.
+ */
+
+import { roundPence, RoundingMode } from '../lib/money.js';
+
+// ============================================
+// Type Definitions
+// ============================================
+
+export type SeasonTicketType = 'weekly' | 'monthly' | 'annual' | 'flexi' | 'carnet';
+
+export interface SeasonTicketDivisors {
+  weekly: number; // Journeys covered by a weekly season
+  monthly: number;
+  annual: number;
+  flexi_journeys_per_day: number;
+}
+
+export const DEFAULT_SEASON_TICKET_DIVISORS: SeasonTicketDivisors = {
+  weekly: 10,
+  monthly: 40,
+  annual: 464,
+  flexi_journeys_per_day: 2,
+};
+
+/**
+ * Flexi and carnet tickets say how much travel was bought
+ */
+export interface SeasonTicketDetails {
+  travel_days?: number; // Flexi: days of travel (8 for 8 days in 28)
+  journeys?: number; // Carnet: journeys bought
+}
+
+export interface SeasonTicketValuationRequest {
+  ticket_type?: string;
+  season_price_pence: number;
+  season_ticket?: SeasonTicketDetails;
+  divisors?: unknown; // Raw season_ticket_divisors JSONB from the rulepack
+  rounding_mode: RoundingMode;
+}
+
+export interface SeasonTicketValuation {
+  season_type: SeasonTicketType;
+  season_price_pence: number;
+  journeys: number; // Divisor applied to the season price
+  per_journey_value_pence: number;
+  formula: string;
+}
+
+export class InvalidSeasonTicketError extends Error {
+  constructor(message: string) {
+    super(`Invalid season ticket: ${message}`);
+    this.name = 'InvalidSeasonTicketError';
+  }
+}
+
+export class InvalidSeasonTicketDivisorsError extends Error {
+  constructor(message: string) {
+    super(`Invalid season_ticket_divisors: ${message}`);
+    this.name = 'InvalidSeasonTicketDivisorsError';
+  }
+}
+
+// Normalised ticket_type -> season type
+const SEASON_TICKET_TYPES: Record<string, SeasonTicketType> = {
+  weekly_season: 'weekly',
+  monthly_season: 'monthly',
+  annual_season: 'annual',
+  flexi_season: 'flexi',
+  carnet: 'carnet',
+};
+
+/**
+ * Season type of a free-text ticket_type ('Annual Season', 'annual-season'),
+ * or null for any other ticket
+ */
+export function seasonTicketTypeOf(ticketType?: string): SeasonTicketType | null {
+  if (!ticketType) {
+    return null;
+  }
+  return SEASON_TICKET_TYPES[ticketType.trim().toLowerCase().replace(/[\s-]+/g, '_')] ?? null;
+}
+
+// ============================================
+// SeasonTicketValuer Implementation
+// ============================================
+
+export class SeasonTicketValuer {
+  /**
+   * Value one journey on a season ticket
+   * Returns null when the ticket is not a season, flexi or carnet ticket.
+   */
+  value(request: SeasonTicketValuationRequest): SeasonTicketValuation | null {
+    const seasonType = seasonTicketTypeOf(request.ticket_type);
+    if (!seasonType) {
+      return null;
+    }
+
+    const divisors = this.parseDivisors(request.divisors);
+    const { journeys, basis } = this.journeysCovered(seasonType, request.season_ticket, divisors);
+    const perJourneyValuePence = roundPence(request.season_price_pence / journeys, request.rounding_mode);
+
+    return {
+      season_type: seasonType,
+      season_price_pence: request.season_price_pence,
+      journeys,
+      per_journey_value_pence: perJourneyValuePence,
+      formula: `${request.season_price_pence} pence / ${journeys} journeys (${basis})`,
+    };
+  }
+
+  /**
+   * Journeys a ticket covers, and how that number was reached
+   */
+  private journeysCovered(
+    seasonType: SeasonTicketType,
+    details: SeasonTicketDetails | undefined,
+    divisors: SeasonTicketDivisors
+  ): { journeys: number; basis: string } {
+    switch (seasonType) {
+      case 'flexi': {
+        const travelDays = details?.travel_days;
+        if (!travelDays || !Number.isInteger(travelDays) || travelDays < 1) {
+          throw new InvalidSeasonTicketError('flexi season tickets need season_ticket.travel_days');
+        }
+        return {
+          journeys: travelDays * divisors.flexi_journeys_per_day,
+          basis: `${travelDays} travel days x ${divisors.flexi_journeys_per_day} journeys`,
+        };
+      }
+      case 'carnet': {
+        const journeys = details?.journeys;
+        if (!journeys || !Number.isInteger(journeys) || journeys < 1) {
+          throw new InvalidSeasonTicketError('carnet tickets need season_ticket.journeys');
+        }
+        return { journeys, basis: `carnet of ${journeys}` };
+      }
+      default:
+        return { journeys: divisors[seasonType], basis: `${seasonType} season` };
+    }
+  }
+
+  /**
+   * Layer the rulepack's divisors over the defaults
+   */
+  private parseDivisors(raw: unknown): SeasonTicketDivisors {
+    if (raw === null || raw === undefined) {
+      return DEFAULT_SEASON_TICKET_DIVISORS;
+    }
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new InvalidSeasonTicketDivisorsError('must be an object');
+    }
+
+    const divisors = { ...DEFAULT_SEASON_TICKET_DIVISORS };
+    for (const [key, value] of Object.entries(raw)) {
+      if (!(key in divisors)) {
+        throw new InvalidSeasonTicketDivisorsError(`unknown key ${key}`);
+      }
+      if (typeof value !== 'number' || !(value > 0)) {
+        throw new InvalidSeasonTicketDivisorsError(`${key} must be a positive number`);
+      }
+      divisors[key as keyof SeasonTicketDivisors] = value;
+    }
+
+    return divisors;
+  }
+}
@@ -7,8 +7,11 @@
  *
  * Sleeper tickets (Caledonian Sleeper, Night Riviera) have compensation
  * capped at the seated equivalent fare, not the full sleeper fare.
+ * The cap is rounded to whole pence under the request's rounding mode.
  */
 
+import { PenceAmount, percentageOfPence, RoundingMode } from '../lib/money.js';
+
 // ============================================
 // Type Definitions
 // ============================================
@@ -20,6 +23,7 @@ export interface SleeperCapRequest {
   calculated_compensation_pence: number;
   journey_date: string;
   compensation_percentage?: number; // Optional - used for proportional capping
+  rounding_mode?: RoundingMode; // Defaults to floor
 }
 
 export interface SleeperCapResult {
@@ -28,6 +32,7 @@ export interface SleeperCapResult {
   original_compensation_pence: number;
   seated_equivalent_pence?: number;
   notes?: string;
+  rounding_rule?: string; // Set when the cap was rounded to whole pence
 }
 
 export interface SeatedFareEquivalent {
@@ -39,8 +44,9 @@ export interface SeatedFareEquivalent {
 }
 
 // Repository interface
+// onDate (YYYY-MM-DD) is the journey date; defaults to today
 export interface SeatedFareRepository {
-  findByRouteAndClass(routeCode: string, sleeperClass: string): Promise<SeatedFareEquivalent | null>;
+  findByRouteAndClass(routeCode: string, sleeperClass: string, onDate?: string): Promise<SeatedFareEquivalent | null>;
 }
 
 // ============================================
@@ -58,19 +64,22 @@ export class SleeperFareCapper {
    * Apply sleeper fare capping to compensation amount
    *
    * Capping rules:
-   * 1. If compensation_percentage IS provided: ALWAYS apply proportional cap
-   *    - Apply that percentage to seated equivalent
-   *    - This caps the payout regardless of calculated compensation
+   * 1. If compensation_percentage IS provided: the cap is that percentage of
+   *    the seated equivalent
    *
    * 2. If compensation_percentage is NOT provided:
    *    a. If compensation <= seated_equivalent: NO cap (compensation is reasonable)
    *    b. If compensation > seated_equivalent: Cap at seated_equivalent
+   *
+   * A cap never raises the payout: it applies only when it is lower than the
+   * calculated compensation.
    */
   async applyCap(request: SleeperCapRequest): Promise<SleeperCapResult> {
     // Find seated fare equivalent for this route and class
     const seatedFareEquivalent = await this.seatedFareRepository.findByRouteAndClass(
       request.route_code,
-      request.sleeper_class
+      request.sleeper_class,
+      request.journey_date
     );
 
     // No seated equivalent found - use original calculation
@@ -97,13 +106,12 @@ export class SleeperFareCapper {
 
     // If compensation_percentage is provided, ALWAYS apply proportional cap
     if (request.compensation_percentage !== undefined && request.compensation_percentage > 0) {
-      const proportionalCap = Math.floor((seatedEquivalentPence * request.compensation_percentage) / 100);
-      return {
-        capped_compensation_pence: proportionalCap,
-        cap_applied: true,
-        original_compensation_pence: request.calculated_compensation_pence,
-        seated_equivalent_pence: seatedEquivalentPence,
-      };
+      const proportionalCap = percentageOfPence(
+        seatedEquivalentPence,
+        request.compensation_percentage,
+        request.rounding_mode ?? 'floor'
+      );
+      return this.capAt(request, seatedEquivalentPence, proportionalCap);
     }
 
     // No percentage provided - use simple comparison
@@ -122,13 +130,34 @@ export class SleeperFareCapper {
     // e.g., if sleeper_fare is 10000 and calculated_compensation is 5000, that's 50%
     // Apply that 50% to the seated equivalent (4000) = 2000
     const effectivePercentage = (request.calculated_compensation_pence / request.sleeper_fare_pence) * 100;
-    const proportionalCap = Math.floor((seatedEquivalentPence * effectivePercentage) / 100);
+    const proportionalCap = percentageOfPence(seatedEquivalentPence, effectivePercentage, request.rounding_mode ?? 'floor');
+
+    return this.capAt(request, seatedEquivalentPence, proportionalCap);
+  }
+
+  /**
+   * Pay the lower of the calculated compensation and the cap
+   */
+  private capAt(
+    request: SleeperCapRequest,
+    seatedEquivalentPence: number,
+    cap: PenceAmount
+  ): SleeperCapResult {
+    if (cap.pence >= request.calculated_compensation_pence) {
+      return {
+        capped_compensation_pence: request.calculated_compensation_pence,
+        cap_applied: false,
+        original_compensation_pence: request.calculated_compensation_pence,
+        seated_equivalent_pence: seatedEquivalentPence,
+      };
+    }
 
     return {
-      capped_compensation_pence: proportionalCap,
+      capped_compensation_pence: cap.pence,
       cap_applied: true,
       original_compensation_pence: request.calculated_compensation_pence,
       seated_equivalent_pence: seatedEquivalentPence,
+      rounding_rule: cap.rounding_rule,
     };
   }
 
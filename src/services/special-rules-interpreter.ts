@@ -0,0 +1,384 @@
+/**
+ * SpecialRulesInterpreter - TOC-specific rules stored in toc_rulepacks.special_rules
+ *
+ * special_rules is a JSON array of rule objects, each with an `id`
+ * (upper-case, used in applied_rules as SPECIAL_<id>) and a `type`:
+ *
+ * - exclude_station_pair: journeys between two stations are not eligible
+ *   { origin_crs, destination_crs, bidirectional?, reason? }
+ * - compensation_bands: extra or alternative bands for this TOC
+ *   { mode: 'extend' | 'replace', bands: [{ delay_threshold_minutes, compensation_percentage }] }
+ * - ticket_type: ticket types the TOC treats differently
+ *   { ticket_types: string[], exclude?: true, compensation_percentage? }
+ * - minimum_payout: eligible claims pay at least this much (never above the fare;
+ *   see lib/money.ts for how it meets the money policy's min_claimable_pence)
+ *   { minimum_pence }
+ *
+ * Multi-TOC journeys are paid under each segment's own bands, so only the
+ * exclusions and the minimum payout apply to them, on the journey as a whole.
+ *
+ * Rules are validated before use; a malformed rulepack fails the evaluation
+ * rather than silently paying under the wrong rules.
+ */
+
+import type { CompensationBand } from './eligibility-service.js';
+
+// ============================================
+// Type Definitions
+// ============================================
+
+export interface ExcludeStationPairRule {
+  id: string;
+  type: 'exclude_station_pair';
+  origin_crs: string;
+  destination_crs: string;
+  bidirectional?: boolean;
+  reason?: string;
+}
+
+export interface CompensationBandsRule {
+  id: string;
+  type: 'compensation_bands';
+  mode: 'extend' | 'replace';
+  bands: Array<{ delay_threshold_minutes: number; compensation_percentage: number }>;
+}
+
+export interface TicketTypeRule {
+  id: string;
+  type: 'ticket_type';
+  ticket_types: string[];
+  exclude?: boolean;
+  compensation_percentage?: number;
+}
+
+export interface MinimumPayoutRule {
+  id: string;
+  type: 'minimum_payout';
+  minimum_pence: number;
+}
+
+export type SpecialRule =
+  | ExcludeStationPairRule
+  | CompensationBandsRule
+  | TicketTypeRule
+  | MinimumPayoutRule;
+
+export interface SpecialRulesContext {
+  scheme: string;
+  delay_minutes: number;
+  standard_band: CompensationBand | null;
+  origin_crs?: string;
+  destination_crs?: string;
+  ticket_type?: string;
+}
+
+export interface SpecialRulesOutcome {
+  excluded: boolean;
+  exclusion_reason?: string;
+  band: CompensationBand | null;
+  compensation_percentage_override?: number;
+  minimum_payout_pence?: number;
+  applied_rules: string[];
+}
+
+export class InvalidSpecialRulesError extends Error {
+  constructor(message: string) {
+    super(`Invalid special_rules: ${message}`);
+    this.name = 'InvalidSpecialRulesError';
+  }
+}
+
+// ============================================
+// SpecialRulesInterpreter Implementation
+// ============================================
+
+export class SpecialRulesInterpreter {
+  /**
+   * Validate raw special_rules JSON and return typed rules
+   * null/undefined means the TOC has no special rules
+   */
+  parse(raw: unknown): SpecialRule[] {
+    if (raw === null || raw === undefined) {
+      return [];
+    }
+    if (!Array.isArray(raw)) {
+      throw new InvalidSpecialRulesError('must be an array');
+    }
+
+    const ids = new Set<string>();
+    return raw.map((rule, index) => {
+      const parsed = this.parseRule(rule, index);
+      if (ids.has(parsed.id)) {
+        throw new InvalidSpecialRulesError(`duplicate rule id ${parsed.id}`);
+      }
+      ids.add(parsed.id);
+      return parsed;
+    });
+  }
+
+  /**
+   * Apply special rules on top of the standard band lookup
+   */
+  apply(rules: SpecialRule[], context: SpecialRulesContext): SpecialRulesOutcome {
+    const outcome: SpecialRulesOutcome = {
+      excluded: false,
+      band: context.standard_band,
+      applied_rules: [],
+    };
+
+    // Exclusions first - nothing else matters once a journey is excluded
+    const exclusion = this.findExclusion(rules, context);
+    if (exclusion) {
+      return exclusion;
+    }
+
+    for (const rule of rules) {
+      if (rule.type === 'compensation_bands') {
+        outcome.band = this.selectBand(rule, context, outcome.band);
+        outcome.applied_rules.push(this.ruleName(rule));
+      }
+    }
+
+    // Ticket type and minimum payout adjustments only matter for a qualifying delay
+    if (!outcome.band) {
+      return outcome;
+    }
+
+    for (const rule of rules) {
+      if (rule.type === 'ticket_type' && this.matchesTicketType(rule, context.ticket_type)) {
+        outcome.compensation_percentage_override = rule.compensation_percentage;
+        outcome.applied_rules.push(this.ruleName(rule));
+      } else if (rule.type === 'minimum_payout') {
+        outcome.minimum_payout_pence = Math.max(outcome.minimum_payout_pence ?? 0, rule.minimum_pence);
+        outcome.applied_rules.push(this.ruleName(rule));
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Apply special rules to a multi-TOC journey's apportioned total
+   * Band and ticket type percentage rules do not apply; the minimum payout
+   * only applies when the segments qualified.
+   */
+  applyToJourney(
+    rules: SpecialRule[],
+    context: Omit<SpecialRulesContext, 'standard_band'>,
+    eligible: boolean
+  ): SpecialRulesOutcome {
+    const exclusion = this.findExclusion(rules, { ...context, standard_band: null });
+    if (exclusion) {
+      return exclusion;
+    }
+
+    const outcome: SpecialRulesOutcome = { excluded: false, band: null, applied_rules: [] };
+    if (!eligible) {
+      return outcome;
+    }
+
+    for (const rule of rules) {
+      if (rule.type === 'minimum_payout') {
+        outcome.minimum_payout_pence = Math.max(outcome.minimum_payout_pence ?? 0, rule.minimum_pence);
+        outcome.applied_rules.push(this.ruleName(rule));
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * The outcome of the first rule that excludes this journey, if any
+   */
+  private findExclusion(rules: SpecialRule[], context: SpecialRulesContext): SpecialRulesOutcome | null {
+    for (const rule of rules) {
+      const exclusionReason = this.checkExclusion(rule, context);
+      if (exclusionReason) {
+        return {
+          excluded: true,
+          exclusion_reason: exclusionReason,
+          band: null,
+          applied_rules: [this.ruleName(rule)],
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Return the exclusion reason if the rule excludes this journey
+   */
+  private checkExclusion(rule: SpecialRule, context: SpecialRulesContext): string | null {
+    if (rule.type === 'exclude_station_pair') {
+      const origin = context.origin_crs?.toUpperCase();
+      const destination = context.destination_crs?.toUpperCase();
+      const forward = origin === rule.origin_crs && destination === rule.destination_crs;
+      const reverse = rule.bidirectional === true
+        && origin === rule.destination_crs
+        && destination === rule.origin_crs;
+
+      if (forward || reverse) {
+        return rule.reason
+          ?? `Journeys between ${rule.origin_crs} and ${rule.destination_crs} are excluded from delay repay`;
+      }
+    }
+
+    if (rule.type === 'ticket_type' && rule.exclude && this.matchesTicketType(rule, context.ticket_type)) {
+      return `Ticket type ${context.ticket_type} is excluded from delay repay`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Pick the highest qualifying band after applying a band rule
+   */
+  private selectBand(
+    rule: CompensationBandsRule,
+    context: SpecialRulesContext,
+    currentBand: CompensationBand | null
+  ): CompensationBand | null {
+    const candidates: CompensationBand[] = rule.bands
+      .filter((band) => band.delay_threshold_minutes <= context.delay_minutes)
+      .map((band) => ({ scheme_type: context.scheme, ...band }));
+
+    if (rule.mode === 'extend' && currentBand) {
+      candidates.push(currentBand);
+    }
+
+    // Highest threshold wins; on a tie the special rule's band wins
+    return candidates.reduce<CompensationBand | null>(
+      (best, band) => (!best || band.delay_threshold_minutes > best.delay_threshold_minutes ? band : best),
+      null
+    );
+  }
+
+  private matchesTicketType(rule: TicketTypeRule, ticketType?: string): boolean {
+    return ticketType !== undefined
+      && rule.ticket_types.some((type) => type.toLowerCase() === ticketType.toLowerCase());
+  }
+
+  private ruleName(rule: SpecialRule): string {
+    return `SPECIAL_${rule.id}`;
+  }
+
+  // ============================================
+  // Validation
+  // ============================================
+
+  private parseRule(raw: unknown, index: number): SpecialRule {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new InvalidSpecialRulesError(`rule ${index} must be an object`);
+    }
+    const rule = raw as Record<string, unknown>;
+
+    const id = rule.id;
+    if (typeof id !== 'string' || !/^[A-Z0-9_]+$/.test(id)) {
+      throw new InvalidSpecialRulesError(`rule ${index} id must be upper-case letters, digits or underscores`);
+    }
+    const where = `rule ${id}`;
+
+    switch (rule.type) {
+      case 'exclude_station_pair':
+        return {
+          id,
+          type: rule.type,
+          origin_crs: this.requireCrs(rule.origin_crs, `${where} origin_crs`),
+          destination_crs: this.requireCrs(rule.destination_crs, `${where} destination_crs`),
+          bidirectional: this.optionalBoolean(rule.bidirectional, `${where} bidirectional`),
+          reason: this.optionalString(rule.reason, `${where} reason`),
+        };
+
+      case 'compensation_bands': {
+        const mode = rule.mode;
+        if (mode !== 'extend' && mode !== 'replace') {
+          throw new InvalidSpecialRulesError(`${where} mode must be 'extend' or 'replace'`);
+        }
+        if (!Array.isArray(rule.bands) || rule.bands.length === 0) {
+          throw new InvalidSpecialRulesError(`${where} bands must be a non-empty array`);
+        }
+        const bands = rule.bands.map((band: unknown, bandIndex: number) => {
+          const b = (band ?? {}) as Record<string, unknown>;
+          return {
+            delay_threshold_minutes: this.requireNonNegativeInteger(
+              b.delay_threshold_minutes,
+              `${where} band ${bandIndex} delay_threshold_minutes`
+            ),
+            compensation_percentage: this.requirePercentage(
+              b.compensation_percentage,
+              `${where} band ${bandIndex} compensation_percentage`
+            ),
+          };
+        });
+        return { id, type: rule.type, mode, bands };
+      }
+
+      case 'ticket_type': {
+        const ticketTypes = rule.ticket_types;
+        if (!Array.isArray(ticketTypes) || ticketTypes.length === 0
+          || !ticketTypes.every((t: unknown): t is string => typeof t === 'string')) {
+          throw new InvalidSpecialRulesError(`${where} ticket_types must be a non-empty array of strings`);
+        }
+        const exclude = this.optionalBoolean(rule.exclude, `${where} exclude`);
+        const compensationPercentage = rule.compensation_percentage === undefined
+          ? undefined
+          : this.requirePercentage(rule.compensation_percentage, `${where} compensation_percentage`);
+        if ((exclude === true) === (compensationPercentage !== undefined)) {
+          throw new InvalidSpecialRulesError(`${where} needs exactly one of exclude or compensation_percentage`);
+        }
+        return {
+          id,
+          type: rule.type,
+          ticket_types: ticketTypes,
+          exclude,
+          compensation_percentage: compensationPercentage,
+        };
+      }
+
+      case 'minimum_payout':
+        return {
+          id,
+          type: rule.type,
+          minimum_pence: this.requireNonNegativeInteger(rule.minimum_pence, `${where} minimum_pence`),
+        };
+
+      default:
+        throw new InvalidSpecialRulesError(`${where} has unknown type ${String(rule.type)}`);
+    }
+  }
+
+  private requireCrs(value: unknown, field: string): string {
+    if (typeof value !== 'string' || !/^[A-Z]{3}$/.test(value)) {
+      throw new InvalidSpecialRulesError(`${field} must be a 3-letter CRS code`);
+    }
+    return value;
+  }
+
+  private requireNonNegativeInteger(value: unknown, field: string): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new InvalidSpecialRulesError(`${field} must be a non-negative integer`);
+    }
+    return value;
+  }
+
+  private requirePercentage(value: unknown, field: string): number {
+    if (typeof value !== 'number' || value < 0 || value > 100) {
+      throw new InvalidSpecialRulesError(`${field} must be between 0 and 100`);
+    }
+    return value;
+  }
+
+  private optionalBoolean(value: unknown, field: string): boolean | undefined {
+    if (value !== undefined && typeof value !== 'boolean') {
+      throw new InvalidSpecialRulesError(`${field} must be a boolean`);
+    }
+    return value;
+  }
+
+  private optionalString(value: unknown, field: string): string | undefined {
+    if (value !== undefined && typeof value !== 'string') {
+      throw new InvalidSpecialRulesError(`${field} must be a string`);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * TicketProductValuer - Value of one journey on a Rover, Ranger or other
+ * multi-day ticket product
+ *
+ * These tickets buy unlimited travel over several days, so the whole fare is
+ * the wrong basis for one delayed journey. Each product has a stored rule
+ * (eligibility_engine.ticket_products):
+ *
+ * - per_day: fare / travel days
+ * - per_journey: fare / (travel days x journeys per day)
+ * - excluded: not covered by Delay Repay at all, with the reason given
+ */
+
+import { roundPence, RoundingMode } from '../lib/money.js';
+
+// ============================================
+// Type Definitions
+// ============================================
+
+export type TicketValuationBasis = 'per_day' | 'per_journey' | 'excluded';
+
+export interface TicketProduct {
+  product_code: string;
+  product_name: string;
+  valuation_basis: TicketValuationBasis;
+  travel_days: number | null; // Days of travel the product includes
+  journeys_per_day: number | null; // per_journey products only
+  exclusion_reason: string | null;
+  effective_from: string; // YYYY-MM-DD
+  effective_to: string | null; // YYYY-MM-DD, exclusive; null while current
+}
+
+// Repository interface
+// onDate (YYYY-MM-DD) is the journey date; defaults to today
+export interface TicketProductRepository {
+  findByCode(productCode: string, onDate?: string): Promise<TicketProduct | null>;
+}
+
+export interface TicketProductValuationRequest {
+  product_code: string;
+  fare_pence: number;
+  journey_date: string; // YYYY-MM-DD
+  rounding_mode: RoundingMode;
+}
+
+export interface TicketProductValuation {
+  product_code: string;
+  product_name: string;
+  valuation_basis: TicketValuationBasis;
+  excluded: boolean;
+  exclusion_reason?: string;
+  fare_pence: number;
+  divisor?: number;
+  value_pence?: number; // What one delayed journey is worth; absent when excluded
+  formula?: string;
+}
+
+export class UnknownTicketProductError extends Error {
+  constructor(productCode: string) {
+    super(`Unknown ticket product: ${productCode}`);
+    this.name = 'UnknownTicketProductError';
+  }
+}
+
+export class InvalidTicketProductError extends Error {
+  constructor(productCode: string, message: string) {
+    super(`Invalid ticket product ${productCode}: ${message}`);
+    this.name = 'InvalidTicketProductError';
+  }
+}
+
+// ============================================
+// TicketProductValuer Implementation
+// ============================================
+
+export class TicketProductValuer {
+  private ticketProductRepository: TicketProductRepository;
+
+  constructor(ticketProductRepository: TicketProductRepository) {
+    this.ticketProductRepository = ticketProductRepository;
+  }
+
+  /**
+   * Value one journey on a ticket product, or say why it is excluded
+   */
+  async value(request: TicketProductValuationRequest): Promise<TicketProductValuation> {
+    const product = await this.ticketProductRepository.findByCode(request.product_code, request.journey_date);
+    if (!product || (product.effective_to !== null && product.effective_to <= request.journey_date)) {
+      throw new UnknownTicketProductError(request.product_code);
+    }
+
+    const base = {
+      product_code: product.product_code,
+      product_name: product.product_name,
+      valuation_basis: product.valuation_basis,
+      fare_pence: request.fare_pence,
+    };
+
+    if (product.valuation_basis === 'excluded') {
+      return {
+        ...base,
+        excluded: true,
+        exclusion_reason: product.exclusion_reason ?? `${product.product_name} is not covered by Delay Repay`,
+      };
+    }
+
+    const { divisor, basis } = this.divisorFor(product);
+    return {
+      ...base,
+      excluded: false,
+      divisor,
+      value_pence: roundPence(request.fare_pence / divisor, request.rounding_mode),
+      formula: `${request.fare_pence} pence / ${basis}`,
+    };
+  }
+
+  /**
+   * What the fare is divided by, and how to describe it
+   */
+  private divisorFor(product: TicketProduct): { divisor: number; basis: string } {
+    const travelDays = product.travel_days;
+    if (!travelDays || travelDays < 1) {
+      throw new InvalidTicketProductError(product.product_code, 'travel_days must be at least 1');
+    }
+    if (product.valuation_basis === 'per_day') {
+      return { divisor: travelDays, basis: `${travelDays} travel days` };
+    }
+
+    const journeysPerDay = product.journeys_per_day;
+    if (!journeysPerDay || journeysPerDay < 1) {
+      throw new InvalidTicketProductError(product.product_code, 'journeys_per_day must be at least 1');
+    }
+    return {
+      divisor: travelDays * journeysPerDay,
+      basis: `(${travelDays} travel days x ${journeysPerDay} journeys)`,
+    };
+  }
+}
@@ -62,11 +62,35 @@ describe('Eligibility Engine API Endpoints', () => {
     await dbClient.query(`
       CREATE SCHEMA IF NOT EXISTS eligibility_engine;
 
+      CREATE TABLE eligibility_engine.schemes (
+        scheme_code VARCHAR(10) PRIMARY KEY,
+        scheme_name VARCHAR(100) NOT NULL,
+        min_threshold_minutes INTEGER NOT NULL,
+        rounding_mode VARCHAR(10) NOT NULL DEFAULT 'floor',
+        min_claimable_pence INTEGER NOT NULL DEFAULT 0,
+        season_ticket_divisors JSONB,
+        fare_component_policy JSONB
+      );
+
+      INSERT INTO eligibility_engine.schemes (scheme_code, scheme_name, min_threshold_minutes) VALUES
+        ('DR15', 'Delay Repay 15', 15),
+        ('DR30', 'Delay Repay 30', 30);
+
       CREATE TABLE eligibility_engine.toc_rulepacks (
+        id UUID NOT NULL DEFAULT gen_random_uuid(),
         toc_code VARCHAR(5) PRIMARY KEY,
         toc_name VARCHAR(100) NOT NULL,
-        scheme VARCHAR(10) NOT NULL CHECK (scheme IN ('DR15', 'DR30')),
+        scheme VARCHAR(10) NOT NULL REFERENCES eligibility_engine.schemes (scheme_code),
+        allows_online_claims BOOLEAN NOT NULL DEFAULT true,
+        allows_postal_claims BOOLEAN NOT NULL DEFAULT true,
+        claim_portal_url VARCHAR(255),
+        special_rules JSONB,
+        max_claim_days INTEGER NOT NULL DEFAULT 28,
         active BOOLEAN NOT NULL DEFAULT true,
+        rounding_mode VARCHAR(10),
+        min_claimable_pence INTEGER,
+        season_ticket_divisors JSONB,
+        fare_component_policy JSONB,
         effective_from DATE NOT NULL,
         effective_to DATE,
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
@@ -76,11 +100,47 @@ describe('Eligibility Engine API Endpoints', () => {
       CREATE TABLE eligibility_engine.compensation_bands (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         scheme_type VARCHAR(10) NOT NULL,
+        toc_code VARCHAR(10),
         delay_threshold_minutes INTEGER NOT NULL,
         compensation_percentage DECIMAL(5,2) NOT NULL,
+        single_percentage DECIMAL(5,2) NOT NULL,
+        return_percentage DECIMAL(5,2) NOT NULL,
+        effective_from DATE NOT NULL DEFAULT '1970-01-01',
+        effective_to DATE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE eligibility_engine.seated_fare_equivalents (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        route_code VARCHAR(50) NOT NULL,
+        sleeper_class VARCHAR(50) NOT NULL,
+        seated_equivalent_pence INTEGER NOT NULL,
+        effective_from DATE NOT NULL,
+        effective_to DATE,
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
       );
 
+      CREATE TABLE eligibility_engine.station_distances (
+        from_crs CHAR(3) NOT NULL,
+        to_crs CHAR(3) NOT NULL,
+        miles NUMERIC(7,2) NOT NULL CHECK (miles > 0),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (from_crs, to_crs)
+      );
+
+      CREATE TABLE eligibility_engine.ticket_products (
+        product_code VARCHAR(20) NOT NULL,
+        product_name VARCHAR(100) NOT NULL,
+        valuation_basis VARCHAR(20) NOT NULL CHECK (valuation_basis IN ('per_day', 'per_journey', 'excluded')),
+        travel_days INTEGER CHECK (travel_days > 0),
+        journeys_per_day INTEGER CHECK (journeys_per_day > 0),
+        exclusion_reason TEXT,
+        effective_from DATE NOT NULL,
+        effective_to DATE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (product_code, effective_from)
+      );
+
       CREATE TABLE eligibility_engine.eligibility_evaluations (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         journey_id UUID NOT NULL,
@@ -94,9 +154,69 @@ describe('Eligibility Engine API Endpoints', () => {
         reasons JSONB,
         applied_rules JSONB,
         fare_breakdown JSONB,
+        claim_submitted_at TIMESTAMPTZ,
+        claim_deadline DATE,
+        claim_routing JSONB,
+        ticket_format VARCHAR(10),
+        delayed_leg VARCHAR(10),
+        rule_version JSONB,
+        version INTEGER NOT NULL DEFAULT 1,
+        evaluation_request JSONB,
+        supersedes_evaluation_id UUID,
+        superseded_by UUID,
+        superseded_at TIMESTAMPTZ,
+        reevaluation_reason TEXT,
+        decision_trace JSONB,
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
         updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-        UNIQUE (journey_id)
+        UNIQUE (journey_id, version)
+      );
+
+      CREATE UNIQUE INDEX uq_eligibility_evaluations_current
+        ON eligibility_engine.eligibility_evaluations (journey_id)
+        WHERE superseded_at IS NULL;
+
+      CREATE TABLE eligibility_engine.outbox (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        aggregate_type VARCHAR(100) NOT NULL,
+        aggregate_id UUID NOT NULL,
+        event_type VARCHAR(100) NOT NULL,
+        schema_version INTEGER NOT NULL DEFAULT 1 CHECK (schema_version > 0),
+        payload JSONB NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        published_at TIMESTAMPTZ,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMPTZ,
+        last_error TEXT
+      );
+
+      CREATE TABLE eligibility_engine.processed_events (
+        event_id VARCHAR(255) PRIMARY KEY,
+        event_type VARCHAR(100) NOT NULL,
+        journey_id UUID NOT NULL,
+        outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('evaluated', 'reevaluated')),
+        evaluation_id UUID NOT NULL,
+        correlation_id VARCHAR(255),
+        processed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE eligibility_engine.dead_letters (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        topic VARCHAR(255) NOT NULL,
+        partition INTEGER NOT NULL,
+        message_offset VARCHAR(30) NOT NULL,
+        message_key TEXT,
+        event_id VARCHAR(255),
+        event_type VARCHAR(100),
+        journey_id VARCHAR(255),
+        payload TEXT NOT NULL,
+        error TEXT NOT NULL,
+        attempts INTEGER NOT NULL CHECK (attempts > 0),
+        status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'replayed')),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        last_failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        replayed_at TIMESTAMPTZ,
+        CONSTRAINT uq_dead_letters_message UNIQUE (topic, partition, message_offset)
       );
 
       -- Seed DR15 and DR30 TOCs
@@ -104,17 +224,34 @@ describe('Eligibility Engine API Endpoints', () => {
         ('GR', 'LNER', 'DR15', true, '2020-01-01'),
         ('VT', 'Avanti West Coast', 'DR15', true, '2020-01-01'),
         ('SW', 'South Western Railway', 'DR30', true, '2020-01-01'),
-        ('SR', 'ScotRail', 'DR30', true, '2020-01-01');
+        ('SR', 'ScotRail', 'DR30', true, '2020-01-01'),
+        ('CS', 'Caledonian Sleeper', 'DR15', true, '2020-01-01');
+
+      -- Seed sleeper seated fare equivalents
+      INSERT INTO eligibility_engine.seated_fare_equivalents
+        (route_code, sleeper_class, seated_equivalent_pence, effective_from) VALUES
+        ('EUS-INV', 'standard_berth', 8500, '2026-01-01'),
+        ('EUS-INV', 'first_berth', 15000, '2026-01-01');
+
+      INSERT INTO eligibility_engine.station_distances (from_crs, to_crs, miles) VALUES
+        ('KGX', 'YRK', 188.00),
+        ('YRK', 'SCA', 42.00);
+
+      INSERT INTO eligibility_engine.ticket_products
+        (product_code, product_name, valuation_basis, travel_days, journeys_per_day, exclusion_reason, effective_from) VALUES
+        ('ALLLINE7', 'All Line Rover (7 days)', 'per_day', 7, NULL, NULL, '2020-01-01'),
+        ('RANGERDAY', 'Day Ranger', 'excluded', NULL, NULL, 'Day Rangers are sold without Delay Repay', '2020-01-01');
 
       -- Seed compensation bands
-      INSERT INTO eligibility_engine.compensation_bands (scheme_type, delay_threshold_minutes, compensation_percentage) VALUES
-        ('DR15', 15, 25.00),
-        ('DR15', 30, 50.00),
-        ('DR15', 60, 50.00),
-        ('DR15', 120, 100.00),
-        ('DR30', 30, 50.00),
-        ('DR30', 60, 50.00),
-        ('DR30', 120, 100.00);
+      INSERT INTO eligibility_engine.compensation_bands
+        (scheme_type, delay_threshold_minutes, compensation_percentage, single_percentage, return_percentage) VALUES
+        ('DR15', 15, 25.00, 25.00, 25.00),
+        ('DR15', 30, 50.00, 50.00, 50.00),
+        ('DR15', 60, 50.00, 100.00, 50.00),
+        ('DR15', 120, 100.00, 100.00, 100.00),
+        ('DR30', 30, 50.00, 50.00, 50.00),
+        ('DR30', 60, 50.00, 100.00, 50.00),
+        ('DR30', 120, 100.00, 100.00, 100.00);
     `);
 
     // The app will be started by Blake's implementation
@@ -348,6 +485,12 @@ describe('Eligibility Engine API Endpoints', () => {
       expect(body.eligible).toBe(true);
       expect(body.scheme).toBe('DR15');
       expect(body.compensation_percentage).toBe(25);
+      expect(body.claim_routing).toMatchObject({
+        toc_code: 'GR',
+        toc_name: 'LNER',
+        channels: ['online', 'postal'],
+        claim_deadline: '2026-02-12',
+      });
     });
 
     it('should return 200 with eligible=false for DR30 TOC with 20min delay', async () => {
@@ -505,88 +648,1149 @@ describe('Eligibility Engine API Endpoints', () => {
   });
 
   // ============================================
-  // POST /eligibility/restriction/validate
+  // Sleeper fare capping
   // ============================================
 
-  describe('POST /eligibility/restriction/validate', () => {
-    /**
-     * AC-6 tested via API endpoint
-     */
+  describe('Sleeper fare capping', () => {
+    beforeEach(async () => {
+      await dbClient.query('DELETE FROM eligibility_engine.eligibility_evaluations');
+    });
 
-    it('should return valid=true for weekend ticket on Saturday', async () => {
+    it('should cap a sleeper payout at the seated equivalent and store the breakdown', async () => {
       const { createApp } = await import('../../src/app.js');
-      const app = createApp({
+      createApp({
         database: {
           ...dbConfig,
         },
       });
+      const journeyId = '550e8400-e29b-41d4-a716-446655440086';
 
       // Act
-      const response = await fetch(`${baseUrl}/eligibility/restriction/validate`, {
+      const response = await fetch(`${baseUrl}/eligibility/evaluate`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          restriction_codes: ['WE'],
-          journey_date: '2026-01-18', // Saturday
-          departure_time: '10:00',
+          journey_id: journeyId,
+          toc_code: 'CS',
+          scheduled_departure: '2026-01-15T21:00:00Z',
+          delay_minutes: 150,
+          ticket_fare_pence: 18000,
+          ticket_class: 'first',
+          is_sleeper: true,
+          origin_crs: 'EUS',
+          destination_crs: 'INV',
+          claim_submitted_at: '2026-01-16T09:00:00Z',
+        }),
+      });
+
+      // Assert - 100% of the 15000p first-class seated equivalent, not the berth fare
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.compensation_pence).toBe(15000);
+      expect(body.fare_breakdown.sleeper_cap).toMatchObject({
+        route_code: 'EUS-INV',
+        sleeper_class: 'first_berth',
+        original_compensation_pence: 18000,
+        seated_equivalent_pence: 15000,
+        cap_applied: true,
+      });
+
+      const stored = await dbClient.query(
+        'SELECT compensation_pence, fare_breakdown FROM eligibility_engine.eligibility_evaluations WHERE journey_id = $1',
+        [journeyId]
+      );
+      expect(stored.rows[0].compensation_pence).toBe(15000);
+      expect(stored.rows[0].fare_breakdown.sleeper_cap.cap_applied).toBe(true);
+    });
+  });
+
+  // ============================================
+  // Multi-TOC apportionment
+  // ============================================
+
+  describe('Multi-TOC apportionment', () => {
+    beforeEach(async () => {
+      await dbClient.query('DELETE FROM eligibility_engine.eligibility_evaluations');
+    });
+
+    it('should return and store per-segment results for a split journey', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+      const journeyId = '550e8400-e29b-41d4-a716-446655440085';
+
+      // Act - 35 minutes: GR (DR15) pays 50%, SW (DR30) pays 50% single
+      const response = await fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: journeyId,
+          toc_code: 'GR',
+          delay_minutes: 35,
+          ticket_fare_pence: 3000,
+          ticket_format: 'single',
+          journey_segments: [
+            { toc_code: 'GR', fare_portion_pence: 2000 },
+            { toc_code: 'SW', fare_portion_pence: 1000 },
+          ],
         }),
       });
 
       // Assert
       expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.compensation_pence).toBe(1500);
+      expect(body.fare_breakdown.segments).toHaveLength(2);
+      expect(body.fare_breakdown.segments[1]).toMatchObject({ toc_code: 'SW', scheme: 'DR30', compensation_pence: 500 });
+
+      const stored = await dbClient.query(
+        'SELECT fare_breakdown FROM eligibility_engine.eligibility_evaluations WHERE journey_id = $1',
+        [journeyId]
+      );
+      expect(stored.rows[0].fare_breakdown.segments).toHaveLength(2);
+    });
+
+    it('should return 400 when segment fares do not add up to the ticket fare', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: '550e8400-e29b-41d4-a716-446655440084',
+          toc_code: 'GR',
+          delay_minutes: 35,
+          ticket_fare_pence: 3500,
+          journey_segments: [
+            { toc_code: 'GR', fare_portion_pence: 2000 },
+            { toc_code: 'SW', fare_portion_pence: 1000 },
+          ],
+        }),
+      });
 
+      expect(response.status).toBe(400);
       const body = await response.json();
-      expect(body.valid).toBe(true);
+      expect(body.details).toContain('Invalid journey_segments');
     });
 
-    it('should return valid=false for off-peak ticket during peak hours', async () => {
+    it('should split an unpriced fare by mileage and record the strategy', async () => {
       const { createApp } = await import('../../src/app.js');
-      const app = createApp({
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+      const journeyId = '550e8400-e29b-41d4-a716-446655440086';
+
+      const response = await fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: journeyId,
+          toc_code: 'GR',
+          delay_minutes: 35,
+          ticket_fare_pence: 2300,
+          ticket_format: 'single',
+          apportionment_strategy: 'mileage',
+          journey_segments: [
+            { toc_code: 'GR', origin_crs: 'KGX', destination_crs: 'YRK' },
+            { toc_code: 'SW', origin_crs: 'SCA', destination_crs: 'YRK' },
+          ],
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.fare_breakdown.apportionment_strategy).toBe('mileage');
+      expect(body.fare_breakdown.segments.map((s: { fare_portion_pence: number }) => s.fare_portion_pence))
+        .toEqual([1880, 420]);
+    });
+
+    it('should return 400 for an unknown apportionment strategy', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: '550e8400-e29b-41d4-a716-446655440087',
+          toc_code: 'GR',
+          delay_minutes: 35,
+          ticket_fare_pence: 2300,
+          apportionment_strategy: 'revenue',
+          journey_segments: [{ toc_code: 'GR' }, { toc_code: 'SW' }],
+        }),
+      });
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.details).toContain('apportionment_strategy must be one of fare_portions, equal, mileage, weights');
+    });
+  });
+
+  // ============================================
+  // POST /eligibility/evaluate/batch
+  // ============================================
+
+  describe('POST /eligibility/evaluate/batch', () => {
+    beforeEach(async () => {
+      await dbClient.query('DELETE FROM eligibility_engine.eligibility_evaluations');
+    });
+
+    it('should return a result or validation errors per item without failing the batch', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
         database: {
           ...dbConfig,
         },
       });
 
       // Act
-      const response = await fetch(`${baseUrl}/eligibility/restriction/validate`, {
+      const response = await fetch(`${baseUrl}/eligibility/evaluate/batch`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          restriction_codes: ['OP'],
-          journey_date: '2026-01-15', // Wednesday
-          departure_time: '07:30', // Peak hour
+          journeys: [
+            { journey_id: '550e8400-e29b-41d4-a716-446655440081', toc_code: 'GR', delay_minutes: 20, ticket_fare_pence: 3000 },
+            { journey_id: '550e8400-e29b-41d4-a716-446655440082', toc_code: 'GR', ticket_fare_pence: 3000 },
+            { journey_id: '550e8400-e29b-41d4-a716-446655440083', toc_code: 'ZZ', delay_minutes: 20, ticket_fare_pence: 3000 },
+            { journey_id: '550e8400-e29b-41d4-a716-446655440081', toc_code: 'GR', delay_minutes: 45, ticket_fare_pence: 3000 },
+          ],
         }),
       });
 
       // Assert
       expect(response.status).toBe(200);
-
       const body = await response.json();
-      expect(body.valid).toBe(false);
-      expect(body.blocking_restriction).toBe('OP');
+      expect(body.summary).toEqual({ total: 4, evaluated: 1, existing: 1, invalid: 2, failed: 0 });
+      expect(body.results.map((r: { status: string }) => r.status)).toEqual([
+        'evaluated',
+        'invalid',
+        'invalid',
+        'existing',
+      ]);
+      expect(body.results[1].errors).toContain('delay_minutes or (scheduled_arrival and actual_arrival) is required');
+      expect(body.results[2].errors).toContain('Unknown TOC code: ZZ');
+      // The repeated journey keeps its first result
+      expect(body.results[3].result.delay_minutes).toBe(20);
+
+      const stored = await dbClient.query('SELECT COUNT(*)::int AS count FROM eligibility_engine.eligibility_evaluations');
+      expect(stored.rows[0].count).toBe(1);
     });
 
-    it('should return 400 for invalid date format', async () => {
+    it('should return 400 when journeys is missing or empty', async () => {
       const { createApp } = await import('../../src/app.js');
-      const app = createApp({
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/evaluate/batch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ journeys: [] }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  // ============================================
+  // POST /eligibility/simulate
+  // ============================================
+
+  describe('POST /eligibility/simulate', () => {
+    beforeEach(async () => {
+      await dbClient.query('DELETE FROM eligibility_engine.eligibility_evaluations');
+    });
+
+    it('should return the outcome and band table without writing an evaluation', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
         database: {
           ...dbConfig,
         },
       });
 
       // Act
-      const response = await fetch(`${baseUrl}/eligibility/restriction/validate`, {
+      const response = await fetch(`${baseUrl}/eligibility/simulate`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          restriction_codes: ['OP'],
-          journey_date: '2026-13-45', // Invalid date
-          departure_time: '10:00',
+          journey_id: '550e8400-e29b-41d4-a716-446655440087',
+          toc_code: 'GR',
+          delay_minutes: 20,
+          ticket_fare_pence: 3000,
         }),
       });
 
       // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.simulated).toBe(true);
+      expect(body.eligible).toBe(true);
+      expect(body.evaluation_id).toBeUndefined();
+      expect(body.band_table.length).toBeGreaterThan(0);
+      expect(body.band_table[0]).toHaveProperty('minutes_to_reach');
+      expect(body.band_table[0]).toHaveProperty('compensation_pence');
+
+      const stored = await dbClient.query('SELECT COUNT(*)::int AS count FROM eligibility_engine.eligibility_evaluations');
+      expect(stored.rows[0].count).toBe(0);
+    });
+
+    it('should simulate from a TOC and fare with no journey', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/simulate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ toc_code: 'GR', ticket_fare_pence: 3000 }),
+      });
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.journey_id).toBeNull();
+      expect(body.delay_minutes).toBe(0);
+      expect(body.eligible).toBe(false);
+    });
+
+    it('should return 400 without a toc_code', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/simulate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ticket_fare_pence: 3000 }),
+      });
+
       expect(response.status).toBe(400);
     });
   });
+
+  // ============================================
+  // GET /eligibility/:journey_id/explain
+  // ============================================
+
+  describe('GET /eligibility/:journey_id/explain', () => {
+    const journeyId = '550e8400-e29b-41d4-a716-446655440088';
+
+    beforeEach(async () => {
+      await dbClient.query('DELETE FROM eligibility_engine.eligibility_evaluations');
+    });
+
+    it('should return the inputs, rule version and decision trace of the current evaluation', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      await fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: journeyId,
+          toc_code: 'GR',
+          delay_minutes: 20,
+          ticket_fare_pence: 3000,
+        }),
+      });
+
+      // Act
+      const response = await fetch(`${baseUrl}/eligibility/${journeyId}/explain`);
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.inputs).toMatchObject({ toc_code: 'GR', delay_minutes: 20, ticket_fare_pence: 3000 });
+      expect(body.rule_version.rules_as_of).toBeDefined();
+      expect(body.decision_trace.map((s: { step: string }) => s.step)).toEqual([
+        'toc_lookup',
+        'delay_calculation',
+        'claim_window',
+        'restriction_check',
+        'band_selection',
+        'special_rules',
+        'compensation',
+      ]);
+    });
+
+    it('should return 404 when the journey has no evaluation', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/${journeyId}/explain`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  // ============================================
+  // POST /eligibility/:journey_id/reevaluate
+  // ============================================
+
+  describe('POST /eligibility/:journey_id/reevaluate', () => {
+    const journeyId = '550e8400-e29b-41d4-a716-446655440089';
+
+    beforeEach(async () => {
+      await dbClient.query('DELETE FROM eligibility_engine.eligibility_evaluations');
+      await dbClient.query('DELETE FROM eligibility_engine.outbox');
+    });
+
+    it('should supersede the current version and write EligibilitySuperseded to the outbox', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      await fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: journeyId,
+          toc_code: 'GR',
+          delay_minutes: 20,
+          ticket_fare_pence: 3000,
+        }),
+      });
+
+      // Act
+      const response = await fetch(`${baseUrl}/eligibility/${journeyId}/reevaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reason: 'Passenger appeal: delay was 35 minutes',
+          corrections: { delay_minutes: 35 },
+        }),
+      });
+
+      // Assert
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.version).toBe(2);
+      expect(body.compensation_pence).toBe(1500);
+
+      const versions = await dbClient.query(
+        `SELECT version, superseded_at FROM eligibility_engine.eligibility_evaluations
+         WHERE journey_id = $1 ORDER BY version`,
+        [journeyId]
+      );
+      expect(versions.rows).toHaveLength(2);
+      expect(versions.rows[0].superseded_at).not.toBeNull();
+      expect(versions.rows[1].superseded_at).toBeNull();
+
+      const outbox = await dbClient.query(
+        'SELECT event_type, payload FROM eligibility_engine.outbox WHERE aggregate_id = $1',
+        [journeyId]
+      );
+      expect(outbox.rows).toHaveLength(1);
+      expect(outbox.rows[0].event_type).toBe('EligibilitySuperseded');
+      expect(outbox.rows[0].payload.previous_compensation_pence).toBe(750);
+
+      const current = await fetch(`${baseUrl}/eligibility/${journeyId}?include=history`);
+      const currentBody = await current.json();
+      expect(currentBody.version).toBe(2);
+      expect(currentBody.history.map((h: { version: number }) => h.version)).toEqual([1, 2]);
+    });
+
+    it('should return 404 when the journey has no evaluation', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/${journeyId}/reevaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: 'Appeal' }),
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 400 without a reason', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/${journeyId}/reevaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ corrections: { delay_minutes: 35 } }),
+      });
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.details).toContain('reason is required');
+    });
+  });
+
+  // ============================================
+  // POST /eligibility/restriction/validate
+  // ============================================
+
+  describe('POST /eligibility/restriction/validate', () => {
+    /**
+     * AC-6 tested via API endpoint
+     */
+
+    it('should return valid=true for weekend ticket on Saturday', async () => {
+      const { createApp } = await import('../../src/app.js');
+      const app = createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      // Act
+      const response = await fetch(`${baseUrl}/eligibility/restriction/validate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          restriction_codes: ['WE'],
+          journey_date: '2026-01-18', // Saturday
+          departure_time: '10:00',
+        }),
+      });
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const body = await response.json();
+      expect(body.valid).toBe(true);
+    });
+
+    it('should return valid=false for off-peak ticket during peak hours', async () => {
+      const { createApp } = await import('../../src/app.js');
+      const app = createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      // Act
+      const response = await fetch(`${baseUrl}/eligibility/restriction/validate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          restriction_codes: ['OP'],
+          journey_date: '2026-01-15', // Wednesday
+          departure_time: '07:30', // Peak hour
+        }),
+      });
+
+      // Assert
+      expect(response.status).toBe(200);
+
+      const body = await response.json();
+      expect(body.valid).toBe(false);
+      expect(body.blocking_restriction).toBe('OP');
+    });
+
+    it('should return 400 for invalid date format', async () => {
+      const { createApp } = await import('../../src/app.js');
+      const app = createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      // Act
+      const response = await fetch(`${baseUrl}/eligibility/restriction/validate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          restriction_codes: ['OP'],
+          journey_date: '2026-13-45', // Invalid date
+          departure_time: '10:00',
+        }),
+      });
+
+      // Assert
+      expect(response.status).toBe(400);
+    });
+  });
+
+  // ============================================
+  // Money policy
+  // ============================================
+
+  describe('Money policy', () => {
+    beforeEach(async () => {
+      await dbClient.query('DELETE FROM eligibility_engine.eligibility_evaluations');
+      await dbClient.query(`
+        INSERT INTO eligibility_engine.toc_rulepacks
+          (toc_code, toc_name, scheme, active, effective_from, rounding_mode, min_claimable_pence)
+        VALUES ('HX', 'Heathrow Express', 'DR15', true, '2020-01-01', 'half_up', 300)
+        ON CONFLICT (toc_code) DO NOTHING
+      `);
+    });
+
+    afterAll(async () => {
+      await dbClient.query("DELETE FROM eligibility_engine.toc_rulepacks WHERE toc_code = 'HX'");
+    });
+
+    const evaluate = async (journeyId: string, ticketFarePence: number) => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      return fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: journeyId,
+          toc_code: 'HX',
+          delay_minutes: 20,
+          ticket_fare_pence: ticketFarePence,
+          ticket_format: 'single',
+        }),
+      });
+    };
+
+    it('should round under the TOC rounding mode and record it', async () => {
+      // 25% of 1402 = 350.5 pence
+      const response = await evaluate('550e8400-e29b-41d4-a716-446655440096', 1402);
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.compensation_pence).toBe(351);
+      expect(body.applied_rules).toContain('ROUNDING_HALF_UP');
+    });
+
+    it('should refuse a payout below the TOC minimum', async () => {
+      const response = await evaluate('550e8400-e29b-41d4-a716-446655440097', 1000);
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.eligible).toBe(false);
+      expect(body.compensation_pence).toBe(0);
+      expect(body.applied_rules).toContain('MINIMUM_PAYOUT_300P');
+    });
+  });
+
+  // ============================================
+  // Season tickets
+  // ============================================
+
+  describe('Season tickets', () => {
+    beforeEach(async () => {
+      await dbClient.query('DELETE FROM eligibility_engine.eligibility_evaluations');
+    });
+
+    it('should pay an annual season on its per-journey value', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: '550e8400-e29b-41d4-a716-446655440098',
+          toc_code: 'GR',
+          delay_minutes: 35,
+          ticket_fare_pence: 464000,
+          ticket_type: 'annual_season',
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      // 464000 / 464 = 1000 pence per journey; DR15 30 minutes pays 50% of a single
+      expect(body.compensation_pence).toBe(500);
+      expect(body.fare_breakdown.season_ticket).toMatchObject({ journeys: 464, per_journey_value_pence: 1000 });
+    });
+
+    it('should return 400 for a flexi season without travel days', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: '550e8400-e29b-41d4-a716-446655440099',
+          toc_code: 'GR',
+          delay_minutes: 35,
+          ticket_fare_pence: 12000,
+          ticket_type: 'flexi_season',
+        }),
+      });
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.details).toContain('flexi season tickets need season_ticket.travel_days');
+    });
+  });
+
+  // ============================================
+  // Ticket products
+  // ============================================
+
+  describe('Ticket products', () => {
+    beforeEach(async () => {
+      await dbClient.query('DELETE FROM eligibility_engine.eligibility_evaluations');
+    });
+
+    it('should pay a Rover on one day of travel', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: '550e8400-e29b-41d4-a716-446655440100',
+          toc_code: 'GR',
+          delay_minutes: 35,
+          ticket_fare_pence: 59500,
+          ticket_product_code: 'ALLLINE7',
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      // 59500 / 7 = 8500 pence per day; DR15 30 minutes pays 50%
+      expect(body.compensation_pence).toBe(4250);
+      expect(body.fare_breakdown.ticket_product).toMatchObject({ divisor: 7, value_pence: 8500 });
+    });
+
+    it('should refuse an excluded product with its reason', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: '550e8400-e29b-41d4-a716-446655440101',
+          toc_code: 'GR',
+          delay_minutes: 35,
+          ticket_fare_pence: 1500,
+          ticket_product_code: 'RANGERDAY',
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.eligible).toBe(false);
+      expect(body.ineligible_reason).toBe('product_excluded');
+      expect(body.reasons).toEqual(['Ticket product excluded: Day Rangers are sold without Delay Repay']);
+    });
+
+    it('should return 400 for an unknown product', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: '550e8400-e29b-41d4-a716-446655440102',
+          toc_code: 'GR',
+          delay_minutes: 35,
+          ticket_fare_pence: 1500,
+          ticket_product_code: 'NOPE',
+        }),
+      });
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.details).toContain('Unknown ticket product: NOPE');
+    });
+  });
+
+  // ============================================
+  // Fare components
+  // ============================================
+
+  describe('Fare components', () => {
+    beforeEach(async () => {
+      await dbClient.query('DELETE FROM eligibility_engine.eligibility_evaluations');
+    });
+
+    it('should pay only on the rail fare and itemise excluded add-ons', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: '550e8400-e29b-41d4-a716-446655440103',
+          toc_code: 'GR',
+          delay_minutes: 35,
+          ticket_fare_pence: 5000,
+          fare_components: [
+            { component_type: 'rail', amount_pence: 4200 },
+            { component_type: 'plusbus', amount_pence: 300 },
+            { component_type: 'reservation', amount_pence: 500 },
+          ],
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      // DR15 30 minutes pays 50% of the 4200-pence rail fare
+      expect(body.compensation_pence).toBe(2100);
+      expect(body.fare_breakdown.fare_components).toMatchObject({ compensable_pence: 4200, excluded_pence: 800 });
+      expect(body.applied_rules).toContain('FARE_COMPONENTS_EXCLUDED');
+    });
+
+    it('should return 400 for components that do not sum to the fare', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: '550e8400-e29b-41d4-a716-446655440104',
+          toc_code: 'GR',
+          delay_minutes: 35,
+          ticket_fare_pence: 5000,
+          fare_components: [{ component_type: 'rail', amount_pence: 4200 }],
+        }),
+      });
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.details).toContain('components do not sum to ticket fare (4200 of 5000 pence)');
+    });
+
+    it('should return 400 for an unknown component type', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/eligibility/evaluate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey_id: '550e8400-e29b-41d4-a716-446655440105',
+          toc_code: 'GR',
+          delay_minutes: 35,
+          ticket_fare_pence: 5000,
+          fare_components: [{ component_type: 'parking', amount_pence: 5000 }],
+        }),
+      });
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.details).toContain('fare_components must be a non-empty array');
+    });
+  });
+
+  // ============================================
+  // Dead letters
+  // ============================================
+
+  describe('Dead letters', () => {
+    const adminToken = 'test-admin-token';
+    const authorized = { Authorization: `Bearer ${adminToken}` };
+
+    const journeyEvent = (journeyId: string, tocCode: string) => JSON.stringify({
+      event_type: 'JourneyDelayConfirmed',
+      event_id: `evt-${journeyId}`,
+      timestamp: '2026-01-15T12:25:00Z',
+      correlation_id: `corr-${journeyId}`,
+      payload: {
+        journey_id: journeyId,
+        toc_code: tocCode,
+        delay_minutes: 35,
+        ticket_fare_pence: 2000,
+        ticket_class: 'standard',
+        ticket_type: 'single',
+        ticket_restrictions: [],
+        is_sleeper: false,
+        journey_segments: [],
+      },
+    });
+
+    const insertDeadLetter = async (offset: string, payload: string, journeyId: string | null): Promise<string> => {
+      const result = await dbClient.query(
+        `INSERT INTO eligibility_engine.dead_letters
+           (topic, partition, message_offset, event_id, event_type, journey_id, payload, error, attempts)
+         VALUES ('journey.delay.confirmed', 0, $1, $2, $3, $4, $5, 'Unknown TOC code: ZZ', 3)
+         RETURNING id`,
+        [offset, journeyId ? `evt-${journeyId}` : null, journeyId ? 'JourneyDelayConfirmed' : null, journeyId, payload]
+      );
+      return result.rows[0].id;
+    };
+
+    beforeEach(async () => {
+      await dbClient.query('DELETE FROM eligibility_engine.dead_letters');
+      await dbClient.query('DELETE FROM eligibility_engine.processed_events');
+      await dbClient.query('DELETE FROM eligibility_engine.eligibility_evaluations');
+    });
+
+    it('should list dead letters with the original message', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+        adminToken,
+      });
+      const id = await insertDeadLetter('1', journeyEvent('550e8400-e29b-41d4-a716-446655440106', 'ZZ'), '550e8400-e29b-41d4-a716-446655440106');
+      await insertDeadLetter('2', 'not json', null);
+
+      const response = await fetch(`${baseUrl}/admin/dead-letters?status=pending`, { headers: authorized });
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.count).toBe(2);
+      expect(body.dead_letters[0]).toMatchObject({
+        id,
+        status: 'pending',
+        event_id: 'evt-550e8400-e29b-41d4-a716-446655440106',
+        offset: '1',
+        error: 'Unknown TOC code: ZZ',
+        attempts: 3,
+      });
+      expect(body.dead_letters[0].payload.payload.toc_code).toBe('ZZ');
+      expect(body.dead_letters[1].payload).toBe('not json');
+    });
+
+    it('should return 400 for an unknown status filter', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+        adminToken,
+      });
+
+      const response = await fetch(`${baseUrl}/admin/dead-letters?status=lost`, { headers: authorized });
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.details).toContain('status must be one of pending, replayed');
+    });
+
+    it('should replay a fixed event and mark the dead letter replayed', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+        adminToken,
+      });
+      // The TOC code has since been corrected in the stored message
+      const id = await insertDeadLetter('3', journeyEvent('550e8400-e29b-41d4-a716-446655440107', 'GR'), '550e8400-e29b-41d4-a716-446655440107');
+
+      const response = await fetch(`${baseUrl}/admin/dead-letters/${id}/replay`, { method: 'POST', headers: authorized });
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body).toMatchObject({ id, status: 'replayed', attempts: 4 });
+      expect(body.replayed_at).not.toBeNull();
+
+      const evaluation = await dbClient.query(
+        'SELECT eligible FROM eligibility_engine.eligibility_evaluations WHERE journey_id = $1',
+        ['550e8400-e29b-41d4-a716-446655440107']
+      );
+      expect(evaluation.rows).toHaveLength(1);
+
+      const again = await fetch(`${baseUrl}/admin/dead-letters/${id}/replay`, { method: 'POST', headers: authorized });
+      expect(again.status).toBe(409);
+    });
+
+    it('should count a failed replay and keep the dead letter pending', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+        adminToken,
+      });
+      const id = await insertDeadLetter('4', journeyEvent('550e8400-e29b-41d4-a716-446655440108', 'ZZ'), '550e8400-e29b-41d4-a716-446655440108');
+
+      const response = await fetch(`${baseUrl}/admin/dead-letters/${id}/replay`, { method: 'POST', headers: authorized });
+
+      expect(response.status).toBe(422);
+      const body = await response.json();
+      expect(body.error).toBe('Replay failed');
+      expect(body.details).toContain('ZZ');
+      expect(body.dead_letter).toMatchObject({ status: 'pending', attempts: 4 });
+    });
+
+    it('should return 404 for an unknown dead letter', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+        adminToken,
+      });
+
+      const response = await fetch(`${baseUrl}/admin/dead-letters/d1e2f3a4-0000-4000-8000-000000000009/replay`, { method: 'POST', headers: authorized });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should refuse admin requests without the admin token', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+        adminToken,
+      });
+      const id = await insertDeadLetter('5', journeyEvent('550e8400-e29b-41d4-a716-446655440109', 'GR'), '550e8400-e29b-41d4-a716-446655440109');
+
+      const list = await fetch(`${baseUrl}/admin/dead-letters`);
+      const replay = await fetch(`${baseUrl}/admin/dead-letters/${id}/replay`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer wrong-token' },
+      });
+
+      expect(list.status).toBe(401);
+      expect(replay.status).toBe(401);
+      const evaluation = await dbClient.query(
+        'SELECT 1 FROM eligibility_engine.eligibility_evaluations WHERE journey_id = $1',
+        ['550e8400-e29b-41d4-a716-446655440109']
+      );
+      expect(evaluation.rows).toHaveLength(0);
+    });
+
+    it('should refuse every admin request when no admin token is configured', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/admin/dead-letters`, { headers: { Authorization: 'Bearer undefined' } });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should refuse to replay over a newer event for the journey unless forced', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+        adminToken,
+      });
+      const journeyId = '550e8400-e29b-41d4-a716-446655440110';
+      const id = await insertDeadLetter('6', journeyEvent(journeyId, 'GR'), journeyId);
+      await dbClient.query(
+        `INSERT INTO eligibility_engine.processed_events
+           (event_id, event_type, journey_id, outcome, evaluation_id, processed_at)
+         VALUES ('evt-newer', 'JourneyDelayConfirmed', $1, 'evaluated', gen_random_uuid(), NOW() + INTERVAL '1 minute')`,
+        [journeyId]
+      );
+
+      const refused = await fetch(`${baseUrl}/admin/dead-letters/${id}/replay`, { method: 'POST', headers: authorized });
+
+      expect(refused.status).toBe(409);
+      const body = await refused.json();
+      expect(body.details).toContain('evt-newer');
+
+      const forced = await fetch(`${baseUrl}/admin/dead-letters/${id}/replay?force=true`, { method: 'POST', headers: authorized });
+
+      expect(forced.status).toBe(200);
+      expect((await forced.json()).status).toBe('replayed');
+    });
+
+    it('should replay a dead letter whose journey_id is not a UUID', async () => {
+      const { createApp } = await import('../../src/app.js');
+      createApp({
+        database: {
+          ...dbConfig,
+        },
+        adminToken,
+      });
+      const result = await dbClient.query(
+        `INSERT INTO eligibility_engine.dead_letters
+           (topic, partition, message_offset, event_id, event_type, journey_id, payload, error, attempts)
+         VALUES ('journey.delay.confirmed', 0, '7', 'evt-bad-journey', 'JourneyDelayConfirmed', 'not-a-uuid', $1,
+           'journey_id must be a UUID', 3)
+         RETURNING id`,
+        [journeyEvent('not-a-uuid', 'GR')]
+      );
+      const id = result.rows[0].id;
+
+      const response = await fetch(`${baseUrl}/admin/dead-letters/${id}/replay`, { method: 'POST', headers: authorized });
+
+      // No newer-event lookup against the UUID column: the replay itself fails and is counted
+      expect(response.status).toBe(422);
+      const body = await response.json();
+      expect(body.error).toBe('Replay failed');
+      expect(body.dead_letter).toMatchObject({ status: 'pending', attempts: 4 });
+    });
+  });
 });
@@ -65,11 +65,35 @@ describe('Kafka Event Handling', () => {
     await dbClient.query(`
       CREATE SCHEMA IF NOT EXISTS eligibility_engine;
 
+      CREATE TABLE eligibility_engine.schemes (
+        scheme_code VARCHAR(10) PRIMARY KEY,
+        scheme_name VARCHAR(100) NOT NULL,
+        min_threshold_minutes INTEGER NOT NULL,
+        rounding_mode VARCHAR(10) NOT NULL DEFAULT 'floor',
+        min_claimable_pence INTEGER NOT NULL DEFAULT 0,
+        season_ticket_divisors JSONB,
+        fare_component_policy JSONB
+      );
+
+      INSERT INTO eligibility_engine.schemes (scheme_code, scheme_name, min_threshold_minutes) VALUES
+        ('DR15', 'Delay Repay 15', 15),
+        ('DR30', 'Delay Repay 30', 30);
+
       CREATE TABLE eligibility_engine.toc_rulepacks (
+        id UUID NOT NULL DEFAULT gen_random_uuid(),
         toc_code VARCHAR(5) PRIMARY KEY,
         toc_name VARCHAR(100) NOT NULL,
-        scheme VARCHAR(10) NOT NULL CHECK (scheme IN ('DR15', 'DR30')),
+        scheme VARCHAR(10) NOT NULL REFERENCES eligibility_engine.schemes (scheme_code),
+        allows_online_claims BOOLEAN NOT NULL DEFAULT true,
+        allows_postal_claims BOOLEAN NOT NULL DEFAULT true,
+        claim_portal_url VARCHAR(255),
+        special_rules JSONB,
+        max_claim_days INTEGER NOT NULL DEFAULT 28,
         active BOOLEAN NOT NULL DEFAULT true,
+        rounding_mode VARCHAR(10),
+        min_claimable_pence INTEGER,
+        season_ticket_divisors JSONB,
+        fare_component_policy JSONB,
         effective_from DATE NOT NULL,
         effective_to DATE,
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
@@ -79,11 +103,47 @@ describe('Kafka Event Handling', () => {
       CREATE TABLE eligibility_engine.compensation_bands (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         scheme_type VARCHAR(10) NOT NULL,
+        toc_code VARCHAR(10),
         delay_threshold_minutes INTEGER NOT NULL,
         compensation_percentage DECIMAL(5,2) NOT NULL,
+        single_percentage DECIMAL(5,2) NOT NULL,
+        return_percentage DECIMAL(5,2) NOT NULL,
+        effective_from DATE NOT NULL DEFAULT '1970-01-01',
+        effective_to DATE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE eligibility_engine.seated_fare_equivalents (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        route_code VARCHAR(50) NOT NULL,
+        sleeper_class VARCHAR(50) NOT NULL,
+        seated_equivalent_pence INTEGER NOT NULL,
+        effective_from DATE NOT NULL,
+        effective_to DATE,
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
       );
 
+      CREATE TABLE eligibility_engine.station_distances (
+        from_crs CHAR(3) NOT NULL,
+        to_crs CHAR(3) NOT NULL,
+        miles NUMERIC(7,2) NOT NULL CHECK (miles > 0),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (from_crs, to_crs)
+      );
+
+      CREATE TABLE eligibility_engine.ticket_products (
+        product_code VARCHAR(20) NOT NULL,
+        product_name VARCHAR(100) NOT NULL,
+        valuation_basis VARCHAR(20) NOT NULL CHECK (valuation_basis IN ('per_day', 'per_journey', 'excluded')),
+        travel_days INTEGER CHECK (travel_days > 0),
+        journeys_per_day INTEGER CHECK (journeys_per_day > 0),
+        exclusion_reason TEXT,
+        effective_from DATE NOT NULL,
+        effective_to DATE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (product_code, effective_from)
+      );
+
       CREATE TABLE eligibility_engine.eligibility_evaluations (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         journey_id UUID NOT NULL,
@@ -97,20 +157,51 @@ describe('Kafka Event Handling', () => {
         reasons JSONB,
         applied_rules JSONB,
         fare_breakdown JSONB,
+        claim_submitted_at TIMESTAMPTZ,
+        claim_deadline DATE,
+        claim_routing JSONB,
+        ticket_format VARCHAR(10),
+        delayed_leg VARCHAR(10),
+        rule_version JSONB,
+        version INTEGER NOT NULL DEFAULT 1,
+        evaluation_request JSONB,
+        supersedes_evaluation_id UUID,
+        superseded_by UUID,
+        superseded_at TIMESTAMPTZ,
+        reevaluation_reason TEXT,
+        decision_trace JSONB,
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
         updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-        UNIQUE (journey_id)
+        UNIQUE (journey_id, version)
       );
 
+      CREATE UNIQUE INDEX uq_eligibility_evaluations_current
+        ON eligibility_engine.eligibility_evaluations (journey_id)
+        WHERE superseded_at IS NULL;
+
       -- Transactional outbox table for reliable event publishing
       CREATE TABLE eligibility_engine.outbox (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         aggregate_type VARCHAR(100) NOT NULL,
         aggregate_id UUID NOT NULL,
         event_type VARCHAR(100) NOT NULL,
+        schema_version INTEGER NOT NULL DEFAULT 1 CHECK (schema_version > 0),
         payload JSONB NOT NULL,
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-        published_at TIMESTAMPTZ
+        published_at TIMESTAMPTZ,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMPTZ,
+        last_error TEXT
+      );
+
+      CREATE TABLE eligibility_engine.processed_events (
+        event_id VARCHAR(255) PRIMARY KEY,
+        event_type VARCHAR(100) NOT NULL,
+        journey_id UUID NOT NULL,
+        outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('evaluated', 'reevaluated')),
+        evaluation_id UUID NOT NULL,
+        correlation_id VARCHAR(255),
+        processed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
       );
 
       -- Seed TOC rulepacks
@@ -120,14 +211,15 @@ describe('Kafka Event Handling', () => {
         ('CS', 'Caledonian Sleeper', 'DR15', true, '2020-01-01');
 
       -- Seed compensation bands
-      INSERT INTO eligibility_engine.compensation_bands (scheme_type, delay_threshold_minutes, compensation_percentage) VALUES
-        ('DR15', 15, 25.00),
-        ('DR15', 30, 50.00),
-        ('DR15', 60, 50.00),
-        ('DR15', 120, 100.00),
-        ('DR30', 30, 50.00),
-        ('DR30', 60, 50.00),
-        ('DR30', 120, 100.00);
+      INSERT INTO eligibility_engine.compensation_bands
+        (scheme_type, delay_threshold_minutes, compensation_percentage, single_percentage, return_percentage) VALUES
+        ('DR15', 15, 25.00, 25.00, 25.00),
+        ('DR15', 30, 50.00, 50.00, 50.00),
+        ('DR15', 60, 50.00, 100.00, 50.00),
+        ('DR15', 120, 100.00, 100.00, 100.00),
+        ('DR30', 30, 50.00, 50.00, 50.00),
+        ('DR30', 60, 50.00, 100.00, 50.00),
+        ('DR30', 120, 100.00, 100.00, 100.00);
     `);
   }, 60000);
 
@@ -140,6 +232,7 @@ describe('Kafka Event Handling', () => {
     // Clear tables before each test
     await dbClient.query('DELETE FROM eligibility_engine.outbox');
     await dbClient.query('DELETE FROM eligibility_engine.eligibility_evaluations');
+    await dbClient.query('DELETE FROM eligibility_engine.processed_events');
   });
 
   // ============================================
@@ -376,6 +469,7 @@ describe('Kafka Event Handling', () => {
       expect(payload.toc_code).toBe('GR');
       expect(payload.reasons).toBeDefined();
       expect(payload.applied_rules).toBeDefined();
+      expect(payload.claim_deadline).toBe('2026-02-12'); // journey date + 28 days
       expect(payload.evaluation_timestamp).toBeDefined();
     });
 
@@ -445,7 +539,7 @@ describe('Kafka Event Handling', () => {
   // ============================================
 
   describe('Error Handling', () => {
-    it('should handle unknown TOC gracefully', async () => {
+    it('should reject unknown TOC without storing an evaluation', async () => {
       const { JourneyDelayConfirmedHandler } = await import(
         '../../src/handlers/journey-delay-confirmed.handler.js'
       );
@@ -462,18 +556,21 @@ describe('Kafka Event Handling', () => {
         },
       };
 
-      // Act
-      await handler.handle(event);
+      // Act & Assert - same outcome as EligibilityService and the HTTP route
+      await expect(handler.handle(event)).rejects.toThrow('Unknown TOC code: XX');
 
-      // Assert - should create ineligible evaluation with reason
+      // Assert - transaction rolled back, nothing stored or queued
       const result = await dbClient.query(
         'SELECT * FROM eligibility_engine.eligibility_evaluations WHERE journey_id = $1',
         [event.payload.journey_id]
       );
+      const outboxResult = await dbClient.query(
+        'SELECT * FROM eligibility_engine.outbox WHERE aggregate_id = $1',
+        [event.payload.journey_id]
+      );
 
-      expect(result.rows).toHaveLength(1);
-      expect(result.rows[0].eligible).toBe(false);
-      expect(result.rows[0].reasons).toContain('Unknown TOC');
+      expect(result.rows).toHaveLength(0);
+      expect(outboxResult.rows).toHaveLength(0);
     });
 
     it('should handle malformed event payload', async () => {
@@ -583,6 +680,163 @@ describe('Kafka Event Handling', () => {
       );
     });
   });
+
+  // ============================================
+  // Inbox: event_id deduplication
+  // ============================================
+
+  describe('Processed events inbox', () => {
+    it('should record the outcome of a handled event', async () => {
+      const { JourneyDelayConfirmedHandler } = await import(
+        '../../src/handlers/journey-delay-confirmed.handler.js'
+      );
+
+      const handler = new JourneyDelayConfirmedHandler(dbConfig);
+      const event = journeyDelayConfirmedFixtures.dr15JourneyEvent;
+
+      await handler.handle(event);
+
+      const inbox = await dbClient.query(
+        'SELECT event_id, journey_id, outcome, correlation_id FROM eligibility_engine.processed_events'
+      );
+      expect(inbox.rows).toEqual([{
+        event_id: event.event_id,
+        journey_id: event.payload.journey_id,
+        outcome: 'evaluated',
+        correlation_id: event.correlation_id,
+      }]);
+    });
+
+    it('should change nothing when an event is redelivered', async () => {
+      const { JourneyDelayConfirmedHandler } = await import(
+        '../../src/handlers/journey-delay-confirmed.handler.js'
+      );
+
+      const mockLogger = { info: vi.fn(), error: vi.fn(), debug: vi.fn() };
+      const handler = new JourneyDelayConfirmedHandler(dbConfig, { logger: mockLogger });
+      const event = journeyDelayConfirmedFixtures.dr15JourneyEvent;
+
+      await handler.handle(event);
+      await handler.handle(event);
+
+      const outboxResult = await dbClient.query(
+        'SELECT event_type FROM eligibility_engine.outbox WHERE aggregate_id = $1',
+        [event.payload.journey_id]
+      );
+      expect(outboxResult.rows).toEqual([{ event_type: 'EligibilityEvaluated' }]);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ event_id: event.event_id, outcome: 'evaluated' }),
+        'Duplicate event - already processed'
+      );
+    });
+
+    it('should re-evaluate a journey when a new event corrects it', async () => {
+      const { JourneyDelayConfirmedHandler } = await import(
+        '../../src/handlers/journey-delay-confirmed.handler.js'
+      );
+
+      const handler = new JourneyDelayConfirmedHandler(dbConfig);
+      const event = journeyDelayConfirmedFixtures.dr15JourneyEvent;
+      const correction = {
+        ...event,
+        event_id: 'evt-550e8400-e29b-41d4-a716-446655440091',
+        payload: { ...event.payload, delay_minutes: 65 },
+      };
+
+      await handler.handle(event);
+      await handler.handle(correction);
+
+      const evaluations = await dbClient.query(
+        `SELECT version, delay_minutes, superseded_at IS NULL AS current
+         FROM eligibility_engine.eligibility_evaluations
+         WHERE journey_id = $1
+         ORDER BY version`,
+        [event.payload.journey_id]
+      );
+      expect(evaluations.rows).toEqual([
+        { version: 1, delay_minutes: 20, current: false },
+        { version: 2, delay_minutes: 65, current: true },
+      ]);
+
+      const outboxResult = await dbClient.query(
+        'SELECT event_type FROM eligibility_engine.outbox WHERE aggregate_id = $1 ORDER BY created_at',
+        [event.payload.journey_id]
+      );
+      expect(outboxResult.rows.map((row) => row.event_type)).toEqual(['EligibilityEvaluated', 'EligibilitySuperseded']);
+
+      const inbox = await dbClient.query(
+        'SELECT event_id, outcome FROM eligibility_engine.processed_events ORDER BY processed_at'
+      );
+      expect(inbox.rows).toEqual([
+        { event_id: event.event_id, outcome: 'evaluated' },
+        { event_id: correction.event_id, outcome: 'reevaluated' },
+      ]);
+    });
+
+    it('should roll back the inbox row with a failed evaluation', async () => {
+      const { JourneyDelayConfirmedHandler } = await import(
+        '../../src/handlers/journey-delay-confirmed.handler.js'
+      );
+
+      const handler = new JourneyDelayConfirmedHandler(dbConfig);
+      const event = {
+        ...journeyDelayConfirmedFixtures.dr15JourneyEvent,
+        payload: { ...journeyDelayConfirmedFixtures.dr15JourneyEvent.payload, toc_code: 'ZZ' },
+      };
+
+      await expect(handler.handle(event)).rejects.toThrow('Unknown TOC code: ZZ');
+
+      const inbox = await dbClient.query('SELECT event_id FROM eligibility_engine.processed_events');
+      expect(inbox.rows).toHaveLength(0);
+    });
+  });
+
+  describe('Event schema versions', () => {
+    it('should record the schema version of each produced event', async () => {
+      const { JourneyDelayConfirmedHandler } = await import(
+        '../../src/handlers/journey-delay-confirmed.handler.js'
+      );
+      const { parseJourneyDelayConfirmed } = await import('../../src/messaging/journey-delay-consumer.js');
+
+      const handler = new JourneyDelayConfirmedHandler(dbConfig);
+      const event = journeyDelayConfirmedFixtures.dr15JourneyEvent;
+
+      await handler.handle(parseJourneyDelayConfirmed(JSON.stringify(event)));
+
+      const outboxResult = await dbClient.query(
+        'SELECT event_type, schema_version FROM eligibility_engine.outbox WHERE aggregate_id = $1',
+        [event.payload.journey_id]
+      );
+      expect(outboxResult.rows).toEqual([{ event_type: 'EligibilityEvaluated', schema_version: 1 }]);
+    });
+  });
+
+  describe('Ineligible evaluation metrics', () => {
+    it('should label the evaluation metric with the ineligible reason', async () => {
+      const { JourneyDelayConfirmedHandler } = await import(
+        '../../src/handlers/journey-delay-confirmed.handler.js'
+      );
+      const metricsCollector = {
+        incrementCounter: vi.fn(),
+        recordHistogram: vi.fn(),
+      };
+
+      const handler = new JourneyDelayConfirmedHandler(dbConfig, { metrics: metricsCollector });
+      // Claimed long after the 28-day window closed
+      const event = {
+        ...journeyDelayConfirmedFixtures.dr15JourneyEvent,
+        event_id: 'evt-claim-window-expired',
+        timestamp: '2026-04-01T09:00:00Z',
+      };
+
+      await handler.handle(event);
+
+      expect(metricsCollector.incrementCounter).toHaveBeenCalledWith(
+        'eligibility_evaluations_total',
+        { eligible: 'false', scheme: 'DR15', ineligible_reason: 'claim_window_expired' }
+      );
+    });
+  });
 });
 
 // Import vi for mocking
@@ -47,25 +47,55 @@ describe('TD-ELIGIBILITY-004: Metrics Endpoint Integration', () => {
 
     // Create schema and tables needed for the app
     await dbClient.query('CREATE SCHEMA IF NOT EXISTS eligibility_engine');
+    await dbClient.query(`
+      CREATE TABLE IF NOT EXISTS eligibility_engine.schemes (
+        scheme_code VARCHAR(10) PRIMARY KEY,
+        scheme_name VARCHAR(100) NOT NULL,
+        min_threshold_minutes INT NOT NULL,
+        rounding_mode VARCHAR(10) NOT NULL DEFAULT 'floor',
+        min_claimable_pence INT NOT NULL DEFAULT 0,
+        season_ticket_divisors JSONB,
+        fare_component_policy JSONB
+      )
+    `);
+
     await dbClient.query(`
       CREATE TABLE IF NOT EXISTS eligibility_engine.toc_rulepacks (
+        id UUID NOT NULL DEFAULT gen_random_uuid(),
         toc_code VARCHAR(5) PRIMARY KEY,
+        toc_name VARCHAR(100) NOT NULL DEFAULT '',
         scheme VARCHAR(10) NOT NULL,
-        active BOOLEAN DEFAULT true
+        allows_online_claims BOOLEAN NOT NULL DEFAULT true,
+        allows_postal_claims BOOLEAN NOT NULL DEFAULT true,
+        claim_portal_url VARCHAR(255),
+        special_rules JSONB,
+        max_claim_days INT NOT NULL DEFAULT 28,
+        active BOOLEAN DEFAULT true,
+        rounding_mode VARCHAR(10),
+        min_claimable_pence INT,
+        season_ticket_divisors JSONB,
+        fare_component_policy JSONB,
+        effective_from DATE NOT NULL DEFAULT '1970-01-01',
+        effective_to DATE
       )
     `);
     await dbClient.query(`
       CREATE TABLE IF NOT EXISTS eligibility_engine.compensation_bands (
         id SERIAL PRIMARY KEY,
         scheme_type VARCHAR(10) NOT NULL,
+        toc_code VARCHAR(10),
         delay_threshold_minutes INT NOT NULL,
-        compensation_percentage DECIMAL(5,2) NOT NULL
+        compensation_percentage DECIMAL(5,2) NOT NULL,
+        single_percentage DECIMAL(5,2) NOT NULL,
+        return_percentage DECIMAL(5,2) NOT NULL,
+        effective_from DATE NOT NULL DEFAULT '1970-01-01',
+        effective_to DATE
       )
     `);
     await dbClient.query(`
       CREATE TABLE IF NOT EXISTS eligibility_engine.eligibility_evaluations (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        journey_id UUID NOT NULL UNIQUE,
+        journey_id UUID NOT NULL,
         toc_code VARCHAR(5) NOT NULL,
         scheme VARCHAR(10) NOT NULL,
         delay_minutes INT NOT NULL,
@@ -76,20 +106,44 @@ describe('TD-ELIGIBILITY-004: Metrics Endpoint Integration', () => {
         reasons JSONB NOT NULL,
         applied_rules JSONB NOT NULL,
         fare_breakdown JSONB,
+        claim_submitted_at TIMESTAMPTZ,
+        claim_deadline DATE,
+        claim_routing JSONB,
+        ticket_format VARCHAR(10),
+        delayed_leg VARCHAR(10),
+        rule_version JSONB,
+        version INTEGER NOT NULL DEFAULT 1,
+        evaluation_request JSONB,
+        supersedes_evaluation_id UUID,
+        superseded_by UUID,
+        superseded_at TIMESTAMPTZ,
+        reevaluation_reason TEXT,
+        decision_trace JSONB,
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
         updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
       )
     `);
+    await dbClient.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS uq_eligibility_evaluations_current
+        ON eligibility_engine.eligibility_evaluations (journey_id)
+        WHERE superseded_at IS NULL
+    `);
 
     // Insert test data
+    await dbClient.query(`
+      INSERT INTO eligibility_engine.schemes (scheme_code, scheme_name, min_threshold_minutes)
+      VALUES ('DR30', 'Delay Repay 30', 30)
+      ON CONFLICT (scheme_code) DO NOTHING
+    `);
     await dbClient.query(`
       INSERT INTO eligibility_engine.toc_rulepacks (toc_code, scheme, active)
       VALUES ('GWR', 'DR30', true)
       ON CONFLICT (toc_code) DO NOTHING
     `);
     await dbClient.query(`
-      INSERT INTO eligibility_engine.compensation_bands (scheme_type, delay_threshold_minutes, compensation_percentage)
-      VALUES ('DR30', 30, 50.00), ('DR30', 60, 100.00)
+      INSERT INTO eligibility_engine.compensation_bands
+        (scheme_type, delay_threshold_minutes, compensation_percentage, single_percentage, return_percentage)
+      VALUES ('DR30', 30, 50.00, 50.00, 50.00), ('DR30', 60, 100.00, 100.00, 100.00)
       ON CONFLICT DO NOTHING
     `);
 
@@ -178,6 +232,29 @@ describe('TD-ELIGIBILITY-004: Metrics Endpoint Integration', () => {
 
       expect(finalCount).toBeGreaterThan(initialCount);
     });
+
+    it('should increment eligibility_evaluations_total once per item evaluated in a batch', async () => {
+      const readCount = async () => {
+        const response = await fetch(`${baseUrl}/metrics`);
+        const match = (await response.text()).match(/eligibility_evaluations_total\s+(\d+)/);
+        return match ? parseInt(match[1], 10) : 0;
+      };
+      const initialCount = await readCount();
+
+      await fetch(`${baseUrl}/eligibility/evaluate/batch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journeys: [
+            { journey_id: crypto.randomUUID(), toc_code: 'GWR', delay_minutes: 45, ticket_fare_pence: 5000 },
+            { journey_id: crypto.randomUUID(), toc_code: 'GWR', delay_minutes: 5, ticket_fare_pence: 5000 },
+            { journey_id: crypto.randomUUID(), toc_code: 'GWR', ticket_fare_pence: 5000 },
+          ],
+        }),
+      });
+
+      expect(await readCount()).toBe(initialCount + 2);
+    });
   });
 
   describe('AC-5: eligibility_eligible_total increments when evaluation is eligible', () => {
@@ -456,8 +456,8 @@ describe('eligibility_engine schema migrations', () => {
       });
 
       try {
-        // Run rollback
-        execSync('npm run migrate:down', {
+        // Run rollback of every migration
+        execSync('npm run migrate:down -- 1000', {
           cwd: path.join(__dirname, '../..'),
           env: {
             ...process.env,
@@ -0,0 +1,575 @@
+/**
+ * Integration tests for eligibility_engine migrations after the initial schema
+ * Per Testing Strategy 2.0: Testcontainers for PostgreSQL
+ *
+ * Each describe block covers one migration; the full chain is applied once.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { GenericContainer, StartedTestContainer } from 'testcontainers';
+import { Pool, PoolClient } from 'pg';
+import { execSync } from 'child_process';
+import path from 'path';
+
+describe('eligibility_engine schema evolution', () => {
+  let postgresContainer: StartedTestContainer;
+  let pool: Pool;
+
+  beforeAll(async () => {
+    postgresContainer = await new GenericContainer('postgres:16-alpine')
+      .withEnvironment({
+        POSTGRES_DB: 'railrepay_test',
+        POSTGRES_USER: 'test',
+        POSTGRES_PASSWORD: 'test',
+      })
+      .withExposedPorts(5432)
+      .start();
+
+    const host = postgresContainer.getHost();
+    const port = postgresContainer.getMappedPort(5432);
+
+    pool = new Pool({
+      host,
+      port,
+      database: 'railrepay_test',
+      user: 'test',
+      password: 'test',
+    });
+
+    execSync('npm run migrate:up', {
+      cwd: path.join(__dirname, '../..'),
+      env: {
+        ...process.env,
+        DATABASE_URL: `postgres://test:test@${host}:${port}/railrepay_test`,
+      },
+    });
+  }, 120000);
+
+  afterAll(async () => {
+    await pool?.end();
+    await postgresContainer?.stop();
+  });
+
+  async function columnsOf(table: string): Promise<Record<string, string>> {
+    const result = await pool.query(
+      `SELECT column_name, data_type
+       FROM information_schema.columns
+       WHERE table_schema = 'eligibility_engine' AND table_name = $1`,
+      [table]
+    );
+    return Object.fromEntries(result.rows.map((r) => [r.column_name, r.data_type]));
+  }
+
+  // ============================================
+  // 1792400000000_claim-window
+  // ============================================
+
+  describe('claim window', () => {
+    it('should add claim_submitted_at and claim_deadline to eligibility_evaluations', async () => {
+      const columns = await columnsOf('eligibility_evaluations');
+
+      expect(columns.claim_submitted_at).toBe('timestamp with time zone');
+      expect(columns.claim_deadline).toBe('date');
+    });
+  });
+
+  // ============================================
+  // 1792400100000_claim-routing
+  // ============================================
+
+  describe('claim routing', () => {
+    it('should add claim channel and portal fields to toc_rulepacks', async () => {
+      const columns = await columnsOf('toc_rulepacks');
+
+      expect(columns.allows_postal_claims).toBe('boolean');
+      expect(columns.claim_portal_url).toBe('character varying');
+    });
+
+    it('should default existing rulepacks to accept postal claims', async () => {
+      const result = await pool.query(
+        'SELECT COUNT(*)::int AS count FROM eligibility_engine.toc_rulepacks WHERE allows_postal_claims = false'
+      );
+
+      expect(result.rows[0].count).toBe(0);
+    });
+
+    it('should add claim_routing to eligibility_evaluations', async () => {
+      const columns = await columnsOf('eligibility_evaluations');
+
+      expect(columns.claim_routing).toBe('jsonb');
+    });
+  });
+
+  // ============================================
+  // 1792400200000_single-return-bands
+  // ============================================
+
+  describe('single and return bands', () => {
+    it('should pay 100% of a single fare but 50% of a return fare at 60 minutes', async () => {
+      const result = await pool.query(
+        `SELECT single_percentage::float AS single, return_percentage::float AS "return"
+         FROM eligibility_engine.compensation_bands
+         WHERE scheme_type = 'DR15' AND delay_threshold_minutes = 60`
+      );
+
+      expect(result.rows[0]).toEqual({ single: 100, return: 50 });
+    });
+
+    it('should add ticket_format and delayed_leg to eligibility_evaluations', async () => {
+      const columns = await columnsOf('eligibility_evaluations');
+
+      expect(columns.ticket_format).toBe('character varying');
+      expect(columns.delayed_leg).toBe('character varying');
+    });
+  });
+
+  // ============================================
+  // 1792400300000_effective-dated-rules
+  // ============================================
+
+  describe('effective-dated rules', () => {
+    it('should add validity periods to toc_rulepacks and compensation_bands', async () => {
+      for (const table of ['toc_rulepacks', 'compensation_bands']) {
+        const columns = await columnsOf(table);
+
+        expect(columns.effective_from).toBe('date');
+        expect(columns.effective_to).toBe('date');
+      }
+    });
+
+    it('should allow a second rulepack version for the same TOC', async () => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        await client.query(
+          `UPDATE eligibility_engine.toc_rulepacks SET effective_to = '2027-01-01' WHERE toc_code = 'GR'`
+        );
+        await client.query(
+          `INSERT INTO eligibility_engine.toc_rulepacks (toc_code, toc_name, scheme, effective_from)
+           VALUES ('GR', 'LNER', 'DR30', '2027-01-01')`
+        );
+
+        const result = await client.query(
+          `SELECT COUNT(*)::int AS count FROM eligibility_engine.toc_rulepacks WHERE toc_code = 'GR'`
+        );
+        expect(result.rows[0].count).toBe(2);
+      } finally {
+        await client.query('ROLLBACK');
+        client.release();
+      }
+    });
+
+    it('should reject a validity period that ends before it starts', async () => {
+      await expect(pool.query(
+        `INSERT INTO eligibility_engine.compensation_bands
+           (scheme_type, delay_threshold_minutes, compensation_percentage, single_percentage,
+            return_percentage, effective_from, effective_to)
+         VALUES ('DR15', 15, 25.00, 25.00, 25.00, '2027-01-01', '2026-01-01')`
+      )).rejects.toThrow();
+    });
+
+    it('should add rule_version to eligibility_evaluations', async () => {
+      const columns = await columnsOf('eligibility_evaluations');
+
+      expect(columns.rule_version).toBe('jsonb');
+    });
+  });
+
+  // ============================================
+  // 1792400400000_scheme-catalogue
+  // ============================================
+
+  describe('scheme catalogue', () => {
+    it('should seed DR15 and DR30 with their minimum thresholds', async () => {
+      const result = await pool.query(
+        'SELECT scheme_code, min_threshold_minutes FROM eligibility_engine.schemes ORDER BY scheme_code'
+      );
+
+      expect(result.rows).toEqual([
+        { scheme_code: 'DR15', min_threshold_minutes: 15 },
+        { scheme_code: 'DR30', min_threshold_minutes: 30 },
+      ]);
+    });
+
+    it('should accept a new scheme as a data change', async () => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        await client.query(
+          `INSERT INTO eligibility_engine.schemes (scheme_code, scheme_name, min_threshold_minutes)
+           VALUES ('DR10', 'Delay Repay 10', 10)`
+        );
+        await client.query(
+          `INSERT INTO eligibility_engine.compensation_bands
+             (scheme_type, delay_threshold_minutes, compensation_percentage, single_percentage,
+              return_percentage, effective_from)
+           VALUES ('DR10', 10, 10.00, 10.00, 10.00, '2026-01-01')`
+        );
+        await client.query(
+          `INSERT INTO eligibility_engine.toc_rulepacks (toc_code, toc_name, scheme, effective_from)
+           VALUES ('ZZ', 'Test Operator', 'DR10', '2026-01-01')`
+        );
+      } finally {
+        await client.query('ROLLBACK');
+        client.release();
+      }
+    });
+
+    it('should reject a scheme that is not in the catalogue', async () => {
+      await expect(pool.query(
+        `INSERT INTO eligibility_engine.toc_rulepacks (toc_code, toc_name, scheme, effective_from)
+         VALUES ('ZZ', 'Test Operator', 'DR99', '2026-01-01')`
+      )).rejects.toThrow();
+    });
+
+    it('should allow a TOC override alongside the scheme band at the same threshold', async () => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        await client.query(
+          `INSERT INTO eligibility_engine.compensation_bands
+             (scheme_type, toc_code, delay_threshold_minutes, compensation_percentage,
+              single_percentage, return_percentage, effective_from)
+           VALUES ('DR15', 'GR', 15, 30.00, 30.00, 30.00, '1970-01-01')`
+        );
+
+        const result = await client.query(
+          `SELECT COUNT(*)::int AS count FROM eligibility_engine.compensation_bands
+           WHERE scheme_type = 'DR15' AND delay_threshold_minutes = 15`
+        );
+        expect(result.rows[0].count).toBe(2);
+      } finally {
+        await client.query('ROLLBACK');
+        client.release();
+      }
+    });
+  });
+
+  // ============================================
+  // 1792400500000_evaluation-versions
+  // ============================================
+
+  describe('evaluation versions', () => {
+    const journeyId = '550e8400-e29b-41d4-a716-446655440200';
+
+    const insertVersion = (client: PoolClient, version: number, supersededAt: string | null) =>
+      client.query(
+        `INSERT INTO eligibility_engine.eligibility_evaluations
+           (journey_id, toc_code, scheme, delay_minutes, eligible, version, superseded_at)
+         VALUES ($1, 'GR', 'DR15', 20, true, $2, $3)`,
+        [journeyId, version, supersededAt]
+      );
+
+    it('should allow several versions of a journey with one current', async () => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        await insertVersion(client, 1, '2026-01-18T10:00:00Z');
+        await insertVersion(client, 2, null);
+
+        const result = await client.query(
+          'SELECT COUNT(*)::int AS count FROM eligibility_engine.eligibility_evaluations WHERE journey_id = $1',
+          [journeyId]
+        );
+        expect(result.rows[0].count).toBe(2);
+      } finally {
+        await client.query('ROLLBACK');
+        client.release();
+      }
+    });
+
+    it('should reject a second current version', async () => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        await insertVersion(client, 1, null);
+
+        await expect(insertVersion(client, 2, null)).rejects.toThrow();
+      } finally {
+        await client.query('ROLLBACK');
+        client.release();
+      }
+    });
+  });
+
+  // ============================================
+  // 1792400600000_decision-trace
+  // ============================================
+
+  describe('decision trace', () => {
+    it('should add decision_trace to eligibility_evaluations', async () => {
+      const columns = await columnsOf('eligibility_evaluations');
+
+      expect(columns.decision_trace).toBe('jsonb');
+    });
+  });
+
+  // ============================================
+  // 1792400700000_station-distances
+  // ============================================
+
+  describe('station distances', () => {
+    it('should create station_distances keyed by station pair', async () => {
+      const columns = await columnsOf('station_distances');
+
+      expect(columns).toMatchObject({ from_crs: 'character', to_crs: 'character', miles: 'numeric' });
+    });
+
+    it('should reject a duplicate station pair', async () => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const insert = () => client.query(
+          "INSERT INTO eligibility_engine.station_distances (from_crs, to_crs, miles) VALUES ('KGX', 'YRK', 188)"
+        );
+        await insert();
+
+        await expect(insert()).rejects.toThrow();
+      } finally {
+        await client.query('ROLLBACK');
+        client.release();
+      }
+    });
+  });
+
+  // ============================================
+  // 1792400800000_money-policy
+  // ============================================
+
+  describe('money policy', () => {
+    it('should give existing schemes floor rounding and no minimum payout', async () => {
+      const result = await pool.query(
+        'SELECT DISTINCT rounding_mode, min_claimable_pence FROM eligibility_engine.schemes'
+      );
+
+      expect(result.rows).toEqual([{ rounding_mode: 'floor', min_claimable_pence: 0 }]);
+    });
+
+    it('should add nullable overrides to toc_rulepacks', async () => {
+      const columns = await columnsOf('toc_rulepacks');
+
+      expect(columns.rounding_mode).toBe('character varying');
+      expect(columns.min_claimable_pence).toBe('integer');
+    });
+
+    it('should reject an unknown rounding mode', async () => {
+      await expect(pool.query(
+        "UPDATE eligibility_engine.schemes SET rounding_mode = 'ceiling' WHERE scheme_code = 'DR15'"
+      )).rejects.toThrow();
+    });
+  });
+
+  // ============================================
+  // 1792400900000_season-ticket-divisors
+  // ============================================
+
+  describe('season ticket divisors', () => {
+    it('should add season_ticket_divisors to schemes and toc_rulepacks', async () => {
+      const schemeColumns = await columnsOf('schemes');
+      const rulepackColumns = await columnsOf('toc_rulepacks');
+
+      expect(schemeColumns.season_ticket_divisors).toBe('jsonb');
+      expect(rulepackColumns.season_ticket_divisors).toBe('jsonb');
+    });
+  });
+
+  // ============================================
+  // 1792401000000_ticket-products
+  // ============================================
+
+  describe('ticket products', () => {
+    it('should create effective-dated ticket_products', async () => {
+      const columns = await columnsOf('ticket_products');
+
+      expect(columns).toMatchObject({
+        product_code: 'character varying',
+        valuation_basis: 'character varying',
+        travel_days: 'integer',
+        journeys_per_day: 'integer',
+        exclusion_reason: 'text',
+        effective_from: 'date',
+        effective_to: 'date',
+      });
+    });
+
+    it('should reject a per-journey product without journeys per day', async () => {
+      await expect(pool.query(
+        `INSERT INTO eligibility_engine.ticket_products
+           (product_code, product_name, valuation_basis, travel_days, effective_from)
+         VALUES ('BADRNG', 'Bad Ranger', 'per_journey', 3, '2026-01-01')`
+      )).rejects.toThrow();
+    });
+  });
+
+  // ============================================
+  // 1792401100000_fare-component-policy
+  // ============================================
+
+  describe('fare component policy', () => {
+    it('should add fare_component_policy to schemes and toc_rulepacks', async () => {
+      const schemeColumns = await columnsOf('schemes');
+      const rulepackColumns = await columnsOf('toc_rulepacks');
+
+      expect(schemeColumns.fare_component_policy).toBe('jsonb');
+      expect(rulepackColumns.fare_component_policy).toBe('jsonb');
+    });
+  });
+
+  // ============================================
+  // 1792401200000_outbox-relay
+  // ============================================
+
+  describe('outbox relay', () => {
+    it('should add relay bookkeeping to outbox', async () => {
+      const columns = await columnsOf('outbox');
+
+      expect(columns).toMatchObject({
+        attempts: 'integer',
+        next_attempt_at: 'timestamp with time zone',
+        last_error: 'text',
+      });
+    });
+
+    it('should start existing and new rows with no attempts', async () => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const result = await client.query(
+          `INSERT INTO eligibility_engine.outbox (aggregate_type, aggregate_id, event_type, payload)
+           VALUES ('eligibility_evaluation', gen_random_uuid(), 'EligibilityEvaluated', '{}')
+           RETURNING attempts, next_attempt_at`
+        );
+
+        expect(result.rows[0]).toEqual({ attempts: 0, next_attempt_at: null });
+      } finally {
+        await client.query('ROLLBACK');
+        client.release();
+      }
+    });
+  });
+
+  // ============================================
+  // 1792401300000_dead-letters
+  // ============================================
+
+  describe('dead letters', () => {
+    it('should create dead_letters', async () => {
+      const columns = await columnsOf('dead_letters');
+
+      expect(columns).toMatchObject({
+        id: 'uuid',
+        topic: 'character varying',
+        partition: 'integer',
+        message_offset: 'character varying',
+        event_id: 'character varying',
+        journey_id: 'character varying',
+        payload: 'text',
+        error: 'text',
+        attempts: 'integer',
+        status: 'character varying',
+        replayed_at: 'timestamp with time zone',
+      });
+    });
+
+    it('should keep one row per topic, partition and offset', async () => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const insert = `INSERT INTO eligibility_engine.dead_letters (topic, partition, message_offset, payload, error, attempts)
+                        VALUES ('journey.delay.confirmed', 0, '7', 'not json', 'not valid JSON', 1)`;
+        const inserted = await client.query(`${insert} RETURNING status`);
+        expect(inserted.rows[0]).toEqual({ status: 'pending' });
+
+        await expect(client.query(insert)).rejects.toThrow(/uq_dead_letters_message/);
+      } finally {
+        await client.query('ROLLBACK');
+        client.release();
+      }
+    });
+  });
+
+  // ============================================
+  // 1792401400000_processed-events
+  // ============================================
+
+  describe('processed events', () => {
+    it('should create processed_events keyed by event_id', async () => {
+      const columns = await columnsOf('processed_events');
+
+      expect(columns).toMatchObject({
+        event_id: 'character varying',
+        event_type: 'character varying',
+        journey_id: 'uuid',
+        outcome: 'character varying',
+        evaluation_id: 'uuid',
+        processed_at: 'timestamp with time zone',
+      });
+    });
+
+    it('should reject a second row for the same event_id', async () => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const insert = `INSERT INTO eligibility_engine.processed_events (event_id, event_type, journey_id, outcome, evaluation_id)
+                        VALUES ('evt-1', 'JourneyDelayConfirmed', gen_random_uuid(), 'evaluated', gen_random_uuid())`;
+        await client.query(insert);
+
+        await expect(client.query(insert)).rejects.toThrow();
+      } finally {
+        await client.query('ROLLBACK');
+        client.release();
+      }
+    });
+  });
+
+  // ============================================
+  // 1792401500000_event-schema-version
+  // ============================================
+
+  describe('event schema version', () => {
+    it('should add schema_version to outbox', async () => {
+      const columns = await columnsOf('outbox');
+
+      expect(columns).toMatchObject({ schema_version: 'integer' });
+    });
+
+    it('should start rows written without a version at version 1', async () => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const result = await client.query(
+          `INSERT INTO eligibility_engine.outbox (aggregate_type, aggregate_id, event_type, payload)
+           VALUES ('eligibility_evaluation', gen_random_uuid(), 'EligibilityEvaluated', '{}')
+           RETURNING schema_version`
+        );
+
+        expect(result.rows[0]).toEqual({ schema_version: 1 });
+      } finally {
+        await client.query('ROLLBACK');
+        client.release();
+      }
+    });
+  });
+
+  // ============================================
+  // 1792401600000_min-claimable-pence
+  // ============================================
+
+  describe('min claimable pence', () => {
+    it('should rename minimum_payout_pence on schemes and toc_rulepacks', async () => {
+      const schemeColumns = await columnsOf('schemes');
+      const rulepackColumns = await columnsOf('toc_rulepacks');
+
+      expect(schemeColumns).toMatchObject({ min_claimable_pence: 'integer' });
+      expect(schemeColumns).not.toHaveProperty('minimum_payout_pence');
+      expect(rulepackColumns).toMatchObject({ min_claimable_pence: 'integer' });
+      expect(rulepackColumns).not.toHaveProperty('minimum_payout_pence');
+    });
+
+    it('should still reject a negative minimum', async () => {
+      await expect(pool.query(
+        "UPDATE eligibility_engine.schemes SET min_claimable_pence = -1 WHERE scheme_code = 'DR15'"
+      )).rejects.toThrow();
+    });
+  });
+});
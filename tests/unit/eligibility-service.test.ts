@@ -11,7 +11,7 @@
  * If Blake believes a test is wrong, hand back to Jessie with explanation.
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
 // Import types that will be implemented by Blake
 // These imports will fail until Blake creates the implementation
@@ -47,6 +47,8 @@ describe('EligibilityService', () => {
   let mockEvaluationRepository: {
     save: ReturnType<typeof vi.fn>;
     findByJourneyId: ReturnType<typeof vi.fn>;
+    findHistoryByJourneyId: ReturnType<typeof vi.fn>;
+    supersede: ReturnType<typeof vi.fn>;
   };
 
   beforeEach(() => {
@@ -60,7 +62,17 @@ describe('EligibilityService', () => {
     mockEvaluationRepository = {
       save: vi.fn(),
       findByJourneyId: vi.fn(),
+      findHistoryByJourneyId: vi.fn(),
+      supersede: vi.fn(),
     };
+
+    // Fixture journeys are in January 2026; evaluate them inside the claim window
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-20T09:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
   });
 
   // ============================================
@@ -94,6 +106,7 @@ describe('EligibilityService', () => {
         toc_code: 'GR',
         toc_name: 'LNER',
         scheme: 'DR15',
+        min_threshold_minutes: 15,
         allows_online_claims: true,
         max_claim_days: 28,
         active: true,
@@ -143,6 +156,7 @@ describe('EligibilityService', () => {
         toc_code: 'GR',
         toc_name: 'LNER',
         scheme: 'DR15',
+        min_threshold_minutes: 15,
         allows_online_claims: true,
         max_claim_days: 28,
         active: true,
@@ -191,6 +205,7 @@ describe('EligibilityService', () => {
         toc_code: 'VT',
         toc_name: 'Avanti West Coast',
         scheme: 'DR15',
+        min_threshold_minutes: 15,
         allows_online_claims: true,
         max_claim_days: 28,
         active: true,
@@ -239,6 +254,7 @@ describe('EligibilityService', () => {
         toc_code: 'GR',
         toc_name: 'LNER',
         scheme: 'DR15',
+        min_threshold_minutes: 15,
         allows_online_claims: true,
         max_claim_days: 28,
         active: true,
@@ -296,6 +312,7 @@ describe('EligibilityService', () => {
         toc_code: 'SW',
         toc_name: 'South Western Railway',
         scheme: 'DR30',
+        min_threshold_minutes: 30,
         allows_online_claims: true,
         max_claim_days: 28,
         active: true,
@@ -342,6 +359,7 @@ describe('EligibilityService', () => {
         toc_code: 'SR',
         toc_name: 'ScotRail',
         scheme: 'DR30',
+        min_threshold_minutes: 30,
         allows_online_claims: true,
         max_claim_days: 28,
         active: true,
@@ -390,6 +408,7 @@ describe('EligibilityService', () => {
         toc_code: 'TL',
         toc_name: 'Thameslink',
         scheme: 'DR30',
+        min_threshold_minutes: 30,
         allows_online_claims: true,
         max_claim_days: 28,
         active: true,
@@ -449,6 +468,7 @@ describe('EligibilityService', () => {
         toc_code: 'GR',
         toc_name: 'LNER',
         scheme: 'DR15',
+        min_threshold_minutes: 15,
         allows_online_claims: true,
         max_claim_days: 28,
         active: true,
@@ -495,6 +515,7 @@ describe('EligibilityService', () => {
         toc_code: 'GR',
         toc_name: 'LNER',
         scheme: 'DR15',
+        min_threshold_minutes: 15,
         allows_online_claims: true,
         max_claim_days: 28,
         active: true,
@@ -540,6 +561,7 @@ describe('EligibilityService', () => {
         toc_code: 'GR',
         toc_name: 'LNER',
         scheme: 'DR15',
+        min_threshold_minutes: 15,
         allows_online_claims: true,
         max_claim_days: 28,
         active: true,
@@ -585,6 +607,7 @@ describe('EligibilityService', () => {
         toc_code: 'GR',
         toc_name: 'LNER',
         scheme: 'DR15',
+        min_threshold_minutes: 15,
         allows_online_claims: true,
         max_claim_days: 28,
         active: true,
@@ -664,6 +687,7 @@ describe('EligibilityService', () => {
         toc_code: 'GR',
         toc_name: 'LNER',
         scheme: 'DR15',
+        min_threshold_minutes: 15,
         allows_online_claims: true,
         max_claim_days: 28,
         active: false, // Inactive TOC
@@ -700,6 +724,7 @@ describe('EligibilityService', () => {
         toc_code: 'GR',
         toc_name: 'LNER',
         scheme: 'DR15',
+        min_threshold_minutes: 15,
         allows_online_claims: true,
         max_claim_days: 28,
         active: true,
@@ -744,6 +769,7 @@ describe('EligibilityService', () => {
         toc_code: 'GR',
         toc_name: 'LNER',
         scheme: 'DR15',
+        min_threshold_minutes: 15,
         allows_online_claims: true,
         max_claim_days: 28,
         active: true,
@@ -786,6 +812,7 @@ describe('EligibilityService', () => {
         toc_code: 'GR',
         toc_name: 'LNER',
         scheme: 'DR15',
+        min_threshold_minutes: 15,
         allows_online_claims: true,
         max_claim_days: 28,
         active: true,
@@ -861,4 +888,2465 @@ describe('EligibilityService', () => {
       expect(mockTocRepository.findByTocCode).not.toHaveBeenCalled(); // Should not query TOC
     });
   });
+
+  describe('evaluateOnce', () => {
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440021',
+      toc_code: 'GR',
+      scheduled_departure: '2026-01-15T10:00:00Z',
+      delay_minutes: 20,
+      ticket_fare_pence: 1500,
+      claim_submitted_at: '2026-01-16T08:00:00Z',
+    };
+
+    it('should report a stored evaluation as existing', async () => {
+      const stored = { ...responseFixtures.dr15EligibleResponse, journey_id: request.journey_id };
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(stored);
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+
+      expect(await service.evaluateOnce(request)).toEqual({ result: stored, existing: true });
+      expect(mockEvaluationRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should report a new evaluation as not existing', async () => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockResolvedValue({
+        toc_code: 'GR',
+        toc_name: 'LNER',
+        scheme: 'DR15',
+        min_threshold_minutes: 15,
+        allows_online_claims: true,
+        max_claim_days: 28,
+        active: true,
+      });
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 15,
+        compensation_percentage: 25,
+      });
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const { result, existing } = await service.evaluateOnce(request);
+
+      expect(existing).toBe(false);
+      expect(result.compensation_pence).toBe(375);
+      expect(mockEvaluationRepository.save).toHaveBeenCalledWith(result);
+    });
+  });
+
+  // ============================================
+  // Single Pipeline: Persistence and Entry Point Inputs
+  // ============================================
+
+  describe('Persistence and entry point inputs', () => {
+    const grRulepack = {
+      toc_code: 'GR',
+      toc_name: 'LNER',
+      scheme: 'DR15',
+      min_threshold_minutes: 15,
+      allows_online_claims: true,
+      max_claim_days: 28,
+      active: true,
+    };
+
+    it('should save the evaluation with id, timestamp and toc_code', async () => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockResolvedValue(grRulepack);
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 15,
+        compensation_percentage: 25.00,
+      });
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({
+        ...requestFixtures.dr15EligibleRequest,
+      });
+
+      expect(mockEvaluationRepository.save).toHaveBeenCalledTimes(1);
+      expect(mockEvaluationRepository.save).toHaveBeenCalledWith(result);
+      expect(result.toc_code).toBe('GR');
+      expect(result.evaluation_id).toBeDefined();
+      expect(result.evaluation_timestamp).toBeDefined();
+    });
+
+    it('should use supplied delay_minutes when arrival times are absent', async () => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockResolvedValue(grRulepack);
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 30,
+        compensation_percentage: 50.00,
+      });
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({
+        journey_id: '550e8400-e29b-41d4-a716-446655440030',
+        toc_code: 'GR',
+        delay_minutes: 35,
+        ticket_fare_pence: 3000,
+      });
+
+      expect(mockCompensationBandRepository.findBySchemeAndDelay).toHaveBeenCalledWith('DR15', 35, '2026-01-20', 'GR');
+      expect(result.delay_minutes).toBe(35);
+      expect(result.compensation_pence).toBe(1500);
+    });
+
+    it('should report below_threshold as the ineligible reason', async () => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockResolvedValue(grRulepack);
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue(null);
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({
+        journey_id: '550e8400-e29b-41d4-a716-446655440031',
+        toc_code: 'GR',
+        delay_minutes: 5,
+        ticket_fare_pence: 3000,
+      });
+
+      expect(result.eligible).toBe(false);
+      expect(result.ineligible_reason).toBe('below_threshold');
+    });
+
+    it('should throw typed errors for unknown and inactive TOCs', async () => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+
+      const { EligibilityService, UnknownTocError, InactiveTocError } = await import(
+        '../../src/services/eligibility-service.js'
+      );
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const request = {
+        journey_id: '550e8400-e29b-41d4-a716-446655440032',
+        toc_code: 'GR',
+        delay_minutes: 20,
+        ticket_fare_pence: 1000,
+      };
+
+      mockTocRepository.findByTocCode.mockResolvedValueOnce(null);
+      await expect(service.evaluate(request)).rejects.toBeInstanceOf(UnknownTocError);
+
+      mockTocRepository.findByTocCode.mockResolvedValueOnce({ ...grRulepack, active: false });
+      await expect(service.evaluate(request)).rejects.toBeInstanceOf(InactiveTocError);
+
+      expect(mockEvaluationRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  // ============================================
+  // Claim Window (toc_rulepacks.max_claim_days)
+  // ============================================
+
+  describe('Claim window', () => {
+    const grRulepack = {
+      toc_code: 'GR',
+      toc_name: 'LNER',
+      scheme: 'DR15',
+      min_threshold_minutes: 15,
+      allows_online_claims: true,
+      max_claim_days: 28,
+      active: true,
+    };
+
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440040',
+      toc_code: 'GR',
+      scheduled_departure: '2026-01-15T10:00:00Z',
+      actual_arrival: '2026-01-15T12:20:00Z',
+      scheduled_arrival: '2026-01-15T12:00:00Z',
+      ticket_fare_pence: 1500,
+    };
+
+    beforeEach(() => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockResolvedValue(grRulepack);
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 15,
+        compensation_percentage: 25.00,
+      });
+    });
+
+    it('should include claim_deadline of journey date + max_claim_days', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate(request);
+
+      expect(result.eligible).toBe(true);
+      expect(result.claim_deadline).toBe('2026-02-12');
+      expect(result.claim_submitted_at).toBe('2026-01-20T09:00:00.000Z');
+    });
+
+    it('should accept a claim submitted on the deadline day', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({
+        ...request,
+        claim_submitted_at: '2026-02-12T23:30:00Z',
+      });
+
+      expect(result.eligible).toBe(true);
+    });
+
+    it('should return ineligible with claim_window_expired after the deadline', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({
+        ...request,
+        claim_submitted_at: '2026-02-13T08:00:00Z',
+      });
+
+      expect(result.eligible).toBe(false);
+      expect(result.compensation_pence).toBe(0);
+      expect(result.ineligible_reason).toBe('claim_window_expired');
+      expect(result.reasons).toContain(
+        'Claim submitted on 2026-02-13 is outside the 28-day claim window (deadline 2026-02-12)'
+      );
+      expect(result.claim_deadline).toBe('2026-02-12');
+      expect(mockCompensationBandRepository.findBySchemeAndDelay).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid claim_submitted_at', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+
+      await expect(
+        service.evaluate({ ...request, claim_submitted_at: 'not-a-date' })
+      ).rejects.toThrow('Invalid claim_submitted_at');
+    });
+
+    it('should count the claim window from the London date of a journey just after midnight BST', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      // 00:30 BST on 2 July; submitted at 12:00 BST on day 28
+      const result = await service.evaluate({
+        ...request,
+        scheduled_departure: '2026-07-01T23:30:00Z',
+        scheduled_arrival: '2026-07-02T01:30:00Z',
+        actual_arrival: '2026-07-02T01:50:00Z',
+        claim_submitted_at: '2026-07-30T11:00:00Z',
+      });
+
+      expect(result.claim_deadline).toBe('2026-07-30');
+      expect(result.eligible).toBe(true);
+    });
+
+    it('should take the submission date in London', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      // 00:30 BST on 31 July, the day after the deadline
+      const result = await service.evaluate({
+        ...request,
+        scheduled_departure: '2026-07-01T23:30:00Z',
+        scheduled_arrival: '2026-07-02T01:30:00Z',
+        actual_arrival: '2026-07-02T01:50:00Z',
+        claim_submitted_at: '2026-07-30T23:30:00Z',
+      });
+
+      expect(result.ineligible_reason).toBe('claim_window_expired');
+    });
+  });
+
+  // ============================================
+  // Claim Routing
+  // ============================================
+
+  describe('Claim routing', () => {
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440050',
+      toc_code: 'GR',
+      scheduled_departure: '2026-01-15T10:00:00Z',
+      delay_minutes: 20,
+      ticket_fare_pence: 1500,
+    };
+
+    beforeEach(() => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 15,
+        compensation_percentage: 25.00,
+      });
+    });
+
+    it('should route eligible claims to the TOC with its channels and portal', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue({
+        toc_code: 'GR',
+        toc_name: 'LNER',
+        scheme: 'DR15',
+        min_threshold_minutes: 15,
+        allows_online_claims: true,
+        allows_postal_claims: true,
+        claim_portal_url: 'https://example.test/delay-repay',
+        max_claim_days: 28,
+        active: true,
+      });
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate(request);
+
+      expect(result.claim_routing).toEqual({
+        toc_code: 'GR',
+        toc_name: 'LNER',
+        channels: ['online', 'postal'],
+        claim_portal_url: 'https://example.test/delay-repay',
+        claim_deadline: '2026-02-12',
+      });
+    });
+
+    it('should only list the channels the rulepack allows', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue({
+        toc_code: 'GR',
+        toc_name: 'LNER',
+        scheme: 'DR15',
+        min_threshold_minutes: 15,
+        allows_online_claims: false,
+        allows_postal_claims: true,
+        claim_portal_url: null,
+        max_claim_days: 28,
+        active: true,
+      });
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate(request);
+
+      expect(result.claim_routing?.channels).toEqual(['postal']);
+      expect(result.claim_routing?.claim_portal_url).toBeNull();
+    });
+
+    it('should omit claim_routing for ineligible results', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue({
+        toc_code: 'GR',
+        toc_name: 'LNER',
+        scheme: 'DR15',
+        min_threshold_minutes: 15,
+        allows_online_claims: true,
+        allows_postal_claims: true,
+        claim_portal_url: null,
+        max_claim_days: 28,
+        active: true,
+      });
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue(null);
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({ ...request, delay_minutes: 5 });
+
+      expect(result.eligible).toBe(false);
+      expect(result.claim_routing).toBeUndefined();
+    });
+  });
+
+  // ============================================
+  // TOC Special Rules
+  // ============================================
+
+  describe('Special rules', () => {
+    const rulepackWith = (specialRules: unknown) => ({
+      toc_code: 'GR',
+      toc_name: 'LNER',
+      scheme: 'DR15',
+      min_threshold_minutes: 15,
+      allows_online_claims: true,
+      allows_postal_claims: true,
+      claim_portal_url: null,
+      max_claim_days: 28,
+      special_rules: specialRules,
+      active: true,
+    });
+
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440060',
+      toc_code: 'GR',
+      scheduled_departure: '2026-01-15T10:00:00Z',
+      delay_minutes: 20,
+      ticket_fare_pence: 500,
+      origin_crs: 'KGX',
+      destination_crs: 'YRK',
+    };
+
+    beforeEach(() => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 15,
+        compensation_percentage: 25.00,
+      });
+    });
+
+    it('should list applied special rules after the band rule and honour minimum payouts', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepackWith([
+        { id: 'MIN_PAYOUT', type: 'minimum_payout', minimum_pence: 200 },
+      ]));
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate(request);
+
+      expect(result.eligible).toBe(true);
+      expect(result.compensation_pence).toBe(200); // 25% of 500 = 125, raised to minimum
+      expect(result.applied_rules).toEqual(['DR15_15MIN_25PCT', 'SPECIAL_MIN_PAYOUT']);
+      expect(result.reasons).toContain('Minimum payout of 200 pence applied');
+    });
+
+    it('should return ineligible with special_rule_exclusion for an excluded station pair', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepackWith([
+        { id: 'KGX_YRK', type: 'exclude_station_pair', origin_crs: 'KGX', destination_crs: 'YRK' },
+      ]));
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate(request);
+
+      expect(result.eligible).toBe(false);
+      expect(result.ineligible_reason).toBe('special_rule_exclusion');
+      expect(result.applied_rules).toEqual(['SPECIAL_KGX_YRK']);
+      expect(result.reasons).toContain('Journeys between KGX and YRK are excluded from delay repay');
+    });
+
+    it('should fail the evaluation when special_rules are malformed', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepackWith({ not: 'an array' }));
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+
+      await expect(service.evaluate(request)).rejects.toThrow('Invalid special_rules');
+      expect(mockEvaluationRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  // ============================================
+  // Single vs Return Bands
+  // ============================================
+
+  describe('Single and return tickets', () => {
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440070',
+      toc_code: 'GR',
+      scheduled_departure: '2026-01-15T10:00:00Z',
+      delay_minutes: 75,
+      ticket_fare_pence: 4000,
+    };
+
+    beforeEach(() => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockResolvedValue({
+        toc_code: 'GR',
+        toc_name: 'LNER',
+        scheme: 'DR15',
+        min_threshold_minutes: 15,
+        allows_online_claims: true,
+        allows_postal_claims: true,
+        claim_portal_url: null,
+        max_claim_days: 28,
+        active: true,
+      });
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 60,
+        compensation_percentage: 50.00,
+        single_percentage: 100.00,
+        return_percentage: 50.00,
+      });
+    });
+
+    it('should pay the single percentage for a single ticket', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({ ...request, ticket_format: 'single' });
+
+      expect(result.compensation_percentage).toBe(100);
+      expect(result.compensation_pence).toBe(4000);
+      expect(result.ticket_format).toBe('single');
+      expect(result.applied_rules).toEqual(['DR15_60MIN_100PCT']);
+    });
+
+    it('should pay the return percentage and record the delayed leg for a return ticket', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({ ...request, ticket_format: 'return', delayed_leg: 'outbound' });
+
+      expect(result.compensation_percentage).toBe(50);
+      expect(result.compensation_pence).toBe(2000);
+      expect(result.ticket_format).toBe('return');
+      expect(result.delayed_leg).toBe('outbound');
+      expect(result.reasons).toContain('Return ticket with outbound leg delayed');
+    });
+
+    it('should infer a single from ticket_type when ticket_format is missing', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({ ...request, ticket_type: 'Anytime Single' });
+
+      expect(result.ticket_format).toBe('single');
+      expect(result.compensation_percentage).toBe(100);
+    });
+
+    it('should ignore delayed_leg on a single ticket', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({ ...request, ticket_format: 'single', delayed_leg: 'return' });
+
+      expect(result.delayed_leg).toBeUndefined();
+    });
+  });
+
+  describe('resolveTicketFormat', () => {
+    it('should prefer an explicit ticket_format', async () => {
+      const { resolveTicketFormat } = await import('../../src/services/eligibility-service.js');
+
+      expect(resolveTicketFormat('return', 'Off-Peak Single')).toBe('return');
+    });
+
+    it('should treat unknown ticket types as returns', async () => {
+      const { resolveTicketFormat } = await import('../../src/services/eligibility-service.js');
+
+      expect(resolveTicketFormat(undefined, 'advance')).toBe('return');
+      expect(resolveTicketFormat()).toBe('return');
+    });
+  });
+
+  // ============================================
+  // Effective-Dated Rules
+  // ============================================
+
+  describe('Effective-dated rules', () => {
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440080',
+      toc_code: 'GR',
+      scheduled_departure: '2026-01-05T23:30:00Z',
+      delay_minutes: 20,
+      ticket_fare_pence: 1500,
+    };
+
+    beforeEach(() => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockResolvedValue({
+        id: 'c0ffee00-0000-4000-8000-000000000001',
+        toc_code: 'GR',
+        toc_name: 'LNER',
+        scheme: 'DR15',
+        min_threshold_minutes: 15,
+        allows_online_claims: true,
+        allows_postal_claims: true,
+        claim_portal_url: null,
+        max_claim_days: 28,
+        active: true,
+        effective_from: '2025-12-14',
+        effective_to: null,
+      });
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        id: 'ba5eba11-0000-4000-8000-000000000015',
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 15,
+        compensation_percentage: 25.00,
+        effective_from: '1970-01-01',
+        effective_to: null,
+      });
+    });
+
+    it('should look up the rulepack and band in force on the scheduled departure date', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      await service.evaluate(request);
+
+      expect(mockTocRepository.findByTocCode).toHaveBeenCalledWith('GR', '2026-01-05');
+      expect(mockCompensationBandRepository.findBySchemeAndDelay).toHaveBeenCalledWith('DR15', 20, '2026-01-05', 'GR');
+    });
+
+    it('should record the rule versions on the stored evaluation', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate(request);
+
+      const expected = {
+        rules_as_of: '2026-01-05',
+        toc_rulepack_id: 'c0ffee00-0000-4000-8000-000000000001',
+        toc_rulepack_effective_from: '2025-12-14',
+        compensation_band_id: 'ba5eba11-0000-4000-8000-000000000015',
+        compensation_band_effective_from: '1970-01-01',
+      };
+      expect(result.rule_version).toEqual(expected);
+      expect(mockEvaluationRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ rule_version: expected })
+      );
+    });
+
+    it('should record only the rulepack version when no band applies', async () => {
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue(null);
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({ ...request, delay_minutes: 5 });
+
+      expect(result.rule_version).toEqual({
+        rules_as_of: '2026-01-05',
+        toc_rulepack_id: 'c0ffee00-0000-4000-8000-000000000001',
+        toc_rulepack_effective_from: '2025-12-14',
+      });
+    });
+
+    it('should use the London date for a departure just after midnight BST', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      // 00:30 BST on 2 June
+      const result = await service.evaluate({ ...request, scheduled_departure: '2026-06-01T23:30:00Z' });
+
+      expect(mockTocRepository.findByTocCode).toHaveBeenCalledWith('GR', '2026-06-02');
+      expect(mockCompensationBandRepository.findBySchemeAndDelay).toHaveBeenCalledWith('DR15', 20, '2026-06-02', 'GR');
+      expect(result.rule_version?.rules_as_of).toBe('2026-06-02');
+    });
+  });
+
+  // ============================================
+  // Scheme Catalogue and TOC Band Overrides
+  // ============================================
+
+  describe('Scheme catalogue', () => {
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440090',
+      toc_code: 'CC',
+      scheduled_departure: '2026-01-15T10:00:00Z',
+      delay_minutes: 5,
+      ticket_fare_pence: 2000,
+    };
+
+    const rulepack = (scheme: string, minThreshold: number) => ({
+      toc_code: 'CC',
+      toc_name: 'c2c',
+      scheme,
+      min_threshold_minutes: minThreshold,
+      allows_online_claims: true,
+      allows_postal_claims: true,
+      claim_portal_url: null,
+      max_claim_days: 28,
+      active: true,
+    });
+
+    beforeEach(() => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+    });
+
+    it('should pass the TOC to the band lookup so its overrides apply', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepack('DR15', 2));
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        toc_code: 'CC',
+        delay_threshold_minutes: 2,
+        compensation_percentage: 10,
+      });
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate(request);
+
+      expect(mockCompensationBandRepository.findBySchemeAndDelay).toHaveBeenCalledWith('DR15', 5, '2026-01-15', 'CC');
+      expect(result.eligible).toBe(true);
+      expect(result.compensation_pence).toBe(200);
+      expect(result.applied_rules).toEqual(['DR15_CC_2MIN_10PCT']);
+    });
+
+    it('should report the threshold from the scheme catalogue for any scheme', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepack('DR20', 20));
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue(null);
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate(request);
+
+      expect(result.eligible).toBe(false);
+      expect(result.reasons).toContain('Delay of 5 minutes does not meet DR20 20-minute threshold');
+    });
+  });
+
+  // ============================================
+  // Re-evaluation
+  // ============================================
+
+  describe('Re-evaluation', () => {
+    const journeyId = '550e8400-e29b-41d4-a716-446655440100';
+
+    const storedRequest: EvaluationRequest = {
+      journey_id: journeyId,
+      toc_code: 'GR',
+      scheduled_departure: '2026-01-15T10:00:00Z',
+      delay_minutes: 20,
+      ticket_fare_pence: 1500,
+      claim_submitted_at: '2026-01-16T08:00:00.000Z',
+    };
+
+    const previous = {
+      journey_id: journeyId,
+      eligible: true,
+      scheme: 'DR15',
+      delay_minutes: 20,
+      compensation_percentage: 25,
+      compensation_pence: 375,
+      ticket_fare_pence: 1500,
+      reasons: ['Delay of 20 minutes qualifies for 25% refund under DR15 scheme'],
+      applied_rules: ['DR15_15MIN_25PCT'],
+      toc_code: 'GR',
+      evaluation_id: 'e0000000-0000-4000-8000-000000000001',
+      version: 1,
+      evaluation_request: storedRequest,
+    };
+
+    beforeEach(() => {
+      mockTocRepository.findByTocCode.mockResolvedValue({
+        toc_code: 'GR',
+        toc_name: 'LNER',
+        scheme: 'DR15',
+        min_threshold_minutes: 15,
+        allows_online_claims: true,
+        allows_postal_claims: true,
+        claim_portal_url: null,
+        max_claim_days: 28,
+        active: true,
+      });
+      mockCompensationBandRepository.findBySchemeAndDelay.mockImplementation(
+        async (_scheme: string, delayMinutes: number) => (delayMinutes >= 30
+          ? { scheme_type: 'DR15', delay_threshold_minutes: 30, compensation_percentage: 50 }
+          : { scheme_type: 'DR15', delay_threshold_minutes: 15, compensation_percentage: 25 })
+      );
+      mockEvaluationRepository.supersede.mockResolvedValue(true);
+    });
+
+    it('should record the inputs and version 1 on a first evaluation', async () => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({ ...storedRequest, claim_submitted_at: undefined });
+
+      expect(result.version).toBe(1);
+      expect(result.evaluation_request).toEqual({
+        ...storedRequest,
+        claim_submitted_at: '2026-01-20T09:00:00.000Z',
+      });
+    });
+
+    it('should save a new version from the stored inputs with corrections applied', async () => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(previous);
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const { current } = await service.reevaluate(journeyId, {
+        reason: 'Passenger appeal: delay was 35 minutes',
+        corrections: { delay_minutes: 35 },
+      });
+
+      expect(current.version).toBe(2);
+      expect(current.compensation_pence).toBe(750);
+      expect(current.supersedes_evaluation_id).toBe(previous.evaluation_id);
+      expect(current.reevaluation_reason).toBe('Passenger appeal: delay was 35 minutes');
+      expect(current.claim_submitted_at).toBe('2026-01-16T08:00:00.000Z');
+      expect(current.evaluation_request?.delay_minutes).toBe(35);
+      expect(mockEvaluationRepository.save).toHaveBeenCalledWith(current);
+    });
+
+    it('should supersede the previous version before saving the new one', async () => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(previous);
+      const calls: string[] = [];
+      mockEvaluationRepository.supersede.mockImplementation(async () => {
+        calls.push('supersede');
+        return true;
+      });
+      mockEvaluationRepository.save.mockImplementation(async () => {
+        calls.push('save');
+      });
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const { previous: superseded, current } = await service.reevaluate(journeyId, { reason: 'Corrected fare' });
+
+      expect(calls).toEqual(['supersede', 'save']);
+      expect(mockEvaluationRepository.supersede).toHaveBeenCalledWith(
+        previous.evaluation_id,
+        current.evaluation_id,
+        current.evaluation_timestamp
+      );
+      expect(superseded.superseded_by).toBe(current.evaluation_id);
+    });
+
+    it('should throw EvaluationNotFoundError when the journey has no evaluation', async () => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+
+      const { EligibilityService, EvaluationNotFoundError } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+
+      await expect(service.reevaluate(journeyId, { reason: 'Appeal' }))
+        .rejects.toBeInstanceOf(EvaluationNotFoundError);
+    });
+
+    it('should not save when a concurrent re-evaluation superseded the version first', async () => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(previous);
+      mockEvaluationRepository.supersede.mockResolvedValue(false);
+
+      const { EligibilityService, ConcurrentReevaluationError } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+
+      await expect(service.reevaluate(journeyId, { reason: 'Appeal' }))
+        .rejects.toBeInstanceOf(ConcurrentReevaluationError);
+      expect(mockEvaluationRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should rebuild inputs for evaluations stored without them', async () => {
+      const { evaluation_request: _omitted, ...legacy } = previous;
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue({
+        ...legacy,
+        claim_submitted_at: '2026-01-16T08:00:00.000Z',
+      });
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const { current } = await service.reevaluate(journeyId, {
+        reason: 'Corrected fare',
+        corrections: { ticket_fare_pence: 3000 },
+      });
+
+      expect(current.compensation_pence).toBe(750);
+      expect(mockTocRepository.findByTocCode).toHaveBeenCalledWith('GR', '2026-01-16');
+    });
+
+    it('should evaluate replacement inputs without the stored ones', async () => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue({
+        ...previous,
+        evaluation_request: {
+          ...storedRequest,
+          fare_components: [
+            { component_type: 'rail', amount_pence: 1000 },
+            { component_type: 'reservation', amount_pence: 500 },
+          ],
+        },
+      });
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const { journey_id: _journeyId, ...inputs } = storedRequest;
+      const { current } = await service.reevaluate(journeyId, {
+        reason: 'JourneyDelayConfirmed evt-2',
+        inputs: { ...inputs, delay_minutes: 35, claim_submitted_at: '2026-01-16T10:00:00.000Z' },
+      });
+
+      expect(current.compensation_pence).toBe(750);
+      expect(current.claim_submitted_at).toBe('2026-01-16T10:00:00.000Z');
+      expect(current.evaluation_request?.fare_components).toBeUndefined();
+    });
+  });
+
+  // ============================================
+  // Decision Trace
+  // ============================================
+
+  describe('Decision trace', () => {
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440110',
+      toc_code: 'GR',
+      scheduled_departure: '2026-01-15T10:00:00Z',
+      scheduled_arrival: '2026-01-15T12:00:00Z',
+      actual_arrival: '2026-01-15T12:20:00Z',
+      ticket_fare_pence: 1500,
+      claim_submitted_at: '2026-01-16T08:00:00Z',
+    };
+
+    const rulepack = {
+      id: '7',
+      toc_code: 'GR',
+      toc_name: 'LNER',
+      scheme: 'DR15',
+      min_threshold_minutes: 15,
+      allows_online_claims: true,
+      allows_postal_claims: false,
+      claim_portal_url: null,
+      max_claim_days: 28,
+      active: true,
+      effective_from: '2025-01-01',
+    };
+
+    beforeEach(() => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepack);
+    });
+
+    it('should record each pipeline step in order and save it with the evaluation', async () => {
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        id: '3',
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 15,
+        compensation_percentage: 25,
+      });
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate(request);
+
+      expect(result.decision_trace?.map((s) => s.step)).toEqual([
+        'toc_lookup',
+        'delay_calculation',
+        'claim_window',
+        'restriction_check',
+        'band_selection',
+        'special_rules',
+        'compensation',
+      ]);
+      expect(result.decision_trace?.[1].details).toMatchObject({
+        source: 'arrival_times',
+        scheduled_arrival: '2026-01-15T12:00:00Z',
+      });
+      expect(result.decision_trace?.[4].details).toMatchObject({ band_id: '3', band_percentage: 25 });
+      expect(result.decision_trace?.[6].outcome).toBe('Eligible for 375 pence (25%)');
+      expect(mockEvaluationRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ decision_trace: result.decision_trace })
+      );
+    });
+
+    it('should stop at the claim window when the claim is late', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({ ...request, claim_submitted_at: '2026-03-01T08:00:00Z' });
+
+      expect(result.decision_trace?.map((s) => s.step)).toEqual([
+        'toc_lookup',
+        'delay_calculation',
+        'claim_window',
+        'compensation',
+      ]);
+      expect(result.decision_trace?.[2].details).toMatchObject({
+        claim_deadline: '2026-02-12',
+        within_window: false,
+      });
+    });
+  });
+
+  // ============================================
+  // Simulation
+  // ============================================
+
+  describe('Simulation', () => {
+    const rulepack = {
+      toc_code: 'GR',
+      toc_name: 'LNER',
+      scheme: 'DR15',
+      min_threshold_minutes: 15,
+      allows_online_claims: true,
+      allows_postal_claims: false,
+      claim_portal_url: null,
+      max_claim_days: 28,
+      active: true,
+    };
+
+    const dr15Bands = [
+      { scheme_type: 'DR15', delay_threshold_minutes: 15, compensation_percentage: 25 },
+      { scheme_type: 'DR15', delay_threshold_minutes: 30, compensation_percentage: 50 },
+      { scheme_type: 'DR15', delay_threshold_minutes: 60, compensation_percentage: 100 },
+    ];
+
+    beforeEach(() => {
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepack);
+      mockCompensationBandRepository.findAllByScheme.mockResolvedValue(dr15Bands);
+    });
+
+    it('should return the outcome and band table without touching evaluations', async () => {
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue(dr15Bands[0]);
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const simulation = await service.simulate({
+        toc_code: 'GR',
+        delay_minutes: 20,
+        ticket_fare_pence: 2000,
+      });
+
+      expect(simulation.outcome.eligible).toBe(true);
+      expect(simulation.outcome.compensation_pence).toBe(500);
+      expect(simulation.band_table).toEqual([
+        {
+          delay_threshold_minutes: 15,
+          delay_minutes_to: 29,
+          minutes_to_reach: 0,
+          compensation_percentage: 25,
+          compensation_pence: 500,
+          applied_rules: ['DR15_15MIN_25PCT'],
+        },
+        {
+          delay_threshold_minutes: 30,
+          delay_minutes_to: 59,
+          minutes_to_reach: 10,
+          compensation_percentage: 50,
+          compensation_pence: 1000,
+          applied_rules: ['DR15_30MIN_50PCT'],
+        },
+        {
+          delay_threshold_minutes: 60,
+          delay_minutes_to: null,
+          minutes_to_reach: 40,
+          compensation_percentage: 100,
+          compensation_pence: 2000,
+          applied_rules: ['DR15_60MIN_100PCT'],
+        },
+      ]);
+      expect(mockEvaluationRepository.findByJourneyId).not.toHaveBeenCalled();
+      expect(mockEvaluationRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should simulate an on-time journey from a TOC and fare alone', async () => {
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue(null);
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const simulation = await service.simulate({ toc_code: 'GR', ticket_fare_pence: 2000 });
+
+      expect(simulation.outcome.delay_minutes).toBe(0);
+      expect(simulation.outcome.eligible).toBe(false);
+      expect(simulation.band_table.map((b) => b.minutes_to_reach)).toEqual([15, 30, 60]);
+    });
+
+    it('should apply TOC special rules to each band', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue({
+        ...rulepack,
+        special_rules: [{ id: 'MIN_PAYOUT', type: 'minimum_payout', minimum_pence: 400 }],
+      });
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue(null);
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const simulation = await service.simulate({ toc_code: 'GR', ticket_fare_pence: 1000 });
+
+      expect(simulation.band_table.map((b) => b.compensation_pence)).toEqual([400, 500, 1000]);
+    });
+  });
+
+  // ============================================
+  // Ticket Restrictions
+  // ============================================
+
+  describe('Ticket restrictions', () => {
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440120',
+      toc_code: 'GR',
+      delay_minutes: 40,
+      ticket_fare_pence: 2000,
+      ticket_type: 'off-peak return',
+      ticket_restrictions: ['OP'],
+      claim_submitted_at: '2026-06-16T08:00:00Z',
+    };
+
+    beforeEach(() => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockResolvedValue({
+        toc_code: 'GR',
+        toc_name: 'LNER',
+        scheme: 'DR15',
+        min_threshold_minutes: 15,
+        allows_online_claims: true,
+        allows_postal_claims: false,
+        claim_portal_url: null,
+        max_claim_days: 28,
+        active: true,
+      });
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 30,
+        compensation_percentage: 50,
+      });
+    });
+
+    it('should make an off-peak ticket used in the peak ineligible', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      // 07:45 UTC is 08:45 BST, inside the morning peak
+      const result = await service.evaluate({ ...request, scheduled_departure: '2026-06-15T07:45:00Z' });
+
+      expect(result.eligible).toBe(false);
+      expect(result.compensation_pence).toBe(0);
+      expect(result.ineligible_reason).toBe('blocking_restriction');
+      expect(result.reasons).toEqual(['Ticket restriction OP: Off-peak ticket cannot be used during peak hours']);
+      expect(mockCompensationBandRepository.findBySchemeAndDelay).not.toHaveBeenCalled();
+    });
+
+    it('should pay an off-peak ticket used off-peak', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      // 09:45 UTC is 10:45 BST
+      const result = await service.evaluate({ ...request, scheduled_departure: '2026-06-15T09:45:00Z' });
+
+      expect(result.eligible).toBe(true);
+      expect(result.compensation_pence).toBe(1000);
+      expect(result.decision_trace?.find((s) => s.step === 'restriction_check')?.details).toMatchObject({
+        journey_date: '2026-06-15',
+        departure_time: '10:45',
+        valid: true,
+      });
+    });
+
+    it('should not check restrictions without a scheduled departure', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate(request);
+
+      expect(result.eligible).toBe(true);
+      expect(result.decision_trace?.find((s) => s.step === 'restriction_check')?.outcome)
+        .toBe('Restrictions not checked: no scheduled departure');
+    });
+  });
+
+  // ============================================
+  // Sleeper Fare Capping
+  // ============================================
+
+  describe('Sleeper fare capping', () => {
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440130',
+      toc_code: 'CS',
+      scheduled_departure: '2026-01-15T21:00:00Z',
+      delay_minutes: 150,
+      ticket_fare_pence: 18000,
+      ticket_class: 'first',
+      is_sleeper: true,
+      origin_crs: 'EUS',
+      destination_crs: 'INV',
+      claim_submitted_at: '2026-01-16T09:00:00Z',
+    };
+
+    let mockSeatedFareRepository: { findByRouteAndClass: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      mockSeatedFareRepository = { findByRouteAndClass: vi.fn() };
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockResolvedValue({
+        toc_code: 'CS',
+        toc_name: 'Caledonian Sleeper',
+        scheme: 'DR15',
+        min_threshold_minutes: 15,
+        allows_online_claims: true,
+        allows_postal_claims: true,
+        claim_portal_url: null,
+        max_claim_days: 28,
+        active: true,
+      });
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 120,
+        compensation_percentage: 100,
+      });
+    });
+
+    it('should cap the payout at the seated equivalent and record it in the fare breakdown', async () => {
+      mockSeatedFareRepository.findByRouteAndClass.mockResolvedValue({
+        route_code: 'EUS-INV',
+        sleeper_class: 'first_berth',
+        seated_equivalent_pence: 15000,
+        effective_from: '2026-01-01',
+        effective_to: null,
+      });
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository,
+        mockSeatedFareRepository
+      );
+      const result = await service.evaluate(request);
+
+      expect(mockSeatedFareRepository.findByRouteAndClass).toHaveBeenCalledWith('EUS-INV', 'first_berth', '2026-01-15');
+      expect(result.compensation_pence).toBe(15000);
+      expect(result.applied_rules).toContain('SLEEPER_SEATED_FARE_CAP');
+      expect(result.fare_breakdown?.sleeper_cap).toEqual({
+        route_code: 'EUS-INV',
+        sleeper_class: 'first_berth',
+        original_compensation_pence: 18000,
+        seated_equivalent_pence: 15000,
+        cap_applied: true,
+        capped_compensation_pence: 15000,
+        notes: undefined,
+      });
+      expect(result.decision_trace?.map((s) => s.step)).toContain('sleeper_cap');
+      expect(mockEvaluationRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ fare_breakdown: result.fare_breakdown })
+      );
+    });
+
+    it('should pay uncapped and say why when the route has no seated equivalent', async () => {
+      mockSeatedFareRepository.findByRouteAndClass.mockResolvedValue(null);
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository,
+        mockSeatedFareRepository
+      );
+      const result = await service.evaluate(request);
+
+      expect(result.compensation_pence).toBe(18000);
+      expect(result.fare_breakdown?.sleeper_cap).toMatchObject({
+        cap_applied: false,
+        notes: 'No seated fare equivalent found for route/class',
+      });
+    });
+
+    it('should never raise the payout when the seated equivalent exceeds the fare', async () => {
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 60,
+        compensation_percentage: 50,
+      });
+      mockSeatedFareRepository.findByRouteAndClass.mockResolvedValue({
+        route_code: 'EUS-INV',
+        sleeper_class: 'first_berth',
+        seated_equivalent_pence: 8000,
+        effective_from: '2026-01-01',
+        effective_to: null,
+      });
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository,
+        mockSeatedFareRepository
+      );
+      const result = await service.evaluate({ ...request, ticket_fare_pence: 5000 });
+
+      expect(result.compensation_pence).toBe(2500);
+      expect(result.applied_rules).not.toContain('SLEEPER_SEATED_FARE_CAP');
+      expect(result.fare_breakdown?.sleeper_cap).toMatchObject({ cap_applied: false, capped_compensation_pence: 2500 });
+    });
+
+    it('should not look up a seated fare for seated journeys', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository,
+        mockSeatedFareRepository
+      );
+      const result = await service.evaluate({ ...request, is_sleeper: false });
+
+      expect(mockSeatedFareRepository.findByRouteAndClass).not.toHaveBeenCalled();
+      expect(result.fare_breakdown).toBeUndefined();
+    });
+
+    it('should cap on the compensable fare, not the excluded berth supplement', async () => {
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 60,
+        compensation_percentage: 50,
+      });
+      mockSeatedFareRepository.findByRouteAndClass.mockResolvedValue({
+        route_code: 'EUS-INV',
+        sleeper_class: 'first_berth',
+        seated_equivalent_pence: 8000,
+        effective_from: '2026-01-01',
+        effective_to: null,
+      });
+      const fareComponents = [
+        { component_type: 'rail', amount_pence: 6000 },
+        { component_type: 'berth_supplement', amount_pence: 14000 },
+      ];
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository,
+        mockSeatedFareRepository
+      );
+      const result = await service.evaluate({ ...request, ticket_fare_pence: 20000, fare_components: fareComponents });
+
+      expect(result.compensation_pence).toBe(3000);
+      expect(result.applied_rules).toContain('FARE_COMPONENTS_EXCLUDED');
+      expect(result.applied_rules).not.toContain('SLEEPER_SEATED_FARE_CAP');
+      expect(result.fare_breakdown?.sleeper_cap).toMatchObject({
+        original_compensation_pence: 3000,
+        cap_applied: false,
+        capped_compensation_pence: 3000,
+      });
+    });
+  });
+
+  // ============================================
+  // Multi-TOC Apportionment
+  // ============================================
+
+  describe('Multi-TOC apportionment', () => {
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440140',
+      toc_code: 'GR',
+      scheduled_departure: '2026-01-15T09:00:00Z',
+      delay_minutes: 35,
+      ticket_fare_pence: 3000,
+      ticket_format: 'single',
+      claim_submitted_at: '2026-01-15T18:00:00Z',
+      journey_segments: [
+        { toc_code: 'GR', fare_portion_pence: 2000 },
+        { toc_code: 'SW', fare_portion_pence: 1000 },
+      ],
+    };
+
+    const rulepack = (tocCode: string, scheme: string) => ({
+      toc_code: tocCode,
+      toc_name: tocCode,
+      scheme,
+      min_threshold_minutes: scheme === 'DR15' ? 15 : 30,
+      allows_online_claims: true,
+      allows_postal_claims: false,
+      claim_portal_url: null,
+      max_claim_days: 28,
+      active: true,
+    });
+
+    beforeEach(() => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockImplementation(async (tocCode: string) =>
+        tocCode === 'SW' ? rulepack('SW', 'DR30') : rulepack('GR', 'DR15'));
+      mockCompensationBandRepository.findBySchemeAndDelay.mockImplementation(async (scheme: string) =>
+        scheme === 'DR15'
+          ? { scheme_type: 'DR15', delay_threshold_minutes: 30, compensation_percentage: 50 }
+          : { scheme_type: 'DR30', delay_threshold_minutes: 30, compensation_percentage: 25 });
+    });
+
+    it('should pay each segment under its own TOC scheme using repository bands', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate(request);
+
+      expect(mockCompensationBandRepository.findBySchemeAndDelay).toHaveBeenCalledWith('DR30', 35, '2026-01-15', 'SW');
+      expect(result.eligible).toBe(true);
+      expect(result.compensation_pence).toBe(1250);
+      expect(result.compensation_percentage).toBe(41.67);
+      expect(result.applied_rules).toEqual(['MULTI_TOC_APPORTIONMENT']);
+      expect(result.fare_breakdown?.segments?.map((s) => [s.toc_code, s.compensation_pence])).toEqual([
+        ['GR', 1000],
+        ['SW', 250],
+      ]);
+      expect(result.decision_trace?.map((s) => s.step)).toContain('apportionment');
+      expect(mockEvaluationRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ fare_breakdown: result.fare_breakdown })
+      );
+    });
+
+    it('should reject segments whose fares do not add up to the ticket fare', async () => {
+      const { EligibilityService, InvalidJourneySegmentsError } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+
+      await expect(service.evaluate({ ...request, ticket_fare_pence: 3500 }))
+        .rejects.toBeInstanceOf(InvalidJourneySegmentsError);
+      expect(mockEvaluationRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should evaluate a single-segment journey under the lead TOC as before', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({
+        ...request,
+        journey_segments: [{ toc_code: 'GR', fare_portion_pence: 3000 }],
+      });
+
+      expect(result.compensation_pence).toBe(1500);
+      expect(result.applied_rules).toEqual(['DR15_30MIN_50PCT']);
+      expect(result.fare_breakdown).toBeUndefined();
+    });
+
+    it('should exclude a journey between stations the lead TOC excludes', async () => {
+      mockTocRepository.findByTocCode.mockImplementation(async (tocCode: string) => tocCode === 'SW'
+        ? rulepack('SW', 'DR30')
+        : {
+          ...rulepack('GR', 'DR15'),
+          special_rules: [{ id: 'NO_KGX_EDB', type: 'exclude_station_pair', origin_crs: 'KGX', destination_crs: 'EDB' }],
+        });
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate({ ...request, origin_crs: 'KGX', destination_crs: 'EDB' });
+
+      expect(result.eligible).toBe(false);
+      expect(result.compensation_pence).toBe(0);
+      expect(result.ineligible_reason).toBe('special_rule_exclusion');
+      expect(result.applied_rules).toEqual(['SPECIAL_NO_KGX_EDB']);
+    });
+
+    it('should raise the apportioned total to the lead TOC minimum payout', async () => {
+      mockTocRepository.findByTocCode.mockImplementation(async (tocCode: string) => tocCode === 'SW'
+        ? rulepack('SW', 'DR30')
+        : { ...rulepack('GR', 'DR15'), special_rules: [{ id: 'MIN_PAYOUT', type: 'minimum_payout', minimum_pence: 1500 }] });
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate(request);
+
+      expect(result.compensation_pence).toBe(1500);
+      expect(result.compensation_percentage).toBe(50);
+      expect(result.applied_rules).toEqual(['MULTI_TOC_APPORTIONMENT', 'SPECIAL_MIN_PAYOUT']);
+      expect(result.reasons).toContain('Minimum payout of 1500 pence applied');
+      expect(result.decision_trace?.map((s) => s.step)).toContain('special_rules');
+    });
+  });
+
+  // ============================================
+  // Responsible Operator
+  // ============================================
+
+  describe('Responsible operator', () => {
+    it('should route the claim to the operator whose missed connection delayed the journey', async () => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockImplementation(async (tocCode: string) => ({
+        toc_code: tocCode,
+        toc_name: tocCode === 'GR' ? 'LNER' : 'Northern',
+        scheme: 'DR15',
+        min_threshold_minutes: 15,
+        allows_online_claims: true,
+        allows_postal_claims: tocCode === 'GR',
+        claim_portal_url: tocCode === 'GR' ? 'https://www.lner.co.uk/delay-repay' : null,
+        max_claim_days: 28,
+        active: true,
+      }));
+      mockCompensationBandRepository.findBySchemeAndDelay.mockImplementation(async (_scheme: string, delay: number) =>
+        delay >= 60 ? { scheme_type: 'DR15', delay_threshold_minutes: 60, compensation_percentage: 100 } : null);
+
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      // Lead TOC is Northern, but LNER's late arrival missed the connection
+      const result = await service.evaluate({
+        journey_id: '550e8400-e29b-41d4-a716-446655440150',
+        toc_code: 'NT',
+        scheduled_departure: '2026-01-15T09:00:00Z',
+        delay_minutes: 65,
+        ticket_fare_pence: 5000,
+        claim_submitted_at: '2026-01-16T09:00:00Z',
+        journey_segments: [
+          {
+            toc_code: 'GR',
+            fare_portion_pence: 3000,
+            scheduled_arrival: '2026-01-15T11:00:00Z',
+            actual_arrival: '2026-01-15T11:30:00Z',
+          },
+          {
+            toc_code: 'NT',
+            fare_portion_pence: 2000,
+            scheduled_departure: '2026-01-15T11:20:00Z',
+            scheduled_arrival: '2026-01-15T12:00:00Z',
+            actual_arrival: '2026-01-15T13:05:00Z',
+          },
+        ],
+      });
+
+      expect(result.compensation_pence).toBe(3000);
+      expect(result.fare_breakdown?.responsible_toc_code).toBe('GR');
+      expect(result.claim_routing).toMatchObject({ toc_code: 'GR', toc_name: 'LNER', channels: ['online', 'postal'] });
+      expect(result.reasons).toContain(
+        'Missed connection after segment 1: GR is responsible for the delay at the destination'
+      );
+    });
+  });
+
+  describe('Apportionment strategies', () => {
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440160',
+      toc_code: 'GR',
+      scheduled_departure: '2026-01-15T09:00:00Z',
+      delay_minutes: 35,
+      ticket_fare_pence: 3001,
+      ticket_format: 'single',
+      claim_submitted_at: '2026-01-15T18:00:00Z',
+      journey_segments: [
+        { toc_code: 'GR', origin_crs: 'KGX', destination_crs: 'YRK' },
+        { toc_code: 'NT', origin_crs: 'YRK', destination_crs: 'SCA' },
+      ],
+    };
+
+    beforeEach(() => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockImplementation(async (tocCode: string) => ({
+        toc_code: tocCode,
+        toc_name: tocCode,
+        scheme: 'DR15',
+        min_threshold_minutes: 15,
+        allows_online_claims: true,
+        allows_postal_claims: false,
+        claim_portal_url: null,
+        max_claim_days: 28,
+        active: true,
+      }));
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 30,
+        compensation_percentage: 50,
+      });
+    });
+
+    it('should split an unpriced fare equally and record the strategy', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+      const result = await service.evaluate(request);
+
+      expect(result.fare_breakdown?.apportionment_strategy).toBe('equal');
+      expect(result.fare_breakdown?.segments?.map((s) => s.fare_portion_pence)).toEqual([1501, 1500]);
+      expect(result.compensation_pence).toBe(1500);
+      expect(result.decision_trace?.find((s) => s.step === 'apportionment')?.details)
+        .toMatchObject({ apportionment_strategy: 'equal' });
+    });
+
+    it('should split by mileage from the station distance table', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const stationDistanceRepository = {
+        findMiles: vi.fn(async (fromCrs: string) => (fromCrs === 'KGX' ? 188 : 42)),
+      };
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository,
+        undefined,
+        stationDistanceRepository
+      );
+      const result = await service.evaluate({ ...request, apportionment_strategy: 'mileage' });
+
+      expect(stationDistanceRepository.findMiles).toHaveBeenCalledWith('YRK', 'SCA');
+      expect(result.fare_breakdown?.apportionment_strategy).toBe('mileage');
+      // 188 : 42 miles of 3001 pence = 2452.97 : 548.03
+      expect(result.fare_breakdown?.segments?.map((s) => s.fare_portion_pence)).toEqual([2453, 548]);
+    });
+
+    it('should reject a strategy the segments cannot support as invalid journey segments', async () => {
+      const { EligibilityService, InvalidJourneySegmentsError } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository
+      );
+
+      await expect(service.evaluate({ ...request, apportionment_strategy: 'weights' }))
+        .rejects.toBeInstanceOf(InvalidJourneySegmentsError);
+      expect(mockEvaluationRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Money policy', () => {
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440170',
+      toc_code: 'GR',
+      scheduled_departure: '2026-01-15T09:00:00Z',
+      delay_minutes: 20,
+      ticket_fare_pence: 1002,
+      ticket_format: 'single',
+      claim_submitted_at: '2026-01-15T18:00:00Z',
+    };
+
+    const rulepack = (overrides: Record<string, unknown> = {}) => ({
+      toc_code: 'GR',
+      toc_name: 'LNER',
+      scheme: 'DR15',
+      min_threshold_minutes: 15,
+      allows_online_claims: true,
+      allows_postal_claims: false,
+      claim_portal_url: null,
+      max_claim_days: 28,
+      active: true,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 15,
+        compensation_percentage: 25,
+      });
+    });
+
+    it('should round down by default and record the rounding', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepack());
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      // 25% of 1002 = 250.5 pence
+      const result = await service.evaluate(request);
+
+      expect(result.compensation_pence).toBe(250);
+      expect(result.applied_rules).toEqual(['DR15_15MIN_25PCT', 'ROUNDING_FLOOR']);
+    });
+
+    it('should round under the rulepack rounding mode', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepack({ rounding_mode: 'half_up' }));
+      const halfUp = await service.evaluate(request);
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepack({ rounding_mode: 'half_even' }));
+      const halfEven = await service.evaluate({ ...request, ticket_fare_pence: 1006 });
+
+      expect(halfUp.compensation_pence).toBe(251);
+      expect(halfUp.applied_rules).toContain('ROUNDING_HALF_UP');
+      // 25% of 1006 = 251.5 pence
+      expect(halfEven.compensation_pence).toBe(252);
+      expect(halfEven.applied_rules).toContain('ROUNDING_HALF_EVEN');
+    });
+
+    it('should leave rounding out of applied_rules when the amount is whole pence', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepack({ rounding_mode: 'half_up' }));
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate({ ...request, ticket_fare_pence: 1000 });
+
+      expect(result.applied_rules).toEqual(['DR15_15MIN_25PCT']);
+    });
+
+    it('should refuse a payout below the minimum', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepack({ min_claimable_pence: 300 }));
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate(request);
+
+      expect(result.eligible).toBe(false);
+      expect(result.compensation_pence).toBe(0);
+      expect(result.ineligible_reason).toBe('below_minimum_payout');
+      expect(result.applied_rules).toContain('MINIMUM_PAYOUT_300P');
+      expect(result.reasons).toContain('Compensation of 250 pence is below the 300-pence minimum payout');
+      expect(result.claim_routing).toBeUndefined();
+      expect(result.decision_trace?.at(-1)?.details).toMatchObject({ min_claimable_pence: 300, rounding_mode: 'floor' });
+    });
+
+    it('should pay a payout at the minimum', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepack({ min_claimable_pence: 250 }));
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate(request);
+
+      expect(result.eligible).toBe(true);
+      expect(result.compensation_pence).toBe(250);
+    });
+
+    it('should round each multi-TOC segment under its own operator', async () => {
+      mockTocRepository.findByTocCode.mockImplementation(async (tocCode: string) =>
+        rulepack({ toc_code: tocCode, rounding_mode: tocCode === 'NT' ? 'half_up' : 'floor' }));
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate({
+        ...request,
+        ticket_fare_pence: 2004,
+        journey_segments: [
+          { toc_code: 'GR', fare_portion_pence: 1002 },
+          { toc_code: 'NT', fare_portion_pence: 1002 },
+        ],
+      });
+
+      expect(result.fare_breakdown?.segments?.map((s) => s.compensation_pence)).toEqual([250, 251]);
+      expect(result.applied_rules).toEqual(['MULTI_TOC_APPORTIONMENT', 'ROUNDING_FLOOR', 'ROUNDING_HALF_UP']);
+    });
+  });
+
+  describe('Season tickets', () => {
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440180',
+      toc_code: 'GR',
+      scheduled_departure: '2026-01-15T09:00:00Z',
+      delay_minutes: 35,
+      ticket_fare_pence: 464000,
+      ticket_type: 'annual_season',
+      claim_submitted_at: '2026-01-15T18:00:00Z',
+    };
+
+    const rulepack = (overrides: Record<string, unknown> = {}) => ({
+      toc_code: 'GR',
+      toc_name: 'LNER',
+      scheme: 'DR15',
+      min_threshold_minutes: 15,
+      allows_online_claims: true,
+      allows_postal_claims: false,
+      claim_portal_url: null,
+      max_claim_days: 28,
+      active: true,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepack());
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 30,
+        compensation_percentage: 50,
+        single_percentage: 50,
+        return_percentage: 25,
+      });
+    });
+
+    it('should pay on the per-journey value of the season and store the formula', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate(request);
+
+      // 464000 / 464 = 1000 pence per journey, valued as a single
+      expect(result.compensation_pence).toBe(500);
+      expect(result.ticket_fare_pence).toBe(464000);
+      expect(result.ticket_format).toBe('single');
+      expect(result.applied_rules).toEqual(['DR15_30MIN_50PCT', 'SEASON_TICKET_ANNUAL']);
+      expect(result.fare_breakdown?.season_ticket).toEqual({
+        season_type: 'annual',
+        season_price_pence: 464000,
+        journeys: 464,
+        per_journey_value_pence: 1000,
+        formula: '464000 pence / 464 journeys (annual season)',
+      });
+      expect(result.decision_trace?.map((s) => s.step)).toContain('season_ticket');
+      expect(mockEvaluationRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ fare_breakdown: result.fare_breakdown })
+      );
+    });
+
+    it('should use the rulepack season ticket divisors', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepack({ season_ticket_divisors: { weekly: 12 } }));
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate({ ...request, ticket_type: 'Weekly Season', ticket_fare_pence: 6000 });
+
+      expect(result.fare_breakdown?.season_ticket).toMatchObject({ journeys: 12, per_journey_value_pence: 500 });
+      expect(result.compensation_pence).toBe(250);
+    });
+
+    it('should value a flexi season from its travel days', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate({
+        ...request,
+        ticket_type: 'flexi_season',
+        ticket_fare_pence: 12000,
+        season_ticket: { travel_days: 8 },
+      });
+
+      expect(result.compensation_pence).toBe(375);
+      expect(result.applied_rules).toContain('SEASON_TICKET_FLEXI');
+    });
+
+    it('should reject a flexi season without travel days', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const { InvalidSeasonTicketError } = await import('../../src/services/season-ticket-valuer.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      await expect(service.evaluate({ ...request, ticket_type: 'flexi_season' }))
+        .rejects.toBeInstanceOf(InvalidSeasonTicketError);
+      expect(mockEvaluationRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should value the band table on the per-journey value when simulating', async () => {
+      mockCompensationBandRepository.findAllByScheme.mockResolvedValue([
+        { scheme_type: 'DR15', delay_threshold_minutes: 15, compensation_percentage: 25, single_percentage: 25, return_percentage: 25 },
+        { scheme_type: 'DR15', delay_threshold_minutes: 30, compensation_percentage: 50, single_percentage: 50, return_percentage: 25 },
+      ]);
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const simulation = await service.simulate({ ...request, journey_id: undefined });
+
+      expect(simulation.band_table.map((band) => band.compensation_pence)).toEqual([250, 500]);
+    });
+
+    it('should apportion the per-journey value, not the season price, across multi-TOC segments', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate({
+        ...request,
+        journey_segments: [{ toc_code: 'GR' }, { toc_code: 'NT' }],
+      });
+
+      expect(result.fare_breakdown?.segments?.map((s) => s.fare_portion_pence)).toEqual([500, 500]);
+      expect(result.compensation_pence).toBe(500);
+      expect(result.compensation_percentage).toBe(50);
+      expect(result.applied_rules).toEqual(['MULTI_TOC_APPORTIONMENT', 'SEASON_TICKET_ANNUAL']);
+      expect(result.fare_breakdown?.season_ticket).toMatchObject({ per_journey_value_pence: 1000 });
+    });
+
+    it('should scale segment fare portions from the season price to the per-journey value', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate({
+        ...request,
+        journey_segments: [
+          { toc_code: 'GR', fare_portion_pence: 300000 },
+          { toc_code: 'NT', fare_portion_pence: 164000 },
+        ],
+      });
+
+      expect(result.fare_breakdown?.segments?.map((s) => s.fare_portion_pence)).toEqual([647, 353]);
+      expect(result.compensation_pence).toBe(499);
+    });
+  });
+
+  describe('Ticket products', () => {
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440190',
+      toc_code: 'GR',
+      scheduled_departure: '2026-01-15T09:00:00Z',
+      delay_minutes: 35,
+      ticket_fare_pence: 59500,
+      ticket_type: 'rover',
+      ticket_product_code: 'ALLLINE7',
+      claim_submitted_at: '2026-01-15T18:00:00Z',
+    };
+
+    let mockTicketProductRepository: { findByCode: ReturnType<typeof vi.fn> };
+
+    const product = (overrides: Record<string, unknown> = {}) => ({
+      product_code: 'ALLLINE7',
+      product_name: 'All Line Rover (7 days)',
+      valuation_basis: 'per_day',
+      travel_days: 7,
+      journeys_per_day: null,
+      exclusion_reason: null,
+      effective_from: '2026-01-01',
+      effective_to: null,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockTicketProductRepository = { findByCode: vi.fn().mockResolvedValue(product()) };
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockResolvedValue({
+        toc_code: 'GR',
+        toc_name: 'LNER',
+        scheme: 'DR15',
+        min_threshold_minutes: 15,
+        allows_online_claims: true,
+        allows_postal_claims: false,
+        claim_portal_url: null,
+        max_claim_days: 28,
+        active: true,
+      });
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 30,
+        compensation_percentage: 50,
+        single_percentage: 50,
+        return_percentage: 25,
+      });
+    });
+
+    const serviceWithProducts = async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      return new EligibilityService(
+        mockTocRepository,
+        mockCompensationBandRepository,
+        mockEvaluationRepository,
+        undefined,
+        undefined,
+        mockTicketProductRepository
+      );
+    };
+
+    it('should pay a per-day product on one day of travel before applying the band', async () => {
+      const service = await serviceWithProducts();
+
+      const result = await service.evaluate(request);
+
+      // 59500 / 7 = 8500 pence per day, a day of travel valued as a return
+      expect(mockTicketProductRepository.findByCode).toHaveBeenCalledWith('ALLLINE7', '2026-01-15');
+      expect(result.eligible).toBe(true);
+      expect(result.ticket_format).toBe('return');
+      expect(result.compensation_pence).toBe(2125);
+      expect(result.ticket_fare_pence).toBe(59500);
+      expect(result.applied_rules).toEqual(['DR15_30MIN_25PCT', 'TICKET_PRODUCT_ALLLINE7']);
+      expect(result.reasons).toContain(
+        'All Line Rover (7 days) paid on a per-day value of 8500 pence: 59500 pence / 7 travel days'
+      );
+      expect(result.fare_breakdown?.ticket_product).toMatchObject({ divisor: 7, value_pence: 8500 });
+      expect(result.decision_trace?.map((s) => s.step)).toContain('ticket_product');
+    });
+
+    it('should value a per-journey product as a single', async () => {
+      mockTicketProductRepository.findByCode.mockResolvedValue(product({
+        product_code: 'HIGHRNG4',
+        product_name: 'Highland Rover (4 days in 8)',
+        valuation_basis: 'per_journey',
+        travel_days: 4,
+        journeys_per_day: 2,
+      }));
+      const service = await serviceWithProducts();
+
+      const result = await service.evaluate({ ...request, ticket_product_code: 'HIGHRNG4', ticket_fare_pence: 9600 });
+
+      expect(result.ticket_format).toBe('single');
+      expect(result.compensation_pence).toBe(600);
+      expect(result.applied_rules).toContain('TICKET_PRODUCT_HIGHRNG4');
+    });
+
+    it('should refuse an excluded product with its exclusion reason', async () => {
+      mockTicketProductRepository.findByCode.mockResolvedValue(product({
+        product_code: 'RANGERDAY',
+        product_name: 'Day Ranger',
+        valuation_basis: 'excluded',
+        travel_days: null,
+        exclusion_reason: 'Day Rangers are sold under local conditions without Delay Repay',
+      }));
+      const service = await serviceWithProducts();
+
+      const result = await service.evaluate({ ...request, ticket_product_code: 'RANGERDAY' });
+
+      expect(result.eligible).toBe(false);
+      expect(result.compensation_pence).toBe(0);
+      expect(result.ineligible_reason).toBe('product_excluded');
+      expect(result.reasons).toEqual([
+        'Ticket product excluded: Day Rangers are sold under local conditions without Delay Repay',
+      ]);
+      expect(result.applied_rules).toEqual(['TICKET_PRODUCT_RANGERDAY']);
+      expect(mockCompensationBandRepository.findBySchemeAndDelay).not.toHaveBeenCalled();
+      expect(mockEvaluationRepository.save).toHaveBeenCalled();
+    });
+
+    it('should reject an unknown product without saving', async () => {
+      mockTicketProductRepository.findByCode.mockResolvedValue(null);
+      const { UnknownTicketProductError } = await import('../../src/services/ticket-product-valuer.js');
+      const service = await serviceWithProducts();
+
+      await expect(service.evaluate(request)).rejects.toBeInstanceOf(UnknownTicketProductError);
+      expect(mockEvaluationRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should take the product value over a season valuation', async () => {
+      const service = await serviceWithProducts();
+
+      const result = await service.evaluate({ ...request, ticket_type: 'weekly_season' });
+
+      expect(result.fare_breakdown?.season_ticket).toBeUndefined();
+      expect(result.fare_breakdown?.ticket_product).toMatchObject({ value_pence: 8500 });
+    });
+
+    it('should apportion the product value across multi-TOC segments', async () => {
+      mockTicketProductRepository.findByCode.mockResolvedValue(product({
+        product_code: 'NORTHROVER',
+        product_name: 'North Country Rover',
+        travel_days: 7,
+      }));
+      const service = await serviceWithProducts();
+
+      const result = await service.evaluate({
+        ...request,
+        ticket_product_code: 'NORTHROVER',
+        ticket_fare_pence: 7000,
+        journey_segments: [{ toc_code: 'GR' }, { toc_code: 'NT' }],
+      });
+
+      // 7000 / 7 = 1000 pence per day, shared 500/500, a day of travel paid as a return
+      expect(result.fare_breakdown?.segments?.map((s) => s.fare_portion_pence)).toEqual([500, 500]);
+      expect(result.compensation_pence).toBe(250);
+      expect(result.applied_rules).toEqual(['MULTI_TOC_APPORTIONMENT', 'TICKET_PRODUCT_NORTHROVER']);
+      expect(result.fare_breakdown?.ticket_product).toMatchObject({ value_pence: 1000 });
+    });
+
+    it('should refuse an excluded product on a multi-TOC journey', async () => {
+      mockTicketProductRepository.findByCode.mockResolvedValue(product({
+        product_code: 'RANGERDAY',
+        product_name: 'Day Ranger',
+        valuation_basis: 'excluded',
+        travel_days: null,
+        exclusion_reason: 'Day Rangers are sold under local conditions without Delay Repay',
+      }));
+      const service = await serviceWithProducts();
+
+      const result = await service.evaluate({
+        ...request,
+        ticket_product_code: 'RANGERDAY',
+        journey_segments: [{ toc_code: 'GR' }, { toc_code: 'NT' }],
+      });
+
+      expect(result.eligible).toBe(false);
+      expect(result.ineligible_reason).toBe('product_excluded');
+      expect(result.fare_breakdown?.segments).toBeUndefined();
+    });
+
+    it('should pay on the whole fare without a ticket product repository', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate(request);
+
+      expect(result.compensation_pence).toBe(14875);
+      expect(result.fare_breakdown).toBeUndefined();
+    });
+
+    it('should value the band table on the product value when simulating', async () => {
+      mockCompensationBandRepository.findAllByScheme.mockResolvedValue([
+        { scheme_type: 'DR15', delay_threshold_minutes: 15, compensation_percentage: 25, single_percentage: 25, return_percentage: 25 },
+        { scheme_type: 'DR15', delay_threshold_minutes: 30, compensation_percentage: 50, single_percentage: 50, return_percentage: 25 },
+      ]);
+      const service = await serviceWithProducts();
+
+      const simulation = await service.simulate({ ...request, journey_id: undefined, ticket_format: 'single' });
+
+      expect(simulation.band_table.map((band) => band.compensation_pence)).toEqual([2125, 4250]);
+    });
+  });
+
+  describe('Fare components', () => {
+    const request: EvaluationRequest = {
+      journey_id: '550e8400-e29b-41d4-a716-446655440200',
+      toc_code: 'GR',
+      scheduled_departure: '2026-01-15T09:00:00Z',
+      delay_minutes: 35,
+      ticket_fare_pence: 5000,
+      ticket_format: 'single',
+      fare_components: [
+        { component_type: 'rail', amount_pence: 4200 },
+        { component_type: 'plusbus', amount_pence: 300 },
+        { component_type: 'reservation', amount_pence: 500 },
+      ],
+      claim_submitted_at: '2026-01-15T18:00:00Z',
+    };
+
+    const rulepack = (overrides: Record<string, unknown> = {}) => ({
+      toc_code: 'GR',
+      toc_name: 'LNER',
+      scheme: 'DR15',
+      min_threshold_minutes: 15,
+      allows_online_claims: true,
+      allows_postal_claims: false,
+      claim_portal_url: null,
+      max_claim_days: 28,
+      active: true,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockEvaluationRepository.findByJourneyId.mockResolvedValue(null);
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepack());
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        delay_threshold_minutes: 30,
+        compensation_percentage: 50,
+        single_percentage: 50,
+        return_percentage: 25,
+      });
+    });
+
+    it('should pay only on the compensable components and itemise the rest', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate(request);
+
+      expect(result.compensation_pence).toBe(2100);
+      expect(result.ticket_fare_pence).toBe(5000);
+      expect(result.applied_rules).toEqual(['DR15_30MIN_50PCT', 'FARE_COMPONENTS_EXCLUDED']);
+      expect(result.reasons).toContain('Paid on 4200 pence of compensable fare; 800 pence excluded (plusbus, reservation)');
+      expect(result.fare_breakdown?.fare_components).toMatchObject({
+        compensable_pence: 4200,
+        excluded_pence: 800,
+        components: [
+          { component_type: 'rail', compensable: true },
+          { component_type: 'plusbus', compensable: false, exclusion_reason: 'PlusBus is not covered by Delay Repay' },
+          { component_type: 'reservation', compensable: false },
+        ],
+      });
+      expect(result.decision_trace?.map((s) => s.step)).toContain('fare_components');
+    });
+
+    it('should follow the rulepack fare component policy', async () => {
+      mockTocRepository.findByTocCode.mockResolvedValue(rulepack({ fare_component_policy: { reservation: 'compensable' } }));
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate(request);
+
+      expect(result.compensation_pence).toBe(2350);
+      expect(result.fare_breakdown?.fare_components?.excluded_pence).toBe(300);
+    });
+
+    it('should add no rule or reason when every component is compensable', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate({
+        ...request,
+        fare_components: [{ component_type: 'rail', amount_pence: 5000 }],
+      });
+
+      expect(result.compensation_pence).toBe(2500);
+      expect(result.applied_rules).toEqual(['DR15_30MIN_50PCT']);
+      expect(result.fare_breakdown?.fare_components?.compensable_pence).toBe(5000);
+    });
+
+    it('should value a season ticket on its compensable components', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate({
+        ...request,
+        ticket_type: 'weekly_season',
+        ticket_fare_pence: 6000,
+        fare_components: [
+          { component_type: 'rail', amount_pence: 5000 },
+          { component_type: 'travelcard', amount_pence: 1000 },
+        ],
+      });
+
+      expect(result.fare_breakdown?.season_ticket).toMatchObject({ season_price_pence: 5000, per_journey_value_pence: 500 });
+      expect(result.compensation_pence).toBe(250);
+      expect(result.applied_rules).toEqual(['DR15_30MIN_50PCT', 'FARE_COMPONENTS_EXCLUDED', 'SEASON_TICKET_WEEKLY']);
+    });
+
+    it('should apportion only the compensable fare across multi-TOC segments', async () => {
+      mockTocRepository.findByTocCode.mockImplementation(async (tocCode: string) => rulepack({ toc_code: tocCode }));
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const result = await service.evaluate({
+        ...request,
+        journey_segments: [{ toc_code: 'GR' }, { toc_code: 'NT' }],
+      });
+
+      expect(result.fare_breakdown?.segments?.map((s) => s.fare_portion_pence)).toEqual([2100, 2100]);
+      expect(result.compensation_pence).toBe(2100);
+      expect(result.applied_rules).toContain('FARE_COMPONENTS_EXCLUDED');
+      expect(result.fare_breakdown?.fare_components?.excluded_pence).toBe(800);
+    });
+
+    it('should reject components that do not sum to the fare without saving', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const { InvalidFareComponentsError } = await import('../../src/services/fare-component-splitter.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      await expect(service.evaluate({ ...request, ticket_fare_pence: 6000 }))
+        .rejects.toBeInstanceOf(InvalidFareComponentsError);
+      expect(mockEvaluationRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should value the band table on the compensable fare when simulating', async () => {
+      mockCompensationBandRepository.findAllByScheme.mockResolvedValue([
+        { scheme_type: 'DR15', delay_threshold_minutes: 15, compensation_percentage: 25, single_percentage: 25, return_percentage: 25 },
+        { scheme_type: 'DR15', delay_threshold_minutes: 30, compensation_percentage: 50, single_percentage: 50, return_percentage: 25 },
+      ]);
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const simulation = await service.simulate({ ...request, journey_id: undefined });
+
+      expect(simulation.band_table.map((band) => band.compensation_pence)).toEqual([1050, 2100]);
+    });
+  });
+
+  // ============================================
+  // Simulation gating
+  // ============================================
+
+  describe('Simulation gating', () => {
+    const rulepack = (tocCode: string, scheme: string) => ({
+      toc_code: tocCode,
+      toc_name: tocCode,
+      scheme,
+      min_threshold_minutes: scheme === 'DR15' ? 15 : 30,
+      allows_online_claims: true,
+      allows_postal_claims: false,
+      claim_portal_url: null,
+      max_claim_days: 28,
+      active: true,
+    });
+
+    const bandFor = (scheme: string, delayMinutes: number) => {
+      const thresholds = scheme === 'DR15' ? [[60, 100], [30, 50], [15, 25]] : [[60, 100], [30, 50]];
+      const match = thresholds.find(([threshold]) => delayMinutes >= threshold);
+      return match ? { scheme_type: scheme, delay_threshold_minutes: match[0], compensation_percentage: match[1] } : null;
+    };
+
+    beforeEach(() => {
+      mockTocRepository.findByTocCode.mockImplementation(async (tocCode: string) =>
+        tocCode === 'SW' ? rulepack('SW', 'DR30') : rulepack('GR', 'DR15'));
+      mockCompensationBandRepository.findAllByScheme.mockResolvedValue([
+        bandFor('DR15', 15),
+        bandFor('DR15', 30),
+        bandFor('DR15', 60),
+      ]);
+      mockCompensationBandRepository.findBySchemeAndDelay.mockImplementation(
+        async (scheme: string, delayMinutes: number) => bandFor(scheme, delayMinutes)
+      );
+    });
+
+    it('should pay nothing in any band when a restriction blocks the ticket', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      // 07:45 UTC is 08:45 BST, inside the morning peak
+      const simulation = await service.simulate({
+        toc_code: 'GR',
+        scheduled_departure: '2026-06-15T07:45:00Z',
+        delay_minutes: 40,
+        ticket_fare_pence: 500000,
+        ticket_type: 'annual_season',
+        ticket_restrictions: ['OP'],
+        claim_submitted_at: '2026-06-16T08:00:00Z',
+      });
+
+      expect(simulation.outcome.ineligible_reason).toBe('blocking_restriction');
+      expect(simulation.band_table.map((b) => b.compensation_pence)).toEqual([0, 0, 0]);
+      expect(simulation.band_table.map((b) => b.compensation_percentage)).toEqual([0, 0, 0]);
+    });
+
+    it('should pay nothing in any band once the claim window has closed', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      const simulation = await service.simulate({
+        toc_code: 'GR',
+        scheduled_departure: '2026-01-15T09:00:00Z',
+        delay_minutes: 40,
+        ticket_fare_pence: 500000,
+        ticket_type: 'annual_season',
+        claim_submitted_at: '2026-03-01T08:00:00Z',
+      });
+
+      expect(simulation.outcome.ineligible_reason).toBe('claim_window_expired');
+      expect(simulation.band_table.map((b) => b.compensation_pence)).toEqual([0, 0, 0]);
+    });
+
+    it('should apportion each band across multi-TOC segments at the band delay', async () => {
+      const { EligibilityService } = await import('../../src/services/eligibility-service.js');
+      const service = new EligibilityService(mockTocRepository, mockCompensationBandRepository, mockEvaluationRepository);
+
+      // Both segments on time: the outcome pays nothing, the bands pay GR and SW under their own schemes
+      const simulation = await service.simulate({
+        toc_code: 'GR',
+        scheduled_departure: '2026-01-15T09:00:00Z',
+        ticket_fare_pence: 3000,
+        ticket_format: 'single',
+        claim_submitted_at: '2026-01-15T18:00:00Z',
+        journey_segments: [
+          {
+            toc_code: 'GR',
+            fare_portion_pence: 2000,
+            scheduled_arrival: '2026-01-15T11:00:00Z',
+            actual_arrival: '2026-01-15T11:00:00Z',
+          },
+          {
+            toc_code: 'SW',
+            fare_portion_pence: 1000,
+            scheduled_departure: '2026-01-15T11:20:00Z',
+            scheduled_arrival: '2026-01-15T12:00:00Z',
+            actual_arrival: '2026-01-15T12:00:00Z',
+          },
+        ],
+      });
+
+      expect(simulation.outcome.eligible).toBe(false);
+      expect(simulation.band_table.map((b) => b.compensation_pence)).toEqual([500, 1500, 3000]);
+      expect(simulation.band_table.map((b) => b.applied_rules)).toEqual([
+        ['MULTI_TOC_APPORTIONMENT'],
+        ['MULTI_TOC_APPORTIONMENT'],
+        ['MULTI_TOC_APPORTIONMENT'],
+      ]);
+    });
+  });
 });
@@ -0,0 +1,191 @@
+/**
+ * Unit tests for the event schemas
+ *
+ * Tests cover:
+ * - JourneyDelayConfirmed validation per schema_version and upcasting
+ * - Produced payload validation, including the outbox event builders
+ * - Published messages against the v1 schemas their consumers hold
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Ajv } from 'ajv';
+
+import {
+  EventSchemaError,
+  UnsupportedSchemaVersionError,
+  readConsumedEvent,
+  validateProducedPayload,
+} from '../../src/messaging/event-schemas.js';
+import { eligibilityEvaluatedEvent, eligibilitySupersededEvent } from '../../src/messaging/eligibility-events.js';
+import { toEnvelope } from '../../src/messaging/outbox-relay.js';
+import type { EvaluationResult } from '../../src/services/eligibility-service.js';
+
+import journeyDelayConfirmedFixtures from '../fixtures/messages/journey-delay-confirmed.fixture.json';
+import eligibilityEvaluatedFixtures from '../fixtures/messages/eligibility-evaluated.fixture.json';
+import eligibilityEvaluatedV1 from '../fixtures/schemas/eligibility-evaluated.v1.schema.json';
+import eligibilitySupersededV1 from '../fixtures/schemas/eligibility-superseded.v1.schema.json';
+
+describe('Event schemas', () => {
+  const unversioned = {
+    event_type: 'JourneyDelayConfirmed',
+    event_id: 'evt-1',
+    timestamp: '2026-01-15T12:25:00Z',
+    payload: {
+      journey_id: '550e8400-e29b-41d4-a716-446655440010',
+      toc_code: 'GR',
+      delay_minutes: 20,
+      ticket_fare_pence: 2500,
+    },
+  };
+
+  const result: EvaluationResult = {
+    evaluation_id: 'a1b2c3d4-0000-4000-8000-000000000001',
+    journey_id: '550e8400-e29b-41d4-a716-446655440010',
+    eligible: true,
+    scheme: 'DR15',
+    delay_minutes: 20,
+    compensation_percentage: 25,
+    compensation_pence: 625,
+    ticket_fare_pence: 2500,
+    reasons: ['Delay of 20 minutes qualifies for 25% refund under DR15 scheme'],
+    applied_rules: ['DR15_15MIN_25PCT'],
+    ticket_format: 'single',
+    claim_deadline: '2026-02-12',
+    claim_routing: {
+      toc_code: 'GR',
+      toc_name: 'LNER',
+      channels: [],
+      claim_portal_url: null,
+      claim_deadline: '2026-02-12',
+    },
+    evaluation_timestamp: '2026-01-15T12:26:00.000Z',
+    version: 1,
+  };
+
+  describe('readConsumedEvent', () => {
+    it('should upcast an unversioned event to v2', () => {
+      expect(readConsumedEvent('JourneyDelayConfirmed', unversioned)).toEqual({
+        ...unversioned,
+        schema_version: 2,
+        correlation_id: 'evt-1',
+        payload: {
+          ...unversioned.payload,
+          ticket_restrictions: [],
+          is_sleeper: false,
+          journey_segments: [],
+        },
+      });
+    });
+
+    it('should keep v1 values the producer sent', () => {
+      const event = {
+        ...unversioned,
+        schema_version: 1,
+        correlation_id: 'corr-1',
+        payload: { ...unversioned.payload, is_sleeper: true, ticket_restrictions: ['off_peak'] },
+      };
+
+      const upcast = readConsumedEvent('JourneyDelayConfirmed', event);
+
+      expect(upcast.correlation_id).toBe('corr-1');
+      expect(upcast.payload).toMatchObject({ is_sleeper: true, ticket_restrictions: ['off_peak'], journey_segments: [] });
+    });
+
+    it('should accept the existing message fixtures', () => {
+      const { _fixtureMetadata, ...events } = journeyDelayConfirmedFixtures;
+
+      for (const event of Object.values(events)) {
+        expect(readConsumedEvent('JourneyDelayConfirmed', event).schema_version).toBe(2);
+      }
+    });
+
+    it('should validate against the declared version', () => {
+      expect(() => readConsumedEvent('JourneyDelayConfirmed', { ...unversioned, schema_version: 2, correlation_id: 'corr-1' }))
+        .toThrow(EventSchemaError);
+    });
+
+    it('should list every schema violation', () => {
+      const event = { ...unversioned, payload: { ...unversioned.payload, toc_code: 7, is_sleeper: 'no' } };
+
+      try {
+        readConsumedEvent('JourneyDelayConfirmed', event);
+        expect.unreachable();
+      } catch (error) {
+        expect((error as EventSchemaError).errors).toEqual([
+          'payload.toc_code must be string',
+          'payload.is_sleeper must be boolean',
+        ]);
+      }
+    });
+
+    it('should reject an unknown schema_version', () => {
+      expect(() => readConsumedEvent('JourneyDelayConfirmed', { ...unversioned, schema_version: 3 }))
+        .toThrow(UnsupportedSchemaVersionError);
+    });
+  });
+
+  describe('validateProducedPayload', () => {
+    it('should return the current version for a valid payload', () => {
+      expect(validateProducedPayload('EligibilityEvaluated', eligibilityEvaluatedFixtures.eligibleEvaluationEvent.payload)).toBe(1);
+    });
+
+    it('should reject a payload missing a required field', () => {
+      const { compensation_pence, ...payload } = eligibilityEvaluatedFixtures.eligibleEvaluationEvent.payload;
+
+      expect(() => validateProducedPayload('EligibilityEvaluated', payload))
+        .toThrow("EligibilityEvaluated v1 does not match its schema: must have required property 'compensation_pence'");
+    });
+
+    it('should reject an event type with no schema', () => {
+      expect(() => validateProducedPayload('EligibilityCancelled', {})).toThrow(UnsupportedSchemaVersionError);
+    });
+  });
+
+  describe('eligibility event builders', () => {
+    it('should stamp EligibilityEvaluated with its schema version', () => {
+      expect(eligibilityEvaluatedEvent(result, 'GR', 'corr-1').schema_version).toBe(1);
+    });
+
+    it('should stamp EligibilitySuperseded with its schema version', () => {
+      const current = {
+        ...result,
+        evaluation_id: 'a1b2c3d4-0000-4000-8000-000000000002',
+        version: 2,
+        reevaluation_reason: 'Appeal',
+      };
+
+      expect(eligibilitySupersededEvent({ previous: result, current }, undefined).schema_version).toBe(1);
+    });
+
+    it('should refuse to build an event its consumers cannot read', () => {
+      const invalid = { ...result, evaluation_timestamp: undefined };
+
+      expect(() => eligibilityEvaluatedEvent(invalid, 'GR', 'corr-1')).toThrow(EventSchemaError);
+    });
+  });
+
+  describe('published schemas', () => {
+    const ajv = new Ajv();
+
+    const publish = (event: ReturnType<typeof eligibilityEvaluatedEvent>) => JSON.parse(JSON.stringify(toEnvelope({
+      ...event,
+      id: 'a1b2c3d4-0000-4000-8000-000000000009',
+      payload: event.payload as Record<string, unknown>,
+      created_at: '2026-01-15T12:26:00.000Z',
+      attempts: 0,
+    })));
+
+    it('should publish EligibilityEvaluated as consumers of v1 expect', () => {
+      const validate = ajv.compile(eligibilityEvaluatedV1);
+
+      expect(validate(publish(eligibilityEvaluatedEvent(result, 'GR', 'corr-1')))).toBe(true);
+    });
+
+    it('should publish EligibilitySuperseded as consumers of v1 expect', () => {
+      const validate = ajv.compile(eligibilitySupersededV1);
+      const current = { ...result, version: 2, reevaluation_reason: 'Appeal' };
+
+      expect(validate(publish(eligibilitySupersededEvent({ previous: result, current }, 'corr-1')))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Unit tests for the outbox event transports
+ *
+ * Tests cover:
+ * - KafkaTransport topic routing, keys and connection handling
+ * - A default topic for every produced event type
+ * - InProcessTransport subscribers
+ * - FileTransport JSON lines output
+ * - createEventTransport selection from the environment
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Producer } from 'kafkajs';
+
+import {
+  EventEnvelope,
+  EventTransportConfigError,
+  FileTransport,
+  InProcessTransport,
+  KafkaTransport,
+  UnroutableEventError,
+  createEventTransport,
+} from '../../src/messaging/event-transports.js';
+import { PRODUCED_EVENT_SCHEMAS } from '../../src/messaging/event-schemas.js';
+
+describe('Event transports', () => {
+  const envelope: EventEnvelope = {
+    event_id: 'a1b2c3d4-0000-4000-8000-000000000001',
+    event_type: 'EligibilityEvaluated',
+    schema_version: 1,
+    aggregate_type: 'eligibility_evaluation',
+    aggregate_id: '550e8400-e29b-41d4-a716-446655440010',
+    timestamp: '2026-01-15T12:26:00.000Z',
+    correlation_id: 'corr-1',
+    payload: { journey_id: '550e8400-e29b-41d4-a716-446655440010', eligible: true },
+  };
+
+  describe('KafkaTransport', () => {
+    let mockProducer: {
+      connect: ReturnType<typeof vi.fn>;
+      send: ReturnType<typeof vi.fn>;
+      disconnect: ReturnType<typeof vi.fn>;
+    };
+
+    beforeEach(() => {
+      mockProducer = {
+        connect: vi.fn().mockResolvedValue(undefined),
+        send: vi.fn().mockResolvedValue([]),
+        disconnect: vi.fn().mockResolvedValue(undefined),
+      };
+    });
+
+    it('should publish to the event topic keyed by aggregate', async () => {
+      const transport = new KafkaTransport(mockProducer as unknown as Producer);
+
+      await transport.publish(envelope);
+      await transport.publish(envelope);
+
+      expect(mockProducer.connect).toHaveBeenCalledTimes(1);
+      expect(mockProducer.send).toHaveBeenCalledWith({
+        topic: 'eligibility.evaluated',
+        messages: [{
+          key: envelope.aggregate_id,
+          value: JSON.stringify(envelope),
+          headers: { event_id: envelope.event_id, event_type: 'EligibilityEvaluated', schema_version: '1' },
+        }],
+      });
+    });
+
+    it('should route every produced event type by default', async () => {
+      const transport = new KafkaTransport(mockProducer as unknown as Producer);
+
+      for (const eventType of Object.keys(PRODUCED_EVENT_SCHEMAS)) {
+        await transport.publish({ ...envelope, event_type: eventType });
+      }
+
+      expect(mockProducer.send.mock.calls.map(([record]) => record.topic)).toEqual([
+        'eligibility.evaluated',
+        'eligibility.superseded',
+      ]);
+    });
+
+    it('should publish to a configured topic', async () => {
+      const transport = new KafkaTransport(mockProducer as unknown as Producer, { EligibilityEvaluated: 'eligibility.v1' });
+
+      await transport.publish(envelope);
+
+      expect(mockProducer.send).toHaveBeenCalledWith(expect.objectContaining({ topic: 'eligibility.v1' }));
+    });
+
+    it('should refuse an event type with no topic', async () => {
+      const transport = new KafkaTransport(mockProducer as unknown as Producer);
+
+      await expect(transport.publish({ ...envelope, event_type: 'Unknown' }))
+        .rejects.toBeInstanceOf(UnroutableEventError);
+      expect(mockProducer.send).not.toHaveBeenCalled();
+    });
+
+    it('should connect again after a failed connection', async () => {
+      mockProducer.connect.mockRejectedValueOnce(new Error('broker unavailable'));
+      const transport = new KafkaTransport(mockProducer as unknown as Producer);
+
+      await expect(transport.publish(envelope)).rejects.toThrow('broker unavailable');
+      await transport.publish(envelope);
+
+      expect(mockProducer.connect).toHaveBeenCalledTimes(2);
+      expect(mockProducer.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should disconnect on close only once connected', async () => {
+      const transport = new KafkaTransport(mockProducer as unknown as Producer);
+
+      await transport.close();
+      expect(mockProducer.disconnect).not.toHaveBeenCalled();
+
+      await transport.publish(envelope);
+      await transport.close();
+      expect(mockProducer.disconnect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('InProcessTransport', () => {
+    it('should hand each event to every subscriber', async () => {
+      const transport = new InProcessTransport();
+      const first = vi.fn();
+      const second = vi.fn();
+      transport.subscribe(first);
+      const unsubscribe = transport.subscribe(second);
+
+      await transport.publish(envelope);
+      unsubscribe();
+      await transport.publish(envelope);
+
+      expect(first).toHaveBeenCalledTimes(2);
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(first).toHaveBeenCalledWith(envelope);
+    });
+
+    it('should fail the publish when a subscriber throws', async () => {
+      const transport = new InProcessTransport();
+      transport.subscribe(() => {
+        throw new Error('subscriber failed');
+      });
+
+      await expect(transport.publish(envelope)).rejects.toThrow('subscriber failed');
+    });
+  });
+
+  describe('FileTransport', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'outbox-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should append one JSON line per event', async () => {
+      const path = join(directory, 'events', 'outbox.ndjson');
+      const transport = new FileTransport(path);
+
+      await transport.publish(envelope);
+      await transport.publish({ ...envelope, event_id: 'a1b2c3d4-0000-4000-8000-000000000002' });
+
+      const lines = (await readFile(path, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+      expect(lines.map((line) => line.event_id)).toEqual([
+        'a1b2c3d4-0000-4000-8000-000000000001',
+        'a1b2c3d4-0000-4000-8000-000000000002',
+      ]);
+      expect(lines[0]).toEqual(envelope);
+    });
+  });
+
+  describe('createEventTransport', () => {
+    it('should return null when no transport is configured', () => {
+      expect(createEventTransport({})).toBeNull();
+    });
+
+    it('should build the named transport', () => {
+      expect(createEventTransport({ OUTBOX_TRANSPORT: 'in_process' })?.name).toBe('in_process');
+      expect(createEventTransport({ OUTBOX_TRANSPORT: 'file', OUTBOX_FILE_PATH: '/tmp/x.ndjson' })?.name).toBe('file');
+    });
+
+    it('should default to Kafka when brokers are configured', () => {
+      expect(createEventTransport({ KAFKA_BROKERS: 'localhost:9092' })?.name).toBe('kafka');
+    });
+
+    it('should reject Kafka without brokers and unknown transports', () => {
+      expect(() => createEventTransport({ OUTBOX_TRANSPORT: 'kafka' })).toThrow(EventTransportConfigError);
+      expect(() => createEventTransport({ OUTBOX_TRANSPORT: 'carrier_pigeon' }))
+        .toThrow('OUTBOX_TRANSPORT must be one of kafka, in_process, file (got carrier_pigeon)');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for FareComponentSplitter
+ *
+ * Tests cover:
+ * - Default policy: only the rail fare is compensable
+ * - Scheme/TOC policy overrides
+ * - Components that do not match the fare, and invalid policies
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  FareComponentSplitter,
+  InvalidFareComponentPolicyError,
+  InvalidFareComponentsError,
+} from '../../src/services/fare-component-splitter.js';
+
+describe('FareComponentSplitter', () => {
+  const splitter = new FareComponentSplitter();
+
+  it('should compensate the rail fare and exclude add-ons by default', () => {
+    const breakdown = splitter.split({
+      ticket_fare_pence: 5000,
+      fare_components: [
+        { component_type: 'rail', amount_pence: 4200 },
+        { component_type: 'plusbus', amount_pence: 300, description: 'PlusBus Leeds' },
+        { component_type: 'reservation', amount_pence: 500 },
+      ],
+    });
+
+    expect(breakdown).toEqual({
+      compensable_pence: 4200,
+      excluded_pence: 800,
+      components: [
+        { component_type: 'rail', amount_pence: 4200, compensable: true },
+        {
+          component_type: 'plusbus',
+          amount_pence: 300,
+          description: 'PlusBus Leeds',
+          compensable: false,
+          exclusion_reason: 'PlusBus is not covered by Delay Repay',
+        },
+        {
+          component_type: 'reservation',
+          amount_pence: 500,
+          compensable: false,
+          exclusion_reason: 'Seat reservation fee is not covered by Delay Repay',
+        },
+      ],
+    });
+  });
+
+  it('should follow the rulepack component policy over the defaults', () => {
+    const breakdown = splitter.split({
+      ticket_fare_pence: 12000,
+      fare_components: [
+        { component_type: 'rail', amount_pence: 9000 },
+        { component_type: 'travelcard', amount_pence: 1000 },
+        { component_type: 'berth_supplement', amount_pence: 2000 },
+      ],
+      policy: { berth_supplement: 'compensable' },
+    });
+
+    expect(breakdown.compensable_pence).toBe(11000);
+    expect(breakdown.excluded_pence).toBe(1000);
+    expect(breakdown.components.map((c) => c.compensable)).toEqual([true, false, true]);
+  });
+
+  it('should reject components that do not sum to the ticket fare', () => {
+    expect(() => splitter.split({
+      ticket_fare_pence: 5000,
+      fare_components: [{ component_type: 'rail', amount_pence: 4000 }],
+    })).toThrow(new InvalidFareComponentsError('components do not sum to ticket fare (4000 of 5000 pence)'));
+  });
+
+  it('should reject an empty list and negative amounts', () => {
+    expect(() => splitter.split({ ticket_fare_pence: 0, fare_components: [] }))
+      .toThrow(InvalidFareComponentsError);
+    expect(() => splitter.split({
+      ticket_fare_pence: 0,
+      fare_components: [{ component_type: 'rail', amount_pence: -1 }, { component_type: 'plusbus', amount_pence: 1 }],
+    })).toThrow('rail amount_pence must be a non-negative integer');
+  });
+
+  it('should reject a policy with an unknown type or treatment', () => {
+    const request = {
+      ticket_fare_pence: 1000,
+      fare_components: [{ component_type: 'rail' as const, amount_pence: 1000 }],
+    };
+
+    expect(() => splitter.split({ ...request, policy: { parking: 'excluded' } }))
+      .toThrow(new InvalidFareComponentPolicyError('unknown component type parking'));
+    expect(() => splitter.split({ ...request, policy: { plusbus: true } }))
+      .toThrow(new InvalidFareComponentPolicyError("plusbus must be 'compensable' or 'excluded'"));
+    expect(() => splitter.split({ ...request, policy: [] })).toThrow(InvalidFareComponentPolicyError);
+  });
+});
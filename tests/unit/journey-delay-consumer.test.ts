@@ -0,0 +1,297 @@
+/**
+ * Unit tests for JourneyDelayConsumer
+ *
+ * Tests cover:
+ * - Message parsing and validation
+ * - Offsets committed only after the handler's transaction
+ * - Invalid messages skipped without blocking the partition
+ * - Handler retries and dead-lettering
+ * - Per-journey ordering across partitions
+ *
+ * Runs against the in-memory broker with a mocked handler.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import {
+  InvalidEventMessageError,
+  JourneyDelayConsumer,
+  parseJourneyDelayConfirmed,
+} from '../../src/messaging/journey-delay-consumer.js';
+import { InMemoryBroker } from '../../src/messaging/message-brokers.js';
+import type { JourneyDelayConfirmedEvent } from '../../src/handlers/journey-delay-confirmed.handler.js';
+
+describe('JourneyDelayConsumer', () => {
+  const TOPIC = 'journey.delay.confirmed';
+  const GROUP = 'eligibility-engine';
+
+  const event = (eventId: string, journeyId: string, overrides: Record<string, unknown> = {}) => ({
+    event_type: 'JourneyDelayConfirmed',
+    event_id: eventId,
+    timestamp: '2026-01-15T12:25:00Z',
+    correlation_id: `corr-${eventId}`,
+    payload: {
+      journey_id: journeyId,
+      toc_code: 'GR',
+      delay_minutes: 20,
+      ticket_fare_pence: 2500,
+    },
+    ...overrides,
+  });
+
+  const produce = (broker: InMemoryBroker, value: object | string, key = 'journey-1') => broker.produce(TOPIC, {
+    key,
+    value: typeof value === 'string' ? value : JSON.stringify(value),
+  });
+
+  let broker: InMemoryBroker;
+  let handler: { handle: ReturnType<typeof vi.fn> };
+  let logger: { info: ReturnType<typeof vi.fn>; error: ReturnType<typeof vi.fn>; debug: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    broker = new InMemoryBroker({ partitions: 2 });
+    handler = { handle: vi.fn().mockResolvedValue(undefined) };
+    logger = { info: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  });
+
+  describe('parseJourneyDelayConfirmed', () => {
+    it('should parse a valid event', () => {
+      const parsed = parseJourneyDelayConfirmed(JSON.stringify(event('evt-1', 'journey-1')));
+
+      expect(parsed.event_id).toBe('evt-1');
+      expect(parsed.payload.journey_id).toBe('journey-1');
+      expect(parsed.correlation_id).toBe('corr-evt-1');
+    });
+
+    it('should default correlation_id to event_id', () => {
+      const parsed = parseJourneyDelayConfirmed(JSON.stringify(event('evt-1', 'journey-1', { correlation_id: undefined })));
+
+      expect(parsed.correlation_id).toBe('evt-1');
+    });
+
+    it('should upcast an unversioned event to the current schema_version', () => {
+      const parsed = parseJourneyDelayConfirmed(JSON.stringify(event('evt-1', 'journey-1')));
+
+      expect(parsed.schema_version).toBe(2);
+      expect(parsed.payload).toMatchObject({ ticket_restrictions: [], is_sleeper: false, journey_segments: [] });
+    });
+
+    it('should accept a current-version event as sent', () => {
+      const current = event('evt-1', 'journey-1', {
+        schema_version: 2,
+        payload: {
+          journey_id: 'journey-1',
+          toc_code: 'GR',
+          delay_minutes: 20,
+          ticket_fare_pence: 2500,
+          ticket_restrictions: ['off_peak'],
+          is_sleeper: true,
+          journey_segments: [{ toc_code: 'GR' }],
+        },
+      });
+
+      expect(parseJourneyDelayConfirmed(JSON.stringify(current))).toEqual(current);
+    });
+
+    it.each([
+      [null, 'empty message'],
+      ['not json', 'not valid JSON'],
+      ['[]', 'must be a JSON object'],
+      [JSON.stringify(event('evt-1', 'journey-1', { event_type: 'JourneyCancelled' })), 'unexpected event_type JourneyCancelled'],
+      [JSON.stringify(event('', 'journey-1')), 'event_id must NOT have fewer than 1 characters'],
+      [JSON.stringify(event('evt-1', 'journey-1', { payload: undefined })), "must have required property 'payload'"],
+      [JSON.stringify(event('evt-1', '')), 'payload.journey_id must NOT have fewer than 1 characters'],
+      [JSON.stringify(event('evt-1', 'journey-1', { payload: { journey_id: 'journey-1', toc_code: 'GR', delay_minutes: '20', ticket_fare_pence: 2500 } })), 'payload.delay_minutes must be number'],
+      [JSON.stringify(event('evt-1', 'journey-1', { schema_version: 2 })), "payload must have required property 'ticket_restrictions'"],
+      [JSON.stringify(event('evt-1', 'journey-1', { schema_version: 3 })), 'unsupported schema_version 3'],
+    ])('should reject %s', (value, message) => {
+      expect(() => parseJourneyDelayConfirmed(value)).toThrow(InvalidEventMessageError);
+      expect(() => parseJourneyDelayConfirmed(value)).toThrow(`Invalid JourneyDelayConfirmed message: ${message}`);
+    });
+  });
+
+  describe('consuming', () => {
+    it('should hand each event to the handler and commit its offset', async () => {
+      const consumer = new JourneyDelayConsumer(broker, handler, { logger });
+      const { partition } = produce(broker, event('evt-1', 'journey-1'));
+
+      await consumer.start();
+      await broker.idle();
+
+      expect(handler.handle).toHaveBeenCalledWith(expect.objectContaining({ event_id: 'evt-1' }));
+      expect(broker.committedOffset(GROUP, TOPIC, partition)).toBe(1);
+      expect(logger.info).toHaveBeenCalledWith(
+        { topic: TOPIC, group_id: GROUP, broker: 'in_memory' },
+        'Consumer started'
+      );
+    });
+
+    it('should use the configured topic and group', async () => {
+      const consumer = new JourneyDelayConsumer(broker, handler, { topic: 'delays', groupId: 'replay' });
+      const { partition } = broker.produce('delays', { key: 'journey-1', value: JSON.stringify(event('evt-1', 'journey-1')) });
+      produce(broker, event('evt-2', 'journey-2'));
+
+      await consumer.start();
+      await broker.idle();
+
+      expect(handler.handle).toHaveBeenCalledTimes(1);
+      expect(broker.committedOffset('replay', 'delays', partition)).toBe(1);
+    });
+
+    it('should leave the offset uncommitted when the handler fails', async () => {
+      handler.handle.mockRejectedValueOnce(new Error('connection refused'));
+      const consumer = new JourneyDelayConsumer(broker, handler, { maxAttempts: 1 });
+      const { partition } = produce(broker, event('evt-1', 'journey-1'));
+
+      await consumer.start();
+      await broker.idle();
+      expect(broker.committedOffset(GROUP, TOPIC, partition)).toBe(0);
+
+      broker.redeliver();
+      await broker.idle();
+      expect(handler.handle).toHaveBeenCalledTimes(2);
+      expect(broker.committedOffset(GROUP, TOPIC, partition)).toBe(1);
+    });
+
+    it('should skip an invalid message and carry on with the partition', async () => {
+      const consumer = new JourneyDelayConsumer(broker, handler, { logger });
+      const { partition } = produce(broker, 'not json');
+      produce(broker, event('evt-2', 'journey-1'));
+
+      await consumer.start();
+      await broker.idle();
+
+      expect(handler.handle).toHaveBeenCalledTimes(1);
+      expect(broker.committedOffset(GROUP, TOPIC, partition)).toBe(2);
+      expect(logger.error).toHaveBeenCalledWith(
+        { topic: TOPIC, partition, offset: '0', error: 'Invalid JourneyDelayConfirmed message: not valid JSON' },
+        'Skipping invalid message'
+      );
+    });
+
+    it('should handle different journeys concurrently', async () => {
+      let active = 0;
+      let maxActive = 0;
+      handler.handle.mockImplementation(async () => {
+        active += 1;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active -= 1;
+      });
+      const consumer = new JourneyDelayConsumer(broker, handler);
+      produce(broker, event('evt-1', 'journey-1'), 'journey-1');
+      produce(broker, event('evt-2', 'journey-2'), 'journey-2');
+
+      await consumer.start();
+      await broker.idle();
+
+      expect(maxActive).toBe(2);
+    });
+
+    it('should keep one journey in order when its events arrive on different partitions', async () => {
+      const handled: string[] = [];
+      handler.handle.mockImplementation(async (received: JourneyDelayConfirmedEvent) => {
+        await new Promise((resolve) => setTimeout(resolve, received.event_id === 'evt-1' ? 10 : 0));
+        handled.push(received.event_id);
+      });
+      const consumer = new JourneyDelayConsumer(broker, handler);
+      // Keys on different partitions, same journey
+      produce(broker, event('evt-1', 'journey-1'), 'journey-1');
+      produce(broker, event('evt-2', 'journey-1'), 'journey-2');
+
+      await consumer.start();
+      await broker.idle();
+
+      expect(handled).toEqual(['evt-1', 'evt-2']);
+    });
+  });
+
+  describe('retries and dead letters', () => {
+    let deadLetters: { record: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      deadLetters = { record: vi.fn().mockResolvedValue(undefined) };
+    });
+
+    it('should retry a failing handler before giving up', async () => {
+      handler.handle
+        .mockRejectedValueOnce(new Error('connection refused'))
+        .mockResolvedValueOnce(undefined);
+      const consumer = new JourneyDelayConsumer(broker, handler, { retryBaseDelayMs: 1, deadLetters, logger });
+      const { partition } = produce(broker, event('evt-1', 'journey-1'));
+
+      await consumer.start();
+      await broker.idle();
+
+      expect(handler.handle).toHaveBeenCalledTimes(2);
+      expect(deadLetters.record).not.toHaveBeenCalled();
+      expect(broker.committedOffset(GROUP, TOPIC, partition)).toBe(1);
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ event_id: 'evt-1', attempts: 1, retry_in_ms: 1 }),
+        'Handler failed; retrying'
+      );
+    });
+
+    it('should dead-letter an event after maxAttempts and commit its offset', async () => {
+      handler.handle.mockImplementation(async (received: JourneyDelayConfirmedEvent) => {
+        if (received.event_id === 'evt-1') {
+          throw new Error('Unknown TOC code: ZZ');
+        }
+      });
+      const consumer = new JourneyDelayConsumer(broker, handler, { maxAttempts: 3, retryBaseDelayMs: 1, deadLetters });
+      const value = JSON.stringify(event('evt-1', 'journey-1'));
+      const { partition, offset } = produce(broker, value);
+      produce(broker, event('evt-2', 'journey-1'));
+
+      await consumer.start();
+      await broker.idle();
+
+      expect(handler.handle).toHaveBeenCalledTimes(4);
+      expect(deadLetters.record).toHaveBeenCalledWith({
+        topic: TOPIC,
+        partition,
+        message_offset: offset,
+        message_key: 'journey-1',
+        event_id: 'evt-1',
+        event_type: 'JourneyDelayConfirmed',
+        journey_id: 'journey-1',
+        payload: value,
+        error: 'Unknown TOC code: ZZ',
+        attempts: 3,
+      });
+      expect(broker.committedOffset(GROUP, TOPIC, partition)).toBe(2);
+    });
+
+    it('should dead-letter an invalid message without calling the handler', async () => {
+      const consumer = new JourneyDelayConsumer(broker, handler, { deadLetters });
+      produce(broker, 'not json');
+
+      await consumer.start();
+      await broker.idle();
+
+      expect(handler.handle).not.toHaveBeenCalled();
+      expect(deadLetters.record).toHaveBeenCalledWith(expect.objectContaining({
+        event_id: null,
+        journey_id: null,
+        payload: 'not json',
+        error: 'Invalid JourneyDelayConfirmed message: not valid JSON',
+        attempts: 1,
+      }));
+    });
+
+    it('should leave the offset uncommitted when the dead letter cannot be stored', async () => {
+      deadLetters.record.mockRejectedValueOnce(new Error('database unavailable'));
+      const consumer = new JourneyDelayConsumer(broker, handler, { deadLetters });
+      const { partition } = produce(broker, 'not json');
+
+      await consumer.start();
+      await broker.idle();
+      expect(broker.committedOffset(GROUP, TOPIC, partition)).toBe(0);
+
+      broker.redeliver();
+      await broker.idle();
+      expect(deadLetters.record).toHaveBeenCalledTimes(2);
+      expect(broker.committedOffset(GROUP, TOPIC, partition)).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Unit tests for the message brokers
+ *
+ * Tests cover:
+ * - KafkaBroker offset commits after the handler resolves
+ * - InMemoryBroker partitioning, ordering, commits and redelivery
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Kafka } from 'kafkajs';
+
+import { BrokerMessage, InMemoryBroker, KafkaBroker } from '../../src/messaging/message-brokers.js';
+
+describe('Message brokers', () => {
+  const subscription = { topic: 'journey.delay.confirmed', groupId: 'eligibility-engine', partitionsConsumedConcurrently: 3 };
+
+  describe('KafkaBroker', () => {
+    let mockConsumer: {
+      connect: ReturnType<typeof vi.fn>;
+      subscribe: ReturnType<typeof vi.fn>;
+      run: ReturnType<typeof vi.fn>;
+      commitOffsets: ReturnType<typeof vi.fn>;
+      disconnect: ReturnType<typeof vi.fn>;
+    };
+    let mockKafka: { consumer: ReturnType<typeof vi.fn> };
+
+    const eachMessage = async (handlerError?: Error) => {
+      const handler = vi.fn().mockImplementation(async () => {
+        if (handlerError) {
+          throw handlerError;
+        }
+      });
+      const broker = new KafkaBroker(mockKafka as unknown as Kafka);
+      await broker.consume(subscription, handler);
+
+      const { eachMessage: run } = mockConsumer.run.mock.calls[0][0];
+      const result = run({
+        topic: 'journey.delay.confirmed',
+        partition: 2,
+        message: {
+          offset: '41',
+          key: Buffer.from('journey-1'),
+          value: Buffer.from('{"event_type":"JourneyDelayConfirmed"}'),
+          headers: { event_id: Buffer.from('evt-1'), trace: [Buffer.from('a'), Buffer.from('b')] },
+        },
+      });
+      return { handler, result, broker };
+    };
+
+    beforeEach(() => {
+      mockConsumer = {
+        connect: vi.fn().mockResolvedValue(undefined),
+        subscribe: vi.fn().mockResolvedValue(undefined),
+        run: vi.fn().mockResolvedValue(undefined),
+        commitOffsets: vi.fn().mockResolvedValue(undefined),
+        disconnect: vi.fn().mockResolvedValue(undefined),
+      };
+      mockKafka = { consumer: vi.fn().mockReturnValue(mockConsumer) };
+    });
+
+    it('should join the group with auto-commit off', async () => {
+      await eachMessage();
+
+      expect(mockKafka.consumer).toHaveBeenCalledWith({ groupId: 'eligibility-engine' });
+      expect(mockConsumer.subscribe).toHaveBeenCalledWith({ topics: ['journey.delay.confirmed'] });
+      expect(mockConsumer.run).toHaveBeenCalledWith(expect.objectContaining({
+        autoCommit: false,
+        partitionsConsumedConcurrently: 3,
+      }));
+    });
+
+    it('should commit the next offset once the handler resolves', async () => {
+      const { handler, result } = await eachMessage();
+      await result;
+
+      expect(handler).toHaveBeenCalledWith({
+        topic: 'journey.delay.confirmed',
+        partition: 2,
+        offset: '41',
+        key: 'journey-1',
+        value: '{"event_type":"JourneyDelayConfirmed"}',
+        headers: { event_id: 'evt-1', trace: 'a' },
+      });
+      expect(mockConsumer.commitOffsets).toHaveBeenCalledWith([
+        { topic: 'journey.delay.confirmed', partition: 2, offset: '42' },
+      ]);
+    });
+
+    it('should not commit when the handler throws', async () => {
+      const { result } = await eachMessage(new Error('database unavailable'));
+
+      await expect(result).rejects.toThrow('database unavailable');
+      expect(mockConsumer.commitOffsets).not.toHaveBeenCalled();
+    });
+
+    it('should disconnect on stop', async () => {
+      const { broker } = await eachMessage();
+      await broker.stop();
+      await broker.stop();
+
+      expect(mockConsumer.disconnect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('InMemoryBroker', () => {
+    it('should keep records with the same key on one partition in order', async () => {
+      const broker = new InMemoryBroker({ partitions: 4 });
+      const written = ['a', 'b', 'c'].map((value) => broker.produce('t', { key: 'journey-1', value }));
+
+      expect(new Set(written.map((position) => position.partition)).size).toBe(1);
+      expect(written.map((position) => position.offset)).toEqual(['0', '1', '2']);
+
+      const seen: string[] = [];
+      await broker.consume({ ...subscription, topic: 't' }, async (message) => {
+        seen.push(message.value ?? '');
+      });
+      await broker.idle();
+
+      expect(seen).toEqual(['a', 'b', 'c']);
+      expect(broker.committedOffset('eligibility-engine', 't', written[0].partition)).toBe(3);
+    });
+
+    it('should deliver records produced after the consumer joined', async () => {
+      const broker = new InMemoryBroker();
+      const handler = vi.fn().mockResolvedValue(undefined);
+      await broker.consume(subscription, handler);
+
+      broker.produce('journey.delay.confirmed', { key: 'journey-2', value: '{}', headers: { event_id: 'evt-2' } });
+      await broker.idle();
+
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+        key: 'journey-2',
+        value: '{}',
+        offset: '0',
+        headers: { event_id: 'evt-2' },
+      }));
+    });
+
+    it('should leave a failed message uncommitted and deliver it again', async () => {
+      const broker = new InMemoryBroker({ partitions: 1 });
+      const seen: BrokerMessage[] = [];
+      const handler = vi.fn().mockImplementation(async (message: BrokerMessage) => {
+        seen.push(message);
+        if (seen.length === 1) {
+          throw new Error('database unavailable');
+        }
+      });
+      broker.produce('t', { key: 'journey-1', value: 'first' });
+      broker.produce('t', { key: 'journey-1', value: 'second' });
+
+      await broker.consume({ ...subscription, topic: 't' }, handler);
+      await broker.idle();
+      expect(broker.committedOffset('eligibility-engine', 't', 0)).toBe(0);
+
+      broker.redeliver();
+      await broker.idle();
+
+      expect(seen.map((message) => message.value)).toEqual(['first', 'first', 'second']);
+      expect(broker.committedOffset('eligibility-engine', 't', 0)).toBe(2);
+    });
+
+    it('should consume partitions concurrently', async () => {
+      const broker = new InMemoryBroker({ partitions: 2 });
+      let active = 0;
+      let maxActive = 0;
+      let release: () => void = () => undefined;
+      const gate = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      broker.produce('t', { key: 'journey-1', value: '1' });
+      broker.produce('t', { key: 'journey-2', value: '2' });
+
+      await broker.consume({ ...subscription, topic: 't' }, async () => {
+        active += 1;
+        maxActive = Math.max(maxActive, active);
+        await gate;
+        active -= 1;
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+      release();
+      await broker.idle();
+
+      expect(maxActive).toBe(2);
+    });
+  });
+});
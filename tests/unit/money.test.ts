@@ -0,0 +1,71 @@
+/**
+ * Unit tests for the shared money module
+ *
+ * Tests cover:
+ * - Rounding modes (floor, half_up, half_even)
+ * - Rounding rule names for applied_rules
+ * - Money policy defaults
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  moneyPolicyFor,
+  percentageOfPence,
+  roundPence,
+  roundingRuleName,
+} from '../../src/lib/money.js';
+
+describe('money', () => {
+  describe('roundPence', () => {
+    it('should round down under floor', () => {
+      expect(roundPence(250.9, 'floor')).toBe(250);
+    });
+
+    it('should round halves up under half_up', () => {
+      expect(roundPence(250.5, 'half_up')).toBe(251);
+      expect(roundPence(250.49, 'half_up')).toBe(250);
+    });
+
+    it('should round halves to the even penny under half_even', () => {
+      expect(roundPence(250.5, 'half_even')).toBe(250);
+      expect(roundPence(251.5, 'half_even')).toBe(252);
+      expect(roundPence(250.51, 'half_even')).toBe(251);
+    });
+
+    it('should not let float error push a whole amount down', () => {
+      // 0.29 * 100 = 28.999999999999996
+      expect(roundPence(0.29 * 100, 'floor')).toBe(29);
+    });
+  });
+
+  describe('percentageOfPence', () => {
+    it('should name the rounding rule only when a fraction was rounded', () => {
+      expect(percentageOfPence(1002, 25, 'half_up')).toEqual({ pence: 251, rounding_rule: 'ROUNDING_HALF_UP' });
+      expect(percentageOfPence(1000, 25, 'half_up')).toEqual({ pence: 250 });
+    });
+
+    it('should handle fractional percentages', () => {
+      expect(percentageOfPence(3000, 33.33, 'floor')).toEqual({ pence: 999, rounding_rule: 'ROUNDING_FLOOR' });
+    });
+  });
+
+  describe('roundingRuleName', () => {
+    it('should upper-case the mode', () => {
+      expect(roundingRuleName('half_even')).toBe('ROUNDING_HALF_EVEN');
+    });
+  });
+
+  describe('moneyPolicyFor', () => {
+    it('should default to floor rounding with no minimum', () => {
+      expect(moneyPolicyFor({})).toEqual({ rounding_mode: 'floor', min_claimable_pence: 0 });
+      expect(moneyPolicyFor({ rounding_mode: null, min_claimable_pence: null }))
+        .toEqual({ rounding_mode: 'floor', min_claimable_pence: 0 });
+    });
+
+    it('should keep configured values', () => {
+      expect(moneyPolicyFor({ rounding_mode: 'half_even', min_claimable_pence: 200 }))
+        .toEqual({ rounding_mode: 'half_even', min_claimable_pence: 200 });
+    });
+  });
+});
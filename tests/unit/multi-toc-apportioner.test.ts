@@ -27,15 +27,38 @@ describe('MultiTocApportioner', () => {
    * ADR COMPLIANCE: ADR-014 TDD Mandatory
    */
 
+  // Seeded scheme bands (eligibility_engine.compensation_bands)
+  const schemeBands = [
+    { scheme_type: 'DR15', delay_threshold_minutes: 15, compensation_percentage: 25, single_percentage: 25, return_percentage: 25 },
+    { scheme_type: 'DR15', delay_threshold_minutes: 30, compensation_percentage: 50, single_percentage: 50, return_percentage: 50 },
+    { scheme_type: 'DR15', delay_threshold_minutes: 60, compensation_percentage: 50, single_percentage: 100, return_percentage: 50 },
+    { scheme_type: 'DR15', delay_threshold_minutes: 120, compensation_percentage: 100, single_percentage: 100, return_percentage: 100 },
+    { scheme_type: 'DR30', delay_threshold_minutes: 30, compensation_percentage: 50, single_percentage: 50, return_percentage: 50 },
+    { scheme_type: 'DR30', delay_threshold_minutes: 60, compensation_percentage: 50, single_percentage: 100, return_percentage: 50 },
+    { scheme_type: 'DR30', delay_threshold_minutes: 120, compensation_percentage: 100, single_percentage: 100, return_percentage: 100 },
+  ];
+
   // Mock dependencies
   let mockTocRulepackRepository: {
     findByTocCode: ReturnType<typeof vi.fn>;
   };
+  let mockCompensationBandRepository: {
+    findBySchemeAndDelay: ReturnType<typeof vi.fn>;
+    findAllByScheme: ReturnType<typeof vi.fn>;
+  };
 
   beforeEach(() => {
     mockTocRulepackRepository = {
       findByTocCode: vi.fn(),
     };
+    mockCompensationBandRepository = {
+      findBySchemeAndDelay: vi.fn(async (scheme: string, delayMinutes: number) =>
+        schemeBands
+          .filter((b) => b.scheme_type === scheme && b.delay_threshold_minutes <= delayMinutes)
+          .pop() ?? null
+      ),
+      findAllByScheme: vi.fn(),
+    };
   });
 
   // ============================================
@@ -85,7 +108,7 @@ describe('MultiTocApportioner', () => {
 
       // Act - This will fail until MultiTocApportioner is implemented
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
       const result = await apportioner.apportion(request);
 
       // Assert
@@ -143,7 +166,7 @@ describe('MultiTocApportioner', () => {
 
       // Act
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
       const result = await apportioner.apportion(request);
 
       // Assert
@@ -192,7 +215,7 @@ describe('MultiTocApportioner', () => {
 
       // Act
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
       const result = await apportioner.apportion(request);
 
       // Assert
@@ -239,7 +262,7 @@ describe('MultiTocApportioner', () => {
 
       // Act
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
       const result = await apportioner.apportion(request);
 
       // Assert
@@ -276,7 +299,7 @@ describe('MultiTocApportioner', () => {
 
       // Act
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
       const result = await apportioner.apportion(request);
 
       // Assert - no segments eligible
@@ -316,7 +339,7 @@ describe('MultiTocApportioner', () => {
 
       // Act
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
       const result = await apportioner.apportion(request);
 
       // Assert - unknown TOC should be marked as ineligible with note
@@ -351,7 +374,7 @@ describe('MultiTocApportioner', () => {
 
       // Act
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
       const result = await apportioner.apportion(request);
 
       // Assert - inactive TOC should be marked ineligible
@@ -386,7 +409,7 @@ describe('MultiTocApportioner', () => {
 
       // Act & Assert
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
 
       await expect(apportioner.apportion(request)).rejects.toThrow(
         'Fare portions do not sum to total fare'
@@ -404,7 +427,7 @@ describe('MultiTocApportioner', () => {
 
       // Act & Assert
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
 
       await expect(apportioner.apportion(request)).rejects.toThrow(
         'At least one journey segment is required'
@@ -431,7 +454,7 @@ describe('MultiTocApportioner', () => {
 
       // Act
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
       const result = await apportioner.apportion(request);
 
       // Assert - order should be maintained
@@ -461,7 +484,7 @@ describe('MultiTocApportioner', () => {
 
       // Act
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
       const result = await apportioner.apportion(request);
 
       // Assert - zero fare segment should have zero compensation
@@ -492,7 +515,7 @@ describe('MultiTocApportioner', () => {
       });
 
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
       const result = await apportioner.apportion(request);
 
       expect(result.segment_eligibilities[0].compensation_percentage).toBe(25);
@@ -515,7 +538,7 @@ describe('MultiTocApportioner', () => {
       });
 
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
       const result = await apportioner.apportion(request);
 
       expect(result.segment_eligibilities[0].compensation_percentage).toBe(50);
@@ -538,12 +561,38 @@ describe('MultiTocApportioner', () => {
       });
 
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
       const result = await apportioner.apportion(request);
 
       expect(result.segment_eligibilities[0].compensation_percentage).toBe(100);
     });
 
+    it('should apply 100% of a single fare for a 60-119 minute delay', async () => {
+      const request: ApportionmentRequest = {
+        journey_id: '550e8400-e29b-41d4-a716-446655440024',
+        delay_minutes: 75,
+        total_fare_pence: 4000,
+        journey_segments: [
+          { toc_code: 'GR', fare_portion_pence: 4000, segment_order: 1 },
+        ],
+      };
+
+      mockTocRulepackRepository.findByTocCode.mockResolvedValue({
+        toc_code: 'GR',
+        scheme: 'DR15',
+        active: true,
+      });
+
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
+
+      const single = await apportioner.apportion({ ...request, ticket_format: 'single' });
+      const ret = await apportioner.apportion(request);
+
+      expect(single.segment_eligibilities[0].compensation_percentage).toBe(100);
+      expect(ret.segment_eligibilities[0].compensation_percentage).toBe(50);
+    });
+
     it('should apply different percentages to segments based on their scheme thresholds', async () => {
       // Arrange - 20 min delay: DR15 gets 25%, DR30 gets 0%
       const request: ApportionmentRequest = {
@@ -561,7 +610,7 @@ describe('MultiTocApportioner', () => {
         .mockResolvedValueOnce({ toc_code: 'SW', scheme: 'DR30', active: true });
 
       const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
-      const apportioner = new MultiTocApportioner(mockTocRulepackRepository);
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
       const result = await apportioner.apportion(request);
 
       const grSegment = result.segment_eligibilities.find(s => s.toc_code === 'GR');
@@ -570,5 +619,330 @@ describe('MultiTocApportioner', () => {
       expect(grSegment!.compensation_percentage).toBe(25);
       expect(swSegment!.compensation_percentage).toBe(0);
     });
+
+    it('should use a TOC band override below the scheme threshold', async () => {
+      const request: ApportionmentRequest = {
+        journey_id: '550e8400-e29b-41d4-a716-446655440025',
+        delay_minutes: 5,
+        total_fare_pence: 4000,
+        journey_segments: [
+          { toc_code: 'CC', fare_portion_pence: 4000, segment_order: 1 },
+        ],
+        rules_as_of: '2026-01-15',
+      };
+
+      mockTocRulepackRepository.findByTocCode.mockResolvedValue({
+        toc_code: 'CC',
+        scheme: 'DR15',
+        active: true,
+      });
+      mockCompensationBandRepository.findBySchemeAndDelay.mockResolvedValue({
+        scheme_type: 'DR15',
+        toc_code: 'CC',
+        delay_threshold_minutes: 2,
+        compensation_percentage: 10,
+      });
+
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
+      const result = await apportioner.apportion(request);
+
+      expect(mockCompensationBandRepository.findBySchemeAndDelay).toHaveBeenCalledWith('DR15', 5, '2026-01-15', 'CC');
+      expect(result.segment_eligibilities[0].compensation_percentage).toBe(10);
+      expect(result.segment_eligibilities[0].compensation_pence).toBe(400);
+    });
+  });
+
+  // ============================================
+  // Per-segment delays and responsible operator
+  // ============================================
+
+  describe('Per-segment delays', () => {
+    const grThenNorthern = (grActualArrival: string, ntActualArrival: string): ApportionmentRequest => ({
+      journey_id: '550e8400-e29b-41d4-a716-446655440030',
+      delay_minutes: 0,
+      total_fare_pence: 5000,
+      ticket_format: 'single',
+      journey_segments: [
+        {
+          toc_code: 'GR',
+          fare_portion_pence: 3000,
+          segment_order: 1,
+          scheduled_departure: '2026-01-15T09:00:00Z',
+          scheduled_arrival: '2026-01-15T11:00:00Z',
+          actual_arrival: grActualArrival,
+        },
+        {
+          toc_code: 'NT',
+          fare_portion_pence: 2000,
+          segment_order: 2,
+          scheduled_departure: '2026-01-15T11:20:00Z',
+          scheduled_arrival: '2026-01-15T12:00:00Z',
+          actual_arrival: ntActualArrival,
+        },
+      ],
+    });
+
+    beforeEach(() => {
+      mockTocRulepackRepository.findByTocCode.mockImplementation(async (tocCode: string) => ({
+        toc_code: tocCode,
+        scheme: 'DR15',
+        active: true,
+      }));
+    });
+
+    it('should pay each segment on the destination delay when every connection is made', async () => {
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
+      // GR 10 minutes late but makes the connection; Northern 35 minutes late
+      const result = await apportioner.apportion(grThenNorthern('2026-01-15T11:10:00Z', '2026-01-15T12:35:00Z'));
+
+      expect(result.segment_eligibilities.map((s) => s.delay_minutes)).toEqual([35, 35]);
+      expect(result.segment_eligibilities.map((s) => s.compensation_pence)).toEqual([1500, 1000]);
+      expect(result.segment_eligibilities.some((s) => s.missed_connection)).toBe(false);
+      expect(result.destination_delay_minutes).toBe(35);
+      expect(result.responsible_toc_code).toBe('NT');
+    });
+
+    it('should pay nothing for an intermediate delay when the connection is still made', async () => {
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
+      // GR 18 minutes late, arriving 11:18 for the 11:20 connection; Northern on time
+      const result = await apportioner.apportion(grThenNorthern('2026-01-15T11:18:00Z', '2026-01-15T12:00:00Z'));
+
+      expect(result.segment_eligibilities.map((s) => s.delay_minutes)).toEqual([0, 0]);
+      expect(result.segment_eligibilities.every((s) => !s.eligible)).toBe(true);
+      expect(result.total_compensation_pence).toBe(0);
+      expect(result.destination_delay_minutes).toBe(0);
+      expect(result.responsible_toc_code).toBeNull();
+    });
+
+    it('should hold the segment that missed its connection responsible for the destination delay', async () => {
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
+      // GR arrives 11:30, after the 11:20 connection; the next Northern service arrives 13:05
+      const result = await apportioner.apportion(grThenNorthern('2026-01-15T11:30:00Z', '2026-01-15T13:05:00Z'));
+
+      const [gr, nt] = result.segment_eligibilities;
+      expect(gr).toMatchObject({ missed_connection: true, delay_minutes: 65, compensation_pence: 3000 });
+      expect(nt).toMatchObject({ delay_minutes: 0, compensation_pence: 0, delay_attributed_to: 'GR' });
+      expect(result.total_compensation_pence).toBe(3000);
+      expect(result.destination_delay_minutes).toBe(65);
+      expect(result.responsible_toc_code).toBe('GR');
+    });
+
+    it('should hold the final operator responsible when segments carry no times', async () => {
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
+      const result = await apportioner.apportion({
+        journey_id: '550e8400-e29b-41d4-a716-446655440031',
+        delay_minutes: 20,
+        total_fare_pence: 5000,
+        journey_segments: [
+          { toc_code: 'GR', fare_portion_pence: 3000, segment_order: 1 },
+          { toc_code: 'NT', fare_portion_pence: 2000, segment_order: 2 },
+        ],
+      });
+
+      expect(result.segment_eligibilities.map((s) => s.delay_minutes)).toEqual([20, 20]);
+      expect(result.responsible_toc_code).toBe('NT');
+    });
+  });
+
+  describe('Apportionment strategies', () => {
+    const unpricedSegments = (): JourneySegment[] => [
+      { toc_code: 'GR', segment_order: 1, origin_crs: 'KGX', destination_crs: 'YRK', weight: 2 },
+      { toc_code: 'NT', segment_order: 2, origin_crs: 'YRK', destination_crs: 'SCA', weight: 1 },
+      { toc_code: 'TP', segment_order: 3, origin_crs: 'SCA', destination_crs: 'MBR', weight: 1 },
+    ];
+    const mockStationDistanceRepository = {
+      findMiles: vi.fn(async (fromCrs: string, toCrs: string) => (
+        { 'KGX-YRK': 188.5, 'SCA-YRK': 42, 'MBR-SCA': 48.25 } as Record<string, number>
+      )[[fromCrs, toCrs].sort().join('-')] ?? null),
+    };
+
+    beforeEach(() => {
+      mockTocRulepackRepository.findByTocCode.mockImplementation(async (tocCode: string) => ({
+        toc_code: tocCode,
+        scheme: 'DR15',
+        active: true,
+      }));
+    });
+
+    it('should split the fare equally when segments carry no fare portions', async () => {
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
+      const result = await apportioner.apportion({
+        journey_id: '550e8400-e29b-41d4-a716-446655440040',
+        delay_minutes: 30,
+        total_fare_pence: 1000,
+        journey_segments: unpricedSegments(),
+      });
+
+      expect(result.apportionment_strategy).toBe('equal');
+      // 333.33 each: the leftover penny goes to the first segment
+      expect(result.segment_eligibilities.map((s) => s.fare_portion_pence)).toEqual([334, 333, 333]);
+      expect(result.segment_eligibilities.map((s) => s.compensation_pence)).toEqual([167, 166, 166]);
+    });
+
+    it('should weight the fare by segment mileage', async () => {
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const apportioner = new MultiTocApportioner(
+        mockTocRulepackRepository,
+        mockCompensationBandRepository,
+        mockStationDistanceRepository
+      );
+      const result = await apportioner.apportion({
+        journey_id: '550e8400-e29b-41d4-a716-446655440041',
+        delay_minutes: 30,
+        total_fare_pence: 10000,
+        journey_segments: unpricedSegments(),
+        apportionment_strategy: 'mileage',
+      });
+
+      const portions = result.segment_eligibilities.map((s) => s.fare_portion_pence);
+      expect(result.apportionment_strategy).toBe('mileage');
+      // 188.5 : 42 : 48.25 miles = 6762.33 : 1506.73 : 1730.94 pence before rounding
+      expect(portions).toEqual([6762, 1507, 1731]);
+      expect(portions.reduce((sum, pence) => sum + pence, 0)).toBe(10000);
+    });
+
+    it('should weight the fare by caller-supplied weights', async () => {
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
+      const result = await apportioner.apportion({
+        journey_id: '550e8400-e29b-41d4-a716-446655440042',
+        delay_minutes: 30,
+        total_fare_pence: 1001,
+        journey_segments: unpricedSegments(),
+        apportionment_strategy: 'weights',
+      });
+
+      expect(result.apportionment_strategy).toBe('weights');
+      // 500.5 : 250.25 : 250.25 - the half penny beats the quarters
+      expect(result.segment_eligibilities.map((s) => s.fare_portion_pence)).toEqual([501, 250, 250]);
+    });
+
+    it('should record fare_portions when the caller prices every segment', async () => {
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
+      const result = await apportioner.apportion({
+        journey_id: '550e8400-e29b-41d4-a716-446655440043',
+        delay_minutes: 30,
+        total_fare_pence: 5000,
+        journey_segments: [
+          { toc_code: 'GR', fare_portion_pence: 3000, segment_order: 1 },
+          { toc_code: 'NT', fare_portion_pence: 2000, segment_order: 2 },
+        ],
+      });
+
+      expect(result.apportionment_strategy).toBe('fare_portions');
+      expect(result.segment_eligibilities.map((s) => s.fare_portion_pence)).toEqual([3000, 2000]);
+    });
+
+    it('should ignore caller fare portions when another strategy is named', async () => {
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
+      const result = await apportioner.apportion({
+        journey_id: '550e8400-e29b-41d4-a716-446655440044',
+        delay_minutes: 30,
+        total_fare_pence: 5000,
+        journey_segments: [
+          { toc_code: 'GR', fare_portion_pence: 4000, segment_order: 1 },
+          { toc_code: 'NT', fare_portion_pence: 4000, segment_order: 2 },
+        ],
+        apportionment_strategy: 'equal',
+      });
+
+      expect(result.segment_eligibilities.map((s) => s.fare_portion_pence)).toEqual([2500, 2500]);
+    });
+
+    it('should refuse mileage apportionment without a station distance table', async () => {
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const { ApportionmentStrategyError } = await import('../../src/services/apportionment-strategies.js');
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
+
+      await expect(apportioner.apportion({
+        journey_id: '550e8400-e29b-41d4-a716-446655440045',
+        delay_minutes: 30,
+        total_fare_pence: 1000,
+        journey_segments: unpricedSegments(),
+        apportionment_strategy: 'mileage',
+      })).rejects.toBeInstanceOf(ApportionmentStrategyError);
+    });
+
+    it('should refuse mileage apportionment for a station pair with no distance', async () => {
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const apportioner = new MultiTocApportioner(
+        mockTocRulepackRepository,
+        mockCompensationBandRepository,
+        mockStationDistanceRepository
+      );
+      const segments = unpricedSegments();
+      segments[2].destination_crs = 'NCL';
+
+      await expect(apportioner.apportion({
+        journey_id: '550e8400-e29b-41d4-a716-446655440046',
+        delay_minutes: 30,
+        total_fare_pence: 1000,
+        journey_segments: segments,
+        apportionment_strategy: 'mileage',
+      })).rejects.toThrow('no station distance for SCA-NCL');
+    });
+
+    it('should refuse weighted apportionment when a segment has no weight', async () => {
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
+      const segments = unpricedSegments();
+      delete segments[1].weight;
+
+      await expect(apportioner.apportion({
+        journey_id: '550e8400-e29b-41d4-a716-446655440047',
+        delay_minutes: 30,
+        total_fare_pence: 1000,
+        journey_segments: segments,
+        apportionment_strategy: 'weights',
+      })).rejects.toThrow('segment 2 needs a weight');
+    });
+
+    it('should refuse fare_portions apportionment when a segment is unpriced', async () => {
+      const { MultiTocApportioner } = await import('../../src/services/multi-toc-apportioner.js');
+      const apportioner = new MultiTocApportioner(mockTocRulepackRepository, mockCompensationBandRepository);
+
+      await expect(apportioner.apportion({
+        journey_id: '550e8400-e29b-41d4-a716-446655440048',
+        delay_minutes: 30,
+        total_fare_pence: 1000,
+        journey_segments: [
+          { toc_code: 'GR', fare_portion_pence: 600, segment_order: 1 },
+          { toc_code: 'NT', segment_order: 2 },
+        ],
+        apportionment_strategy: 'fare_portions',
+      })).rejects.toThrow('needs fare_portion_pence on every segment');
+    });
+  });
+
+  describe('allocatePence', () => {
+    it('should always sum to the total', async () => {
+      const { allocatePence } = await import('../../src/services/apportionment-strategies.js');
+
+      for (const [total, weights] of [[100, [1, 1, 1]], [7, [3, 3, 3, 3]], [9999, [0.1, 0.2, 0.7]], [1, [5, 5]]] as const) {
+        const shares = allocatePence(total, [...weights]);
+        expect(shares.reduce((sum, pence) => sum + pence, 0)).toBe(total);
+      }
+    });
+
+    it('should hand leftover pence to the largest remainders', async () => {
+      const { allocatePence } = await import('../../src/services/apportionment-strategies.js');
+
+      // 3.3 : 3.3 : 3.4 of 10 pence - floors give 9, the 0.4 share takes the last penny
+      expect(allocatePence(10, [33, 33, 34])).toEqual([3, 3, 4]);
+    });
+
+    it('should reject weights that are all zero', async () => {
+      const { allocatePence } = await import('../../src/services/apportionment-strategies.js');
+
+      expect(() => allocatePence(100, [0, 0])).toThrow('not all zero');
+    });
   });
 });
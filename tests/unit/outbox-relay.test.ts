@@ -0,0 +1,160 @@
+/**
+ * Unit tests for OutboxRelay
+ *
+ * Tests cover:
+ * - Claiming, publishing and stamping a batch in one transaction
+ * - Failed publishes recorded with exponential backoff
+ * - Rollback when the batch cannot be claimed
+ * - Polling until stopped
+ *
+ * pg is mocked; claim SQL runs against real Postgres in the integration suites.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const mockQuery = vi.fn();
+const mockConnect = vi.fn();
+const mockEnd = vi.fn();
+
+vi.mock('pg', () => ({
+  Client: vi.fn().mockImplementation(() => ({
+    connect: mockConnect,
+    query: mockQuery,
+    end: mockEnd,
+  })),
+}));
+
+import { OutboxRelay, retryDelayMs, toEnvelope } from '../../src/messaging/outbox-relay.js';
+import { EventEnvelope, EventTransport } from '../../src/messaging/event-transports.js';
+
+describe('OutboxRelay', () => {
+  const dbConfig = { host: 'localhost', port: 5432, database: 'test', user: 'test', password: 'test' };
+
+  const row = (id: string, aggregateId: string, attempts = 0) => ({
+    id,
+    aggregate_type: 'eligibility_evaluation',
+    aggregate_id: aggregateId,
+    event_type: 'EligibilityEvaluated',
+    schema_version: 1,
+    payload: { journey_id: aggregateId, correlation_id: `corr-${id}` },
+    created_at: new Date('2026-01-15T12:26:00Z'),
+    attempts,
+  });
+
+  let claimedRows: ReturnType<typeof row>[];
+  let transport: EventTransport & { publish: ReturnType<typeof vi.fn>; close: ReturnType<typeof vi.fn> };
+
+  const statements = () => mockQuery.mock.calls.map(([sql]) => (sql as string).trim().split(/\s+/).slice(0, 2).join(' '));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    claimedRows = [];
+    mockConnect.mockResolvedValue(undefined);
+    mockEnd.mockResolvedValue(undefined);
+    mockQuery.mockImplementation(async (sql: string) => (
+      sql.includes('SKIP LOCKED') ? { rows: claimedRows } : { rows: [], rowCount: 1 }
+    ));
+    transport = {
+      name: 'in_process',
+      publish: vi.fn().mockResolvedValue(undefined),
+      close: vi.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('retryDelayMs', () => {
+    it('should double the delay per attempt up to the maximum', () => {
+      expect([1, 2, 3, 4].map((attempts) => retryDelayMs(attempts, 1000, 5000))).toEqual([1000, 2000, 4000, 5000]);
+    });
+  });
+
+  describe('toEnvelope', () => {
+    it('should carry the row id as event_id and the payload correlation id', () => {
+      const envelope = toEnvelope({ ...row('evt-1', 'journey-1'), created_at: '2026-01-15T12:26:00.000Z' });
+
+      expect(envelope).toEqual({
+        event_id: 'evt-1',
+        event_type: 'EligibilityEvaluated',
+        schema_version: 1,
+        aggregate_type: 'eligibility_evaluation',
+        aggregate_id: 'journey-1',
+        timestamp: '2026-01-15T12:26:00.000Z',
+        correlation_id: 'corr-evt-1',
+        payload: { journey_id: 'journey-1', correlation_id: 'corr-evt-1' },
+      });
+    });
+  });
+
+  describe('relayBatch', () => {
+    it('should publish claimed rows in order and stamp them in one transaction', async () => {
+      claimedRows = [row('evt-1', 'journey-1'), row('evt-2', 'journey-2')];
+      const relay = new OutboxRelay(dbConfig, transport, { batchSize: 10 });
+
+      const result = await relay.relayBatch();
+
+      expect(result).toEqual({ claimed: 2, published: 2, failed: 0 });
+      expect(transport.publish.mock.calls.map(([envelope]) => (envelope as EventEnvelope).event_id))
+        .toEqual(['evt-1', 'evt-2']);
+      expect(statements()).toEqual(['BEGIN', 'SELECT o.id,', 'UPDATE eligibility_engine.outbox', 'UPDATE eligibility_engine.outbox', 'COMMIT']);
+      expect(mockQuery.mock.calls[1][1]).toEqual([10]);
+      expect(mockQuery.mock.calls[2][1]).toEqual(['evt-1']);
+      expect(mockEnd).toHaveBeenCalled();
+    });
+
+    it('should record a failed publish and back off by its attempt count', async () => {
+      claimedRows = [row('evt-1', 'journey-1', 2), row('evt-2', 'journey-2')];
+      transport.publish.mockRejectedValueOnce(new Error('broker unavailable'));
+      const logger = { info: vi.fn(), error: vi.fn(), debug: vi.fn() };
+      const relay = new OutboxRelay(dbConfig, transport, { retryBaseDelayMs: 1000, logger });
+
+      const result = await relay.relayBatch();
+
+      expect(result).toEqual({ claimed: 2, published: 1, failed: 1 });
+      const [failSql, failParams] = mockQuery.mock.calls[2];
+      expect(failSql).toContain('last_error = $2');
+      expect(failParams).toEqual(['evt-1', 'broker unavailable', 4000]);
+      expect(mockQuery.mock.calls[3][1]).toEqual(['evt-2']);
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ event_id: 'evt-1', attempts: 3, retry_in_ms: 4000 }),
+        'Outbox publish failed'
+      );
+    });
+
+    it('should roll back when the batch cannot be claimed', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('SKIP LOCKED')) {
+          throw new Error('connection reset');
+        }
+        return { rows: [] };
+      });
+      const relay = new OutboxRelay(dbConfig, transport);
+
+      await expect(relay.relayBatch()).rejects.toThrow('connection reset');
+      expect(statements()).toContain('ROLLBACK');
+      expect(transport.publish).not.toHaveBeenCalled();
+      expect(mockEnd).toHaveBeenCalled();
+    });
+  });
+
+  describe('start/stop', () => {
+    it('should poll until stopped and then close the transport', async () => {
+      vi.useFakeTimers();
+      claimedRows = [row('evt-1', 'journey-1')];
+      const relay = new OutboxRelay(dbConfig, transport, { pollIntervalMs: 1000 });
+
+      relay.start();
+      await vi.advanceTimersByTimeAsync(0);
+      claimedRows = [];
+      await vi.advanceTimersByTimeAsync(1000);
+      await relay.stop();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(transport.publish).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls.filter(([sql]) => (sql as string).includes('SKIP LOCKED'))).toHaveLength(2);
+      expect(transport.close).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,675 @@
+/**
+ * Unit tests for Postgres repositories
+ *
+ * Tests cover:
+ * - PostgresTocRepository row lookup
+ * - PostgresCompensationBandRepository NUMERIC conversion and ordering
+ * - PostgresEvaluationRepository save/find mapping
+ * - PostgresSeatedFareRepository journey-date lookup
+ * - PostgresStationDistanceRepository lookup in either direction
+ * - PostgresTicketProductRepository journey-date lookup
+ * - PostgresOutboxRepository relay claims and bookkeeping
+ * - PostgresDeadLetterRepository recording, listing and replay bookkeeping
+ * - PostgresProcessedEventRepository inbox lookup, latest event per journey and recording
+ *
+ * Uses a mock Queryable; SQL is exercised against real Postgres in the
+ * integration suites.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { PostgresTocRepository } from '../../src/repositories/postgres-toc-repository.js';
+import { PostgresCompensationBandRepository } from '../../src/repositories/postgres-compensation-band-repository.js';
+import { PostgresEvaluationRepository } from '../../src/repositories/postgres-evaluation-repository.js';
+import { PostgresSeatedFareRepository } from '../../src/repositories/postgres-seated-fare-repository.js';
+import { PostgresStationDistanceRepository } from '../../src/repositories/postgres-station-distance-repository.js';
+import { PostgresTicketProductRepository } from '../../src/repositories/postgres-ticket-product-repository.js';
+import { PostgresOutboxRepository } from '../../src/repositories/postgres-outbox-repository.js';
+import { PostgresDeadLetterRepository } from '../../src/repositories/postgres-dead-letter-repository.js';
+import { PostgresProcessedEventRepository } from '../../src/repositories/postgres-processed-event-repository.js';
+
+describe('Postgres repositories', () => {
+  let mockDb: { query: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    mockDb = {
+      query: vi.fn(),
+    };
+  });
+
+  describe('PostgresTocRepository', () => {
+    it('should return the rulepack row for a known TOC', async () => {
+      const row = {
+        toc_code: 'GR',
+        toc_name: 'LNER',
+        scheme: 'DR15',
+        allows_online_claims: true,
+        max_claim_days: 28,
+        active: true,
+      };
+      mockDb.query.mockResolvedValue({ rows: [row] });
+
+      const repository = new PostgresTocRepository(mockDb);
+      const result = await repository.findByTocCode('GR');
+
+      expect(result).toEqual(row);
+      expect(mockDb.query).toHaveBeenCalledWith(expect.stringContaining('toc_rulepacks'), ['GR', null]);
+    });
+
+    it('should pass the journey date to select the rulepack version', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      const repository = new PostgresTocRepository(mockDb);
+      await repository.findByTocCode('GR', '2026-01-05');
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).toContain('effective_from <=');
+      expect(params).toEqual(['GR', '2026-01-05']);
+    });
+
+    it('should fall back to the scheme money policy, season divisors and component policy when the rulepack sets none', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      const repository = new PostgresTocRepository(mockDb);
+      await repository.findByTocCode('GR');
+
+      const [sql] = mockDb.query.mock.calls[0];
+      expect(sql).toContain('COALESCE(r.rounding_mode, s.rounding_mode) AS rounding_mode');
+      expect(sql).toContain('COALESCE(r.min_claimable_pence, s.min_claimable_pence) AS min_claimable_pence');
+      expect(sql).toContain('COALESCE(r.season_ticket_divisors, s.season_ticket_divisors) AS season_ticket_divisors');
+      expect(sql).toContain('COALESCE(r.fare_component_policy, s.fare_component_policy) AS fare_component_policy');
+    });
+
+    it('should return null for an unknown TOC', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      const repository = new PostgresTocRepository(mockDb);
+
+      expect(await repository.findByTocCode('ZZ')).toBeNull();
+    });
+  });
+
+  describe('PostgresCompensationBandRepository', () => {
+    it('should convert NUMERIC percentages to numbers', async () => {
+      mockDb.query.mockResolvedValue({
+        rows: [{
+          id: 'ba5eba11-0000-4000-8000-000000000015',
+          scheme_type: 'DR15',
+          toc_code: null,
+          delay_threshold_minutes: 15,
+          compensation_percentage: '25.00',
+          single_percentage: '25.00',
+          return_percentage: '25.00',
+          effective_from: '1970-01-01',
+          effective_to: null,
+        }],
+      });
+
+      const repository = new PostgresCompensationBandRepository(mockDb);
+      const band = await repository.findBySchemeAndDelay('DR15', 20, '2026-01-05');
+
+      expect(band).toEqual({
+        id: 'ba5eba11-0000-4000-8000-000000000015',
+        scheme_type: 'DR15',
+        toc_code: null,
+        delay_threshold_minutes: 15,
+        compensation_percentage: 25,
+        single_percentage: 25,
+        return_percentage: 25,
+        effective_from: '1970-01-01',
+        effective_to: null,
+      });
+      expect(mockDb.query).toHaveBeenCalledWith(expect.any(String), ['DR15', 20, '2026-01-05', null]);
+    });
+
+    it('should layer TOC overrides over the scheme bands when a TOC is given', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      const repository = new PostgresCompensationBandRepository(mockDb);
+      await repository.findBySchemeAndDelay('DR15', 5, '2026-01-05', 'CC');
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).toContain('toc_code IS NULL OR toc_code = $4');
+      expect(sql).toContain('toc_code NULLS LAST');
+      expect(params).toEqual(['DR15', 5, '2026-01-05', 'CC']);
+    });
+
+    it('should return null when the delay is below every band', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      const repository = new PostgresCompensationBandRepository(mockDb);
+
+      expect(await repository.findBySchemeAndDelay('DR30', 10)).toBeNull();
+    });
+
+    it('should return all bands for a scheme', async () => {
+      mockDb.query.mockResolvedValue({
+        rows: [
+          {
+            scheme_type: 'DR30',
+            delay_threshold_minutes: 60,
+            compensation_percentage: '50.00',
+            single_percentage: '100.00',
+            return_percentage: '50.00',
+          },
+          {
+            scheme_type: 'DR30',
+            delay_threshold_minutes: 120,
+            compensation_percentage: '100.00',
+            single_percentage: '100.00',
+            return_percentage: '100.00',
+          },
+        ],
+      });
+
+      const repository = new PostgresCompensationBandRepository(mockDb);
+      const bands = await repository.findAllByScheme('DR30');
+
+      expect(mockDb.query).toHaveBeenCalledWith(expect.any(String), ['DR30', null, null]);
+      expect(bands.map((b) => b.compensation_percentage)).toEqual([50, 100]);
+      expect(bands.map((b) => b.single_percentage)).toEqual([100, 100]);
+    });
+  });
+
+  describe('PostgresEvaluationRepository', () => {
+    it('should insert the evaluation with JSON-encoded reasons and rules', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      const repository = new PostgresEvaluationRepository(mockDb);
+      await repository.save({
+        journey_id: '550e8400-e29b-41d4-a716-446655440001',
+        eligible: true,
+        scheme: 'DR15',
+        delay_minutes: 20,
+        compensation_percentage: 25,
+        compensation_pence: 375,
+        ticket_fare_pence: 1500,
+        reasons: ['Delay of 20 minutes qualifies for 25% refund under DR15 scheme'],
+        applied_rules: ['DR15_15MIN_25PCT'],
+        toc_code: 'GR',
+        ticket_format: 'return',
+        delayed_leg: 'outbound',
+        rule_version: { rules_as_of: '2026-01-15', toc_rulepack_id: 'c0ffee00-0000-4000-8000-000000000001' },
+        evaluation_id: 'a1b2c3d4-0000-4000-8000-000000000001',
+        evaluation_timestamp: '2026-01-15T12:30:00.000Z',
+      });
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).toContain('INSERT INTO eligibility_engine.eligibility_evaluations');
+      expect(params[0]).toBe('a1b2c3d4-0000-4000-8000-000000000001');
+      expect(params[2]).toBe('GR');
+      expect(params[9]).toBe(JSON.stringify(['Delay of 20 minutes qualifies for 25% refund under DR15 scheme']));
+      expect(params[10]).toBe(JSON.stringify(['DR15_15MIN_25PCT']));
+      expect(params[14]).toBe('return');
+      expect(params[15]).toBe('outbound');
+      expect(JSON.parse(params[16])).toEqual({
+        rules_as_of: '2026-01-15',
+        toc_rulepack_id: 'c0ffee00-0000-4000-8000-000000000001',
+      });
+    });
+
+    it('should store the decision trace as JSON', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+      const trace = [
+        { step: 'toc_lookup' as const, outcome: 'GR (LNER) uses DR15', details: { scheme: 'DR15' } },
+        { step: 'compensation' as const, outcome: 'Eligible for 375 pence (25%)', details: { compensation_pence: 375 } },
+      ];
+
+      const repository = new PostgresEvaluationRepository(mockDb);
+      await repository.save({
+        journey_id: '550e8400-e29b-41d4-a716-446655440001',
+        eligible: true,
+        scheme: 'DR15',
+        delay_minutes: 20,
+        compensation_percentage: 25,
+        compensation_pence: 375,
+        ticket_fare_pence: 1500,
+        reasons: [],
+        applied_rules: [],
+        decision_trace: trace,
+      });
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).toContain('decision_trace');
+      expect(JSON.parse(params[21])).toEqual(trace);
+    });
+
+    it('should map a stored row back to an EvaluationResult', async () => {
+      mockDb.query.mockResolvedValue({
+        rows: [{
+          id: 'a1b2c3d4-0000-4000-8000-000000000001',
+          journey_id: '550e8400-e29b-41d4-a716-446655440001',
+          toc_code: 'GR',
+          scheme: 'DR15',
+          delay_minutes: 20,
+          eligible: true,
+          compensation_percentage: '25.00',
+          compensation_pence: 375,
+          ticket_fare_pence: 1500,
+          reasons: ['Delay of 20 minutes qualifies for 25% refund under DR15 scheme'],
+          applied_rules: ['DR15_15MIN_25PCT'],
+          created_at: new Date('2026-01-15T12:30:00Z'),
+        }],
+      });
+
+      const repository = new PostgresEvaluationRepository(mockDb);
+      const result = await repository.findByJourneyId('550e8400-e29b-41d4-a716-446655440001');
+
+      expect(result).not.toBeNull();
+      expect(result!.compensation_percentage).toBe(25);
+      expect(result!.evaluation_id).toBe('a1b2c3d4-0000-4000-8000-000000000001');
+      expect(result!.evaluation_timestamp).toBe('2026-01-15T12:30:00.000Z');
+    });
+
+    it('should only return the current version', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      const repository = new PostgresEvaluationRepository(mockDb);
+      await repository.findByJourneyId('550e8400-e29b-41d4-a716-446655440001');
+
+      expect(mockDb.query.mock.calls[0][0]).toContain('superseded_at IS NULL');
+    });
+
+    it('should list every version oldest first', async () => {
+      const row = {
+        journey_id: '550e8400-e29b-41d4-a716-446655440001',
+        toc_code: 'GR',
+        scheme: 'DR15',
+        delay_minutes: 20,
+        eligible: true,
+        compensation_percentage: '25.00',
+        compensation_pence: 375,
+        ticket_fare_pence: 1500,
+        reasons: [],
+        applied_rules: [],
+        created_at: new Date('2026-01-15T12:30:00Z'),
+      };
+      mockDb.query.mockResolvedValue({
+        rows: [
+          {
+            ...row,
+            id: 'a1b2c3d4-0000-4000-8000-000000000001',
+            version: 1,
+            superseded_by: 'a1b2c3d4-0000-4000-8000-000000000002',
+            superseded_at: new Date('2026-01-18T10:00:00Z'),
+          },
+          {
+            ...row,
+            id: 'a1b2c3d4-0000-4000-8000-000000000002',
+            version: 2,
+            supersedes_evaluation_id: 'a1b2c3d4-0000-4000-8000-000000000001',
+            reevaluation_reason: 'Passenger appeal',
+          },
+        ],
+      });
+
+      const repository = new PostgresEvaluationRepository(mockDb);
+      const history = await repository.findHistoryByJourneyId('550e8400-e29b-41d4-a716-446655440001');
+
+      expect(mockDb.query.mock.calls[0][0]).toContain('ORDER BY version ASC');
+      expect(history.map((h) => h.version)).toEqual([1, 2]);
+      expect(history[0].superseded_at).toBe('2026-01-18T10:00:00.000Z');
+      expect(history[1].reevaluation_reason).toBe('Passenger appeal');
+    });
+
+    it('should report whether the version was superseded', async () => {
+      const repository = new PostgresEvaluationRepository(mockDb);
+
+      mockDb.query.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+      expect(await repository.supersede(
+        'a1b2c3d4-0000-4000-8000-000000000001',
+        'a1b2c3d4-0000-4000-8000-000000000002',
+        '2026-01-18T10:00:00.000Z'
+      )).toBe(true);
+
+      mockDb.query.mockResolvedValueOnce({ rows: [], rowCount: 0 });
+      expect(await repository.supersede(
+        'a1b2c3d4-0000-4000-8000-000000000001',
+        'a1b2c3d4-0000-4000-8000-000000000003',
+        '2026-01-18T10:05:00.000Z'
+      )).toBe(false);
+    });
+
+    it('should return null when no evaluation exists', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      const repository = new PostgresEvaluationRepository(mockDb);
+
+      expect(await repository.findByJourneyId('550e8400-e29b-41d4-a716-446655440099')).toBeNull();
+    });
+  });
+
+  describe('PostgresSeatedFareRepository', () => {
+    it('should look up the seated equivalent that had started by the journey date', async () => {
+      const row = {
+        route_code: 'EUS-INV',
+        sleeper_class: 'standard_berth',
+        seated_equivalent_pence: 8500,
+        effective_from: '2026-01-01',
+        effective_to: null,
+      };
+      mockDb.query.mockResolvedValue({ rows: [row] });
+
+      const repository = new PostgresSeatedFareRepository(mockDb);
+      const result = await repository.findByRouteAndClass('EUS-INV', 'standard_berth', '2026-01-15');
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).toContain('ORDER BY effective_from DESC');
+      expect(params).toEqual(['EUS-INV', 'standard_berth', '2026-01-15']);
+      expect(result).toEqual(row);
+    });
+
+    it('should return null when the route has no seated equivalent', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      const repository = new PostgresSeatedFareRepository(mockDb);
+
+      expect(await repository.findByRouteAndClass('PNZ-PAD', 'standard_berth')).toBeNull();
+      expect(mockDb.query.mock.calls[0][1]).toEqual(['PNZ-PAD', 'standard_berth', null]);
+    });
+  });
+
+  describe('PostgresStationDistanceRepository', () => {
+    it('should convert NUMERIC miles and match the pair in either direction', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ miles: '188.50' }] });
+
+      const repository = new PostgresStationDistanceRepository(mockDb);
+      const miles = await repository.findMiles('YRK', 'KGX');
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(miles).toBe(188.5);
+      expect(sql).toContain('OR (from_crs = $2 AND to_crs = $1)');
+      expect(params).toEqual(['YRK', 'KGX']);
+    });
+
+    it('should return null for an unknown station pair', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      const repository = new PostgresStationDistanceRepository(mockDb);
+
+      expect(await repository.findMiles('KGX', 'NCL')).toBeNull();
+    });
+  });
+
+  describe('PostgresTicketProductRepository', () => {
+    it('should look up the product rule that had started by the journey date', async () => {
+      const row = {
+        product_code: 'ALLLINE7',
+        product_name: 'All Line Rover (7 days)',
+        valuation_basis: 'per_day',
+        travel_days: 7,
+        journeys_per_day: null,
+        exclusion_reason: null,
+        effective_from: '2026-01-01',
+        effective_to: null,
+      };
+      mockDb.query.mockResolvedValue({ rows: [row] });
+
+      const repository = new PostgresTicketProductRepository(mockDb);
+      const result = await repository.findByCode('ALLLINE7', '2026-01-15');
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).toContain('ORDER BY effective_from DESC');
+      expect(params).toEqual(['ALLLINE7', '2026-01-15']);
+      expect(result).toEqual(row);
+    });
+
+    it('should return null for an unknown product', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      const repository = new PostgresTicketProductRepository(mockDb);
+
+      expect(await repository.findByCode('NOPE')).toBeNull();
+      expect(mockDb.query.mock.calls[0][1]).toEqual(['NOPE', null]);
+    });
+  });
+
+  describe('PostgresOutboxRepository', () => {
+    it('should enqueue an event with its schema version', async () => {
+      mockDb.query.mockResolvedValue({ rows: [], rowCount: 1 });
+
+      const repository = new PostgresOutboxRepository(mockDb);
+      await repository.enqueue({
+        aggregate_type: 'eligibility_evaluation',
+        aggregate_id: '550e8400-e29b-41d4-a716-446655440010',
+        event_type: 'EligibilityEvaluated',
+        schema_version: 1,
+        payload: { journey_id: '550e8400-e29b-41d4-a716-446655440010' },
+      });
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).toContain('INSERT INTO eligibility_engine.outbox');
+      expect(params).toEqual([
+        'eligibility_evaluation',
+        '550e8400-e29b-41d4-a716-446655440010',
+        'EligibilityEvaluated',
+        1,
+        '{"journey_id":"550e8400-e29b-41d4-a716-446655440010"}',
+      ]);
+    });
+
+    it('should claim due rows at the head of each aggregate, skipping locked rows', async () => {
+      mockDb.query.mockResolvedValue({
+        rows: [{
+          id: 'a1b2c3d4-0000-4000-8000-000000000001',
+          aggregate_type: 'eligibility_evaluation',
+          aggregate_id: '550e8400-e29b-41d4-a716-446655440010',
+          event_type: 'EligibilityEvaluated',
+          schema_version: 1,
+          payload: { journey_id: '550e8400-e29b-41d4-a716-446655440010' },
+          created_at: new Date('2026-01-15T12:26:00Z'),
+          attempts: 2,
+        }],
+      });
+
+      const repository = new PostgresOutboxRepository(mockDb);
+      const messages = await repository.claimUnpublished(50);
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).toContain('FOR UPDATE OF o SKIP LOCKED');
+      expect(sql).toContain('(earlier.created_at, earlier.id) < (o.created_at, o.id)');
+      expect(sql).toContain('o.next_attempt_at <= CURRENT_TIMESTAMP');
+      expect(params).toEqual([50]);
+      expect(messages).toEqual([{
+        id: 'a1b2c3d4-0000-4000-8000-000000000001',
+        aggregate_type: 'eligibility_evaluation',
+        aggregate_id: '550e8400-e29b-41d4-a716-446655440010',
+        event_type: 'EligibilityEvaluated',
+        schema_version: 1,
+        payload: { journey_id: '550e8400-e29b-41d4-a716-446655440010' },
+        created_at: '2026-01-15T12:26:00.000Z',
+        attempts: 2,
+      }]);
+    });
+
+    it('should stamp published_at and count the attempt', async () => {
+      mockDb.query.mockResolvedValue({ rows: [], rowCount: 1 });
+
+      const repository = new PostgresOutboxRepository(mockDb);
+      await repository.markPublished('a1b2c3d4-0000-4000-8000-000000000001');
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).toContain('published_at = CURRENT_TIMESTAMP');
+      expect(sql).toContain('attempts = attempts + 1');
+      expect(params).toEqual(['a1b2c3d4-0000-4000-8000-000000000001']);
+    });
+
+    it('should record a failed attempt with its retry delay', async () => {
+      mockDb.query.mockResolvedValue({ rows: [], rowCount: 1 });
+
+      const repository = new PostgresOutboxRepository(mockDb);
+      await repository.markFailed('a1b2c3d4-0000-4000-8000-000000000001', 'broker unavailable', 4000);
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).toContain("next_attempt_at = CURRENT_TIMESTAMP + $3 * INTERVAL '1 millisecond'");
+      expect(sql).not.toContain('published_at');
+      expect(params).toEqual(['a1b2c3d4-0000-4000-8000-000000000001', 'broker unavailable', 4000]);
+    });
+  });
+
+  describe('PostgresDeadLetterRepository', () => {
+    const row = {
+      id: 'd1e2f3a4-0000-4000-8000-000000000001',
+      topic: 'journey.delay.confirmed',
+      partition: 1,
+      message_offset: '41',
+      message_key: '550e8400-e29b-41d4-a716-446655440010',
+      event_id: 'evt-1',
+      event_type: 'JourneyDelayConfirmed',
+      journey_id: '550e8400-e29b-41d4-a716-446655440010',
+      payload: '{"event_id":"evt-1"}',
+      error: 'Unknown TOC code: ZZ',
+      attempts: 3,
+      status: 'pending',
+      created_at: new Date('2026-01-15T12:26:00Z'),
+      last_failed_at: new Date('2026-01-15T12:27:00Z'),
+      replayed_at: null,
+    };
+
+    it('should record a message once per topic, partition and offset', async () => {
+      mockDb.query.mockResolvedValue({ rows: [], rowCount: 1 });
+
+      const repository = new PostgresDeadLetterRepository(mockDb);
+      await repository.record({
+        topic: 'journey.delay.confirmed',
+        partition: 1,
+        message_offset: '41',
+        message_key: null,
+        event_id: null,
+        event_type: null,
+        journey_id: null,
+        payload: 'not json',
+        error: 'Invalid JourneyDelayConfirmed message: not valid JSON',
+        attempts: 1,
+      });
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).toContain('ON CONFLICT (topic, partition, message_offset) DO UPDATE');
+      expect(sql).toContain('attempts = eligibility_engine.dead_letters.attempts + EXCLUDED.attempts');
+      expect(params).toEqual([
+        'journey.delay.confirmed', 1, '41', null, null, null, null,
+        'not json', 'Invalid JourneyDelayConfirmed message: not valid JSON', 1,
+      ]);
+    });
+
+    it('should list dead letters with ISO timestamps, filtered by status', async () => {
+      mockDb.query.mockResolvedValue({ rows: [row] });
+
+      const repository = new PostgresDeadLetterRepository(mockDb);
+      const letters = await repository.list({ status: 'pending', limit: 50 });
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).toContain('ORDER BY created_at, id');
+      expect(params).toEqual(['pending', 50]);
+      expect(letters).toEqual([{
+        ...row,
+        created_at: '2026-01-15T12:26:00.000Z',
+        last_failed_at: '2026-01-15T12:27:00.000Z',
+        replayed_at: null,
+      }]);
+    });
+
+    it('should list every status when none is given', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      const repository = new PostgresDeadLetterRepository(mockDb);
+      await repository.list({ limit: 10 });
+
+      expect(mockDb.query.mock.calls[0][1]).toEqual([null, 10]);
+    });
+
+    it('should return null for an unknown id', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      const repository = new PostgresDeadLetterRepository(mockDb);
+
+      expect(await repository.findById('d1e2f3a4-0000-4000-8000-000000000009')).toBeNull();
+    });
+
+    it('should mark a replay and count the attempt', async () => {
+      mockDb.query.mockResolvedValue({
+        rows: [{ ...row, status: 'replayed', attempts: 4, replayed_at: new Date('2026-01-16T09:00:00Z') }],
+      });
+
+      const repository = new PostgresDeadLetterRepository(mockDb);
+      const letter = await repository.markReplayed(row.id);
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).toContain("status = 'replayed'");
+      expect(sql).toContain('attempts = attempts + 1');
+      expect(params).toEqual([row.id]);
+      expect(letter).toMatchObject({ status: 'replayed', attempts: 4, replayed_at: '2026-01-16T09:00:00.000Z' });
+    });
+
+    it('should record a failed replay and keep the letter pending', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ ...row, attempts: 4, error: 'Unknown TOC code: ZY' }] });
+
+      const repository = new PostgresDeadLetterRepository(mockDb);
+      const letter = await repository.markReplayFailed(row.id, 'Unknown TOC code: ZY');
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).not.toContain('status =');
+      expect(params).toEqual([row.id, 'Unknown TOC code: ZY']);
+      expect(letter).toMatchObject({ status: 'pending', attempts: 4, error: 'Unknown TOC code: ZY' });
+    });
+  });
+
+  describe('PostgresProcessedEventRepository', () => {
+    const processed = {
+      event_id: 'evt-550e8400-e29b-41d4-a716-446655440001',
+      event_type: 'JourneyDelayConfirmed',
+      journey_id: '550e8400-e29b-41d4-a716-446655440010',
+      outcome: 'evaluated' as const,
+      evaluation_id: 'a1b2c3d4-0000-4000-8000-000000000001',
+      correlation_id: 'corr-550e8400-e29b-41d4-a716-446655440001',
+    };
+
+    it('should find a processed event with an ISO timestamp', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ ...processed, processed_at: new Date('2026-01-15T12:26:00Z') }] });
+
+      const repository = new PostgresProcessedEventRepository(mockDb);
+      const result = await repository.findByEventId(processed.event_id);
+
+      expect(result).toEqual({ ...processed, processed_at: '2026-01-15T12:26:00.000Z' });
+      expect(mockDb.query).toHaveBeenCalledWith(expect.stringContaining('processed_events'), [processed.event_id]);
+    });
+
+    it('should return null for an event not yet processed', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      const repository = new PostgresProcessedEventRepository(mockDb);
+
+      expect(await repository.findByEventId('evt-new')).toBeNull();
+    });
+
+    it('should find the latest event processed for a journey', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ ...processed, processed_at: new Date('2026-01-15T12:26:00Z') }] });
+
+      const repository = new PostgresProcessedEventRepository(mockDb);
+      const result = await repository.findLatestByJourneyId(processed.journey_id);
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).toContain('ORDER BY processed_at DESC');
+      expect(params).toEqual([processed.journey_id]);
+      expect(result?.processed_at).toBe('2026-01-15T12:26:00.000Z');
+    });
+
+    it('should record an event without swallowing a duplicate event_id', async () => {
+      mockDb.query.mockResolvedValue({ rows: [], rowCount: 1 });
+
+      const repository = new PostgresProcessedEventRepository(mockDb);
+      await repository.record(processed);
+
+      const [sql, params] = mockDb.query.mock.calls[0];
+      expect(sql).not.toContain('ON CONFLICT');
+      expect(params).toEqual([
+        processed.event_id,
+        'JourneyDelayConfirmed',
+        processed.journey_id,
+        'evaluated',
+        processed.evaluation_id,
+        processed.correlation_id,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the schema compatibility check
+ *
+ * Tests cover:
+ * - Each kind of breaking change, and the compatible counterparts, including
+ *   restricting keywords and array items
+ * - The current produced schemas against the published v1 snapshots
+ *   (tests/fixtures/schemas); a failure here means the change needs a new
+ *   schema_version
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { producedEventSchema } from '../../src/messaging/event-schemas.js';
+import { breakingChanges } from '../../src/messaging/schema-compatibility.js';
+
+import eligibilityEvaluatedV1 from '../fixtures/schemas/eligibility-evaluated.v1.schema.json';
+import eligibilitySupersededV1 from '../fixtures/schemas/eligibility-superseded.v1.schema.json';
+
+describe('Schema compatibility', () => {
+  const published = {
+    type: 'object',
+    required: ['journey_id', 'payload'],
+    properties: {
+      journey_id: { type: 'string' },
+      payload: {
+        type: 'object',
+        required: ['compensation_pence'],
+        properties: {
+          compensation_pence: { type: 'number' },
+          scheme: { enum: ['DR15', 'DR30'] },
+          reasons: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    },
+  };
+
+  const change = (payload: Record<string, unknown>, required = ['compensation_pence']) => ({
+    ...published,
+    properties: {
+      ...published.properties,
+      payload: { ...published.properties.payload, required, properties: { ...published.properties.payload.properties, ...payload } },
+    },
+  });
+
+  describe('breakingChanges', () => {
+    it('should accept an unchanged schema', () => {
+      expect(breakingChanges(published, published)).toEqual([]);
+    });
+
+    it('should accept new optional properties, new required properties and narrower types', () => {
+      const current = change(
+        { compensation_pence: { type: 'integer', minimum: 0 }, scheme: { enum: ['DR15'] }, currency: { type: 'string' } },
+        ['compensation_pence', 'currency']
+      );
+
+      expect(breakingChanges(published, current)).toEqual([]);
+    });
+
+    it('should reject a property that is no longer required', () => {
+      expect(breakingChanges(published, change({}, []))).toEqual(['payload: compensation_pence is no longer required']);
+    });
+
+    it('should reject a widened type', () => {
+      expect(breakingChanges(published, change({ compensation_pence: { type: ['number', 'null'] } })))
+        .toEqual(['payload.compensation_pence: type null not allowed by the published schema']);
+      expect(breakingChanges(published, change({ compensation_pence: {} })))
+        .toEqual(['payload.compensation_pence: type any not allowed by the published schema']);
+    });
+
+    it('should reject new enum values', () => {
+      expect(breakingChanges(published, change({ scheme: { enum: ['DR15', 'DR30', 'DR60'] } })))
+        .toEqual(['payload.scheme: value "DR60" not allowed by the published schema']);
+    });
+
+    it('should reject a removed property', () => {
+      const { reasons: _removed, ...properties } = published.properties.payload.properties;
+      const current = {
+        ...published,
+        properties: { ...published.properties, payload: { ...published.properties.payload, properties } },
+      };
+
+      expect(breakingChanges(published, current)).toEqual([
+        'payload.reasons: type any not allowed by the published schema',
+        'payload.reasons[]: type any not allowed by the published schema',
+      ]);
+    });
+
+    it('should check array items', () => {
+      expect(breakingChanges(published, change({ reasons: { type: 'array', items: { type: ['string', 'object'] } } })))
+        .toEqual(['payload.reasons[]: type object not allowed by the published schema']);
+    });
+
+    it('should reject a changed or removed restricting keyword', () => {
+      const restricted = change({ claim_deadline: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' } });
+      const counted = change({ reasons: { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: 10 } });
+
+      expect(breakingChanges(restricted, change({ claim_deadline: { type: 'string' } })))
+        .toEqual(['payload.claim_deadline: pattern "^\\\\d{4}-\\\\d{2}-\\\\d{2}$" removed']);
+      expect(breakingChanges(counted, change({ reasons: { type: 'array', items: { type: 'string', minLength: 0 }, maxItems: 20 } })))
+        .toEqual([
+          'payload.reasons: maxItems changed from 10 to 20',
+          'payload.reasons[]: minLength changed from 1 to 0',
+        ]);
+    });
+
+    it('should accept a new restricting keyword', () => {
+      expect(breakingChanges(published, change({ reasons: { type: 'array', items: { type: 'string', maxLength: 200 } } })))
+        .toEqual([]);
+    });
+
+    it('should reject array items that are no longer constrained', () => {
+      expect(breakingChanges(published, change({ reasons: { type: 'array' } })))
+        .toEqual(['payload.reasons[]: type any not allowed by the published schema']);
+    });
+
+    it('should reject opening a closed object', () => {
+      const closed = { ...published, additionalProperties: false };
+
+      expect(breakingChanges(closed, published)).toEqual(['(root): additional properties not allowed by the published schema']);
+    });
+
+    it('should reject a property added to a closed object', () => {
+      const closed = { ...published, additionalProperties: false };
+
+      expect(breakingChanges(closed, { ...closed, properties: { ...closed.properties, version: { type: 'integer' } } }))
+        .toEqual(['version: property not allowed by the published schema']);
+    });
+  });
+
+  describe('produced events', () => {
+    it.each([
+      ['EligibilityEvaluated', eligibilityEvaluatedV1],
+      ['EligibilitySuperseded', eligibilitySupersededV1],
+    ])('should keep %s compatible with its published schema', (eventType, snapshot) => {
+      expect(breakingChanges(snapshot, producedEventSchema(eventType))).toEqual([]);
+    });
+  });
+});
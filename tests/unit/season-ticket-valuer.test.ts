@@ -0,0 +1,140 @@
+/**
+ * Unit tests for SeasonTicketValuer
+ *
+ * Tests cover:
+ * - Weekly, monthly and annual seasons with default and configured divisors
+ * - Flexi seasons and carnets
+ * - Recognising season ticket types in free-text ticket_type
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  InvalidSeasonTicketDivisorsError,
+  InvalidSeasonTicketError,
+  SeasonTicketValuer,
+  seasonTicketTypeOf,
+} from '../../src/services/season-ticket-valuer.js';
+
+describe('SeasonTicketValuer', () => {
+  const valuer = new SeasonTicketValuer();
+
+  describe('seasonTicketTypeOf', () => {
+    it('should recognise season types however they are written', () => {
+      expect(seasonTicketTypeOf('Annual Season')).toBe('annual');
+      expect(seasonTicketTypeOf('weekly-season')).toBe('weekly');
+      expect(seasonTicketTypeOf(' flexi_season ')).toBe('flexi');
+      expect(seasonTicketTypeOf('Carnet')).toBe('carnet');
+    });
+
+    it('should return null for other tickets', () => {
+      expect(seasonTicketTypeOf('anytime_return')).toBeNull();
+      expect(seasonTicketTypeOf(undefined)).toBeNull();
+    });
+  });
+
+  describe('value', () => {
+    it('should divide an annual season by 464 journeys by default', () => {
+      const valuation = valuer.value({
+        ticket_type: 'annual_season',
+        season_price_pence: 464000,
+        rounding_mode: 'floor',
+      });
+
+      expect(valuation).toEqual({
+        season_type: 'annual',
+        season_price_pence: 464000,
+        journeys: 464,
+        per_journey_value_pence: 1000,
+        formula: '464000 pence / 464 journeys (annual season)',
+      });
+    });
+
+    it('should use the default weekly and monthly divisors', () => {
+      expect(valuer.value({ ticket_type: 'weekly_season', season_price_pence: 5000, rounding_mode: 'floor' }))
+        .toMatchObject({ journeys: 10, per_journey_value_pence: 500 });
+      expect(valuer.value({ ticket_type: 'monthly_season', season_price_pence: 19210, rounding_mode: 'floor' }))
+        .toMatchObject({ journeys: 40, per_journey_value_pence: 480 });
+    });
+
+    it('should round the per-journey value under the rounding mode', () => {
+      // 19210 / 40 = 480.25; 19230 / 40 = 480.75
+      expect(valuer.value({ ticket_type: 'monthly_season', season_price_pence: 19230, rounding_mode: 'half_up' }))
+        .toMatchObject({ per_journey_value_pence: 481 });
+      expect(valuer.value({ ticket_type: 'monthly_season', season_price_pence: 19230, rounding_mode: 'floor' }))
+        .toMatchObject({ per_journey_value_pence: 480 });
+    });
+
+    it('should apply configured divisors over the defaults', () => {
+      const valuation = valuer.value({
+        ticket_type: 'annual_season',
+        season_price_pence: 480000,
+        divisors: { annual: 480 },
+        rounding_mode: 'floor',
+      });
+
+      expect(valuation).toMatchObject({ journeys: 480, per_journey_value_pence: 1000 });
+    });
+
+    it('should value a flexi season by travel days and journeys per day', () => {
+      const valuation = valuer.value({
+        ticket_type: 'flexi_season',
+        season_price_pence: 12000,
+        season_ticket: { travel_days: 8 },
+        rounding_mode: 'floor',
+      });
+
+      expect(valuation).toMatchObject({
+        season_type: 'flexi',
+        journeys: 16,
+        per_journey_value_pence: 750,
+        formula: '12000 pence / 16 journeys (8 travel days x 2 journeys)',
+      });
+    });
+
+    it('should value a carnet by the journeys bought', () => {
+      const valuation = valuer.value({
+        ticket_type: 'carnet',
+        season_price_pence: 9000,
+        season_ticket: { journeys: 10 },
+        rounding_mode: 'floor',
+      });
+
+      expect(valuation).toMatchObject({ season_type: 'carnet', journeys: 10, per_journey_value_pence: 900 });
+    });
+
+    it('should reject a flexi season without travel days', () => {
+      expect(() => valuer.value({ ticket_type: 'flexi_season', season_price_pence: 12000, rounding_mode: 'floor' }))
+        .toThrow(InvalidSeasonTicketError);
+    });
+
+    it('should reject a carnet without journeys', () => {
+      expect(() => valuer.value({
+        ticket_type: 'carnet',
+        season_price_pence: 9000,
+        season_ticket: { travel_days: 5 },
+        rounding_mode: 'floor',
+      })).toThrow('carnet tickets need season_ticket.journeys');
+    });
+
+    it('should reject malformed divisors', () => {
+      expect(() => valuer.value({
+        ticket_type: 'weekly_season',
+        season_price_pence: 5000,
+        divisors: { weekly: 0 },
+        rounding_mode: 'floor',
+      })).toThrow(InvalidSeasonTicketDivisorsError);
+      expect(() => valuer.value({
+        ticket_type: 'weekly_season',
+        season_price_pence: 5000,
+        divisors: { fortnightly: 20 },
+        rounding_mode: 'floor',
+      })).toThrow('unknown key fortnightly');
+    });
+
+    it('should return null for a non-season ticket', () => {
+      expect(valuer.value({ ticket_type: 'anytime_single', season_price_pence: 5000, rounding_mode: 'floor' }))
+        .toBeNull();
+    });
+  });
+});
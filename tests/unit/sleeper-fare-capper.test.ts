@@ -401,4 +401,38 @@ describe('SleeperFareCapper', () => {
       expect(result.cap_applied).toBe(true);
     });
   });
+
+  // ============================================
+  // Cap Never Raises the Payout
+  // ============================================
+
+  describe('Seated equivalent above the sleeper fare', () => {
+    it('should keep the calculated compensation when the proportional cap is higher', async () => {
+      const request: SleeperCapRequest = {
+        route_code: 'PAD-PNZ',
+        sleeper_class: 'standard_berth',
+        sleeper_fare_pence: 5000,
+        calculated_compensation_pence: 2500, // 50% of 5000
+        journey_date: '2026-01-15',
+        compensation_percentage: 50,
+      };
+
+      mockSeatedFareRepository.findByRouteAndClass.mockResolvedValue({
+        route_code: 'PAD-PNZ',
+        sleeper_class: 'standard_berth',
+        seated_equivalent_pence: 8000,
+        effective_from: '2026-01-01',
+        effective_to: null,
+      });
+
+      const { SleeperFareCapper } = await import('../../src/services/sleeper-fare-capper.js');
+      const capper = new SleeperFareCapper(mockSeatedFareRepository);
+      const result = await capper.applyCap(request);
+
+      // 50% of 8000 = 4000 would raise the payout
+      expect(result.capped_compensation_pence).toBe(2500);
+      expect(result.cap_applied).toBe(false);
+      expect(result.seated_equivalent_pence).toBe(8000);
+    });
+  });
 });
@@ -0,0 +1,245 @@
+/**
+ * Unit tests for SpecialRulesInterpreter
+ *
+ * Tests cover:
+ * - Validation of toc_rulepacks.special_rules JSON
+ * - Station pair exclusions
+ * - Extra and alternative compensation bands
+ * - Ticket type treatment
+ * - Minimum payouts
+ * - Rules applied to a multi-TOC journey as a whole
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  SpecialRulesInterpreter,
+  SpecialRulesContext,
+} from '../../src/services/special-rules-interpreter.js';
+
+describe('SpecialRulesInterpreter', () => {
+  const interpreter = new SpecialRulesInterpreter();
+
+  const dr15Band30 = {
+    scheme_type: 'DR15',
+    delay_threshold_minutes: 30,
+    compensation_percentage: 50,
+  };
+
+  const baseContext: SpecialRulesContext = {
+    scheme: 'DR15',
+    delay_minutes: 35,
+    standard_band: dr15Band30,
+    origin_crs: 'KGX',
+    destination_crs: 'EDB',
+    ticket_type: 'single',
+  };
+
+  // ============================================
+  // Validation
+  // ============================================
+
+  describe('parse', () => {
+    it('should treat null as no special rules', () => {
+      expect(interpreter.parse(null)).toEqual([]);
+    });
+
+    it('should reject a non-array value', () => {
+      expect(() => interpreter.parse({ id: 'X' })).toThrow('Invalid special_rules: must be an array');
+    });
+
+    it('should reject unknown rule types', () => {
+      expect(() => interpreter.parse([{ id: 'BONUS', type: 'double_everything' }]))
+        .toThrow('rule BONUS has unknown type double_everything');
+    });
+
+    it('should reject lower-case or duplicate ids', () => {
+      expect(() => interpreter.parse([{ id: 'min', type: 'minimum_payout', minimum_pence: 100 }]))
+        .toThrow('id must be upper-case');
+      expect(() => interpreter.parse([
+        { id: 'MIN', type: 'minimum_payout', minimum_pence: 100 },
+        { id: 'MIN', type: 'minimum_payout', minimum_pence: 200 },
+      ])).toThrow('duplicate rule id MIN');
+    });
+
+    it('should reject bands with out-of-range percentages', () => {
+      expect(() => interpreter.parse([{
+        id: 'BANDS',
+        type: 'compensation_bands',
+        mode: 'extend',
+        bands: [{ delay_threshold_minutes: 2, compensation_percentage: 150 }],
+      }])).toThrow('compensation_percentage must be between 0 and 100');
+    });
+
+    it('should require exactly one of exclude or compensation_percentage on ticket_type rules', () => {
+      expect(() => interpreter.parse([{ id: 'CARNET', type: 'ticket_type', ticket_types: ['carnet'] }]))
+        .toThrow('needs exactly one of exclude or compensation_percentage');
+    });
+
+    it('should accept a valid rule set', () => {
+      const rules = interpreter.parse([
+        { id: 'NO_SHUTTLE', type: 'exclude_station_pair', origin_crs: 'KGX', destination_crs: 'EDB' },
+        { id: 'MIN_PAYOUT', type: 'minimum_payout', minimum_pence: 200 },
+      ]);
+
+      expect(rules).toHaveLength(2);
+    });
+  });
+
+  // ============================================
+  // Application
+  // ============================================
+
+  describe('apply', () => {
+    it('should leave the standard band untouched with no rules', () => {
+      const outcome = interpreter.apply([], baseContext);
+
+      expect(outcome.excluded).toBe(false);
+      expect(outcome.band).toEqual(dr15Band30);
+      expect(outcome.applied_rules).toEqual([]);
+    });
+
+    it('should exclude a matching station pair', () => {
+      const rules = interpreter.parse([{
+        id: 'KGX_EDB',
+        type: 'exclude_station_pair',
+        origin_crs: 'KGX',
+        destination_crs: 'EDB',
+        reason: 'Covered by separate compensation scheme',
+      }]);
+
+      const outcome = interpreter.apply(rules, baseContext);
+
+      expect(outcome.excluded).toBe(true);
+      expect(outcome.exclusion_reason).toBe('Covered by separate compensation scheme');
+      expect(outcome.applied_rules).toEqual(['SPECIAL_KGX_EDB']);
+    });
+
+    it('should only match the reverse direction when bidirectional', () => {
+      const oneWay = interpreter.parse([
+        { id: 'EDB_KGX', type: 'exclude_station_pair', origin_crs: 'EDB', destination_crs: 'KGX' },
+      ]);
+      const bothWays = interpreter.parse([
+        { id: 'EDB_KGX', type: 'exclude_station_pair', origin_crs: 'EDB', destination_crs: 'KGX', bidirectional: true },
+      ]);
+
+      expect(interpreter.apply(oneWay, baseContext).excluded).toBe(false);
+      expect(interpreter.apply(bothWays, baseContext).excluded).toBe(true);
+    });
+
+    it('should add a lower band in extend mode', () => {
+      const rules = interpreter.parse([{
+        id: 'TEN_MINUTE',
+        type: 'compensation_bands',
+        mode: 'extend',
+        bands: [{ delay_threshold_minutes: 10, compensation_percentage: 10 }],
+      }]);
+
+      const outcome = interpreter.apply(rules, { ...baseContext, delay_minutes: 12, standard_band: null });
+
+      expect(outcome.band).toEqual({ scheme_type: 'DR15', delay_threshold_minutes: 10, compensation_percentage: 10 });
+      expect(outcome.applied_rules).toEqual(['SPECIAL_TEN_MINUTE']);
+    });
+
+    it('should keep the higher standard band in extend mode', () => {
+      const rules = interpreter.parse([{
+        id: 'TEN_MINUTE',
+        type: 'compensation_bands',
+        mode: 'extend',
+        bands: [{ delay_threshold_minutes: 10, compensation_percentage: 10 }],
+      }]);
+
+      expect(interpreter.apply(rules, baseContext).band).toEqual(dr15Band30);
+    });
+
+    it('should ignore the standard band in replace mode', () => {
+      const rules = interpreter.parse([{
+        id: 'OWN_BANDS',
+        type: 'compensation_bands',
+        mode: 'replace',
+        bands: [
+          { delay_threshold_minutes: 20, compensation_percentage: 40 },
+          { delay_threshold_minutes: 60, compensation_percentage: 100 },
+        ],
+      }]);
+
+      const outcome = interpreter.apply(rules, baseContext);
+
+      expect(outcome.band?.compensation_percentage).toBe(40);
+    });
+
+    it('should exclude configured ticket types', () => {
+      const rules = interpreter.parse([
+        { id: 'NO_CARNET', type: 'ticket_type', ticket_types: ['carnet'], exclude: true },
+      ]);
+
+      const outcome = interpreter.apply(rules, { ...baseContext, ticket_type: 'Carnet' });
+
+      expect(outcome.excluded).toBe(true);
+      expect(outcome.exclusion_reason).toBe('Ticket type Carnet is excluded from delay repay');
+    });
+
+    it('should override the percentage for configured ticket types', () => {
+      const rules = interpreter.parse([
+        { id: 'ADVANCE_25', type: 'ticket_type', ticket_types: ['advance'], compensation_percentage: 25 },
+      ]);
+
+      const outcome = interpreter.apply(rules, { ...baseContext, ticket_type: 'advance' });
+
+      expect(outcome.compensation_percentage_override).toBe(25);
+      expect(outcome.applied_rules).toEqual(['SPECIAL_ADVANCE_25']);
+    });
+
+    it('should not apply payout rules when no band qualifies', () => {
+      const rules = interpreter.parse([{ id: 'MIN_PAYOUT', type: 'minimum_payout', minimum_pence: 200 }]);
+
+      const outcome = interpreter.apply(rules, { ...baseContext, delay_minutes: 5, standard_band: null });
+
+      expect(outcome.minimum_payout_pence).toBeUndefined();
+      expect(outcome.applied_rules).toEqual([]);
+    });
+
+    it('should report the minimum payout for a qualifying delay', () => {
+      const rules = interpreter.parse([{ id: 'MIN_PAYOUT', type: 'minimum_payout', minimum_pence: 200 }]);
+
+      const outcome = interpreter.apply(rules, baseContext);
+
+      expect(outcome.minimum_payout_pence).toBe(200);
+      expect(outcome.applied_rules).toEqual(['SPECIAL_MIN_PAYOUT']);
+    });
+  });
+
+  describe('applyToJourney', () => {
+    const rules = interpreter.parse([
+      { id: 'NO_KGX_EDB', type: 'exclude_station_pair', origin_crs: 'KGX', destination_crs: 'EDB' },
+      { id: 'EXTRA_BAND', type: 'compensation_bands', mode: 'extend', bands: [{ delay_threshold_minutes: 30, compensation_percentage: 75 }] },
+      { id: 'MIN_PAYOUT', type: 'minimum_payout', minimum_pence: 200 },
+    ]);
+    const { standard_band, ...journeyContext } = baseContext;
+
+    it('should exclude the journey between excluded stations', () => {
+      const outcome = interpreter.applyToJourney(rules, journeyContext, true);
+
+      expect(outcome.excluded).toBe(true);
+      expect(outcome.applied_rules).toEqual(['SPECIAL_NO_KGX_EDB']);
+    });
+
+    it('should apply only the minimum payout to a qualifying journey', () => {
+      const outcome = interpreter.applyToJourney(rules, { ...journeyContext, origin_crs: 'YRK' }, true);
+
+      expect(outcome).toEqual({
+        excluded: false,
+        band: null,
+        minimum_payout_pence: 200,
+        applied_rules: ['SPECIAL_MIN_PAYOUT'],
+      });
+    });
+
+    it('should not apply the minimum payout when no segment qualified', () => {
+      const outcome = interpreter.applyToJourney(rules, { ...journeyContext, origin_crs: 'YRK' }, false);
+
+      expect(outcome.minimum_payout_pence).toBeUndefined();
+      expect(outcome.applied_rules).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for TicketProductValuer
+ *
+ * Tests cover:
+ * - Per-day and per-journey valuation of Rover and Ranger products
+ * - Products excluded from Delay Repay
+ * - Unknown, expired and misconfigured products
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import {
+  InvalidTicketProductError,
+  TicketProduct,
+  TicketProductValuer,
+  UnknownTicketProductError,
+} from '../../src/services/ticket-product-valuer.js';
+
+describe('TicketProductValuer', () => {
+  let mockTicketProductRepository: {
+    findByCode: ReturnType<typeof vi.fn>;
+  };
+
+  const product = (overrides: Partial<TicketProduct> = {}): TicketProduct => ({
+    product_code: 'ALLLINE7',
+    product_name: 'All Line Rover (7 days)',
+    valuation_basis: 'per_day',
+    travel_days: 7,
+    journeys_per_day: null,
+    exclusion_reason: null,
+    effective_from: '2026-01-01',
+    effective_to: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockTicketProductRepository = {
+      findByCode: vi.fn(),
+    };
+  });
+
+  it('should value a per-day product at the fare divided by its travel days', async () => {
+    mockTicketProductRepository.findByCode.mockResolvedValue(product());
+    const valuer = new TicketProductValuer(mockTicketProductRepository);
+
+    const valuation = await valuer.value({
+      product_code: 'ALLLINE7',
+      fare_pence: 59500,
+      journey_date: '2026-01-15',
+      rounding_mode: 'floor',
+    });
+
+    expect(mockTicketProductRepository.findByCode).toHaveBeenCalledWith('ALLLINE7', '2026-01-15');
+    expect(valuation).toEqual({
+      product_code: 'ALLLINE7',
+      product_name: 'All Line Rover (7 days)',
+      valuation_basis: 'per_day',
+      excluded: false,
+      fare_pence: 59500,
+      divisor: 7,
+      value_pence: 8500,
+      formula: '59500 pence / 7 travel days',
+    });
+  });
+
+  it('should value a per-journey product over travel days x journeys per day', async () => {
+    mockTicketProductRepository.findByCode.mockResolvedValue(product({
+      product_code: 'HIGHRNG4',
+      product_name: 'Highland Rover (4 days in 8)',
+      valuation_basis: 'per_journey',
+      travel_days: 4,
+      journeys_per_day: 2,
+    }));
+    const valuer = new TicketProductValuer(mockTicketProductRepository);
+
+    const valuation = await valuer.value({
+      product_code: 'HIGHRNG4',
+      fare_pence: 9999,
+      journey_date: '2026-01-15',
+      rounding_mode: 'half_up',
+    });
+
+    // 9999 / 8 = 1249.875
+    expect(valuation).toMatchObject({
+      divisor: 8,
+      value_pence: 1250,
+      formula: '9999 pence / (4 travel days x 2 journeys)',
+    });
+  });
+
+  it('should say why an excluded product is not covered', async () => {
+    mockTicketProductRepository.findByCode.mockResolvedValue(product({
+      product_code: 'RANGERDAY',
+      product_name: 'Day Ranger',
+      valuation_basis: 'excluded',
+      travel_days: null,
+      exclusion_reason: 'Day Rangers are sold under local conditions without Delay Repay',
+    }));
+    const valuer = new TicketProductValuer(mockTicketProductRepository);
+
+    const valuation = await valuer.value({
+      product_code: 'RANGERDAY',
+      fare_pence: 1500,
+      journey_date: '2026-01-15',
+      rounding_mode: 'floor',
+    });
+
+    expect(valuation).toEqual({
+      product_code: 'RANGERDAY',
+      product_name: 'Day Ranger',
+      valuation_basis: 'excluded',
+      excluded: true,
+      exclusion_reason: 'Day Rangers are sold under local conditions without Delay Repay',
+      fare_pence: 1500,
+    });
+  });
+
+  it('should give a default reason when an excluded product has none stored', async () => {
+    mockTicketProductRepository.findByCode.mockResolvedValue(product({
+      valuation_basis: 'excluded',
+      exclusion_reason: null,
+    }));
+    const valuer = new TicketProductValuer(mockTicketProductRepository);
+
+    const valuation = await valuer.value({
+      product_code: 'ALLLINE7',
+      fare_pence: 59500,
+      journey_date: '2026-01-15',
+      rounding_mode: 'floor',
+    });
+
+    expect(valuation.exclusion_reason).toBe('All Line Rover (7 days) is not covered by Delay Repay');
+  });
+
+  it('should reject an unknown product', async () => {
+    mockTicketProductRepository.findByCode.mockResolvedValue(null);
+    const valuer = new TicketProductValuer(mockTicketProductRepository);
+
+    await expect(valuer.value({
+      product_code: 'NOPE',
+      fare_pence: 1000,
+      journey_date: '2026-01-15',
+      rounding_mode: 'floor',
+    })).rejects.toThrow(new UnknownTicketProductError('NOPE'));
+  });
+
+  it('should treat a product whose rule expired before the journey as unknown', async () => {
+    mockTicketProductRepository.findByCode.mockResolvedValue(product({ effective_to: '2026-01-15' }));
+    const valuer = new TicketProductValuer(mockTicketProductRepository);
+
+    await expect(valuer.value({
+      product_code: 'ALLLINE7',
+      fare_pence: 59500,
+      journey_date: '2026-01-15',
+      rounding_mode: 'floor',
+    })).rejects.toBeInstanceOf(UnknownTicketProductError);
+  });
+
+  it('should reject a per-journey product without journeys per day', async () => {
+    mockTicketProductRepository.findByCode.mockResolvedValue(product({ valuation_basis: 'per_journey' }));
+    const valuer = new TicketProductValuer(mockTicketProductRepository);
+
+    await expect(valuer.value({
+      product_code: 'ALLLINE7',
+      fare_pence: 59500,
+      journey_date: '2026-01-15',
+      rounding_mode: 'floor',
+    })).rejects.toThrow(new InvalidTicketProductError('ALLLINE7', 'journeys_per_day must be at least 1'));
+  });
+});